@@ -0,0 +1,41 @@
+-- CreateTable: Breadcrumbs GPS por viaje
+CREATE TABLE IF NOT EXISTS "trip_locations" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION,
+    "heading" DOUBLE PRECISION,
+    "speed" DOUBLE PRECISION,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable: Última posición conocida por conductor
+CREATE TABLE IF NOT EXISTS "driver_locations" (
+    "driverId" TEXT NOT NULL,
+    "tripId" TEXT,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION,
+    "heading" DOUBLE PRECISION,
+    "speed" DOUBLE PRECISION,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "driver_locations_pkey" PRIMARY KEY ("driverId")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "trip_locations_tripId_recordedAt_idx" ON "trip_locations"("tripId", "recordedAt");
+CREATE INDEX IF NOT EXISTS "trip_locations_driverId_idx" ON "trip_locations"("driverId");
+CREATE INDEX IF NOT EXISTS "driver_locations_recordedAt_idx" ON "driver_locations"("recordedAt");
+CREATE INDEX IF NOT EXISTS "driver_locations_latitude_longitude_idx" ON "driver_locations"("latitude", "longitude");
+
+-- AddForeignKey
+ALTER TABLE "trip_locations" ADD CONSTRAINT "trip_locations_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "trip_locations" ADD CONSTRAINT "trip_locations_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "driver_locations" ADD CONSTRAINT "driver_locations_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum: DispatchStrategy
+DO $$ BEGIN
+ CREATE TYPE "DispatchStrategy" AS ENUM('BROADCAST', 'WATERFALL', 'BATCHED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable: Agregar estado del despacho a trips
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "dispatchStrategy" "DispatchStrategy";
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "dispatchWave" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "dispatchRadiusKm" DOUBLE PRECISION;
+
+-- CreateTable: Configuración operativa por país, versionada aparte de las tarifas
+CREATE TABLE IF NOT EXISTS "country_settings_versions" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "config" JSONB NOT NULL,
+    "notes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "country_settings_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "country_settings_versions_country_version_key" ON "country_settings_versions"("country", "version");
@@ -0,0 +1,34 @@
+-- CreateEnum: JobStatus
+DO $$ BEGIN
+ CREATE TYPE "JobStatus" AS ENUM('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable: jobs (tareas en segundo plano persistidas)
+CREATE TABLE IF NOT EXISTS "jobs" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "key" TEXT,
+    "payload" JSONB,
+    "status" "JobStatus" NOT NULL DEFAULT 'PENDING',
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "intervalSeconds" INTEGER,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "lastError" TEXT,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastDurationMs" INTEGER,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex: Índices para jobs
+CREATE UNIQUE INDEX IF NOT EXISTS "jobs_key_key" ON "jobs"("key");
+CREATE INDEX IF NOT EXISTS "jobs_status_runAt_idx" ON "jobs"("status", "runAt");
+CREATE INDEX IF NOT EXISTS "jobs_name_idx" ON "jobs"("name");
@@ -0,0 +1,2 @@
+-- AlterTable: Confirmación del conductor para viajes programados
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "driverConfirmedAt" TIMESTAMP(3);
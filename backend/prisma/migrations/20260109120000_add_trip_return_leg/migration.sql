@@ -0,0 +1,12 @@
+-- AlterTable: Vincular el viaje de vuelta con su viaje de ida
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "outboundTripId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "trips_outboundTripId_key" ON "trips"("outboundTripId");
+
+-- AddForeignKey
+DO $$ BEGIN
+ ALTER TABLE "trips" ADD CONSTRAINT "trips_outboundTripId_fkey" FOREIGN KEY ("outboundTripId") REFERENCES "trips"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,23 @@
+-- CreateTable: Paradas intermedias por viaje
+CREATE TABLE IF NOT EXISTS "trip_stops" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "placeId" TEXT,
+    "reachedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_stops_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable: Cargo por paradas en el precio del viaje
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "stopsPrice" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "trip_stops_tripId_sequence_key" ON "trip_stops"("tripId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "trip_stops" ADD CONSTRAINT "trip_stops_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
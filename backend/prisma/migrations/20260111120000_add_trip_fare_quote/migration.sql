@@ -0,0 +1,5 @@
+-- AlterTable: Cotización firmada con la que se creó el viaje (auditoría y disputas)
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "fareQuoteId" TEXT;
+
+-- CreateIndex: Una cotización solo puede crear un viaje
+CREATE UNIQUE INDEX IF NOT EXISTS "trips_fareQuoteId_key" ON "trips"("fareQuoteId");
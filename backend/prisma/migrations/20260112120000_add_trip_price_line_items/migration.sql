@@ -0,0 +1,2 @@
+-- AlterTable: Desglose de reglas de precio aplicadas al viaje
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "priceLineItems" JSONB;
@@ -0,0 +1,20 @@
+-- CreateTable: Celdas de tarifa dinámica (demanda vs oferta por zona)
+CREATE TABLE IF NOT EXISTS "surge_cells" (
+    "id" TEXT NOT NULL,
+    "country" TEXT,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "demand" INTEGER NOT NULL DEFAULT 0,
+    "supply" INTEGER NOT NULL DEFAULT 0,
+    "computedMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "overrideMultiplier" DOUBLE PRECISION,
+    "overrideUntil" TIMESTAMP(3),
+    "overriddenBy" TEXT,
+    "notifiedAt" TIMESTAMP(3),
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "surge_cells_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "surge_cells_computedAt_idx" ON "surge_cells"("computedAt");
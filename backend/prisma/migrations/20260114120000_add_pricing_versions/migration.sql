@@ -0,0 +1,35 @@
+-- CreateEnum: PricingVersionStatus
+DO $$ BEGIN
+ CREATE TYPE "PricingVersionStatus" AS ENUM('DRAFT', 'PUBLISHED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable: Versiones de tarifas por país
+CREATE TABLE IF NOT EXISTS "pricing_versions" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "PricingVersionStatus" NOT NULL DEFAULT 'DRAFT',
+    "config" JSONB NOT NULL,
+    "notes" TEXT,
+    "effectiveFrom" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "publishedBy" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pricing_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable: Versión de tarifas con la que se cotizó el viaje
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "pricingVersionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "pricing_versions_country_version_key" ON "pricing_versions"("country", "version");
+CREATE INDEX IF NOT EXISTS "pricing_versions_country_status_effectiveFrom_idx" ON "pricing_versions"("country", "status", "effectiveFrom");
+CREATE INDEX IF NOT EXISTS "trips_pricingVersionId_idx" ON "trips"("pricingVersionId");
+
+-- AddForeignKey
+ALTER TABLE "trips" ADD CONSTRAINT "trips_pricingVersionId_fkey" FOREIGN KEY ("pricingVersionId") REFERENCES "pricing_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum: PaymentType
+DO $$ BEGIN
+ CREATE TYPE "PaymentType" AS ENUM('TRIP_FARE', 'CANCELLATION_FEE', 'DRIVER_PENALTY');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable: Tipo de pago (tarifa del viaje, cargo por cancelación o penalización al conductor)
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "type" "PaymentType" NOT NULL DEFAULT 'TRIP_FARE';
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "payments_userId_type_status_idx" ON "payments"("userId", "type", "status");
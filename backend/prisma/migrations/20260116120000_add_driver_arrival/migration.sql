@@ -0,0 +1,5 @@
+-- AlterTable: Llegada del conductor al origen y no presentación del pasajero
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "driverArrivedAt" TIMESTAMP(3);
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "noShowEligibleAt" TIMESTAMP(3);
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "noShowAt" TIMESTAMP(3);
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "noShowEvidence" JSONB;
@@ -0,0 +1,31 @@
+-- CreateEnum: TripActorRole
+DO $$ BEGIN
+ CREATE TYPE "TripActorRole" AS ENUM('PASSENGER', 'DRIVER', 'ADMIN', 'SYSTEM');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable: Historial de cambios de estado de los viajes
+CREATE TABLE IF NOT EXISTS "trip_events" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "fromStatus" "TripStatus",
+    "toStatus" "TripStatus" NOT NULL,
+    "actorId" TEXT,
+    "actorRole" "TripActorRole" NOT NULL,
+    "reason" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "trip_events_tripId_createdAt_idx" ON "trip_events"("tripId", "createdAt");
+CREATE INDEX IF NOT EXISTS "trip_events_actorId_idx" ON "trip_events"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "trip_events" ADD CONSTRAINT "trip_events_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "trip_events" ADD CONSTRAINT "trip_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
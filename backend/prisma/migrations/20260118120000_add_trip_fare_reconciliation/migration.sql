@@ -0,0 +1,19 @@
+-- CreateEnum: FareReviewStatus
+DO $$ BEGIN
+ CREATE TYPE "FareReviewStatus" AS ENUM('PENDING', 'RESOLVED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable: Recorrido real y ajuste de la tarifa al completar el viaje
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "quotedPrice" DOUBLE PRECISION;
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "actualDistance" DOUBLE PRECISION;
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "actualDuration" DOUBLE PRECISION;
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "fareAdjustment" JSONB;
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "fareReviewStatus" "FareReviewStatus";
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "fareReviewedAt" TIMESTAMP(3);
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "fareReviewedBy" TEXT;
+ALTER TABLE "trips" ADD COLUMN IF NOT EXISTS "fareReviewNote" TEXT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "trips_fareReviewStatus_idx" ON "trips"("fareReviewStatus");
@@ -0,0 +1,30 @@
+-- CreateEnum: GeofenceStage
+DO $$ BEGIN
+ CREATE TYPE "GeofenceStage" AS ENUM('START', 'COMPLETION');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable: Autorizaciones para iniciar o completar un viaje fuera de la geocerca
+CREATE TABLE IF NOT EXISTS "geofence_overrides" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "stage" "GeofenceStage" NOT NULL,
+    "grantedById" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "driverLatitude" DOUBLE PRECISION,
+    "driverLongitude" DOUBLE PRECISION,
+    "distanceMeters" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "geofence_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "geofence_overrides_tripId_stage_idx" ON "geofence_overrides"("tripId", "stage");
+CREATE INDEX IF NOT EXISTS "geofence_overrides_grantedById_idx" ON "geofence_overrides"("grantedById");
+
+-- AddForeignKey
+ALTER TABLE "geofence_overrides" ADD CONSTRAINT "geofence_overrides_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "geofence_overrides" ADD CONSTRAINT "geofence_overrides_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateEnum: SafetyAlertType
+DO $$ BEGIN
+ CREATE TYPE "SafetyAlertType" AS ENUM('ROUTE_DEVIATION', 'LONG_STOP', 'GPS_LOST');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateEnum: SafetyAlertStatus
+DO $$ BEGIN
+ CREATE TYPE "SafetyAlertStatus" AS ENUM('AWAITING_PASSENGER', 'PASSENGER_OK', 'ESCALATED', 'RESOLVED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateEnum: SafetyAlertResponse
+DO $$ BEGIN
+ CREATE TYPE "SafetyAlertResponse" AS ENUM('OK', 'HELP');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable: Alertas de seguridad de viajes en curso
+CREATE TABLE IF NOT EXISTS "trip_safety_alerts" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "type" "SafetyAlertType" NOT NULL,
+    "status" "SafetyAlertStatus" NOT NULL DEFAULT 'AWAITING_PASSENGER',
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "details" JSONB NOT NULL,
+    "passengerResponse" "SafetyAlertResponse",
+    "respondedAt" TIMESTAMP(3),
+    "escalatedAt" TIMESTAMP(3),
+    "snapshot" JSONB,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_safety_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "trip_safety_alerts_tripId_type_idx" ON "trip_safety_alerts"("tripId", "type");
+CREATE INDEX IF NOT EXISTS "trip_safety_alerts_status_createdAt_idx" ON "trip_safety_alerts"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "trip_safety_alerts" ADD CONSTRAINT "trip_safety_alerts_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "trip_safety_alerts" ADD CONSTRAINT "trip_safety_alerts_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
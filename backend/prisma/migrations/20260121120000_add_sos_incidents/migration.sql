@@ -0,0 +1,53 @@
+-- CreateEnum: SosIncidentStatus
+DO $$ BEGIN
+ CREATE TYPE "SosIncidentStatus" AS ENUM('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable: Contactos de emergencia de los usuarios
+CREATE TABLE IF NOT EXISTS "emergency_contacts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "relationship" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "emergency_contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable: Incidentes SOS de viajes
+CREATE TABLE IF NOT EXISTS "sos_incidents" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reporterRole" "TripActorRole" NOT NULL,
+    "status" "SosIncidentStatus" NOT NULL DEFAULT 'OPEN',
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "accuracy" DOUBLE PRECISION,
+    "message" TEXT,
+    "snapshot" JSONB NOT NULL,
+    "contactDeliveries" JSONB,
+    "acknowledgedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "handledById" TEXT,
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sos_incidents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "emergency_contacts_userId_idx" ON "emergency_contacts"("userId");
+CREATE INDEX IF NOT EXISTS "sos_incidents_tripId_idx" ON "sos_incidents"("tripId");
+CREATE INDEX IF NOT EXISTS "sos_incidents_status_createdAt_idx" ON "sos_incidents"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "emergency_contacts" ADD CONSTRAINT "emergency_contacts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "sos_incidents" ADD CONSTRAINT "sos_incidents_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "sos_incidents" ADD CONSTRAINT "sos_incidents_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "sos_incidents" ADD CONSTRAINT "sos_incidents_handledById_fkey" FOREIGN KEY ("handledById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
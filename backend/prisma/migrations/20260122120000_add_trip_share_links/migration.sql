@@ -0,0 +1,22 @@
+-- CreateTable: Enlaces públicos de seguimiento de viajes
+CREATE TABLE IF NOT EXISTS "trip_share_links" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "trip_share_links_token_key" ON "trip_share_links"("token");
+CREATE INDEX IF NOT EXISTS "trip_share_links_tripId_idx" ON "trip_share_links"("tripId");
+
+-- AddForeignKey
+ALTER TABLE "trip_share_links" ADD CONSTRAINT "trip_share_links_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "trip_share_links" ADD CONSTRAINT "trip_share_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
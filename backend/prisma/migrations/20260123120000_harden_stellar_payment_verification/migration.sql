@@ -0,0 +1,29 @@
+-- AlterTable: Cuenta de origen y cierre del ledger de los pagos Stellar verificados
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "sourceAccount" TEXT;
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "ledgerClosedAt" TIMESTAMP(3);
+
+-- Normalizar los hashes ya registrados (la verificación los guarda en minúsculas)
+UPDATE "payments" SET "transactionId" = LOWER("transactionId") WHERE "transactionId" IS NOT NULL;
+
+-- Hashes repetidos (antes no se impedía reutilizarlos): se conserva el pago más antiguo y en los demás
+-- se quita el hash, que queda en paymentMethodDetails (duplicateTransactionId) para revisarlos
+WITH "ranked" AS (
+  SELECT "id",
+         FIRST_VALUE("id") OVER "same_hash" AS "keptPaymentId",
+         ROW_NUMBER() OVER "same_hash" AS "position"
+  FROM "payments"
+  WHERE "transactionId" IS NOT NULL
+  WINDOW "same_hash" AS (PARTITION BY "transactionId" ORDER BY "createdAt", "id")
+)
+UPDATE "payments" AS "p"
+SET "paymentMethodDetails" = (
+      CASE WHEN jsonb_typeof("p"."paymentMethodDetails") = 'object' THEN "p"."paymentMethodDetails" ELSE jsonb_strip_nulls(jsonb_build_object('details', "p"."paymentMethodDetails")) END
+    ) || jsonb_build_object('duplicateTransactionId', "p"."transactionId", 'duplicateOfPaymentId', "r"."keptPaymentId"),
+    "failureReason" = COALESCE("p"."failureReason" || ' | ', '') || 'Hash de transacción ya usado por el pago ' || "r"."keptPaymentId",
+    "transactionId" = NULL
+FROM "ranked" AS "r"
+WHERE "p"."id" = "r"."id" AND "r"."position" > 1;
+
+-- CreateIndex: Una transacción solo puede saldar un pago
+DROP INDEX IF EXISTS "payments_transactionId_idx";
+CREATE UNIQUE INDEX IF NOT EXISTS "payments_transactionId_key" ON "payments"("transactionId");
@@ -0,0 +1,8 @@
+-- CreateTable: Avance del observador de pagos Stellar por cuenta
+CREATE TABLE IF NOT EXISTS "stellar_payment_cursors" (
+    "account" TEXT NOT NULL,
+    "cursor" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stellar_payment_cursors_pkey" PRIMARY KEY ("account")
+);
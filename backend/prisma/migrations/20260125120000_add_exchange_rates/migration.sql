@@ -0,0 +1,13 @@
+-- CreateTable: Historial de tasas de cambio
+CREATE TABLE IF NOT EXISTS "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "exchange_rates_currency_fetchedAt_idx" ON "exchange_rates"("currency", "fetchedAt");
@@ -0,0 +1,3 @@
+-- AlterTable: Asset Stellar con que cobra el conductor
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "settlementAssetCode" TEXT;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "settlementAssetIssuer" TEXT;
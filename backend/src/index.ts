@@ -102,6 +102,8 @@ import onboardingRoutes from './routes/onboardingRoutes'
 import uploadRoutes from './routes/uploadRoutes'
 import paymentRoutes from './routes/paymentRoutes'
 import walletRoutes from './routes/walletRoutes'
+import safetyRoutes from './routes/safetyRoutes'
+import shareRoutes from './routes/shareRoutes'
 app.use('/api/auth', authRoutes)
 app.use('/api/admin', adminRoutes)
 app.use('/api/currency', currencyRoutes)
@@ -116,6 +118,8 @@ app.use('/api/onboarding', onboardingRoutes)
 app.use('/api/upload', uploadRoutes)
 app.use('/api/payments', paymentRoutes)
 app.use('/api/wallet', walletRoutes)
+app.use('/api/safety', safetyRoutes)
+app.use('/api/share', shareRoutes)
 // app.use('/api/users', userRoutes)
 // app.use('/api/whatsapp', whatsappRoutes)
 
@@ -137,6 +141,15 @@ initializeStorage(5, 2000).then(() => {
   console.warn('⚠️  Storage no disponible:', error.message)
 })
 
+// Iniciar jobs en segundo plano (se puede desactivar con JOBS_ENABLED=false)
+import { initializeJobs } from './jobs'
+import { stopJobWorker } from './services/jobService'
+if (process.env.JOBS_ENABLED !== 'false') {
+  initializeJobs().catch((error) => {
+    console.warn('⚠️  No se pudieron iniciar los jobs:', error.message)
+  })
+}
+
 // Iniciar servidor
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`🚀 Servidor corriendo en http://0.0.0.0:${PORT}`)
@@ -147,6 +160,7 @@ app.listen(PORT, '0.0.0.0', () => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM recibido, cerrando servidor...')
+  stopJobWorker()
   await prisma.$disconnect()
   process.exit(0)
 })
@@ -0,0 +1,67 @@
+/**
+ * Registro de jobs en segundo plano
+ * Define los handlers y las tareas recurrentes de mantenimiento
+ * (expiración de alertas, notificaciones, plazos de viajes, tarifa dinámica, seguridad de viajes,
+ * cobros Stellar, tasas de cambio y limpieza de jobs terminados)
+ * y los jobs puntuales de viajes programados y de olas de despacho
+ */
+
+import {
+  purgeFinishedJobs,
+  registerJobHandler,
+  scheduleRecurringJob,
+  startJobWorker,
+} from '../services/jobService'
+import { DISPATCH_WAVE_JOB, expireAlerts, runDispatchWave } from '../services/driverAlertService'
+import { deleteExpiredNotifications } from '../services/notificationService'
+import { sweepExpiredAcceptanceDeadlines } from '../services/tripService'
+import { sweepExpiredStartPins, sweepExpiredPaymentRequests } from '../services/driverService'
+import { recomputeSurgeMultipliers } from '../services/surgeService'
+import { monitorTripSafety } from '../services/tripSafetyService'
+import { watchStellarPayments } from '../services/stellarPaymentService'
+import { refreshExchangeRates } from '../services/exchangeRateService'
+import {
+  SCHEDULED_TRIP_JOBS,
+  dispatchScheduledTrip,
+  sendTripReminder,
+  enforceDriverConfirmation,
+} from '../services/scheduledTripService'
+
+/**
+ * Tareas recurrentes: nombre, intervalo (segundos) y función
+ */
+const RECURRING_JOBS: { name: string; intervalSeconds: number; run: () => Promise<unknown> }[] = [
+  { name: 'expire-driver-alerts', intervalSeconds: 30, run: expireAlerts },
+  { name: 'sweep-acceptance-deadlines', intervalSeconds: 60, run: sweepExpiredAcceptanceDeadlines },
+  { name: 'sweep-start-pins', intervalSeconds: 5 * 60, run: sweepExpiredStartPins },
+  { name: 'sweep-payment-requests', intervalSeconds: 60, run: sweepExpiredPaymentRequests },
+  { name: 'recompute-surge', intervalSeconds: 60, run: recomputeSurgeMultipliers },
+  { name: 'monitor-trip-safety', intervalSeconds: 60, run: () => monitorTripSafety() },
+  { name: 'watch-stellar-payments', intervalSeconds: 15, run: watchStellarPayments },
+  { name: 'refresh-exchange-rates', intervalSeconds: 5 * 60, run: refreshExchangeRates },
+  { name: 'delete-expired-notifications', intervalSeconds: 60 * 60, run: deleteExpiredNotifications },
+  { name: 'purge-finished-jobs', intervalSeconds: 6 * 60 * 60, run: purgeFinishedJobs },
+]
+
+/**
+ * Registra los handlers, programa las tareas recurrentes e inicia el worker
+ */
+export async function initializeJobs() {
+  for (const job of RECURRING_JOBS) {
+    registerJobHandler(job.name, () => job.run())
+  }
+
+  // Jobs de viajes programados (se programan al crear el viaje)
+  registerJobHandler(SCHEDULED_TRIP_JOBS.DISPATCH, dispatchScheduledTrip)
+  registerJobHandler(SCHEDULED_TRIP_JOBS.REMINDER, sendTripReminder)
+  registerJobHandler(SCHEDULED_TRIP_JOBS.CONFIRMATION, enforceDriverConfirmation)
+
+  // Olas de despacho (se programan al ofrecer un viaje)
+  registerJobHandler(DISPATCH_WAVE_JOB, runDispatchWave)
+
+  for (const job of RECURRING_JOBS) {
+    await scheduleRecurringJob(job.name, job.intervalSeconds)
+  }
+
+  startJobWorker()
+}
@@ -3,7 +3,7 @@
  * Solo accesibles para usuarios con rol ADMIN
  */
 
-import { Router } from 'express'
+import { Router, Response } from 'express'
 import { authenticate } from '../middleware/auth'
 import { requireRole } from '../middleware/requireRole'
 import { UserRole } from '@prisma/client'
@@ -41,7 +41,27 @@ import {
   rejectVehicle,
   getVehicleById
 } from '../services/vehicleService'
-import { TripStatus } from '@prisma/client'
+import { getTripDispatchLog } from '../services/driverAlertService'
+import { listCountrySettings, listCountrySettingsVersions, updateCountrySettings } from '../services/countrySettingsService'
+import { listJobs, runJobNow } from '../services/jobService'
+import {
+  listSurgeCells,
+  recomputeSurgeMultipliers,
+  setSurgeOverride,
+  clearSurgeOverride
+} from '../services/surgeService'
+import {
+  listPricingCountries,
+  listPricingVersions,
+  getPricingVersion,
+  createPricingDraft,
+  updatePricingDraft,
+  publishPricingVersion,
+  deletePricingDraft,
+  previewPricing
+} from '../services/pricingVersionService'
+import { resolveFareReview } from '../services/fareReconciliationService'
+import { TripStatus, JobStatus, FareReviewStatus } from '@prisma/client'
 
 const router = Router()
 
@@ -495,6 +515,7 @@ router.get('/trips', async (req, res) => {
     const search = req.query.search as string | undefined
     const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined
     const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined
+    const fareReviewStatus = req.query.fareReviewStatus as string | undefined
 
     const options: ListTripsOptions = {
       page,
@@ -506,6 +527,10 @@ router.get('/trips', async (req, res) => {
       endDate,
     }
 
+    if (fareReviewStatus && Object.values(FareReviewStatus).includes(fareReviewStatus as FareReviewStatus)) {
+      options.fareReviewStatus = fareReviewStatus as FareReviewStatus
+    }
+
     // Parsear status (puede ser uno o varios separados por coma)
     if (status) {
       const statuses = status.split(',').map(s => s.trim()) as TripStatus[]
@@ -548,13 +573,38 @@ router.get('/trips/:id', async (req, res) => {
   }
 })
 
+/**
+ * GET /api/admin/trips/:id/dispatch-log
+ * Obtiene la estrategia de despacho y los conductores a los que se ofreció el viaje, en orden
+ */
+router.get('/trips/:id/dispatch-log', async (req, res) => {
+  try {
+    const log = await getTripDispatchLog(req.params.id)
+    res.json(log)
+  } catch (error: any) {
+    if (error.message === 'Viaje no encontrado') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      })
+    }
+
+    console.error('Error getting dispatch log:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
 /**
  * PATCH /api/admin/trips/:id/status
- * Actualiza el estado de un viaje
+ * Actualiza el estado de un viaje (solo transiciones permitidas por la máquina de estados)
+ * Body: { status, reason? }
  */
 router.patch('/trips/:id/status', async (req, res) => {
   try {
-    const { status } = req.body
+    const { status, reason } = req.body
 
     if (!status || !Object.values(TripStatus).includes(status)) {
       return res.status(400).json({
@@ -563,12 +613,36 @@ router.patch('/trips/:id/status', async (req, res) => {
       })
     }
 
-    const trip = await updateTripStatus(req.params.id, status as TripStatus)
+    const trip = await updateTripStatus(req.params.id, status as TripStatus, req.user!.id, reason)
     res.json(trip)
   } catch (error: any) {
     console.error('Error updating trip status:', error)
-    res.status(500).json({
-      error: 'Internal server error',
+    const statusCode = error.message.includes('no encontrado') ? 404
+      : error.message.includes('No se puede') || error.message.includes('permiso') ? 400
+      : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : statusCode === 400 ? 'Bad Request' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * PATCH /api/admin/trips/:id/fare-review
+ * Cierra la revisión de la tarifa de un viaje marcado por diferencias con el recorrido real
+ * Body: { note? }
+ */
+router.patch('/trips/:id/fare-review', async (req, res) => {
+  try {
+    const trip = await resolveFareReview(req.params.id, req.user!.id, req.body.note)
+    res.json(trip)
+  } catch (error: any) {
+    console.error('Error resolving fare review:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404
+      : error.message.includes('no tiene una revisión') ? 400
+      : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : statusCode === 400 ? 'Bad Request' : 'Internal server error',
       message: error.message,
     })
   }
@@ -591,7 +665,7 @@ router.patch('/trips/:id/assign-driver', async (req, res) => {
       })
     }
 
-    const trip = await assignDriver(req.params.id, driverId, vehicleId, allowReassign)
+    const trip = await assignDriver(req.params.id, driverId, vehicleId, allowReassign, req.user!.id)
     res.json(trip)
   } catch (error: any) {
     console.error('Error assigning driver:', error)
@@ -609,9 +683,11 @@ router.patch('/trips/:id/assign-driver', async (req, res) => {
 router.patch('/trips/:id/cancel', async (req, res) => {
   try {
     const adminId = req.user!.id
-    const { reason } = req.body
+    const { reason, cancelLinkedLeg } = req.body
 
-    const trip = await cancelTrip(req.params.id, adminId, reason, 'ADMIN')
+    const trip = await cancelTrip(req.params.id, adminId, reason, 'ADMIN', {
+      cancelLinkedLeg: cancelLinkedLeg === true,
+    })
     res.json(trip)
   } catch (error: any) {
     console.error('Error cancelling trip:', error)
@@ -771,5 +847,425 @@ router.post('/vehicles/:id/reject', async (req, res) => {
   }
 })
 
+/**
+ * GET /api/admin/country-settings
+ * Lista los países configurables y la versión vigente de la configuración de cada uno
+ */
+router.get('/country-settings', async (req, res) => {
+  try {
+    const countries = await listCountrySettings()
+    res.json(countries)
+  } catch (error: any) {
+    console.error('Error listing country settings:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/admin/country-settings/:country
+ * Configuración vigente de un país, su historial y la configuración por defecto
+ */
+router.get('/country-settings/:country', async (req, res) => {
+  try {
+    const result = await listCountrySettingsVersions(req.params.country)
+    res.json(result)
+  } catch (error: any) {
+    console.error('Error getting country settings:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * PUT /api/admin/country-settings/:country
+ * Guarda una nueva versión de la configuración de un país (rige de inmediato)
+ * Body: { config: object, notes?: string }
+ */
+router.put('/country-settings/:country', async (req, res) => {
+  try {
+    const { config, notes } = req.body
+    const version = await updateCountrySettings({
+      country: req.params.country,
+      config,
+      notes,
+      adminId: req.user!.id,
+    })
+    res.json(version)
+  } catch (error: any) {
+    if (error.message?.includes('Configuración del país') || error.message?.includes('País sin tarifas')) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      })
+    }
+
+    console.error('Error updating country settings:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/admin/jobs
+ * Lista los jobs en segundo plano con su estado, último error y próxima ejecución
+ */
+router.get('/jobs', async (req, res) => {
+  try {
+    const { status, name, page, limit } = req.query
+
+    if (status && !Object.values(JobStatus).includes(status as JobStatus)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Estado de job inválido',
+      })
+    }
+
+    const result = await listJobs({
+      status: status as JobStatus | undefined,
+      name: name as string | undefined,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    })
+
+    res.json(result)
+  } catch (error: any) {
+    console.error('Error listing jobs:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * POST /api/admin/jobs/:id/run
+ * Fuerza la ejecución inmediata de un job
+ */
+router.post('/jobs/:id/run', async (req, res) => {
+  try {
+    const job = await runJobNow(req.params.id)
+    res.json(job)
+  } catch (error: any) {
+    if (error.message === 'Job no encontrado') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      })
+    }
+
+    if (error.message === 'El job ya se está ejecutando') {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      })
+    }
+
+    console.error('Error running job:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/admin/surge
+ * Lista las celdas de tarifa dinámica con su demanda, oferta y multiplicador vigente
+ */
+router.get('/surge', async (req, res) => {
+  try {
+    const cells = await listSurgeCells()
+    res.json(cells)
+  } catch (error: any) {
+    console.error('Error listing surge cells:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * POST /api/admin/surge/recompute
+ * Recalcula los multiplicadores de inmediato (sin esperar al job recurrente)
+ */
+router.post('/surge/recompute', async (req, res) => {
+  try {
+    const result = await recomputeSurgeMultipliers()
+    res.json(result)
+  } catch (error: any) {
+    console.error('Error recomputing surge:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * POST /api/admin/surge/overrides
+ * Fija el multiplicador de una celda
+ * Body: { cellId?: string, latitude?: number, longitude?: number, multiplier: number, expiresInMinutes?: number }
+ */
+router.post('/surge/overrides', async (req, res) => {
+  try {
+    const { cellId, latitude, longitude, multiplier, expiresInMinutes } = req.body
+
+    if (typeof multiplier !== 'number') {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'El multiplicador es requerido',
+      })
+    }
+
+    if (expiresInMinutes !== undefined && (!Number.isInteger(expiresInMinutes) || expiresInMinutes <= 0)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'La duración debe ser un número entero de minutos mayor a 0',
+      })
+    }
+
+    const cell = await setSurgeOverride({
+      cellId,
+      latitude: typeof latitude === 'number' ? latitude : undefined,
+      longitude: typeof longitude === 'number' ? longitude : undefined,
+      multiplier,
+      expiresInMinutes,
+      adminId: req.user!.id,
+    })
+    res.json(cell)
+  } catch (error: any) {
+    if (error.message.includes('Celda inválida') || error.message.includes('multiplicador')) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      })
+    }
+
+    console.error('Error setting surge override:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * DELETE /api/admin/surge/overrides/:cellId
+ * Elimina el multiplicador fijado de una celda (vuelve al calculado)
+ */
+router.delete('/surge/overrides/:cellId', async (req, res) => {
+  try {
+    const cell = await clearSurgeOverride(req.params.cellId)
+    res.json(cell)
+  } catch (error: any) {
+    if (error.message === 'Celda no encontrada') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      })
+    }
+
+    console.error('Error clearing surge override:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * Código HTTP de un error de versiones de tarifas
+ */
+function getPricingErrorStatus(message: string): number {
+  if (message.includes('no encontrada')) return 404
+  if (message.includes('tarifas') || message.includes('otro país') ||
+      message.includes('vigencia') || message.includes('Indica')) return 400
+  return 500
+}
+
+/**
+ * Responde un error de versiones de tarifas
+ */
+function sendPricingError(res: Response, error: any, context: string) {
+  const statusCode = getPricingErrorStatus(error.message || '')
+  if (statusCode === 500) {
+    console.error(`Error ${context}:`, error)
+  }
+  res.status(statusCode).json({
+    error: statusCode === 404 ? 'Not Found' : statusCode === 400 ? 'Bad Request' : 'Internal server error',
+    message: error.message,
+  })
+}
+
+/**
+ * GET /api/admin/pricing
+ * Lista los países con tarifas y su versión vigente
+ */
+router.get('/pricing', async (req, res) => {
+  try {
+    const countries = await listPricingCountries()
+    res.json(countries)
+  } catch (error: any) {
+    sendPricingError(res, error, 'listing pricing countries')
+  }
+})
+
+/**
+ * GET /api/admin/pricing/:country/versions
+ * Historial de versiones de tarifas de un país, la versión vigente y las tarifas por defecto
+ */
+router.get('/pricing/:country/versions', async (req, res) => {
+  try {
+    const result = await listPricingVersions(req.params.country)
+    res.json(result)
+  } catch (error: any) {
+    sendPricingError(res, error, 'listing pricing versions')
+  }
+})
+
+/**
+ * GET /api/admin/pricing/versions/:id
+ * Obtiene una versión de tarifas
+ */
+router.get('/pricing/versions/:id', async (req, res) => {
+  try {
+    const version = await getPricingVersion(req.params.id)
+    res.json(version)
+  } catch (error: any) {
+    sendPricingError(res, error, 'getting pricing version')
+  }
+})
+
+/**
+ * POST /api/admin/pricing/versions
+ * Crea un borrador de tarifas
+ * Body: { country: string, config?: object, copyFromId?: string, notes?: string }
+ */
+router.post('/pricing/versions', async (req, res) => {
+  try {
+    const { country, config, copyFromId, notes } = req.body
+
+    if (!country || typeof country !== 'string') {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'El país es requerido',
+      })
+    }
+
+    const version = await createPricingDraft({
+      country,
+      config,
+      copyFromId,
+      notes,
+      adminId: req.user!.id,
+    })
+    res.status(201).json(version)
+  } catch (error: any) {
+    sendPricingError(res, error, 'creating pricing draft')
+  }
+})
+
+/**
+ * PUT /api/admin/pricing/versions/:id
+ * Actualiza un borrador de tarifas
+ * Body: { config?: object, notes?: string }
+ */
+router.put('/pricing/versions/:id', async (req, res) => {
+  try {
+    const { config, notes } = req.body
+    const version = await updatePricingDraft(req.params.id, { config, notes })
+    res.json(version)
+  } catch (error: any) {
+    sendPricingError(res, error, 'updating pricing draft')
+  }
+})
+
+/**
+ * POST /api/admin/pricing/versions/:id/publish
+ * Publica un borrador de tarifas
+ * Body: { effectiveFrom?: string } (por defecto, rige de inmediato)
+ */
+router.post('/pricing/versions/:id/publish', async (req, res) => {
+  try {
+    const effectiveFrom = req.body.effectiveFrom ? new Date(req.body.effectiveFrom) : undefined
+    if (effectiveFrom && isNaN(effectiveFrom.getTime())) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Fecha de vigencia inválida',
+      })
+    }
+
+    const version = await publishPricingVersion(req.params.id, {
+      effectiveFrom,
+      adminId: req.user!.id,
+    })
+    res.json(version)
+  } catch (error: any) {
+    sendPricingError(res, error, 'publishing pricing version')
+  }
+})
+
+/**
+ * DELETE /api/admin/pricing/versions/:id
+ * Elimina un borrador de tarifas
+ */
+router.delete('/pricing/versions/:id', async (req, res) => {
+  try {
+    await deletePricingDraft(req.params.id)
+    res.json({ message: 'Borrador eliminado correctamente' })
+  } catch (error: any) {
+    sendPricingError(res, error, 'deleting pricing draft')
+  }
+})
+
+/**
+ * POST /api/admin/pricing/preview
+ * Compara el precio de un viaje de ejemplo con un borrador (o configuración sin guardar) y con la versión vigente
+ * Body: { country: string, draftId?: string, config?: object, distance: number, duration?: number,
+ *         vehicleType?: string, stops?: number, scheduledAt?: string }
+ */
+router.post('/pricing/preview', async (req, res) => {
+  try {
+    const { country, draftId, config, distance, duration, vehicleType, stops, scheduledAt } = req.body
+
+    if (!country || typeof distance !== 'number' || distance < 0) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'El país y una distancia positiva son requeridos',
+      })
+    }
+
+    const pickupAt = scheduledAt ? new Date(scheduledAt) : undefined
+    if (pickupAt && isNaN(pickupAt.getTime())) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Fecha programada inválida',
+      })
+    }
+
+    const result = await previewPricing({
+      country,
+      draftId,
+      config,
+      distance,
+      duration: typeof duration === 'number' ? duration : undefined,
+      vehicleType: vehicleType || undefined,
+      stops: Number.isInteger(stops) ? stops : undefined,
+      pickupAt,
+    })
+    res.json(result)
+  } catch (error: any) {
+    sendPricingError(res, error, 'previewing pricing')
+  }
+})
+
 export default router
 
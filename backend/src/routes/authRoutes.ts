@@ -6,6 +6,12 @@ import { Router } from 'express'
 import { createUser, login, requestPasswordReset, resetPassword, updateUser, getUserById, changeActiveRole } from '../services/userService'
 import { CreateUserData, LoginData, UpdateUserData } from '../services/userService'
 import { authenticate } from '../middleware/auth'
+import {
+  listEmergencyContacts,
+  createEmergencyContact,
+  updateEmergencyContact,
+  deleteEmergencyContact
+} from '../services/emergencyContactService'
 import { UserRole } from '@prisma/client'
 
 const router = Router()
@@ -325,5 +331,79 @@ router.put('/me', authenticate, async (req, res) => {
   }
 })
 
+/**
+ * GET /api/auth/me/emergency-contacts
+ * Contactos de emergencia del usuario (se les avisa al activar el SOS)
+ */
+router.get('/me/emergency-contacts', authenticate, async (req, res) => {
+  try {
+    const contacts = await listEmergencyContacts(req.user!.id)
+    res.json({ contacts })
+  } catch (error: any) {
+    console.error('Error listing emergency contacts:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    })
+  }
+})
+
+/**
+ * POST /api/auth/me/emergency-contacts
+ * Agrega un contacto de emergencia
+ * Body: { name, phone?, email?, relationship? }
+ */
+router.post('/me/emergency-contacts', authenticate, async (req, res) => {
+  try {
+    const { name, phone, email, relationship } = req.body
+    const contact = await createEmergencyContact(req.user!.id, { name, phone, email, relationship })
+    res.status(201).json(contact)
+  } catch (error: any) {
+    console.error('Error creating emergency contact:', error)
+    res.status(400).json({
+      error: 'Bad Request',
+      message: error.message
+    })
+  }
+})
+
+/**
+ * PUT /api/auth/me/emergency-contacts/:id
+ * Actualiza un contacto de emergencia
+ * Body: { name, phone?, email?, relationship? }
+ */
+router.put('/me/emergency-contacts/:id', authenticate, async (req, res) => {
+  try {
+    const { name, phone, email, relationship } = req.body
+    const contact = await updateEmergencyContact(req.user!.id, req.params.id, { name, phone, email, relationship })
+    res.json(contact)
+  } catch (error: any) {
+    console.error('Error updating emergency contact:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+      message: error.message
+    })
+  }
+})
+
+/**
+ * DELETE /api/auth/me/emergency-contacts/:id
+ * Elimina un contacto de emergencia
+ */
+router.delete('/me/emergency-contacts/:id', authenticate, async (req, res) => {
+  try {
+    await deleteEmergencyContact(req.user!.id, req.params.id)
+    res.json({ success: true })
+  } catch (error: any) {
+    console.error('Error deleting emergency contact:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Internal server error',
+      message: error.message
+    })
+  }
+})
+
 export default router
 
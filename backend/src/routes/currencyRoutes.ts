@@ -6,6 +6,7 @@ import {
   getExchangeRatesFromBase,
   formatCurrency,
 } from '../services/currencyService'
+import { getExchangeRateHistory } from '../services/exchangeRateService'
 
 const router = express.Router()
 
@@ -38,6 +39,35 @@ router.get('/rates', (req, res) => {
   }
 })
 
+/**
+ * GET /api/currency/rates/history
+ * Historial de tasas de una moneda (unidades por 1 USD), para auditar conversiones
+ * Query params: currency, limit
+ */
+router.get('/rates/history', async (req, res) => {
+  try {
+    const currency = req.query.currency as string
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100
+
+    if (!currency) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'currency is required',
+      })
+    }
+
+    const rates = await getExchangeRateHistory(currency.toUpperCase(), limit)
+
+    res.json({ currency: currency.toUpperCase(), base: 'USD', rates })
+  } catch (error: any) {
+    console.error('Error getting exchange rate history:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
 /**
  * GET /api/currency/convert
  * Convierte un monto de una moneda a otra
@@ -14,8 +14,16 @@ import {
   rejectTrip,
   startTrip,
   completeTrip,
+  markStopReached,
+  markDriverArrived,
+  markPassengerNoShow,
 } from '../services/driverService'
 import { cancelTrip } from '../services/tripService'
+import { getCancellationCharge } from '../services/cancellationService'
+import { recordDriverLocation, validateLocationFix } from '../services/locationService'
+import { confirmScheduledTrip } from '../services/scheduledTripService'
+import { getTripGeofences } from '../services/geofenceService'
+import { getDriverSettlementOptions, setDriverSettlementAsset } from '../services/stellarAssetService'
 
 const router = Router()
 
@@ -23,6 +31,95 @@ const router = Router()
 router.use(authenticate)
 router.use(requireRole(UserRole.DRIVER))
 
+/**
+ * POST /api/driver/location
+ * Registra la posición GPS actual del conductor
+ * Body: { latitude, longitude, accuracy?, heading?, speed?, recordedAt?, tripId? }
+ * Si el conductor tiene un viaje activo, la posición se guarda como breadcrumb
+ * y se publica al pasajero en tiempo real
+ */
+router.post('/location', async (req, res) => {
+  try {
+    const driverId = req.user!.id
+    const { tripId } = req.body
+
+    let fix
+    try {
+      fix = validateLocationFix(req.body)
+    } catch (validationError: any) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: validationError.message,
+      })
+    }
+
+    const result = await recordDriverLocation(driverId, fix, tripId)
+
+    res.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error('Error recording driver location:', error)
+    if (error.message === 'Viaje no encontrado o no está activo') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      })
+    }
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/driver/settlement-asset
+ * Assets Stellar aceptados en el país del conductor, el que eligió para cobrar
+ * y si su cuenta puede recibir cada uno (trustline)
+ */
+router.get('/settlement-asset', async (req, res) => {
+  try {
+    const options = await getDriverSettlementOptions(req.user!.id)
+    res.json(options)
+  } catch (error: any) {
+    console.error('Error getting settlement asset:', error)
+    res.status(error.message.includes('no encontrado') ? 404 : 500).json({
+      error: error.message.includes('no encontrado') ? 'Not Found' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * PUT /api/driver/settlement-asset
+ * Elige el asset Stellar con que cobra el conductor
+ * Body: { code, issuer? }
+ * Retorna un aviso si la cuenta aún no puede recibirlo (en ese caso se cobra en XLM)
+ */
+router.put('/settlement-asset', async (req, res) => {
+  try {
+    const { code, issuer } = req.body
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'El código del asset es requerido',
+      })
+    }
+
+    const result = await setDriverSettlementAsset(req.user!.id, { code, issuer: issuer || null })
+    res.json(result)
+  } catch (error: any) {
+    console.error('Error setting settlement asset:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404
+      : error.message.includes('no está aceptado') ? 400
+      : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : statusCode === 400 ? 'Bad Request' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
 /**
  * GET /api/driver/trips/available
  * Obtiene viajes disponibles para el conductor
@@ -128,6 +225,28 @@ router.post('/trips/:id/accept', async (req, res) => {
   }
 })
 
+/**
+ * POST /api/driver/trips/:id/confirm
+ * Confirma un viaje programado pre-aceptado
+ * Debe hacerse antes de 30 minutos de la recogida o el viaje se reasigna
+ */
+router.post('/trips/:id/confirm', async (req, res) => {
+  try {
+    const driverId = req.user!.id
+    const tripId = req.params.id
+
+    const trip = await confirmScheduledTrip(tripId, driverId)
+
+    res.json(trip)
+  } catch (error: any) {
+    console.error('Error confirming trip:', error)
+    res.status(400).json({
+      error: 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
 /**
  * POST /api/driver/trips/:id/reject
  * Rechaza un viaje
@@ -150,16 +269,96 @@ router.post('/trips/:id/reject', async (req, res) => {
   }
 })
 
+/**
+ * POST /api/driver/trips/:id/arrived
+ * Marca la llegada al origen (requiere la posición GPS del conductor dentro del radio de llegada)
+ * Avisa al pasajero y empieza a correr la espera
+ */
+router.post('/trips/:id/arrived', async (req, res) => {
+  let position
+  try {
+    position = validateLocationFix(req.body)
+  } catch (validationError: any) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: validationError.message,
+    })
+  }
+
+  try {
+    const trip = await markDriverArrived(req.params.id, req.user!.id, position)
+    res.json(trip)
+  } catch (error: any) {
+    console.error('Error marking driver arrival:', error)
+    res.status(error.message.includes('no encontrado') ? 404 : 400).json({
+      error: error.message.includes('no encontrado') ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * POST /api/driver/trips/:id/no-show
+ * Marca al pasajero como no presentado tras la espera (requiere la posición GPS en el origen)
+ * Cancela el viaje y genera el cargo por no presentación
+ */
+router.post('/trips/:id/no-show', async (req, res) => {
+  let position
+  try {
+    position = validateLocationFix(req.body)
+  } catch (validationError: any) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: validationError.message,
+    })
+  }
+
+  try {
+    const trip = await markPassengerNoShow(req.params.id, req.user!.id, position)
+    res.json(trip)
+  } catch (error: any) {
+    console.error('Error marking passenger no-show:', error)
+    res.status(error.message.includes('no encontrado') ? 404 : 400).json({
+      error: error.message.includes('no encontrado') ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/driver/trips/:id/geofence
+ * Geocercas de inicio (origen) y fin (destino) del viaje, para mostrar la distancia en vivo
+ */
+router.get('/trips/:id/geofence', async (req, res) => {
+  try {
+    const geofences = await getTripGeofences(req.params.id, req.user!.id)
+    res.json(geofences)
+  } catch (error: any) {
+    console.error('Error getting trip geofence:', error)
+    if (error.message === 'Viaje no encontrado o no disponible') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      })
+    }
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
 /**
  * POST /api/driver/trips/:id/start
  * Inicia un viaje
- * Requiere: PIN o QR code, y opcionalmente GPS del conductor
+ * Requiere: PIN o QR code, y el GPS del conductor dentro de la geocerca del origen
+ * (según la política del país, salvo autorización de despacho)
  */
 router.post('/trips/:id/start', async (req, res) => {
   try {
     const driverId = req.user!.id
     const tripId = req.params.id
-    const { pin, qrCode, driverLatitude, driverLongitude } = req.body
+    const { pin, qrCode, driverLatitude, driverLongitude, driverAccuracy } = req.body
 
     if (!pin && !qrCode) {
       return res.status(400).json({
@@ -173,6 +372,7 @@ router.post('/trips/:id/start', async (req, res) => {
       qrCode,
       driverLatitude: driverLatitude ? parseFloat(driverLatitude) : undefined,
       driverLongitude: driverLongitude ? parseFloat(driverLongitude) : undefined,
+      driverAccuracy: driverAccuracy ? parseFloat(driverAccuracy) : undefined,
     })
 
     res.json(trip)
@@ -185,21 +385,44 @@ router.post('/trips/:id/start', async (req, res) => {
   }
 })
 
+/**
+ * POST /api/driver/trips/:id/stops/:stopId/reached
+ * Marca una parada intermedia como alcanzada (en orden de recorrido)
+ */
+router.post('/trips/:id/stops/:stopId/reached', async (req, res) => {
+  try {
+    const driverId = req.user!.id
+    const { id: tripId, stopId } = req.params
+
+    const stop = await markStopReached(tripId, stopId, driverId)
+
+    res.json(stop)
+  } catch (error: any) {
+    console.error('Error marking stop as reached:', error)
+    const statusCode = error.message.includes('no encontrad') ? 404 : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
 /**
  * POST /api/driver/trips/:id/complete
  * Completa un viaje
- * Opcionalmente verifica GPS (conductor cerca del destino)
+ * Verifica el GPS del conductor contra la geocerca del destino (según la política del país, salvo autorización de despacho)
  * Genera automáticamente el QR de pago Stellar usando la dirección del conductor
  */
 router.post('/trips/:id/complete', async (req, res) => {
   try {
     const driverId = req.user!.id
     const tripId = req.params.id
-    const { driverLatitude, driverLongitude } = req.body
+    const { driverLatitude, driverLongitude, driverAccuracy } = req.body
 
     const trip = await completeTrip(tripId, driverId, {
       driverLatitude: driverLatitude ? parseFloat(driverLatitude) : undefined,
       driverLongitude: driverLongitude ? parseFloat(driverLongitude) : undefined,
+      driverAccuracy: driverAccuracy ? parseFloat(driverAccuracy) : undefined,
     })
 
     res.json(trip)
@@ -212,6 +435,28 @@ router.post('/trips/:id/complete', async (req, res) => {
   }
 })
 
+/**
+ * GET /api/driver/trips/:id/cancellation-fee
+ * Penalización que tendría cancelar ahora el viaje (se muestra antes de confirmar la cancelación)
+ */
+router.get('/trips/:id/cancellation-fee', async (req, res) => {
+  try {
+    const charge = await getCancellationCharge(req.params.id, 'DRIVER', req.user!.id)
+    res.json(charge)
+  } catch (error: any) {
+    console.error('Error getting cancellation penalty:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404
+      : error.message.includes('permiso') ? 403
+      : error.message.includes('ya no se puede') ? 400
+      : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : statusCode === 403 ? 'Forbidden'
+        : statusCode === 400 ? 'Bad Request' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
 /**
  * PATCH /api/driver/trips/:id/cancel
  * Cancela un viaje (solo para conductores)
@@ -220,9 +465,11 @@ router.patch('/trips/:id/cancel', async (req, res) => {
   try {
     const driverId = req.user!.id
     const tripId = req.params.id
-    const { reason } = req.body
+    const { reason, cancelLinkedLeg } = req.body
 
-    const trip = await cancelTrip(tripId, driverId, reason, 'DRIVER')
+    const trip = await cancelTrip(tripId, driverId, reason, 'DRIVER', {
+      cancelLinkedLeg: cancelLinkedLeg === true,
+    })
 
     res.json(trip)
   } catch (error: any) {
@@ -4,8 +4,15 @@
 
 import express from 'express'
 import { authenticate } from '../middleware/auth'
-import { PrismaClient, PaymentStatus, TripStatus } from '@prisma/client'
+import { PrismaClient, Prisma, PaymentStatus, PaymentType, TripActorRole, TripStatus } from '@prisma/client'
 import { verifyStellarTransaction } from '../services/stellarService'
+import {
+  buildStellarPathPayment,
+  getStellarPaymentExpectation,
+  getStellarPathPaymentOptions,
+  settleStellarPayment,
+} from '../services/stellarPaymentService'
+import { canTransitionTrip } from '../services/tripStateService'
 
 const router = express.Router()
 const prisma = new PrismaClient()
@@ -13,6 +20,7 @@ const prisma = new PrismaClient()
 /**
  * POST /api/payments/:paymentId/verify
  * Verifica un pago Stellar y completa el viaje
+ * Si se rechaza, la respuesta incluye `reason` (TX_ALREADY_USED, MEMO_MISMATCH, ASSET_MISMATCH, AMOUNT_MISMATCH, etc.)
  */
 router.post('/:paymentId/verify', authenticate, async (req, res) => {
   try {
@@ -73,77 +81,80 @@ router.post('/:paymentId/verify', authenticate, async (req, res) => {
       })
     }
 
-    // Verificar la transacción en Stellar
-    const paymentDetails = payment.paymentMethodDetails as any
-    const stellarAddress = paymentDetails?.stellarAddress || payment.trip?.driver?.stellarAddress
-    const xlmAmount = paymentDetails?.xlmAmount
-
-    if (!stellarAddress || !xlmAmount) {
+    // El pago de la tarifa cierra el viaje: solo si el viaje está en curso
+    if (
+      payment.type === PaymentType.TRIP_FARE &&
+      payment.trip &&
+      !canTransitionTrip(payment.trip.status, TripStatus.COMPLETED, TripActorRole.PASSENGER)
+    ) {
       return res.status(400).json({
         error: 'Bad Request',
-        message: 'Información de pago Stellar incompleta',
+        message: `No se puede completar un viaje en estado ${payment.trip.status}`,
       })
     }
 
-    const verification = await verifyStellarTransaction(
-      transactionId,
-      stellarAddress,
-      xlmAmount
-    )
+    // Verificar la transacción en Stellar
+    const expectation = getStellarPaymentExpectation(payment)
 
-    if (!verification.verified) {
+    if (!expectation) {
       return res.status(400).json({
         error: 'Bad Request',
-        message: verification.error || 'No se pudo verificar la transacción',
+        message: 'Información de pago Stellar incompleta',
       })
     }
 
-    // Actualizar el pago
-    const updatedPayment = await prisma.payment.update({
-      where: { id: paymentId },
-      data: {
-        status: PaymentStatus.COMPLETED,
-        transactionId,
-        processedAt: new Date(),
-      },
+    // Una transacción solo puede saldar un pago
+    const hash = String(transactionId).trim().toLowerCase()
+    const alreadyUsed = await prisma.payment.findFirst({
+      where: { transactionId: hash, id: { not: paymentId } },
+      select: { id: true },
     })
 
-    // Si el viaje existe, marcarlo como COMPLETED y actualizar stellarTransactionId
-    if (payment.tripId) {
-      await prisma.trip.update({
-        where: { id: payment.tripId },
-        data: {
-          status: TripStatus.COMPLETED,
-          stellarTransactionId: transactionId,
-        },
+    if (alreadyUsed) {
+      return res.status(409).json({
+        error: 'Conflict',
+        reason: 'TX_ALREADY_USED',
+        message: 'La transacción ya fue usada para otro pago',
       })
+    }
 
-      // Crear notificación para el conductor
-      if (payment.trip?.driverId) {
-        const { createNotification } = await import('../services/notificationService')
-        const { NotificationType, NotificationPriority } = await import('@prisma/client')
-
-        await createNotification({
-          userId: payment.trip.driverId,
-          type: NotificationType.PAYMENT_COMPLETED,
-          title: 'Pago recibido',
-          message: `Has recibido el pago del viaje ${payment.trip.tripNumber}`,
-          priority: NotificationPriority.HIGH,
-          data: {
-            tripId: payment.tripId,
-            paymentId: paymentId,
-            transactionId,
-          },
-          actionUrl: `/driver/trips/${payment.tripId}`,
-          actionLabel: 'Ver viaje',
-        }).catch(() => null)
+    const verification = await verifyStellarTransaction(hash, expectation)
+
+    if (!verification.verified) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        reason: verification.reason,
+        message: verification.error,
+      })
+    }
+
+    // Liquidar el pago (y cerrar el viaje si es la tarifa)
+    let updatedPayment
+    try {
+      updatedPayment = await settleStellarPayment(paymentId, verification, { id: userId, role: TripActorRole.PASSENGER })
+    } catch (error: any) {
+      if (error.message.includes('ya fue usada')) {
+        return res.status(409).json({
+          error: 'Conflict',
+          reason: 'TX_ALREADY_USED',
+          message: error.message,
+        })
       }
+      if (error.message.includes('ya fue procesado') || error.message.includes('ya está') || error.message.includes('No se puede completar')) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: error.message,
+        })
+      }
+      throw error
     }
 
     res.json({
       payment: updatedPayment,
       verified: true,
-      message: 'Pago verificado y viaje completado exitosamente',
+      message: payment.type === PaymentType.CANCELLATION_FEE
+        ? 'Cargo por cancelación pagado exitosamente'
+        : 'Pago verificado y viaje completado exitosamente',
     })
   } catch (error: any) {
     console.error('Error verifying payment:', error)
@@ -154,6 +165,85 @@ router.post('/:paymentId/verify', authenticate, async (req, res) => {
   }
 })
 
+/**
+ * Responde un error de path payment: cobro inexistente (404), de otro usuario (403),
+ * ya pagado, sin ruta o con cuenta de origen inexistente (400)
+ */
+function sendPathPaymentError(res: express.Response, error: any, context: string) {
+  const statusCode = error.message.includes('no encontrado') ? 404
+    : error.message.includes('permiso') ? 403
+    : error.message.includes('ya está') || error.message.includes('incompleta') ||
+      error.message.includes('No hay una ruta') || error.message.includes('no existe') ? 400
+    : 500
+  if (statusCode === 500) {
+    console.error(`Error ${context}:`, error)
+  }
+  res.status(statusCode).json({
+    error: statusCode === 404 ? 'Not Found' : statusCode === 403 ? 'Forbidden'
+      : statusCode === 400 ? 'Bad Request' : 'Internal server error',
+    message: error.message,
+  })
+}
+
+const STELLAR_ACCOUNT_PATTERN = /^G[A-Z2-7]{55}$/
+
+/**
+ * GET /api/payments/:paymentId/paths?sourceAccount=G...
+ * Formas de pagar un cobro con los assets de la cuenta del pasajero (path payments strict-receive)
+ * Cada opción incluye el costo estimado y el máximo a gastar con el margen de deslizamiento
+ */
+router.get('/:paymentId/paths', authenticate, async (req, res) => {
+  try {
+    const sourceAccount = String(req.query.sourceAccount || '')
+
+    if (!STELLAR_ACCOUNT_PATTERN.test(sourceAccount)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'sourceAccount debe ser una dirección Stellar válida',
+      })
+    }
+
+    const options = await getStellarPathPaymentOptions(req.params.paymentId, req.user!.id, sourceAccount)
+    res.json(options)
+  } catch (error: any) {
+    sendPathPaymentError(res, error, 'finding payment paths')
+  }
+})
+
+/**
+ * POST /api/payments/:paymentId/path-payment
+ * Construye la transacción para pagar un cobro con otro asset de la cuenta del pasajero
+ * Body: { sourceAccount, sourceAsset: { code, issuer? } }
+ * El conductor recibe el monto exacto; el pasajero gasta como máximo sendMax
+ */
+router.post('/:paymentId/path-payment', authenticate, async (req, res) => {
+  try {
+    const { sourceAccount, sourceAsset } = req.body
+
+    if (!STELLAR_ACCOUNT_PATTERN.test(String(sourceAccount || ''))) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'sourceAccount debe ser una dirección Stellar válida',
+      })
+    }
+
+    if (!sourceAsset?.code || typeof sourceAsset.code !== 'string') {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'sourceAsset.code es requerido',
+      })
+    }
+
+    const result = await buildStellarPathPayment(req.params.paymentId, req.user!.id, {
+      sourceAccount,
+      sourceAsset: { code: sourceAsset.code, issuer: sourceAsset.issuer || null },
+    })
+    res.json(result)
+  } catch (error: any) {
+    sendPathPaymentError(res, error, 'building path payment')
+  }
+})
+
 /**
  * GET /api/payments/trip/:tripId
  * Obtiene la información de pago de un viaje
@@ -182,6 +272,7 @@ router.get('/trip/:tripId', authenticate, async (req, res) => {
         payments: {
           where: {
             method: 'STELLAR',
+            type: PaymentType.TRIP_FARE,
             status: PaymentStatus.PENDING,
           },
           orderBy: { createdAt: 'desc' },
@@ -197,9 +288,11 @@ router.get('/trip/:tripId', authenticate, async (req, res) => {
       })
     }
 
-    // Extraer XDR de las notas si existe
-    let transactionXdr: string | null = null
-    if (trip.notes) {
+    // XDR para Freighter: se guarda con el pago; los viajes antiguos lo tienen en las notas
+    const payment = trip.payments[0] || null
+    const details = (payment?.paymentMethodDetails || {}) as Prisma.JsonObject
+    let transactionXdr = (details.transactionXdr as string | undefined) || null
+    if (!transactionXdr && trip.notes) {
       const xdrMatch = trip.notes.match(/Transacción XDR: (.+)/)
       if (xdrMatch && xdrMatch[1] !== 'N/A') {
         transactionXdr = xdrMatch[1]
@@ -219,7 +312,7 @@ router.get('/trip/:tripId', authenticate, async (req, res) => {
         completedAt: trip.completedAt,
         transactionXdr, // Incluir XDR para Freighter
       },
-      payment: trip.payments[0] || null,
+      payment,
     })
   } catch (error: any) {
     console.error('Error getting payment info:', error)
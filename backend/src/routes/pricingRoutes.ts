@@ -1,16 +1,39 @@
 import express from 'express'
-import { calculateTripPrice, getCountryCurrency } from '../services/pricingService'
+import { getCountryCurrency } from '../services/pricingService'
+import { createFareQuote } from '../services/fareQuoteService'
+import { MAX_TRIP_STOPS } from '../services/tripService'
+import { authenticate } from '../middleware/auth'
 
 const router = express.Router()
 
 /**
  * POST /api/pricing/calculate
- * Calcula el precio de un viaje basado en distancia y país
- * Body: { distance: number, country: string, vehicleType?: string }
+ * Calcula el precio de un viaje basado en distancia, duración, hora de recogida y ubicaciones
+ * El país es el de la zona de servicio del origen. Devuelve el desglose (lineItems), la tarifa dinámica
+ * aplicada (surgeMultiplier), `quote`, la cotización firmada que exige POST /api/trips, `priceList`,
+ * el precio para cada tipo de vehículo del país, y `returnQuote`, la cotización de la vuelta si se
+ * indica `returnScheduledAt` (ida y vuelta)
+ * Requiere sesión. El precio se calcula con la distancia y la duración cobrables (ver getBillableRoute)
+ * Body: { distance: number, originLatitude: number, originLongitude: number,
+ *         destinationLatitude: number, destinationLongitude: number, vehicleType?: string,
+ *         stops?: { latitude: number, longitude: number }[], duration?: number,
+ *         scheduledAt?: string, returnScheduledAt?: string, routePolyline?: string }
  */
-router.post('/calculate', (req, res) => {
+router.post('/calculate', authenticate, async (req, res) => {
   try {
-    const { distance, country, vehicleType } = req.body
+    const {
+      distance,
+      vehicleType,
+      stops,
+      duration,
+      scheduledAt,
+      returnScheduledAt,
+      originLatitude,
+      originLongitude,
+      destinationLatitude,
+      destinationLongitude,
+      routePolyline,
+    } = req.body
 
     if (typeof distance !== 'number' || distance < 0) {
       return res.status(400).json({
@@ -19,9 +42,74 @@ router.post('/calculate', (req, res) => {
       })
     }
 
-    const pricing = calculateTripPrice(distance, country, vehicleType)
+    const hasOrigin = typeof originLatitude === 'number' && typeof originLongitude === 'number'
+    const hasDestination = typeof destinationLatitude === 'number' && typeof destinationLongitude === 'number'
+    if (!hasOrigin || !hasDestination) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Las coordenadas de origen y destino son requeridas',
+      })
+    }
+
+    if (stops !== undefined && (!Array.isArray(stops) || stops.length > MAX_TRIP_STOPS)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `Se permiten hasta ${MAX_TRIP_STOPS} paradas intermedias`,
+      })
+    }
+
+    const invalidStop = (stops || []).some((stop: any) =>
+      typeof stop?.latitude !== 'number' || typeof stop?.longitude !== 'number'
+    )
+    if (invalidStop) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Cada parada requiere coordenadas',
+      })
+    }
+
+    if (duration !== undefined && (typeof duration !== 'number' || duration < 0)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'La duración debe ser un número positivo',
+      })
+    }
+
+    const scheduledDate = scheduledAt ? new Date(scheduledAt) : null
+    if (scheduledDate && isNaN(scheduledDate.getTime())) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Fecha programada inválida',
+      })
+    }
+
+    const returnDate = returnScheduledAt ? new Date(returnScheduledAt) : null
+    if (returnDate && (isNaN(returnDate.getTime()) || returnDate <= (scheduledDate || new Date()))) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'La fecha de vuelta debe ser posterior a la fecha de ida',
+      })
+    }
+
+    const pricing = await createFareQuote({
+      distance,
+      vehicleType,
+      stops: (stops || []).map((stop: any) => ({ lat: stop.latitude, lng: stop.longitude })),
+      duration,
+      scheduledAt: scheduledDate,
+      origin: { lat: originLatitude, lng: originLongitude },
+      destination: { lat: destinationLatitude, lng: destinationLongitude },
+      routePolyline: typeof routePolyline === 'string' ? routePolyline : undefined,
+    }, returnDate)
     res.json(pricing)
   } catch (error: any) {
+    if (error.message?.includes('no disponible') || error.message?.includes('zonas de servicio')) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      })
+    }
+
     console.error('Error calculating price:', error)
     res.status(500).json({
       error: 'Internal server error',
@@ -0,0 +1,136 @@
+/**
+ * Rutas de alertas de seguridad e incidentes SOS de viajes (despacho y soporte)
+ */
+
+import { Router } from 'express'
+import { authenticate } from '../middleware/auth'
+import { requireRole } from '../middleware/requireRole'
+import { SafetyAlertStatus, SosIncidentStatus, UserRole } from '@prisma/client'
+import { listSafetyAlerts, resolveSafetyAlert } from '../services/tripSafetyService'
+import { listSosIncidents, acknowledgeSosIncident, resolveSosIncident } from '../services/sosService'
+
+const router = Router()
+
+// Todas las rutas requieren autenticación y un rol de operación
+router.use(authenticate)
+router.use(requireRole(UserRole.ADMIN, UserRole.DISPATCHER, UserRole.OPERATOR, UserRole.SUPPORT))
+
+/**
+ * GET /api/safety/alerts
+ * Lista las alertas de seguridad (filtro opcional por estado)
+ */
+router.get('/alerts', async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined
+
+    if (status && !Object.values(SafetyAlertStatus).includes(status as SafetyAlertStatus)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Estado de alerta inválido',
+      })
+    }
+
+    const result = await listSafetyAlerts({
+      status: status as SafetyAlertStatus | undefined,
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    })
+
+    res.json(result)
+  } catch (error: any) {
+    console.error('Error listing safety alerts:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * PATCH /api/safety/alerts/:id/resolve
+ * Cierra una alerta de seguridad
+ * Body: { note }
+ */
+router.patch('/alerts/:id/resolve', async (req, res) => {
+  try {
+    const alert = await resolveSafetyAlert(req.params.id, req.user!.id, req.body.note)
+    res.json(alert)
+  } catch (error: any) {
+    console.error('Error resolving safety alert:', error)
+    const statusCode = error.message.includes('no encontrada') ? 404 : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/safety/sos
+ * Lista los incidentes SOS (filtro opcional por estado)
+ */
+router.get('/sos', async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined
+
+    if (status && !Object.values(SosIncidentStatus).includes(status as SosIncidentStatus)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Estado de incidente inválido',
+      })
+    }
+
+    const result = await listSosIncidents({
+      status: status as SosIncidentStatus | undefined,
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    })
+
+    res.json(result)
+  } catch (error: any) {
+    console.error('Error listing SOS incidents:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * PATCH /api/safety/sos/:id/acknowledge
+ * Marca un incidente SOS como en atención
+ */
+router.patch('/sos/:id/acknowledge', async (req, res) => {
+  try {
+    const incident = await acknowledgeSosIncident(req.params.id, req.user!.id)
+    res.json(incident)
+  } catch (error: any) {
+    console.error('Error acknowledging SOS incident:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * PATCH /api/safety/sos/:id/resolve
+ * Cierra un incidente SOS
+ * Body: { note }
+ */
+router.patch('/sos/:id/resolve', async (req, res) => {
+  try {
+    const incident = await resolveSosIncident(req.params.id, req.user!.id, req.body.note)
+    res.json(incident)
+  } catch (error: any) {
+    console.error('Error resolving SOS incident:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+export default router
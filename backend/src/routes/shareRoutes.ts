@@ -0,0 +1,99 @@
+/**
+ * Rutas públicas de viajes compartidos ("compartir mi viaje")
+ * No requieren autenticación: el acceso lo da el token del enlace
+ */
+
+import { Router, Response } from 'express'
+import { subscribeToTrip } from '../services/locationService'
+import { getSharedTrip, resolveShareToken, toSharedLocation } from '../services/tripShareService'
+
+const router = Router()
+
+/**
+ * Responde un error de enlace: inexistente o revocado (404), vencido o viaje terminado (410)
+ */
+function sendShareError(res: Response, error: any, context: string) {
+  const statusCode = error.message.includes('no válido') ? 404
+    : error.message.includes('expiró') || error.message.includes('terminó') ? 410
+    : 500
+  if (statusCode === 500) {
+    console.error(`Error ${context}:`, error)
+  }
+  res.status(statusCode).json({
+    error: statusCode === 404 ? 'Not Found' : statusCode === 410 ? 'Gone' : 'Internal server error',
+    message: error.message,
+  })
+}
+
+/**
+ * GET /api/share/:token
+ * Vista pública del viaje: conductor, vehículo, ruta, posición y ETA
+ */
+router.get('/:token', async (req, res) => {
+  try {
+    const shared = await getSharedTrip(req.params.token)
+    res.json(shared)
+  } catch (error: any) {
+    sendShareError(res, error, 'getting shared trip')
+  }
+})
+
+/**
+ * GET /api/share/:token/stream
+ * Stream SSE con la posición del conductor en tiempo real
+ * Eventos: `location` (cada nueva posición) y `ended` (el enlace dejó de ser válido)
+ */
+router.get('/:token/stream', async (req, res) => {
+  try {
+    const link = await resolveShareToken(req.params.token)
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Desactivar buffering en nginx
+    })
+    res.flushHeaders()
+
+    const sendEvent = (event: string, data: any) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
+
+    let closed = false
+    const close = (message: string) => {
+      if (closed) return
+      closed = true
+      sendEvent('ended', { message })
+      res.end()
+    }
+
+    const unsubscribe = subscribeToTrip(link.tripId, (update) => sendEvent('location', toSharedLocation(update)))
+
+    // Mantener la conexión viva y revisar que el enlace siga vigente (revocado o viaje terminado)
+    const heartbeat = setInterval(async () => {
+      try {
+        await resolveShareToken(req.params.token)
+        res.write(': ping\n\n')
+      } catch (error: any) {
+        close(error.message)
+      }
+    }, 25000)
+
+    const expiry = setTimeout(() => close('El enlace expiró'), link.expiresAt.getTime() - Date.now())
+
+    res.on('close', () => {
+      closed = true
+      clearInterval(heartbeat)
+      clearTimeout(expiry)
+      unsubscribe()
+    })
+  } catch (error: any) {
+    if (!res.headersSent) {
+      sendShareError(res, error, 'streaming shared trip')
+    } else {
+      res.end()
+    }
+  }
+})
+
+export default router
@@ -4,9 +4,17 @@
 
 import express from 'express'
 import { authenticate } from '../middleware/auth'
-import { createTrip, listTrips, cancelTrip } from '../services/tripService'
+import { createTrip, listTrips, cancelTrip, linkedLegSelect, MAX_TRIP_STOPS } from '../services/tripService'
 import { renewStartPin } from '../services/driverService'
-import { PrismaClient, TripStatus } from '@prisma/client'
+import { getCancellationCharge } from '../services/cancellationService'
+import { getTripTimeline } from '../services/tripStateService'
+import { getTripTracking, subscribeToTrip } from '../services/locationService'
+import { grantGeofenceOverride, listGeofenceOverrides } from '../services/geofenceService'
+import { getPassengerSafetyAlerts, respondToSafetyAlert } from '../services/tripSafetyService'
+import { triggerSos } from '../services/sosService'
+import { createTripShareLink, listTripShareLinks, revokeTripShareLink } from '../services/tripShareService'
+import { requireRole } from '../middleware/requireRole'
+import { GeofenceStage, PrismaClient, SafetyAlertResponse, TripStatus, UserRole } from '@prisma/client'
 
 const router = express.Router()
 const prisma = new PrismaClient()
@@ -56,11 +64,9 @@ router.post('/', authenticate, async (req, res) => {
       duration,
       distanceText,
       durationText,
-      basePrice,
-      distancePrice,
-      timePrice,
-      totalPrice,
-      currency,
+      fareQuote,
+      returnFareQuote,
+      stops,
       routePolyline,
       routeBounds,
     } = req.body
@@ -85,13 +91,43 @@ router.post('/', authenticate, async (req, res) => {
       })
     }
 
-    if (!distance || !duration || !totalPrice) {
+    if (!distance || !duration) {
       return res.status(400).json({
         error: 'Bad Request',
-        message: 'Distancia, duración y precio son requeridos',
+        message: 'Distancia y duración son requeridas',
       })
     }
 
+    // El precio no se acepta del cliente: debe venir de una cotización firmada
+    if (!fareQuote || typeof fareQuote !== 'string') {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'La cotización del precio es requerida',
+      })
+    }
+
+    // Validar paradas intermedias
+    if (stops !== undefined) {
+      if (!Array.isArray(stops) || stops.length > MAX_TRIP_STOPS) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: `Se permiten hasta ${MAX_TRIP_STOPS} paradas intermedias`,
+        })
+      }
+
+      const invalidStop = stops.some((stop: any) =>
+        !stop?.address ||
+        typeof stop.latitude !== 'number' ||
+        typeof stop.longitude !== 'number'
+      )
+      if (invalidStop) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Cada parada requiere dirección y coordenadas',
+        })
+      }
+    }
+
     // Validar número de pasajeros (máximo 7)
     const validPassengers = Math.min(Math.max(passengers || 1, 1), 7)
 
@@ -103,6 +139,26 @@ router.post('/', authenticate, async (req, res) => {
       })
     }
 
+    // La vuelta se materializa como un viaje aparte: debe ser posterior a la ida
+    if (isRoundTrip) {
+      const outboundAt = scheduledAt ? new Date(scheduledAt) : new Date()
+      const returnAt = new Date(returnScheduledAt)
+      if (isNaN(returnAt.getTime()) || returnAt <= outboundAt) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'La fecha de vuelta debe ser posterior a la fecha de ida',
+        })
+      }
+
+      // Cada tramo tiene su propia cotización
+      if (!returnFareQuote || typeof returnFareQuote !== 'string') {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'La cotización del viaje de vuelta es requerida',
+        })
+      }
+    }
+
     const trip = await createTrip(userId, {
       originAddress,
       originLatitude,
@@ -121,11 +177,9 @@ router.post('/', authenticate, async (req, res) => {
       duration,
       distanceText,
       durationText,
-      basePrice: basePrice || 0,
-      distancePrice: distancePrice || 0,
-      timePrice: timePrice || 0,
-      totalPrice,
-      currency: currency || 'CLP',
+      fareQuote,
+      returnFareQuote: isRoundTrip ? returnFareQuote : undefined,
+      stops,
       routePolyline,
       routeBounds,
     })
@@ -133,6 +187,13 @@ router.post('/', authenticate, async (req, res) => {
     res.status(201).json(trip)
   } catch (error: any) {
     console.error('Error creating trip:', error)
+    // Cotización alterada, expirada o de otro viaje; o cargos por cancelación sin pagar
+    if (error.message?.includes('otización') || error.message?.includes('pendientes de pago')) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      })
+    }
     res.status(500).json({
       error: 'Internal server error',
       message: error.message,
@@ -238,10 +299,15 @@ router.get('/:id', authenticate, async (req, res) => {
             currency: true,
             status: true,
             method: true,
+            type: true,
+            paymentMethodDetails: true,
             createdAt: true,
           },
           orderBy: { createdAt: 'desc' },
         },
+        stops: { orderBy: { sequence: 'asc' } },
+        outboundTrip: { select: linkedLegSelect },
+        returnTrip: { select: linkedLegSelect },
       },
     })
 
@@ -262,6 +328,120 @@ router.get('/:id', authenticate, async (req, res) => {
   }
 })
 
+/**
+ * GET /api/trips/:id/tracking
+ * Obtiene la última posición del conductor, el ETA y la traza del viaje
+ */
+router.get('/:id/tracking', authenticate, async (req, res) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Usuario no autenticado',
+      })
+    }
+
+    const trip = await prisma.trip.findFirst({
+      where: {
+        id: req.params.id,
+        OR: [
+          { passengerId: userId },
+          { driverId: userId },
+        ],
+      },
+      select: { id: true },
+    })
+
+    if (!trip) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Viaje no encontrado',
+      })
+    }
+
+    const tracking = await getTripTracking(trip.id)
+    res.json(tracking)
+  } catch (error: any) {
+    console.error('Error getting trip tracking:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/trips/:id/tracking/stream
+ * Stream SSE con la posición del conductor en tiempo real
+ * Eventos: `snapshot` (estado inicial) y `location` (cada nueva posición)
+ */
+router.get('/:id/tracking/stream', authenticate, async (req, res) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Usuario no autenticado',
+      })
+    }
+
+    const trip = await prisma.trip.findFirst({
+      where: {
+        id: req.params.id,
+        OR: [
+          { passengerId: userId },
+          { driverId: userId },
+        ],
+      },
+      select: { id: true },
+    })
+
+    if (!trip) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Viaje no encontrado',
+      })
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Desactivar buffering en nginx
+    })
+    res.flushHeaders()
+
+    const sendEvent = (event: string, data: any) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
+
+    sendEvent('snapshot', await getTripTracking(trip.id, { breadcrumbLimit: 200 }))
+
+    const unsubscribe = subscribeToTrip(trip.id, (update) => sendEvent('location', update))
+
+    // Mantener la conexión viva a través de proxies
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n')
+    }, 25000)
+
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  } catch (error: any) {
+    console.error('Error streaming trip tracking:', error)
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message,
+      })
+    } else {
+      res.end()
+    }
+  }
+})
+
 /**
  * POST /api/trips/:id/renew-pin
  * Renueva el PIN de inicio de un viaje (solo para pasajeros)
@@ -289,6 +469,257 @@ router.post('/:id/renew-pin', authenticate, async (req, res) => {
   }
 })
 
+/**
+ * GET /api/trips/:id/cancellation-fee
+ * Cargo que tendría cancelar ahora el viaje (se muestra antes de confirmar la cancelación)
+ */
+router.get('/:id/cancellation-fee', authenticate, async (req, res) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Usuario no autenticado',
+      })
+    }
+
+    const role = req.user?.role === 'ADMIN' ? 'ADMIN' : 'PASSENGER'
+    const charge = await getCancellationCharge(req.params.id, role, userId)
+
+    res.json(charge)
+  } catch (error: any) {
+    console.error('Error getting cancellation fee:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404
+      : error.message.includes('permiso') ? 403
+      : error.message.includes('ya no se puede') ? 400
+      : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : statusCode === 403 ? 'Forbidden'
+        : statusCode === 400 ? 'Bad Request' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/trips/:id/timeline
+ * Historial de cambios de estado del viaje (pasajero, conductor asignado o admin)
+ */
+router.get('/:id/timeline', authenticate, async (req, res) => {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Usuario no autenticado',
+      })
+    }
+
+    const timeline = await getTripTimeline(req.params.id, userId, req.user?.role === 'ADMIN')
+    res.json(timeline)
+  } catch (error: any) {
+    console.error('Error getting trip timeline:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404
+      : error.message.includes('permiso') ? 403
+      : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : statusCode === 403 ? 'Forbidden' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+// Roles de operación que pueden gestionar autorizaciones de geocerca (la política del país decide cuáles autorizan)
+const geofenceStaff = requireRole(UserRole.ADMIN, UserRole.DISPATCHER, UserRole.OPERATOR, UserRole.SUPPORT)
+
+/**
+ * GET /api/trips/:id/geofence-overrides
+ * Autorizaciones para iniciar o completar el viaje fuera de la geocerca
+ */
+router.get('/:id/geofence-overrides', authenticate, geofenceStaff, async (req, res) => {
+  try {
+    const overrides = await listGeofenceOverrides(req.params.id)
+    res.json({ overrides })
+  } catch (error: any) {
+    console.error('Error listing geofence overrides:', error)
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * POST /api/trips/:id/geofence-overrides
+ * Autoriza al conductor a iniciar (START) o completar (COMPLETION) el viaje fuera de la geocerca
+ * Body: { stage, reason }
+ */
+router.post('/:id/geofence-overrides', authenticate, geofenceStaff, async (req, res) => {
+  try {
+    const { stage, reason } = req.body
+
+    if (!stage || !Object.values(GeofenceStage).includes(stage)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Etapa inválida (START o COMPLETION)',
+      })
+    }
+
+    const override = await grantGeofenceOverride(req.params.id, stage as GeofenceStage, req.user!, reason)
+    res.status(201).json(override)
+  } catch (error: any) {
+    console.error('Error granting geofence override:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404
+      : error.message.includes('permiso') ? 403
+      : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : statusCode === 403 ? 'Forbidden' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/trips/:id/safety-alerts
+ * Alertas de seguridad del viaje del pasajero ("¿Estás bien?")
+ */
+router.get('/:id/safety-alerts', authenticate, async (req, res) => {
+  try {
+    const alerts = await getPassengerSafetyAlerts(req.params.id, req.user!.id)
+    res.json({ alerts })
+  } catch (error: any) {
+    console.error('Error getting safety alerts:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * POST /api/trips/:id/safety-alerts/:alertId/respond
+ * Respuesta del pasajero a una alerta de seguridad
+ * Body: { response: 'OK' | 'HELP' }
+ */
+router.post('/:id/safety-alerts/:alertId/respond', authenticate, async (req, res) => {
+  try {
+    const { response } = req.body
+
+    if (!response || !Object.values(SafetyAlertResponse).includes(response)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Respuesta inválida (OK o HELP)',
+      })
+    }
+
+    const alert = await respondToSafetyAlert(req.params.id, req.params.alertId, req.user!.id, response)
+    res.json(alert)
+  } catch (error: any) {
+    console.error('Error responding to safety alert:', error)
+    const statusCode = error.message.includes('no encontrada') ? 404 : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * POST /api/trips/:id/sos
+ * Activa el SOS del viaje (pasajero o conductor): avisa a despacho, soporte y a los contactos de emergencia
+ * Body: { latitude?, longitude?, accuracy?, message? }
+ */
+router.post('/:id/sos', authenticate, async (req, res) => {
+  try {
+    const { latitude, longitude, accuracy, message } = req.body
+    const hasPosition = latitude != null && longitude != null
+
+    if (hasPosition && (!Number.isFinite(Number(latitude)) || !Number.isFinite(Number(longitude)))) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Coordenadas inválidas',
+      })
+    }
+
+    const result = await triggerSos(req.params.id, req.user!.id, {
+      latitude: hasPosition ? Number(latitude) : null,
+      longitude: hasPosition ? Number(longitude) : null,
+      accuracy: hasPosition && accuracy != null ? Number(accuracy) : null,
+      message: typeof message === 'string' ? message.slice(0, 500) : null,
+    })
+
+    res.status(201).json(result)
+  } catch (error: any) {
+    console.error('Error triggering SOS:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * GET /api/trips/:id/share
+ * Enlaces vigentes para seguir el viaje (solo el pasajero)
+ */
+router.get('/:id/share', authenticate, async (req, res) => {
+  try {
+    const links = await listTripShareLinks(req.params.id, req.user!.id)
+    res.json({ links })
+  } catch (error: any) {
+    console.error('Error listing share links:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * POST /api/trips/:id/share
+ * Crea un enlace público para seguir el viaje en vivo (solo el pasajero)
+ * Body: { expiresInMinutes? }
+ */
+router.post('/:id/share', authenticate, async (req, res) => {
+  try {
+    const { expiresInMinutes } = req.body
+    const link = await createTripShareLink(
+      req.params.id,
+      req.user!.id,
+      expiresInMinutes != null ? Number(expiresInMinutes) : undefined
+    )
+    res.status(201).json(link)
+  } catch (error: any) {
+    console.error('Error creating share link:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 400
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+      message: error.message,
+    })
+  }
+})
+
+/**
+ * DELETE /api/trips/:id/share/:linkId
+ * Revoca un enlace para seguir el viaje
+ */
+router.delete('/:id/share/:linkId', authenticate, async (req, res) => {
+  try {
+    await revokeTripShareLink(req.params.id, req.params.linkId, req.user!.id)
+    res.json({ success: true })
+  } catch (error: any) {
+    console.error('Error revoking share link:', error)
+    const statusCode = error.message.includes('no encontrado') ? 404 : 500
+    res.status(statusCode).json({
+      error: statusCode === 404 ? 'Not Found' : 'Internal server error',
+      message: error.message,
+    })
+  }
+})
+
 /**
  * PATCH /api/trips/:id/cancel
  * Cancela un viaje (solo para pasajeros)
@@ -317,9 +748,11 @@ router.patch('/:id/cancel', authenticate, async (req, res) => {
     }
 
     const tripId = req.params.id
-    const { reason } = req.body
+    const { reason, cancelLinkedLeg } = req.body
 
-    const trip = await cancelTrip(tripId, userId, reason, user.role === 'ADMIN' ? 'ADMIN' : 'PASSENGER')
+    const trip = await cancelTrip(tripId, userId, reason, user.role === 'ADMIN' ? 'ADMIN' : 'PASSENGER', {
+      cancelLinkedLeg: cancelLinkedLeg === true,
+    })
 
     res.json(trip)
   } catch (error: any) {
@@ -0,0 +1,102 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { TripStatus } from '@prisma/client'
+import { computeCancellationCharge } from './cancellationService'
+import { CancellationPolicy } from './pricingService'
+
+const policy: CancellationPolicy = {
+  freeWindowMinutes: 2,
+  scheduledFreeMinutes: 60,
+  enRouteFee: 2000,
+  arrivedFee: 3000,
+  arrivalRadiusMeters: 100,
+  driverPenalty: 1500,
+  noShowGraceMinutes: 5,
+  noShowFee: 3000,
+}
+
+const now = new Date('2026-03-10T12:00:00Z')
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000)
+const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000)
+
+const baseTrip = {
+  status: TripStatus.CONFIRMED,
+  driverId: 'driver-1',
+  driverAcceptedAt: minutesAgo(10),
+  driverArrivedAt: null,
+  scheduledAt: null,
+  originLatitude: -33.45,
+  originLongitude: -70.67,
+  totalPrice: 10000,
+  currency: 'CLP',
+}
+
+test('computeCancellationCharge no cobra antes de que un conductor acepte', () => {
+  const trip = { ...baseTrip, status: TripStatus.PENDING, driverId: null, driverAcceptedAt: null }
+  const charge = computeCancellationCharge(trip, policy, 'PASSENGER', null, now)
+  assert.equal(charge.stage, 'NO_DRIVER')
+  assert.equal(charge.chargedTo, null)
+  assert.equal(charge.amount, 0)
+
+  // Tampoco penaliza al conductor: no había aceptado
+  assert.equal(computeCancellationCharge(trip, policy, 'DRIVER', null, now).amount, 0)
+})
+
+test('computeCancellationCharge no cobra dentro de la ventana gratuita', () => {
+  const trip = { ...baseTrip, driverAcceptedAt: minutesAgo(1) }
+  const charge = computeCancellationCharge(trip, policy, 'PASSENGER', 5000, now)
+  assert.equal(charge.stage, 'FREE_WINDOW')
+  assert.equal(charge.amount, 0)
+  assert.deepEqual(charge.freeUntil, minutesFromNow(1))
+})
+
+test('computeCancellationCharge no cobra un viaje programado cancelado con anticipación', () => {
+  const trip = { ...baseTrip, scheduledAt: minutesFromNow(120) }
+  const charge = computeCancellationCharge(trip, policy, 'PASSENGER', 5000, now)
+  assert.equal(charge.stage, 'SCHEDULED_AHEAD')
+  assert.equal(charge.amount, 0)
+
+  // Cerca de la recogida sí se cobra
+  const late = computeCancellationCharge({ ...trip, scheduledAt: minutesFromNow(30) }, policy, 'PASSENGER', 5000, now)
+  assert.equal(late.stage, 'EN_ROUTE')
+  assert.equal(late.amount, policy.enRouteFee)
+})
+
+test('computeCancellationCharge cobra al pasajero con el conductor en camino o en el origen', () => {
+  const enRoute = computeCancellationCharge(baseTrip, policy, 'PASSENGER', 5000, now)
+  assert.equal(enRoute.stage, 'EN_ROUTE')
+  assert.equal(enRoute.chargedTo, 'PASSENGER')
+  assert.equal(enRoute.amount, policy.enRouteFee)
+  assert.equal(enRoute.currency, 'CLP')
+
+  // Dentro del radio de llegada cuenta como llegado
+  const nearby = computeCancellationCharge(baseTrip, policy, 'PASSENGER', 50, now)
+  assert.equal(nearby.stage, 'ARRIVED')
+  assert.equal(nearby.amount, policy.arrivedFee)
+
+  const arrived = computeCancellationCharge({ ...baseTrip, driverArrivedAt: minutesAgo(1) }, policy, 'PASSENGER', null, now)
+  assert.equal(arrived.stage, 'ARRIVED')
+  assert.equal(arrived.amount, policy.arrivedFee)
+})
+
+test('computeCancellationCharge no cobra más que el precio del viaje', () => {
+  const trip = { ...baseTrip, driverArrivedAt: minutesAgo(1), totalPrice: 2500 }
+  assert.equal(computeCancellationCharge(trip, policy, 'PASSENGER', null, now).amount, 2500)
+})
+
+test('computeCancellationCharge penaliza al conductor que suelta un viaje aceptado', () => {
+  const charge = computeCancellationCharge(baseTrip, policy, 'DRIVER', 5000, now)
+  assert.equal(charge.chargedTo, 'DRIVER')
+  assert.equal(charge.amount, policy.driverPenalty)
+
+  const scheduled = computeCancellationCharge({ ...baseTrip, scheduledAt: minutesFromNow(120) }, policy, 'DRIVER', null, now)
+  assert.equal(scheduled.amount, 0)
+})
+
+test('computeCancellationCharge no cobra a los administradores', () => {
+  const trip = { ...baseTrip, driverArrivedAt: minutesAgo(1) }
+  const charge = computeCancellationCharge(trip, policy, 'ADMIN', null, now)
+  assert.equal(charge.stage, 'ARRIVED')
+  assert.equal(charge.chargedTo, null)
+  assert.equal(charge.amount, 0)
+})
@@ -0,0 +1,288 @@
+/**
+ * Servicio de políticas de cancelación
+ * Calcula el cargo por cancelar un viaje según su etapa: sin cargo antes de que un conductor lo acepte,
+ * durante la ventana gratuita tras la aceptación y en viajes programados con anticipación; con cargo
+ * si el conductor ya va en camino o llegó al origen. Los conductores que cancelan un viaje aceptado
+ * reciben una penalización y los pasajeros que no se presentan, un cargo por no presentación.
+ * La política es parte de las tarifas de cada país (ver pricingService)
+ */
+
+import { PrismaClient, Prisma, PaymentMethod, PaymentStatus, PaymentType, Trip, TripStatus } from '@prisma/client'
+import { calculateDistance } from '../utils/tripSecurity'
+import { CancellationPolicy } from './pricingService'
+import { getTripPricing } from './pricingVersionService'
+
+const prisma = new PrismaClient()
+
+export type CancellationRole = 'PASSENGER' | 'DRIVER' | 'ADMIN'
+
+export type CancellationStage =
+  | 'NO_DRIVER' // Ningún conductor aceptó el viaje
+  | 'FREE_WINDOW' // Dentro de la ventana gratuita tras la aceptación
+  | 'SCHEDULED_AHEAD' // Viaje programado cancelado con anticipación
+  | 'EN_ROUTE' // El conductor va en camino al origen
+  | 'ARRIVED' // El conductor llegó al origen o el viaje ya empezó
+  | 'NO_SHOW' // El pasajero no se presentó tras la espera
+
+export interface CancellationCharge {
+  stage: CancellationStage
+  chargedTo: 'PASSENGER' | 'DRIVER' | null // null: sin cargo
+  amount: number
+  currency: string
+  freeUntil: Date | null // Fin de la ventana gratuita (si aún está vigente)
+  description: string
+}
+
+type CancellableTrip = Pick<
+  Trip,
+  | 'status' | 'driverId' | 'driverAcceptedAt' | 'driverArrivedAt' | 'scheduledAt'
+  | 'originLatitude' | 'originLongitude' | 'totalPrice' | 'currency'
+>
+
+/**
+ * Etapa del viaje para la política de cancelación
+ * `driverDistanceMeters` es la distancia entre la última posición del conductor y el origen
+ */
+export function getCancellationStage(
+  trip: CancellableTrip,
+  policy: CancellationPolicy,
+  driverDistanceMeters: number | null,
+  now: Date = new Date()
+): { stage: CancellationStage; freeUntil: Date | null } {
+  if (!trip.driverId || !trip.driverAcceptedAt) {
+    return { stage: 'NO_DRIVER', freeUntil: null }
+  }
+
+  if (trip.status === TripStatus.IN_PROGRESS || trip.driverArrivedAt) {
+    return { stage: 'ARRIVED', freeUntil: null }
+  }
+
+  // Programado: el conductor no sale hacia el origen hasta poco antes de la recogida
+  if (trip.scheduledAt) {
+    const scheduledFreeUntil = new Date(trip.scheduledAt.getTime() - policy.scheduledFreeMinutes * 60 * 1000)
+    if (now < scheduledFreeUntil) {
+      return { stage: 'SCHEDULED_AHEAD', freeUntil: scheduledFreeUntil }
+    }
+  }
+
+  const freeUntil = new Date(trip.driverAcceptedAt.getTime() + policy.freeWindowMinutes * 60 * 1000)
+  if (now < freeUntil) {
+    return { stage: 'FREE_WINDOW', freeUntil }
+  }
+
+  if (driverDistanceMeters !== null && driverDistanceMeters <= policy.arrivalRadiusMeters) {
+    return { stage: 'ARRIVED', freeUntil: null }
+  }
+
+  return { stage: 'EN_ROUTE', freeUntil: null }
+}
+
+/**
+ * Calcula el cargo por cancelar un viaje según quién cancela (sin consultar la base de datos)
+ * El cargo nunca supera el precio del viaje; los administradores cancelan sin cargo
+ */
+export function computeCancellationCharge(
+  trip: CancellableTrip,
+  policy: CancellationPolicy,
+  role: CancellationRole,
+  driverDistanceMeters: number | null,
+  now: Date = new Date()
+): CancellationCharge {
+  const { stage, freeUntil } = getCancellationStage(trip, policy, driverDistanceMeters, now)
+  const free: CancellationCharge = {
+    stage,
+    chargedTo: null,
+    amount: 0,
+    currency: trip.currency,
+    freeUntil,
+    description: 'Cancelación sin cargo',
+  }
+
+  if (role === 'ADMIN') return free
+
+  if (role === 'DRIVER') {
+    // Solo se penaliza al conductor que suelta un viaje que ya había aceptado
+    if (stage === 'NO_DRIVER' || stage === 'SCHEDULED_AHEAD' || policy.driverPenalty <= 0) return free
+    return {
+      ...free,
+      chargedTo: 'DRIVER',
+      amount: policy.driverPenalty,
+      description: 'Penalización por cancelar un viaje aceptado',
+    }
+  }
+
+  const fee = stage === 'ARRIVED' ? policy.arrivedFee : stage === 'EN_ROUTE' ? policy.enRouteFee : 0
+  if (fee <= 0) return free
+
+  return {
+    ...free,
+    chargedTo: 'PASSENGER',
+    amount: Math.min(fee, trip.totalPrice),
+    description: stage === 'ARRIVED'
+      ? 'Cargo por cancelar con el conductor en el punto de recogida'
+      : 'Cargo por cancelar con el conductor en camino',
+  }
+}
+
+/**
+ * Cargo al pasajero que no se presentó (no supera el precio del viaje)
+ */
+export function computeNoShowCharge(trip: CancellableTrip, policy: CancellationPolicy): CancellationCharge {
+  const amount = Math.min(policy.noShowFee, trip.totalPrice)
+  return {
+    stage: 'NO_SHOW',
+    chargedTo: amount > 0 ? 'PASSENGER' : null,
+    amount: Math.max(0, amount),
+    currency: trip.currency,
+    freeUntil: null,
+    description: 'Cargo por no presentarse al viaje',
+  }
+}
+
+/**
+ * Política de cancelación con la que se cotizó el viaje (su versión de tarifas o las del país)
+ */
+export async function getTripCancellationPolicy(trip: {
+  pricingVersionId: string | null
+  originPlace?: { country: string | null } | null
+}): Promise<CancellationPolicy> {
+  const pricing = await getTripPricing(trip.pricingVersionId, trip.originPlace?.country)
+  return pricing.cancellation
+}
+
+/**
+ * Obtiene el cargo que tendría cancelar ahora un viaje (para mostrarlo antes de confirmar)
+ * Con `userId`, verifica que el viaje sea del pasajero o del conductor que consulta
+ */
+export async function getCancellationCharge(
+  tripId: string,
+  role: CancellationRole,
+  userId?: string
+): Promise<CancellationCharge> {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    include: { originPlace: { select: { country: true } } },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  if (userId && role === 'PASSENGER' && trip.passengerId !== userId) {
+    throw new Error('No tienes permiso para ver este viaje')
+  }
+
+  if (userId && role === 'DRIVER' && trip.driverId !== userId) {
+    throw new Error('No tienes permiso para ver este viaje')
+  }
+
+  if (trip.status === TripStatus.CANCELLED || trip.status === TripStatus.COMPLETED) {
+    throw new Error('El viaje ya no se puede cancelar')
+  }
+
+  const policy = await getTripCancellationPolicy(trip)
+
+  // Distancia del conductor al origen según su última posición conocida
+  let driverDistanceMeters: number | null = null
+  if (trip.driverId) {
+    const location = await prisma.driverLocation.findUnique({ where: { driverId: trip.driverId } })
+    if (location) {
+      driverDistanceMeters = calculateDistance(
+        location.latitude,
+        location.longitude,
+        trip.originLatitude,
+        trip.originLongitude
+      )
+    }
+  }
+
+  return computeCancellationCharge(trip, policy, role, driverDistanceMeters)
+}
+
+/**
+ * Datos del pago que genera un cargo de cancelación
+ * El cargo del pasajero compensa al conductor: si tiene dirección Stellar, se prepara el cobro a esa dirección
+ */
+export async function buildCancellationPayment(
+  trip: {
+    id: string
+    tripNumber: string
+    passengerId: string | null
+    driverId: string | null
+    originPlace?: { country: string | null } | null
+  },
+  charge: CancellationCharge
+): Promise<Prisma.PaymentUncheckedCreateInput | null> {
+  if (!charge.chargedTo || charge.amount <= 0) return null
+
+  const base = {
+    tripId: trip.id,
+    amount: charge.amount,
+    currency: charge.currency,
+    fee: 0,
+    netAmount: charge.amount,
+    status: PaymentStatus.PENDING,
+    paymentMethodDetails: { description: charge.description, stage: charge.stage },
+  }
+
+  if (charge.chargedTo === 'DRIVER') {
+    return {
+      ...base,
+      userId: trip.driverId,
+      type: PaymentType.DRIVER_PENALTY,
+      method: PaymentMethod.OTHER,
+    }
+  }
+
+  const driver = trip.driverId
+    ? await prisma.user.findUnique({
+      where: { id: trip.driverId },
+      select: { stellarAddress: true, settlementAssetCode: true, settlementAssetIssuer: true },
+    })
+    : null
+
+  const passengerFee = {
+    ...base,
+    userId: trip.passengerId,
+    type: PaymentType.CANCELLATION_FEE,
+    method: PaymentMethod.OTHER,
+  }
+
+  if (!driver?.stellarAddress) return passengerFee
+
+  try {
+    const { createStellarPaymentRequest } = await import('./stellarPaymentService')
+    const { details } = await createStellarPaymentRequest({
+      driver: { ...driver, stellarAddress: driver.stellarAddress },
+      country: trip.originPlace?.country,
+      amount: charge.amount,
+      currency: charge.currency,
+      memo: `Cancel ${trip.tripNumber}`,
+    })
+
+    return {
+      ...passengerFee,
+      method: PaymentMethod.STELLAR,
+      paymentMethodDetails: { ...base.paymentMethodDetails, ...details },
+    }
+  } catch (error) {
+    // Sin cobro Stellar el cargo queda pendiente igual y se puede saldar por otro medio
+    console.error('Error generando el cobro Stellar de la cancelación:', error)
+    return passengerFee
+  }
+}
+
+/**
+ * Indica si el pasajero tiene cargos de cancelación sin pagar
+ */
+export async function hasPendingCancellationFees(passengerId: string): Promise<boolean> {
+  const count = await prisma.payment.count({
+    where: {
+      userId: passengerId,
+      type: PaymentType.CANCELLATION_FEE,
+      status: PaymentStatus.PENDING,
+    },
+  })
+
+  return count > 0
+}
@@ -0,0 +1,420 @@
+/**
+ * Servicio de configuración operativa por país
+ * Reglas del país que no son tarifas: la estrategia de despacho, las zonas de servicio (de ellas sale
+ * el país de un viaje), la geocerca de inicio y fin de viaje (con los roles que pueden autorizar
+ * excepciones) y los assets Stellar aceptados para cobrar.
+ * Se versionan aparte de las tarifas: cada cambio guarda una versión nueva que rige de inmediato,
+ * y el historial registra quién la hizo
+ */
+
+import { PrismaClient, DispatchStrategy, Prisma, UserRole } from '@prisma/client'
+import { getPricingCountries, normalizeCountryCode, PricingZone } from './pricingService'
+import { Currency } from './currencyService'
+import { calculateDistance } from '../utils/tripSecurity'
+import { LatLng } from '../utils/polyline'
+
+const prisma = new PrismaClient()
+
+// Cómo se ofrecen los viajes a los conductores cercanos (ver driverAlertService)
+export interface DispatchSettings {
+  strategy: DispatchStrategy
+  batchSize: number // Conductores por ola en BATCHED
+}
+
+// Zona donde opera el servicio: los viajes que salen de ella son del país
+export interface ServiceArea {
+  name: string
+  latitude: number
+  longitude: number
+  radiusKm: number
+}
+
+export interface GeofenceRule {
+  radiusMeters: number // Distancia máxima al punto (origen al iniciar, destino al completar)
+  requireGps: boolean // Si es obligatorio enviar la posición GPS
+  maxAccuracyMeters: number // Se rechazan posiciones con peor precisión
+}
+
+// Zona con reglas de geocerca propias (p. ej. aeropuertos o terminales grandes)
+export interface GeofenceZone extends PricingZone {
+  start?: Partial<GeofenceRule>
+  completion?: Partial<GeofenceRule>
+}
+
+export interface GeofencePolicy {
+  start: GeofenceRule
+  completion: GeofenceRule
+  overrideRoles: string[] // Roles que pueden autorizar iniciar o completar fuera de la geocerca
+  zones: GeofenceZone[]
+}
+
+// Asset Stellar con que se puede cobrar un viaje (el conductor elige uno de los aceptados en el país)
+export interface StellarAssetOption {
+  code: string // Código del asset (XLM es el asset nativo)
+  issuer: string | null // Cuenta emisora (null en XLM)
+  peggedTo?: string // Stablecoins: moneda a la par con que se cotiza (p. ej. USD para USDC)
+}
+
+export interface CountrySettings {
+  dispatch: DispatchSettings
+  serviceAreas: ServiceArea[] // Zonas donde opera el servicio: un viaje es del país de la zona de su origen
+  geofence: GeofencePolicy
+  stellarAssets: StellarAssetOption[] // Assets Stellar aceptados para cobrar los viajes del país
+}
+
+export interface ResolvedCountrySettings {
+  settings: CountrySettings
+  settingsVersionId: string | null // null: configuración por defecto (sin versiones guardadas)
+  settingsVersion: number | null
+}
+
+// Despacho por defecto: la estrategia de DISPATCH_STRATEGY (o BROADCAST) y olas de 3 conductores
+const DEFAULT_DISPATCH_STRATEGY = parseDispatchStrategy(process.env.DISPATCH_STRATEGY) || DispatchStrategy.BROADCAST
+const DEFAULT_DISPATCH_BATCH_SIZE = 3
+
+// Países con olas de otro tamaño
+const COUNTRY_DISPATCH_BATCH_SIZE: Record<string, number> = {
+  US: 5,
+}
+
+// Zonas de servicio por defecto: las principales ciudades de cada país y sus alrededores
+const DEFAULT_SERVICE_AREAS: Record<string, ServiceArea[]> = {
+  CL: [
+    { name: 'Santiago y Valparaíso', latitude: -33.45, longitude: -70.67, radiusKm: 120 },
+    { name: 'Concepción', latitude: -36.83, longitude: -73.05, radiusKm: 80 },
+    { name: 'La Serena', latitude: -29.9, longitude: -71.25, radiusKm: 80 },
+    { name: 'Antofagasta', latitude: -23.65, longitude: -70.4, radiusKm: 80 },
+    { name: 'Calama y San Pedro de Atacama', latitude: -22.7, longitude: -68.55, radiusKm: 90 },
+    { name: 'Temuco', latitude: -38.74, longitude: -72.6, radiusKm: 80 },
+    { name: 'Puerto Montt', latitude: -41.47, longitude: -72.94, radiusKm: 100 },
+    { name: 'Punta Arenas', latitude: -53.16, longitude: -70.91, radiusKm: 80 },
+  ],
+  MX: [
+    { name: 'Ciudad de México', latitude: 19.43, longitude: -99.13, radiusKm: 100 },
+    { name: 'Guadalajara', latitude: 20.67, longitude: -103.35, radiusKm: 80 },
+    { name: 'Monterrey', latitude: 25.69, longitude: -100.32, radiusKm: 80 },
+    { name: 'Cancún y Riviera Maya', latitude: 20.9, longitude: -87.0, radiusKm: 140 },
+  ],
+  US: [
+    { name: 'New York', latitude: 40.71, longitude: -74.0, radiusKm: 100 },
+    { name: 'Los Angeles', latitude: 34.05, longitude: -118.24, radiusKm: 120 },
+    { name: 'Miami', latitude: 25.76, longitude: -80.19, radiusKm: 100 },
+    { name: 'Chicago', latitude: 41.88, longitude: -87.63, radiusKm: 80 },
+    { name: 'San Francisco', latitude: 37.77, longitude: -122.42, radiusKm: 100 },
+  ],
+  AR: [
+    { name: 'Buenos Aires', latitude: -34.6, longitude: -58.38, radiusKm: 100 },
+    { name: 'Córdoba', latitude: -31.42, longitude: -64.18, radiusKm: 80 },
+    { name: 'Mendoza', latitude: -32.89, longitude: -68.83, radiusKm: 80 },
+    { name: 'Bariloche', latitude: -41.13, longitude: -71.31, radiusKm: 80 },
+  ],
+  CO: [
+    { name: 'Bogotá', latitude: 4.71, longitude: -74.07, radiusKm: 80 },
+    { name: 'Medellín', latitude: 6.24, longitude: -75.58, radiusKm: 80 },
+    { name: 'Cali', latitude: 3.45, longitude: -76.53, radiusKm: 60 },
+    { name: 'Cartagena', latitude: 10.39, longitude: -75.48, radiusKm: 80 },
+  ],
+  BR: [
+    { name: 'São Paulo', latitude: -23.55, longitude: -46.63, radiusKm: 120 },
+    { name: 'Rio de Janeiro', latitude: -22.91, longitude: -43.17, radiusKm: 100 },
+    { name: 'Brasília', latitude: -15.79, longitude: -47.88, radiusKm: 80 },
+    { name: 'Florianópolis', latitude: -27.6, longitude: -48.55, radiusKm: 60 },
+  ],
+  BO: [
+    { name: 'La Paz', latitude: -16.5, longitude: -68.15, radiusKm: 80 },
+    { name: 'Santa Cruz', latitude: -17.78, longitude: -63.18, radiusKm: 80 },
+    { name: 'Cochabamba', latitude: -17.39, longitude: -66.16, radiusKm: 60 },
+    { name: 'Uyuni', latitude: -20.46, longitude: -66.83, radiusKm: 100 },
+  ],
+  PE: [
+    { name: 'Lima', latitude: -12.05, longitude: -77.04, radiusKm: 100 },
+    { name: 'Cusco', latitude: -13.53, longitude: -71.97, radiusKm: 120 },
+    { name: 'Arequipa', latitude: -16.41, longitude: -71.54, radiusKm: 80 },
+  ],
+  CA: [
+    { name: 'Toronto', latitude: 43.65, longitude: -79.38, radiusKm: 100 },
+    { name: 'Vancouver', latitude: 49.28, longitude: -123.12, radiusKm: 100 },
+    { name: 'Montréal', latitude: 45.5, longitude: -73.57, radiusKm: 80 },
+  ],
+}
+
+// Geocerca por defecto: GPS obligatorio, 100 m del origen para iniciar y 150 m del destino para completar
+const DEFAULT_GEOFENCE: GeofencePolicy = {
+  start: { radiusMeters: 100, requireGps: true, maxAccuracyMeters: 100 },
+  completion: { radiusMeters: 150, requireGps: true, maxAccuracyMeters: 100 },
+  overrideRoles: ['ADMIN', 'DISPATCHER'],
+  zones: [],
+}
+
+// Emisor de USDC (Circle) en la red de pagos configurada
+const USDC_ISSUER = process.env.STELLAR_NETWORK === 'mainnet'
+  ? 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN'
+  : 'GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5'
+
+// Assets Stellar aceptados por defecto: XLM y USDC
+const DEFAULT_STELLAR_ASSETS: StellarAssetOption[] = [
+  { code: 'XLM', issuer: null },
+  { code: 'USDC', issuer: USDC_ISSUER, peggedTo: 'USD' },
+]
+
+const STELLAR_ASSET_CODE_PATTERN = /^[A-Za-z0-9]{1,12}$/
+const STELLAR_ACCOUNT_PATTERN = /^G[A-Z2-7]{55}$/
+
+function parseDispatchStrategy(value: string | undefined): DispatchStrategy | undefined {
+  const strategy = value?.toUpperCase().trim() as DispatchStrategy | undefined
+  return strategy && Object.values(DispatchStrategy).includes(strategy) ? strategy : undefined
+}
+
+/**
+ * Configuración por defecto de un país (rige mientras no tenga versiones guardadas)
+ */
+export function getDefaultCountrySettings(country: string | null | undefined): CountrySettings {
+  return {
+    dispatch: {
+      strategy: DEFAULT_DISPATCH_STRATEGY,
+      batchSize: COUNTRY_DISPATCH_BATCH_SIZE[normalizeCountryCode(country)] || DEFAULT_DISPATCH_BATCH_SIZE,
+    },
+    serviceAreas: (DEFAULT_SERVICE_AREAS[normalizeCountryCode(country)] || []).map(area => ({ ...area })),
+    geofence: {
+      ...DEFAULT_GEOFENCE,
+      start: { ...DEFAULT_GEOFENCE.start },
+      completion: { ...DEFAULT_GEOFENCE.completion },
+      overrideRoles: [...DEFAULT_GEOFENCE.overrideRoles],
+      zones: [],
+    },
+    stellarAssets: DEFAULT_STELLAR_ASSETS.map(asset => ({ ...asset })),
+  }
+}
+
+/**
+ * Lanza el error de validación de una configuración de país
+ */
+function invalidSettings(detail: string): never {
+  throw new Error(`Configuración del país inválida: ${detail}`)
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+function isLocatedZone(zone: Partial<ServiceArea>): boolean {
+  return !!zone && typeof zone.name === 'string' &&
+    typeof zone.latitude === 'number' && Math.abs(zone.latitude) <= 90 &&
+    typeof zone.longitude === 'number' && Math.abs(zone.longitude) <= 180 &&
+    isNonNegative(zone.radiusKm)
+}
+
+function isGeofenceRule(rule: Partial<GeofenceRule>): boolean {
+  return isNonNegative(rule.radiusMeters) && isNonNegative(rule.maxAccuracyMeters) &&
+    typeof rule.requireGps === 'boolean'
+}
+
+// XLM no tiene emisor ni paridad; los demás assets requieren emisor y se cotizan a la par de una moneda
+function isStellarAsset(asset: Partial<StellarAssetOption>): boolean {
+  if (!asset || typeof asset.code !== 'string' || !STELLAR_ASSET_CODE_PATTERN.test(asset.code)) return false
+  if (asset.code === 'XLM') return !asset.issuer && asset.peggedTo === undefined
+  return typeof asset.issuer === 'string' && STELLAR_ACCOUNT_PATTERN.test(asset.issuer) &&
+    Object.values(Currency).includes(asset.peggedTo as Currency)
+}
+
+/**
+ * Valida una configuración de país (las secciones ausentes se toman de `base`)
+ * Solo conserva las secciones conocidas
+ */
+export function validateCountrySettings(input: unknown, base: CountrySettings): CountrySettings {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    invalidSettings('se esperaba un objeto')
+  }
+
+  const partial = input as Partial<CountrySettings>
+
+  const dispatch: DispatchSettings = { ...base.dispatch, ...partial.dispatch }
+  if (!Object.values(DispatchStrategy).includes(dispatch.strategy)) {
+    invalidSettings('dispatch.strategy debe ser BROADCAST, WATERFALL o BATCHED')
+  }
+  if (!Number.isInteger(dispatch.batchSize) || dispatch.batchSize < 1) {
+    invalidSettings('dispatch.batchSize debe ser un entero mayor que 0')
+  }
+
+  const serviceAreas = partial.serviceAreas ?? base.serviceAreas
+  if (!Array.isArray(serviceAreas) || !serviceAreas.every(area => isLocatedZone(area) && area.radiusKm > 0)) {
+    invalidSettings('zonas de servicio inválidas')
+  }
+
+  const geofence: GeofencePolicy = {
+    ...base.geofence,
+    ...partial.geofence,
+    start: { ...base.geofence.start, ...partial.geofence?.start },
+    completion: { ...base.geofence.completion, ...partial.geofence?.completion },
+  }
+  for (const stage of ['start', 'completion'] as const) {
+    if (!isGeofenceRule(geofence[stage])) invalidSettings(`geofence.${stage} inválida`)
+  }
+  const roles: string[] = Object.values(UserRole)
+  if (!Array.isArray(geofence.overrideRoles) || !geofence.overrideRoles.every(role => roles.includes(role))) {
+    invalidSettings('geofence.overrideRoles debe contener roles válidos')
+  }
+  if (!Array.isArray(geofence.zones) || !geofence.zones.every(zone =>
+    isLocatedZone(zone) &&
+    isGeofenceRule({ ...geofence.start, ...zone.start }) &&
+    isGeofenceRule({ ...geofence.completion, ...zone.completion }))) {
+    invalidSettings('zonas de geocerca inválidas')
+  }
+
+  const assets = partial.stellarAssets ?? base.stellarAssets
+  if (!Array.isArray(assets) || assets.length === 0) {
+    invalidSettings('se requiere al menos un asset Stellar aceptado')
+  }
+  const stellarAssets = assets.map((asset: Partial<StellarAssetOption>, index): StellarAssetOption => {
+    if (!isStellarAsset(asset)) {
+      invalidSettings(`asset Stellar ${index + 1} inválido: XLM no lleva emisor y los demás requieren emisor y moneda de paridad`)
+    }
+    return asset.code === 'XLM'
+      ? { code: 'XLM', issuer: null }
+      : { code: asset.code as string, issuer: asset.issuer as string, peggedTo: asset.peggedTo }
+  })
+  const assetKeys = stellarAssets.map(asset => `${asset.code}:${asset.issuer ?? ''}`)
+  if (new Set(assetKeys).size !== assetKeys.length) {
+    invalidSettings('assets Stellar duplicados')
+  }
+
+  return {
+    dispatch,
+    serviceAreas: serviceAreas.map(({ name, latitude, longitude, radiusKm }) => ({ name, latitude, longitude, radiusKm })),
+    geofence,
+    stellarAssets,
+  }
+}
+
+/**
+ * Configuración lista para guardarse como JSON
+ */
+function toJsonSettings(settings: CountrySettings): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(settings))
+}
+
+/**
+ * Obtiene la configuración vigente de un país: su última versión o, si no tiene, la configuración por defecto
+ */
+export async function resolveCountrySettings(country: string | null | undefined): Promise<ResolvedCountrySettings> {
+  const countryCode = normalizeCountryCode(country)
+  const version = await prisma.countrySettingsVersion.findFirst({
+    where: { country: countryCode },
+    orderBy: { version: 'desc' },
+  })
+
+  if (!version) {
+    return { settings: getDefaultCountrySettings(countryCode), settingsVersionId: null, settingsVersion: null }
+  }
+
+  return {
+    settings: validateCountrySettings(version.config, getDefaultCountrySettings(countryCode)),
+    settingsVersionId: version.id,
+    settingsVersion: version.version,
+  }
+}
+
+/**
+ * Configuración vigente de un país
+ */
+export async function getCountrySettings(country: string | null | undefined): Promise<CountrySettings> {
+  return (await resolveCountrySettings(country)).settings
+}
+
+/**
+ * País de un punto (el origen de un viaje): el de la zona de servicio que lo contiene
+ * Si el punto cae en zonas de varios países, gana la de centro más cercano
+ */
+export async function resolveCountryByLocation(point: LatLng): Promise<string> {
+  // Última versión de cada país
+  const versions = await prisma.countrySettingsVersion.findMany({
+    orderBy: [{ country: 'asc' }, { version: 'desc' }],
+    distinct: ['country'],
+  })
+
+  let match: { country: string; distanceKm: number } | null = null
+  for (const country of getPricingCountries()) {
+    const version = versions.find(v => v.country === country)
+    const { serviceAreas } = version
+      ? validateCountrySettings(version.config, getDefaultCountrySettings(country))
+      : getDefaultCountrySettings(country)
+
+    for (const area of serviceAreas) {
+      const distanceKm = calculateDistance(point.lat, point.lng, area.latitude, area.longitude) / 1000
+      if (distanceKm <= area.radiusKm && (!match || distanceKm < match.distanceKm)) {
+        match = { country, distanceKm }
+      }
+    }
+  }
+
+  if (!match) {
+    throw new Error('El origen está fuera de las zonas de servicio')
+  }
+  return match.country
+}
+
+/**
+ * Países configurables y la versión vigente de cada uno (null: rige la configuración por defecto)
+ */
+export async function listCountrySettings() {
+  const versions = await prisma.countrySettingsVersion.findMany({
+    orderBy: [{ country: 'asc' }, { version: 'desc' }],
+    distinct: ['country'],
+    select: { country: true, version: true, createdAt: true },
+  })
+
+  return getPricingCountries().map(country => {
+    const live = versions.find(v => v.country === country)
+    return { country, liveVersion: live?.version ?? null, updatedAt: live?.createdAt ?? null }
+  })
+}
+
+/**
+ * Historial de versiones de la configuración de un país (más recientes primero) y la configuración vigente
+ */
+export async function listCountrySettingsVersions(country: string) {
+  const countryCode = normalizeCountryCode(country)
+  const [versions, live] = await Promise.all([
+    prisma.countrySettingsVersion.findMany({
+      where: { country: countryCode },
+      orderBy: { version: 'desc' },
+    }),
+    resolveCountrySettings(countryCode),
+  ])
+
+  return {
+    country: countryCode,
+    liveVersionId: live.settingsVersionId,
+    settings: live.settings,
+    defaults: getDefaultCountrySettings(countryCode),
+    versions,
+  }
+}
+
+/**
+ * Guarda una nueva versión de la configuración de un país (las secciones ausentes se toman de la vigente)
+ */
+export async function updateCountrySettings(data: {
+  country: string
+  config: unknown
+  notes?: string
+  adminId: string
+}) {
+  const country = normalizeCountryCode(data.country)
+  if (!getPricingCountries().includes(country)) {
+    throw new Error('País sin tarifas configuradas')
+  }
+
+  const live = await resolveCountrySettings(country)
+  const settings = validateCountrySettings(data.config, live.settings)
+
+  return prisma.countrySettingsVersion.create({
+    data: {
+      country,
+      version: (live.settingsVersion || 0) + 1,
+      config: toJsonSettings(settings),
+      notes: data.notes || null,
+      createdBy: data.adminId,
+    },
+  })
+}
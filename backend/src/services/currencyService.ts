@@ -1,7 +1,6 @@
 /**
  * Servicio de conversión de monedas
- * Usa tasas de cambio fijas para desarrollo
- * En producción, se puede integrar con una API externa como exchangerate-api.com
+ * Usa las tasas en vivo de exchangeRateService y, mientras no hay, tasas de referencia fijas
  */
 
 export enum Currency {
@@ -16,8 +15,7 @@ export enum Currency {
   CAD = 'CAD',
 }
 
-// Tasas de cambio base (1 USD = X moneda)
-// Estas son tasas aproximadas, en producción deberían venir de una API actualizada
+// Tasas de cambio de referencia (1 USD = X moneda), usadas hasta obtener las tasas en vivo
 const EXCHANGE_RATES: Record<string, number> = {
   CLP: 950, // 1 USD = 950 CLP
   MXN: 17, // 1 USD = 17 MXN
@@ -30,6 +28,18 @@ const EXCHANGE_RATES: Record<string, number> = {
   CAD: 1.35, // 1 USD = 1.35 CAD
 }
 
+// Tasas en vivo (1 USD = X moneda) informadas por exchangeRateService
+let liveRates: Record<string, number> = {}
+
+/**
+ * Actualiza las tasas en vivo usadas para convertir montos
+ */
+export function setLiveExchangeRates(rates: Record<string, number>) {
+  liveRates = { ...liveRates, ...rates }
+}
+
+const getUsdRate = (currency: string) => liveRates[currency] || EXCHANGE_RATES[currency] || 1
+
 /**
  * Obtiene la tasa de cambio entre dos monedas
  */
@@ -37,8 +47,8 @@ export function getExchangeRate(from: string, to: string): number {
   if (from === to) return 1
 
   // Convertir a USD primero
-  const fromRate = EXCHANGE_RATES[from] || 1
-  const toRate = EXCHANGE_RATES[to] || 1
+  const fromRate = getUsdRate(from)
+  const toRate = getUsdRate(to)
 
   // Tasa de cambio: (1 unidad de 'from' en USD) / (1 unidad de 'to' en USD)
   // Ejemplo: CLP a MXN = (1/950) / (1/17) = 17/950
@@ -3,13 +3,34 @@
  * Maneja alertas con timeout de 1 minuto para aceptar/rechazar viajes
  */
 
-import { PrismaClient, DriverAlertStatus, TripStatus, UserRole } from '@prisma/client'
+import { PrismaClient, DriverAlertStatus, DispatchStrategy, TripActorRole, TripStatus, UserRole, VehicleType, Prisma } from '@prisma/client'
+import { calculateDistance } from '../utils/tripSecurity'
+import { estimateTravelTime } from './locationService'
+import { getCountrySettings } from './countrySettingsService'
+import { scheduleJob } from './jobService'
+import { getActiveTripFilter, getDriverConfirmationOnAccept } from './scheduledTripService'
+import { assertTripTransition, recordTripEvent } from './tripStateService'
 
 const prisma = new PrismaClient()
 
 // Tiempo límite para alertas de conductores (1 minuto)
 const ALERT_TIMEOUT_MINUTES = 1
 
+// Radio inicial de búsqueda de conductores alrededor del origen (km)
+const MATCH_RADIUS_KM = Number(process.env.DRIVER_MATCH_RADIUS_KM) || 5
+
+// Radio máximo al que se puede ampliar la búsqueda (km)
+const MATCH_MAX_RADIUS_KM = Number(process.env.DRIVER_MATCH_MAX_RADIUS_KM) || 40
+
+// Factor de ampliación del radio cuando ningún conductor acepta
+const MATCH_RADIUS_EXPANSION_FACTOR = Number(process.env.DRIVER_MATCH_RADIUS_EXPANSION) || 2
+
+// Antigüedad máxima de la última posición de un conductor para considerarlo (minutos)
+const DRIVER_LOCATION_MAX_AGE_MINUTES = Number(process.env.DRIVER_LOCATION_MAX_AGE_MINUTES) || 15
+
+// Job que ejecuta la siguiente ola de despacho si nadie aceptó la anterior
+export const DISPATCH_WAVE_JOB = 'dispatch-wave'
+
 /**
  * Crea una alerta para un conductor sobre un viaje disponible
  * Timeout de 1 minuto para aceptar/rechazar
@@ -66,7 +87,8 @@ export async function createDriverAlert(driverId: string, tripId: string) {
  */
 export async function broadcastTripToDrivers(
   tripId: string,
-  driverIds: string[]
+  driverIds: string[],
+  metadataByDriver?: Record<string, Prisma.InputJsonObject>
 ) {
   const expiresAt = new Date()
   expiresAt.setMinutes(expiresAt.getMinutes() + ALERT_TIMEOUT_MINUTES)
@@ -80,6 +102,7 @@ export async function broadcastTripToDrivers(
           tripId,
           status: DriverAlertStatus.PENDING,
           expiresAt,
+          ...(metadataByDriver?.[driverId] ? { metadata: metadataByDriver[driverId] } : {}),
         },
       }).catch(() => null) // Ignorar errores de duplicados
     )
@@ -157,7 +180,7 @@ export async function getDriverAlerts(
  * Usa transacción para evitar race conditions
  */
 export async function acceptTripFromAlert(alertId: string, driverId: string, vehicleId?: string) {
-  return await prisma.$transaction(async (tx) => {
+  const acceptedTrip = await prisma.$transaction(async (tx) => {
     // 1. Verificar que la alerta existe y está pendiente
     const alert = await tx.driverAlert.findFirst({
       where: {
@@ -276,13 +299,11 @@ export async function acceptTripFromAlert(alertId: string, driverId: string, veh
       throw new Error(`No puedes aceptar este viaje. Estás en ${driver.country} pero el viaje está en ${tripCountry}. Solo puedes aceptar viajes en tu mismo país.`)
     }
 
-    // 4. Verificar que el conductor no tiene otro viaje activo
+    // 4. Verificar que el conductor no tiene otro viaje activo (los programados más adelante no cuentan)
     const activeTrip = await tx.trip.findFirst({
       where: {
         driverId,
-        status: {
-          in: [TripStatus.CONFIRMED, TripStatus.IN_PROGRESS],
-        },
+        ...getActiveTripFilter(),
       },
     })
 
@@ -291,6 +312,7 @@ export async function acceptTripFromAlert(alertId: string, driverId: string, veh
     }
 
     // 5. Actualizar el viaje (usando update con condiciones para atomicidad)
+    assertTripTransition(trip.status, TripStatus.CONFIRMED, TripActorRole.DRIVER)
     const updatedTrip = await tx.trip.updateMany({
       where: {
         id: alert.tripId,
@@ -305,6 +327,8 @@ export async function acceptTripFromAlert(alertId: string, driverId: string, veh
         vehicleId: vehicleId || undefined,
         status: TripStatus.CONFIRMED,
         driverAcceptedAt: new Date(),
+        // Los viajes programados más adelante quedan pre-aceptados hasta que el conductor confirme
+        driverConfirmedAt: getDriverConfirmationOnAccept(trip.scheduledAt),
         driverRequestedAt: trip.driverRequestedAt || new Date(),
       },
     })
@@ -318,6 +342,14 @@ export async function acceptTripFromAlert(alertId: string, driverId: string, veh
       throw new Error('El viaje ya fue aceptado por otro conductor')
     }
 
+    await recordTripEvent(tx, {
+      tripId: alert.tripId,
+      fromStatus: trip.status,
+      toStatus: TripStatus.CONFIRMED,
+      actor: { id: driverId, role: TripActorRole.DRIVER },
+      metadata: { alertId },
+    })
+
     // 6. Marcar la alerta como aceptada
     await tx.driverAlert.update({
       where: { id: alertId },
@@ -375,6 +407,20 @@ export async function acceptTripFromAlert(alertId: string, driverId: string, veh
 
     return finalTrip!
   })
+
+  // El conductor de la ida tiene la primera opción sobre la vuelta
+  if (acceptedTrip.isRoundTrip && !acceptedTrip.outboundTripId) {
+    setImmediate(async () => {
+      try {
+        const { offerReturnLegToDriver } = await import('./tripService')
+        await offerReturnLegToDriver(acceptedTrip.id, driverId)
+      } catch (error) {
+        console.error('Error ofreciendo viaje de vuelta:', error)
+      }
+    })
+  }
+
+  return acceptedTrip
 }
 
 /**
@@ -398,10 +444,13 @@ export async function rejectTripFromAlert(alertId: string, driverId: string, rea
     data: {
       status: DriverAlertStatus.REJECTED,
       rejectedAt: new Date(),
-      ...(reason ? { metadata: { reason } } : {}),
+      ...(reason ? { metadata: { ...((alert.metadata || {}) as Prisma.JsonObject), reason } } : {}),
     },
   })
 
+  // En despacho secuencial, ofrecer el viaje al siguiente conductor sin esperar la expiración
+  await advanceDispatchIfIdle(alert.tripId)
+
   return { success: true }
 }
 
@@ -435,23 +484,10 @@ export async function markAlertAsViewed(alertId: string, driverId: string) {
 export async function expireAlerts() {
   const now = new Date()
 
-  const result = await prisma.driverAlert.updateMany({
-    where: {
-      status: DriverAlertStatus.PENDING,
-      expiresAt: {
-        lt: now,
-      },
-    },
-    data: {
-      status: DriverAlertStatus.EXPIRED,
-    },
-  })
-
-  // Liberar viajes que tenían alertas expiradas y no fueron aceptados
-  // Esto permite que vuelvan a la cola para otros conductores
+  // Alertas que vencieron desde la última ejecución
   const expiredAlerts = await prisma.driverAlert.findMany({
     where: {
-      status: DriverAlertStatus.EXPIRED,
+      status: DriverAlertStatus.PENDING,
       expiresAt: {
         lt: now,
       },
@@ -467,6 +503,25 @@ export async function expireAlerts() {
     },
   })
 
+  if (expiredAlerts.length === 0) {
+    return { count: 0 }
+  }
+
+  const result = await prisma.driverAlert.updateMany({
+    where: {
+      id: {
+        in: expiredAlerts.map(a => a.id),
+      },
+      status: DriverAlertStatus.PENDING,
+    },
+    data: {
+      status: DriverAlertStatus.EXPIRED,
+    },
+  })
+
+  // Liberar viajes que tenían alertas expiradas y no fueron aceptados
+  // Esto permite que vuelvan a la cola para otros conductores
+  const releasedTripIds = new Set<string>()
   for (const alert of expiredAlerts) {
     // Si el viaje sigue pendiente y no tiene conductor, liberarlo
     if (
@@ -481,18 +536,121 @@ export async function expireAlerts() {
           acceptanceDeadline: null,
         },
       })
+      releasedTripIds.add(alert.tripId)
     }
   }
 
+  // Continuar el despacho de los viajes liberados sin esperar a la ola programada
+  for (const tripId of releasedTripIds) {
+    await advanceDispatchIfIdle(tripId, { anyStrategy: true })
+  }
+
   return result
 }
 
+/**
+ * Busca conductores disponibles: activos, con vehículo disponible, posición reciente
+ * y sin un viaje en curso. Base del despacho y del cálculo de oferta para tarifa dinámica
+ */
+export async function findAvailableDrivers(filters: {
+  country?: string | null
+  vehicleType?: VehicleType
+  excludeDriverIds?: string[]
+} = {}) {
+  const locationMinDate = new Date(Date.now() - DRIVER_LOCATION_MAX_AGE_MINUTES * 60 * 1000)
+
+  // Buscar conductores activos con vehículos disponibles y posición reciente
+  const where: any = {
+    role: UserRole.DRIVER,
+    isActive: true,
+    vehicles: {
+      some: {
+        isAvailable: true,
+      },
+    },
+    driverLocation: {
+      is: {
+        recordedAt: {
+          gte: locationMinDate,
+        },
+      },
+    },
+  }
+
+  // Filtrar por país si está disponible
+  if (filters.country) {
+    where.country = filters.country
+  }
+
+  // Si hay tipo de vehículo preferido, filtrar por ese tipo
+  if (filters.vehicleType) {
+    where.vehicles = {
+      some: {
+        isAvailable: true,
+        type: filters.vehicleType,
+      },
+    }
+  }
+
+  // Verificar que no tengan viajes activos (los programados más adelante no cuentan)
+  const driversWithActiveTrips = await prisma.trip.findMany({
+    where: getActiveTripFilter(),
+    select: {
+      driverId: true,
+    },
+  })
+
+  const excludedDriverIds = driversWithActiveTrips
+    .map(t => t.driverId)
+    .filter(id => id !== null) as string[]
+
+  if (filters.excludeDriverIds) {
+    excludedDriverIds.push(...filters.excludeDriverIds)
+  }
+
+  if (excludedDriverIds.length > 0) {
+    where.id = {
+      notIn: excludedDriverIds,
+    }
+  }
+
+  return prisma.user.findMany({
+    where,
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      vehicles: {
+        where: {
+          isAvailable: true,
+        },
+        select: {
+          id: true,
+          type: true,
+        },
+      },
+      driverLocation: {
+        select: {
+          latitude: true,
+          longitude: true,
+          recordedAt: true,
+        },
+      },
+    },
+  })
+}
+
 /**
  * Obtiene conductores disponibles para recibir alertas sobre un viaje
+ * Solo considera conductores con posición reciente dentro del radio indicado (km)
+ * alrededor del origen, ordenados por distancia en línea recta. El tiempo de recogida
+ * (pickupEtaMinutes) es una estimación a velocidad promedio desde esa misma distancia:
+ * se informa en el registro de despacho pero no cambia el orden
  */
 export async function getAvailableDriversForTrip(tripId: string, options?: {
   preferredVehicleType?: string
   maxDistance?: number
+  excludeDriverIds?: string[]
 }) {
   // Obtener el viaje para conocer el tipo de vehículo preferido y el país
   const trip = await prisma.trip.findUnique({
@@ -518,72 +676,312 @@ export async function getAvailableDriversForTrip(tripId: string, options?: {
   // Obtener el país del viaje (prioridad: originPlace > destinationPlace)
   const tripCountry = trip.originPlace?.country || trip.destinationPlace?.country
 
-  // Buscar conductores activos con vehículos disponibles
-  const where: any = {
-    role: UserRole.DRIVER,
-    isActive: true,
-    vehicles: {
-      some: {
-        isAvailable: true,
+  const maxDistanceKm = options?.maxDistance ?? MATCH_RADIUS_KM
+
+  const drivers = await findAvailableDrivers({
+    country: tripCountry,
+    vehicleType: options?.preferredVehicleType && trip.preferredVehicleType ? trip.preferredVehicleType : undefined,
+    excludeDriverIds: options?.excludeDriverIds,
+  })
+
+  // Calcular distancia al origen y tiempo estimado de recogida
+  const candidates = drivers
+    .filter(driver => driver.driverLocation)
+    .map(({ driverLocation, ...driver }) => {
+      const distanceMeters = calculateDistance(
+        driverLocation!.latitude,
+        driverLocation!.longitude,
+        trip.originLatitude,
+        trip.originLongitude
+      )
+
+      return {
+        ...driver,
+        distanceKm: Math.round(distanceMeters) / 1000,
+        pickupEtaMinutes: estimateTravelTime(distanceMeters).minutes,
+        locationRecordedAt: driverLocation!.recordedAt,
+      }
+    })
+    .filter(driver => driver.distanceKm <= maxDistanceKm)
+
+  // Desempate: la posición más reciente primero
+  candidates.sort((a, b) =>
+    a.distanceKm - b.distanceKm || b.locationRecordedAt.getTime() - a.locationRecordedAt.getTime())
+
+  return candidates
+}
+
+/**
+ * Envía un viaje pendiente a los conductores cercanos al origen según la
+ * estrategia de despacho del país:
+ * - BROADCAST: todos los candidatos a la vez
+ * - WATERFALL: el mejor candidato; al rechazar o expirar, el siguiente
+ * - BATCHED: olas de N candidatos
+ * Si no quedan candidatos en el radio actual, lo amplía hasta el radio máximo.
+ * `afterWave` evita que una ola programada se ejecute si otra ya avanzó el despacho
+ */
+export async function dispatchTripToNearbyDrivers(tripId: string, options?: {
+  radiusKm?: number
+  afterWave?: number
+}) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      id: true,
+      tripNumber: true,
+      status: true,
+      driverId: true,
+      originAddress: true,
+      destinationAddress: true,
+      preferredVehicleType: true,
+      dispatchStrategy: true,
+      dispatchWave: true,
+      dispatchRadiusKm: true,
+      originPlace: {
+        select: {
+          country: true,
+        },
+      },
+      destinationPlace: {
+        select: {
+          country: true,
+        },
       },
     },
+  })
+
+  // El viaje ya fue tomado o cancelado
+  if (!trip || trip.status !== TripStatus.PENDING || trip.driverId) {
+    return { wave: trip?.dispatchWave ?? 0, driverIds: [] as string[] }
   }
 
-  // Filtrar por país si está disponible
-  if (tripCountry) {
-    where.country = tripCountry
+  // Otra ola ya se ejecutó desde que se programó esta
+  if (options?.afterWave !== undefined && trip.dispatchWave !== options.afterWave) {
+    return { wave: trip.dispatchWave, driverIds: [] as string[] }
   }
 
-  // Si hay tipo de vehículo preferido, filtrar por ese tipo
-  if (options?.preferredVehicleType && trip.preferredVehicleType) {
-    where.vehicles = {
-      some: {
-        isAvailable: true,
-        type: trip.preferredVehicleType,
-      },
-    }
+  const { dispatch: config } = await getCountrySettings(trip.originPlace?.country || trip.destinationPlace?.country)
+  const strategy = trip.dispatchStrategy || config.strategy
+  let radiusKm = Math.min(options?.radiusKm ?? trip.dispatchRadiusKm ?? MATCH_RADIUS_KM, MATCH_MAX_RADIUS_KM)
+
+  // No volver a alertar a conductores que ya recibieron este viaje
+  const previousAlerts = await prisma.driverAlert.findMany({
+    where: { tripId },
+    select: { driverId: true },
+  })
+
+  const findCandidates = () => getAvailableDriversForTrip(tripId, {
+    preferredVehicleType: trip.preferredVehicleType || undefined,
+    maxDistance: radiusKm,
+    excludeDriverIds: previousAlerts.map(a => a.driverId),
+  })
+
+  let candidates = await findCandidates()
+  while (candidates.length === 0 && radiusKm < MATCH_MAX_RADIUS_KM) {
+    radiusKm = Math.min(radiusKm * MATCH_RADIUS_EXPANSION_FACTOR, MATCH_MAX_RADIUS_KM)
+    candidates = await findCandidates()
   }
 
-  // Verificar que no tengan viajes activos
-  const driversWithActiveTrips = await prisma.trip.findMany({
+  const offered = strategy === DispatchStrategy.WATERFALL
+    ? candidates.slice(0, 1)
+    : strategy === DispatchStrategy.BATCHED
+      ? candidates.slice(0, config.batchSize)
+      : candidates
+
+  // Registrar la ola en el viaje (la condición sobre dispatchWave evita olas duplicadas)
+  const wave = offered.length > 0 ? trip.dispatchWave + 1 : trip.dispatchWave
+  const claimed = await prisma.trip.updateMany({
     where: {
-      status: {
-        in: [TripStatus.CONFIRMED, TripStatus.IN_PROGRESS],
-      },
+      id: tripId,
+      status: TripStatus.PENDING,
+      dispatchWave: trip.dispatchWave,
+    },
+    data: {
+      dispatchStrategy: strategy,
+      dispatchWave: wave,
+      dispatchRadiusKm: radiusKm,
     },
+  })
+
+  if (claimed.count === 0 || offered.length === 0) {
+    return { wave: trip.dispatchWave, driverIds: [] as string[] }
+  }
+
+  const driverIds = offered.map(d => d.id)
+
+  const metadataByDriver: Record<string, Prisma.InputJsonObject> = {}
+  offered.forEach((driver, index) => {
+    metadataByDriver[driver.id] = {
+      strategy,
+      wave,
+      rank: previousAlerts.length + index + 1,
+      distanceKm: driver.distanceKm,
+      pickupEtaMinutes: driver.pickupEtaMinutes,
+      radiusKm,
+    }
+  })
+
+  // Crear alertas para conductores (timeout de 1 minuto)
+  await broadcastTripToDrivers(tripId, driverIds, metadataByDriver)
+
+  // Crear notificaciones para los conductores
+  const { createNotification } = await import('./notificationService')
+  const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+  await Promise.all(driverIds.map(driverId =>
+    createNotification({
+      userId: driverId,
+      type: NotificationType.TRIP_AVAILABLE,
+      title: 'Nuevo viaje disponible',
+      message: `Viaje ${trip.tripNumber}: ${trip.originAddress} → ${trip.destinationAddress}`,
+      priority: NotificationPriority.HIGH,
+      data: {
+        tripId: trip.id,
+        tripNumber: trip.tripNumber,
+      },
+      actionUrl: `/driver/trips/available`,
+      actionLabel: 'Ver viaje',
+    }).catch(() => null)
+  ))
+
+  // Programar la siguiente ola si nadie acepta antes de que expiren las alertas:
+  // los candidatos restantes del mismo radio o, si no quedan, un radio mayor
+  const hasRemainingCandidates = candidates.length > offered.length
+  if (hasRemainingCandidates || radiusKm < MATCH_MAX_RADIUS_KM) {
+    const nextRadiusKm = hasRemainingCandidates ? radiusKm : radiusKm * MATCH_RADIUS_EXPANSION_FACTOR
+    // Se persiste como job para que sobreviva a un reinicio y la ejecute una sola instancia
+    await scheduleJob(DISPATCH_WAVE_JOB, { tripId, radiusKm: nextRadiusKm, afterWave: wave }, {
+      key: `${DISPATCH_WAVE_JOB}:${tripId}:${wave}`,
+      runAt: new Date(Date.now() + ALERT_TIMEOUT_MINUTES * 60 * 1000),
+    }).catch(error => {
+      console.error('Error programando la siguiente ola de despacho:', error)
+    })
+  }
+
+  return { wave, driverIds }
+}
+
+/**
+ * Job: ejecuta la ola de despacho programada (no hace nada si el viaje ya fue tomado u otra ola avanzó)
+ */
+export async function runDispatchWave(payload: { tripId: string; radiusKm?: number; afterWave?: number }) {
+  return dispatchTripToNearbyDrivers(payload.tripId, {
+    radiusKm: payload.radiusKm,
+    afterWave: payload.afterWave,
+  })
+}
+
+/**
+ * En despacho secuencial (WATERFALL / BATCHED), ofrece el viaje a la siguiente
+ * ola en cuanto no quedan alertas pendientes, sin esperar la expiración.
+ * Con `anyStrategy` también continúa el despacho BROADCAST (usado al expirar alertas)
+ */
+async function advanceDispatchIfIdle(tripId: string, options?: { anyStrategy?: boolean }) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
     select: {
+      status: true,
       driverId: true,
+      dispatchStrategy: true,
+      dispatchWave: true,
     },
   })
 
-  const busyDriverIds = driversWithActiveTrips
-    .map(t => t.driverId)
-    .filter(id => id !== null) as string[]
+  if (
+    !trip ||
+    trip.status !== TripStatus.PENDING ||
+    trip.driverId ||
+    !trip.dispatchStrategy ||
+    (trip.dispatchStrategy === DispatchStrategy.BROADCAST && !options?.anyStrategy)
+  ) {
+    return
+  }
 
-  if (busyDriverIds.length > 0) {
-    where.id = {
-      notIn: busyDriverIds,
-    }
+  const pendingAlerts = await prisma.driverAlert.count({
+    where: {
+      tripId,
+      status: DriverAlertStatus.PENDING,
+      expiresAt: {
+        gt: new Date(),
+      },
+    },
+  })
+
+  if (pendingAlerts > 0) {
+    return
   }
 
-  const drivers = await prisma.user.findMany({
-    where,
+  setImmediate(() => {
+    dispatchTripToNearbyDrivers(tripId, { afterWave: trip.dispatchWave }).catch(error => {
+      console.error('Error avanzando despacho del viaje:', error)
+    })
+  })
+}
+
+/**
+ * Obtiene el registro de despacho de un viaje:
+ * estrategia usada y los conductores a los que se ofreció, en orden
+ */
+export async function getTripDispatchLog(tripId: string) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
     select: {
       id: true,
-      name: true,
-      email: true,
-      vehicles: {
-        where: {
-          isAvailable: true,
-        },
+      tripNumber: true,
+      status: true,
+      dispatchStrategy: true,
+      dispatchWave: true,
+      dispatchRadiusKm: true,
+    },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  const alerts = await prisma.driverAlert.findMany({
+    where: { tripId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      driver: {
         select: {
           id: true,
-          type: true,
+          name: true,
+          phone: true,
         },
       },
     },
   })
 
-  return drivers
+  const offers = alerts
+    .map(alert => {
+      const metadata = (alert.metadata || {}) as Record<string, any>
+      return {
+        alertId: alert.id,
+        driver: alert.driver,
+        status: alert.status,
+        wave: metadata.wave ?? null,
+        rank: metadata.rank ?? null,
+        distanceKm: metadata.distanceKm ?? null,
+        pickupEtaMinutes: metadata.pickupEtaMinutes ?? null,
+        radiusKm: metadata.radiusKm ?? null,
+        rejectionReason: metadata.reason ?? null,
+        offeredAt: alert.createdAt,
+        expiresAt: alert.expiresAt,
+        viewedAt: alert.viewedAt,
+        acceptedAt: alert.acceptedAt,
+        rejectedAt: alert.rejectedAt,
+      }
+    })
+    .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity))
+
+  return {
+    tripId: trip.id,
+    tripNumber: trip.tripNumber,
+    status: trip.status,
+    strategy: trip.dispatchStrategy,
+    waves: trip.dispatchWave,
+    radiusKm: trip.dispatchRadiusKm,
+    offers,
+  }
 }
-
@@ -3,7 +3,17 @@
  * Maneja la lógica de recepción, aceptación y rechazo de viajes
  */
 
-import { PrismaClient, TripStatus, UserRole } from '@prisma/client'
+import { PrismaClient, DriverAlertStatus, GeofenceStage, TripActorRole, TripStatus, UserRole, Prisma } from '@prisma/client'
+
+import { getActiveTripFilter, getDriverConfirmationOnAccept, shouldHoldScheduledTrip } from './scheduledTripService'
+import { cancelTrip, linkedLegSelect } from './tripService'
+import { computeNoShowCharge, getTripCancellationPolicy } from './cancellationService'
+import { calculateWaitingCharge } from './pricingService'
+import { getTripPricing } from './pricingVersionService'
+import { reconcileTripFare } from './fareReconciliationService'
+import { enforceTripGeofence, GeofencePosition } from './geofenceService'
+import { calculateDistance, isDriverNearOrigin } from '../utils/tripSecurity'
+import { assertTripTransition, recordTripEvent } from './tripStateService'
 
 const prisma = new PrismaClient()
 
@@ -39,6 +49,12 @@ export async function getAvailableTrips(driverId: string, options: {
       {
         driverId: null,
         status: 'PENDING',
+        // La vuelta de un viaje de ida y vuelta se reserva al conductor de la ida:
+        // no se muestra mientras la ida siga sin aceptar y la vuelta no se haya despachado
+        NOT: {
+          outboundTrip: { is: { status: 'PENDING' } },
+          dispatchWave: 0,
+        },
         AND: [
           {
             OR: [
@@ -128,6 +144,9 @@ export async function getAvailableTrips(driverId: string, options: {
             longitude: true,
           },
         },
+        stops: { orderBy: { sequence: 'asc' } },
+        outboundTrip: { select: linkedLegSelect },
+        returnTrip: { select: linkedLegSelect },
       },
     }),
     prisma.trip.count({ where }),
@@ -236,6 +255,9 @@ export async function getDriverTrips(driverId: string, options: {
             longitude: true,
           },
         },
+        stops: { orderBy: { sequence: 'asc' } },
+        outboundTrip: { select: linkedLegSelect },
+        returnTrip: { select: linkedLegSelect },
       },
     }),
     prisma.trip.count({ where }),
@@ -298,6 +320,9 @@ export async function getTripDetailsForDriver(tripId: string, driverId: string)
           longitude: true,
         },
       },
+      stops: { orderBy: { sequence: 'asc' } },
+      outboundTrip: { select: linkedLegSelect },
+      returnTrip: { select: linkedLegSelect },
     },
   })
 
@@ -373,6 +398,11 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
             country: true,
           },
         },
+        returnTrip: {
+          select: {
+            id: true,
+          },
+        },
       },
     })
 
@@ -402,22 +432,12 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
 
     // Verificar que el conductor no tenga otro viaje activo EN ESTE MOMENTO
     // Solo considerar viajes que están realmente en curso (no programados para el futuro)
+    // (la ida de un viaje de ida y vuelta no impide aceptar su vuelta)
     const activeTrip = await tx.trip.findFirst({
       where: {
         driverId,
-        status: {
-          in: [TripStatus.CONFIRMED, TripStatus.IN_PROGRESS],
-        },
-        OR: [
-          // Viaje sin fecha programada (inmediato)
-          { scheduledAt: null },
-          // Viaje programado que ya comenzó o está por comenzar (dentro de los próximos 30 minutos)
-          {
-            scheduledAt: {
-              lte: new Date(Date.now() + 30 * 60 * 1000), // 30 minutos de margen
-            },
-          },
-        ],
+        ...(trip.outboundTripId && { id: { not: trip.outboundTripId } }),
+        ...getActiveTripFilter(),
       },
     })
 
@@ -431,9 +451,9 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
     const newTripDuration = trip.duration * 1000 // convertir minutos a milisegundos
     const newTripEnd = new Date(newTripStart.getTime() + newTripDuration)
     
-    // Si es viaje de ida y vuelta, considerar también el tiempo de vuelta
+    // Si es viaje de ida y vuelta sin tramo de vuelta propio, considerar también el tiempo de vuelta
     let newTripFinalEnd = newTripEnd
-    if (trip.isRoundTrip && trip.returnScheduledAt) {
+    if (trip.isRoundTrip && trip.returnScheduledAt && !trip.returnTrip) {
       const returnDuration = trip.duration * 1000
       newTripFinalEnd = new Date(new Date(trip.returnScheduledAt).getTime() + returnDuration)
     }
@@ -465,6 +485,13 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
           },
         ],
       },
+      include: {
+        returnTrip: {
+          select: {
+            id: true,
+          },
+        },
+      },
     })
 
     // Verificar conflictos detallados
@@ -473,9 +500,9 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
       const existingDuration = existingTrip.duration * 1000
       const existingEnd = new Date(existingStart.getTime() + existingDuration)
       
-      // Si es viaje de ida y vuelta, considerar también el tiempo de vuelta
+      // Si es viaje de ida y vuelta sin tramo de vuelta propio, considerar también el tiempo de vuelta
       let existingFinalEnd = existingEnd
-      if (existingTrip.isRoundTrip && existingTrip.returnScheduledAt) {
+      if (existingTrip.isRoundTrip && existingTrip.returnScheduledAt && !existingTrip.returnTrip) {
         const returnDuration = existingTrip.duration * 1000
         existingFinalEnd = new Date(new Date(existingTrip.returnScheduledAt).getTime() + returnDuration)
       }
@@ -543,6 +570,8 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
       throw new Error('El viaje ya fue aceptado por otro conductor')
     }
 
+    assertTripTransition(tripCheck.status, TripStatus.CONFIRMED, TripActorRole.DRIVER)
+
     // Actualizar el viaje
     const updatedTrip = await tx.trip.update({
       where: { id: tripId },
@@ -551,6 +580,8 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
         vehicleId: vehicleId || undefined,
         status: TripStatus.CONFIRMED,
         driverAcceptedAt: now,
+        // Los viajes programados más adelante quedan pre-aceptados hasta que el conductor confirme
+        driverConfirmedAt: getDriverConfirmationOnAccept(trip.scheduledAt, now),
         driverRequestedAt: trip.driverRequestedAt || now,
         ...(startPin && { startPin }),
         ...(startPinExpiresAt && { startPinExpiresAt }),
@@ -577,6 +608,13 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
       },
     })
 
+    await recordTripEvent(tx, {
+      tripId,
+      fromStatus: tripCheck.status,
+      toStatus: TripStatus.CONFIRMED,
+      actor: { id: driverId, role: TripActorRole.DRIVER },
+    })
+
     // Si se asignó un vehículo, marcarlo como no disponible
     if (vehicleId) {
       await tx.vehicle.update({
@@ -610,6 +648,12 @@ export async function acceptTrip(tripId: string, driverId: string, vehicleId?: s
             actionLabel: 'Ver viaje',
           }).catch(() => null)
         }
+
+        // El conductor de la ida tiene la primera opción sobre la vuelta
+        if (trip.isRoundTrip && !trip.outboundTripId) {
+          const { offerReturnLegToDriver } = await import('./tripService')
+          await offerReturnLegToDriver(tripId, driverId)
+        }
       } catch (error) {
         console.error('Error creando notificaciones:', error)
       }
@@ -650,9 +694,104 @@ export async function rejectTrip(tripId: string, driverId: string, reason?: stri
     })
   }
 
+  // Si el viaje se le ofreció por alerta, registrar el rechazo para que el despacho avance
+  const pendingAlert = await prisma.driverAlert.findFirst({
+    where: {
+      tripId,
+      driverId,
+      status: DriverAlertStatus.PENDING,
+    },
+  })
+
+  if (pendingAlert) {
+    const { rejectTripFromAlert } = await import('./driverAlertService')
+    await rejectTripFromAlert(pendingAlert.id, driverId, reason)
+  } else if (trip.driverId === driverId && !shouldHoldScheduledTrip(trip.scheduledAt)) {
+    // Un viaje asignado directamente (p. ej. la vuelta ofrecida al conductor de la ida)
+    // se despacha a otros conductores; los programados esperan a su despacho anticipado
+    const { dispatchTripToNearbyDrivers } = await import('./driverAlertService')
+    dispatchTripToNearbyDrivers(tripId).catch(error => {
+      console.error(`Error redespachando viaje ${trip.tripNumber}:`, error)
+    })
+  }
+
   return { success: true }
 }
 
+/**
+ * Marca una parada intermedia de un viaje en curso como alcanzada
+ * Las paradas se recorren en orden: no se puede marcar una sin haber alcanzado las anteriores
+ */
+export async function markStopReached(tripId: string, stopId: string, driverId: string) {
+  const trip = await prisma.trip.findFirst({
+    where: {
+      id: tripId,
+      driverId,
+    },
+    include: {
+      stops: { orderBy: { sequence: 'asc' } },
+    },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  if (trip.status !== TripStatus.IN_PROGRESS) {
+    throw new Error('Solo se pueden marcar paradas de un viaje en curso')
+  }
+
+  const stop = trip.stops.find(s => s.id === stopId)
+  if (!stop) {
+    throw new Error('Parada no encontrada')
+  }
+
+  if (stop.reachedAt) {
+    return stop
+  }
+
+  const previousPending = trip.stops.find(s => s.sequence < stop.sequence && !s.reachedAt)
+  if (previousPending) {
+    throw new Error(`Primero debes marcar la parada ${previousPending.sequence}: ${previousPending.address}`)
+  }
+
+  const updatedStop = await prisma.tripStop.update({
+    where: { id: stopId },
+    data: { reachedAt: new Date() },
+  })
+
+  // Avisar al pasajero (en background)
+  if (trip.passengerId) {
+    const passengerId = trip.passengerId
+    setImmediate(async () => {
+      try {
+        const { createNotification } = await import('./notificationService')
+        const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+        await createNotification({
+          userId: passengerId,
+          type: NotificationType.TRIP_IN_PROGRESS,
+          title: 'Parada alcanzada',
+          message: `El conductor llegó a la parada ${stop.sequence} de tu viaje ${trip.tripNumber}: ${stop.address}`,
+          priority: NotificationPriority.NORMAL,
+          data: {
+            tripId,
+            tripNumber: trip.tripNumber,
+            stopId,
+            sequence: stop.sequence,
+          },
+          actionUrl: `/passenger/trips/${tripId}`,
+          actionLabel: 'Ver viaje',
+        }).catch(() => null)
+      } catch (error) {
+        console.error('Error notificando parada alcanzada:', error)
+      }
+    })
+  }
+
+  return updatedStop
+}
+
 /**
  * Calcula el tiempo límite de aceptación
  */
@@ -662,9 +801,141 @@ export function calculateAcceptanceDeadline(minutes: number = ACCEPTANCE_DEADLIN
   return deadline
 }
 
+/**
+ * Posición GPS informada por el conductor al marcar la llegada o la no presentación
+ */
+export interface DriverPosition {
+  latitude: number
+  longitude: number
+  accuracy?: number // Precisión en metros
+}
+
+/**
+ * Marca la llegada del conductor al origen
+ * Verifica con GPS que esté dentro del radio de llegada, avisa al pasajero y empieza a correr la espera
+ */
+export async function markDriverArrived(tripId: string, driverId: string, position: DriverPosition) {
+  const trip = await prisma.trip.findFirst({
+    where: {
+      id: tripId,
+      driverId,
+      status: TripStatus.CONFIRMED,
+    },
+    include: { originPlace: { select: { country: true } } },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado o no está confirmado')
+  }
+
+  if (trip.driverArrivedAt) {
+    throw new Error('Ya marcaste la llegada al origen')
+  }
+
+  const policy = await getTripCancellationPolicy(trip)
+  if (!isDriverNearOrigin(position.latitude, position.longitude, trip.originLatitude, trip.originLongitude, policy.arrivalRadiusMeters)) {
+    const distance = calculateDistance(position.latitude, position.longitude, trip.originLatitude, trip.originLongitude)
+    throw new Error(
+      `Debes estar cerca del origen para marcar la llegada. Distancia actual: ${Math.round(distance)}m (máximo: ${policy.arrivalRadiusMeters}m)`
+    )
+  }
+
+  const now = new Date()
+  const updatedTrip = await prisma.trip.update({
+    where: { id: tripId },
+    data: {
+      driverArrivedAt: now,
+      noShowEligibleAt: new Date(now.getTime() + policy.noShowGraceMinutes * 60 * 1000),
+    },
+  })
+
+  // Avisar al pasajero en background
+  setImmediate(async () => {
+    try {
+      const { createNotification } = await import('./notificationService')
+      const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+      if (updatedTrip.passengerId) {
+        await createNotification({
+          userId: updatedTrip.passengerId,
+          type: NotificationType.TRIP_DRIVER_ARRIVED,
+          title: 'Tu conductor llegó',
+          message: `El conductor te espera en ${trip.originAddress}. Después de ${policy.noShowGraceMinutes} minutos podrá cancelar el viaje con cargo por no presentación`,
+          priority: NotificationPriority.URGENT,
+          data: {
+            tripId,
+            tripNumber: trip.tripNumber,
+            driverArrivedAt: now.toISOString(),
+            noShowEligibleAt: updatedTrip.noShowEligibleAt?.toISOString(),
+          },
+          actionUrl: `/passenger/trips/${tripId}/track`,
+          actionLabel: 'Ver viaje',
+        }).catch(() => null)
+      }
+    } catch (error) {
+      console.error('Error creando notificación de llegada:', error)
+    }
+  })
+
+  return updatedTrip
+}
+
+/**
+ * Marca al pasajero como no presentado: cancela el viaje con cargo por no presentación
+ * Solo después de la espera desde la llegada y con el conductor aún en el origen (la posición queda como evidencia)
+ */
+export async function markPassengerNoShow(tripId: string, driverId: string, position: DriverPosition) {
+  const trip = await prisma.trip.findFirst({
+    where: {
+      id: tripId,
+      driverId,
+      status: TripStatus.CONFIRMED,
+    },
+    include: { originPlace: { select: { country: true } } },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado o no está confirmado')
+  }
+
+  if (!trip.driverArrivedAt || !trip.noShowEligibleAt) {
+    throw new Error('Primero debes marcar la llegada al origen')
+  }
+
+  const now = new Date()
+  if (now < trip.noShowEligibleAt) {
+    const remainingMinutes = Math.ceil((trip.noShowEligibleAt.getTime() - now.getTime()) / (60 * 1000))
+    throw new Error(`Debes esperar ${remainingMinutes} minutos más antes de marcar al pasajero como no presentado`)
+  }
+
+  const policy = await getTripCancellationPolicy(trip)
+  const distance = calculateDistance(position.latitude, position.longitude, trip.originLatitude, trip.originLongitude)
+  if (distance > policy.arrivalRadiusMeters) {
+    throw new Error(
+      `Debes estar en el origen para marcar al pasajero como no presentado. Distancia actual: ${Math.round(distance)}m (máximo: ${policy.arrivalRadiusMeters}m)`
+    )
+  }
+
+  const evidence = {
+    latitude: position.latitude,
+    longitude: position.longitude,
+    accuracy: position.accuracy ?? null,
+    distanceMeters: Math.round(distance),
+    recordedAt: now.toISOString(),
+    driverArrivedAt: trip.driverArrivedAt.toISOString(),
+    waitedMinutes: Math.floor((now.getTime() - trip.driverArrivedAt.getTime()) / (60 * 1000)),
+  }
+
+  return cancelTrip(tripId, driverId, 'El pasajero no se presentó', 'DRIVER', {
+    charge: computeNoShowCharge(trip, policy),
+    noShowEvidence: evidence,
+  })
+}
+
 /**
  * Inicia un viaje
  * Requiere verificación GPS (conductor cerca del origen) y PIN o QR
+ * Si el conductor marcó la llegada, suma al precio el cargo por la espera
  */
 export async function startTrip(
   tripId: string,
@@ -674,12 +945,12 @@ export async function startTrip(
     qrCode?: string
     driverLatitude?: number
     driverLongitude?: number
+    driverAccuracy?: number
   }
 ) {
   const {
     validateStartPin,
     validateStartQrCode,
-    isDriverNearOrigin,
   } = await import('../utils/tripSecurity')
 
   const trip = await prisma.trip.findFirst({
@@ -688,6 +959,7 @@ export async function startTrip(
       driverId,
       status: TripStatus.CONFIRMED,
     },
+    include: { originPlace: { select: { country: true } } },
   })
 
   if (!trip) {
@@ -739,56 +1011,71 @@ export async function startTrip(
     throw new Error('PIN o código QR inválido')
   }
 
-  // Verificar GPS si se proporciona
-  if (options.driverLatitude !== undefined && options.driverLongitude !== undefined) {
-    const isNear = isDriverNearOrigin(
-      options.driverLatitude,
-      options.driverLongitude,
-      trip.originLatitude,
-      trip.originLongitude,
-      100 // 100 metros de tolerancia
-    )
-
-    if (!isNear) {
-      const { calculateDistance: calcDist } = await import('../utils/tripSecurity')
-      const distance = calcDist(
-        options.driverLatitude,
-        options.driverLongitude,
-        trip.originLatitude,
-        trip.originLongitude
-      )
-      throw new Error(
-        `Debes estar cerca del origen para iniciar el viaje. Distancia actual: ${Math.round(distance)}m (máximo: 100m)`
-      )
+  assertTripTransition(trip.status, TripStatus.IN_PROGRESS, TripActorRole.DRIVER)
+
+  // Verificar la geocerca del origen (o usar una autorización de despacho)
+  const geofence = await enforceTripGeofence(trip, GeofenceStage.START, toGeofencePosition(options))
+
+  // Cargo por la espera desde la llegada del conductor (después de los minutos gratuitos)
+  let waitingData: Prisma.TripUpdateInput = {}
+  if (trip.driverArrivedAt) {
+    const pricing = await getTripPricing(trip.pricingVersionId, trip.originPlace?.country)
+    const waitingMinutes = (now.getTime() - trip.driverArrivedAt.getTime()) / (60 * 1000)
+    const waitingCharge = calculateWaitingCharge(waitingMinutes, pricing)
+    if (waitingCharge) {
+      const lineItems = Array.isArray(trip.priceLineItems) ? trip.priceLineItems : []
+      waitingData = {
+        priceLineItems: [...lineItems, { ...waitingCharge }],
+        totalPrice: trip.totalPrice + waitingCharge.amount,
+      }
     }
   }
 
-  // Actualizar el viaje
-  const updatedTrip = await prisma.trip.update({
-    where: { id: tripId },
-    data: {
-      status: TripStatus.IN_PROGRESS,
-      startedAt: new Date(),
-    },
-    include: {
-      passenger: {
-        select: {
-          id: true,
-          name: true,
-          phone: true,
-          email: true,
-        },
+  // Actualizar el viaje (la condición sobre el estado evita pisar un cambio concurrente)
+  const updatedTrip = await prisma.$transaction(async (tx) => {
+    const started = await tx.trip.update({
+      where: { id: tripId, status: TripStatus.CONFIRMED },
+      data: {
+        status: TripStatus.IN_PROGRESS,
+        startedAt: new Date(),
+        ...waitingData,
       },
-      vehicle: {
-        select: {
-          id: true,
-          make: true,
-          model: true,
-          licensePlate: true,
-          type: true,
+      include: {
+        passenger: {
+          select: {
+            id: true,
+            name: true,
+            phone: true,
+            email: true,
+          },
+        },
+        vehicle: {
+          select: {
+            id: true,
+            make: true,
+            model: true,
+            licensePlate: true,
+            type: true,
+          },
         },
       },
-    },
+    })
+
+    await recordTripEvent(tx, {
+      tripId,
+      fromStatus: trip.status,
+      toStatus: TripStatus.IN_PROGRESS,
+      actor: { id: driverId, role: TripActorRole.DRIVER },
+      latitude: options.driverLatitude,
+      longitude: options.driverLongitude,
+      metadata: {
+        method: options.pin ? 'PIN' : 'QR',
+        distanceMeters: geofence.distanceMeters,
+        geofenceOverrideId: geofence.overrideId,
+      },
+    })
+
+    return started
   })
 
   // Crear notificaciones
@@ -911,6 +1198,44 @@ export async function renewStartPin(tripId: string, passengerId: string) {
   }
 }
 
+/**
+ * Posición GPS enviada por el conductor al iniciar o completar (null si no la envió)
+ */
+function toGeofencePosition(options?: {
+  driverLatitude?: number
+  driverLongitude?: number
+  driverAccuracy?: number
+}): GeofencePosition | null {
+  if (options?.driverLatitude === undefined || options.driverLongitude === undefined) {
+    return null
+  }
+  return {
+    latitude: options.driverLatitude,
+    longitude: options.driverLongitude,
+    accuracy: options.driverAccuracy ?? null,
+  }
+}
+
+/**
+ * Genera la solicitud de pago Stellar (QR SEP-0007) de un viaje hacia la billetera del conductor
+ * Se cobra en el asset de cobro del conductor aceptado en el país del origen del viaje
+ */
+async function buildTripPaymentRequest(
+  trip: { totalPrice: number; currency: string; tripNumber: string; originPlace: { country: string | null } | null },
+  driver: { stellarAddress: string; settlementAssetCode: string | null; settlementAssetIssuer: string | null }
+) {
+  const { createStellarPaymentRequest } = await import('./stellarPaymentService')
+
+  // Memo que la verificación exige en la transacción
+  return createStellarPaymentRequest({
+    driver,
+    country: trip.originPlace?.country,
+    amount: trip.totalPrice,
+    currency: trip.currency,
+    memo: `Viaje ${trip.tripNumber}`,
+  })
+}
+
 /**
  * Completa un viaje
  * El conductor debe estar cerca del destino para completar
@@ -922,52 +1247,30 @@ export async function completeTrip(
   options?: {
     driverLatitude?: number
     driverLongitude?: number
+    driverAccuracy?: number
   }
 ) {
-  const { isDriverNearOrigin, calculateDistance } = await import('../utils/tripSecurity')
-
   const trip = await prisma.trip.findFirst({
     where: {
       id: tripId,
       driverId,
       status: TripStatus.IN_PROGRESS,
     },
+    include: { originPlace: { select: { country: true } } },
   })
 
   if (!trip) {
     throw new Error('Viaje no encontrado o no está en progreso')
   }
 
-  // Verificar GPS si se proporciona (deshabilitado para pruebas)
-  // TODO: Habilitar validación GPS en producción
-  // if (options?.driverLatitude !== undefined && options?.driverLongitude !== undefined) {
-  //   const isNear = isDriverNearOrigin(
-  //     options.driverLatitude,
-  //     options.driverLongitude,
-  //     trip.destinationLatitude,
-  //     trip.destinationLongitude,
-  //     100 // 100 metros de tolerancia
-  //   )
-
-  //   if (!isNear) {
-  //     const distance = calculateDistance(
-  //       options.driverLatitude,
-  //       options.driverLongitude,
-  //       trip.destinationLatitude,
-  //       trip.destinationLongitude
-  //     )
-  //     throw new Error(
-  //       `Debes estar cerca del destino para completar el viaje. Distancia actual: ${Math.round(distance)}m (máximo: 100m)`
-  //     )
-  //   }
-  // }
-
   // Obtener información del conductor para generar QR de pago
   // IMPORTANTE: Usar la dirección Stellar real del conductor conectada con Freighter
   const driver = await prisma.user.findUnique({
     where: { id: driverId },
     select: { 
       stellarAddress: true,
+      settlementAssetCode: true,
+      settlementAssetIssuer: true,
       name: true,
       email: true,
     } as any,
@@ -982,42 +1285,39 @@ export async function completeTrip(
     throw new Error('La dirección Stellar del conductor no es válida. Debe ser una dirección Stellar válida que empiece con G y tenga 56 caracteres.')
   }
 
+  // Verificar la geocerca del destino (o usar una autorización de despacho)
+  await enforceTripGeofence(trip, GeofenceStage.COMPLETION, toGeofencePosition(options))
+
   console.log(`✅ Generando QR de pago para conductor ${driver.name} (${driver.email})`)
   console.log(`📍 Dirección Stellar del conductor: ${driver.stellarAddress}`)
 
-  // Generar código QR de pago Stellar
-  const { generateStellarPaymentQR, convertCLPToXLM } = await import('./stellarService')
-  
-  // Convertir precio CLP a XLM (en producción, usar API de conversión)
-  const xlmAmount = convertCLPToXLM(trip.totalPrice, 0.1) // TODO: Obtener rate real
-  
-  // Generar QR con transacción construida correctamente
-  const paymentQR = await generateStellarPaymentQR({
-    destination: driver.stellarAddress,
-    amount: xlmAmount,
-    memo: `Viaje ${trip.tripNumber}`,
-    asset: 'XLM',
-    networkPassphrase: process.env.STELLAR_NETWORK === 'mainnet' 
-      ? 'Public Global Stellar Network ; September 2015'
-      : 'Test SDF Network ; September 2015', // Testnet por defecto
-  })
+  // Ajustar la tarifa al recorrido real (distancia según la traza GPS y duración desde el inicio)
+  const completedAt = new Date()
+  const { data: fareData, adjustment } = await reconcileTripFare(trip, completedAt)
+  const totalPrice = adjustment?.finalPrice ?? trip.totalPrice
+
+  // Generar código QR de pago Stellar por el precio final
+  // Sin tasa de cambio vigente (proveedores caídos) el viaje se completa igual: el cobro queda sin
+  // cotizar y el barrido de solicitudes de pago lo genera en cuanto haya una tasa
+  let request: Awaited<ReturnType<typeof buildTripPaymentRequest>> | null = null
+  try {
+    request = await buildTripPaymentRequest({ ...trip, totalPrice }, driver)
+  } catch (error: any) {
+    console.error(`Error generando el cobro del viaje ${trip.tripNumber}; se reintentará:`, error.message)
+  }
 
   // Crear registro de pago pendiente
   const payment = await prisma.payment.create({
     data: {
       userId: trip.passengerId || undefined,
       tripId: trip.id,
-      amount: trip.totalPrice,
+      amount: totalPrice,
       currency: trip.currency,
       fee: 0,
-      netAmount: trip.totalPrice,
+      netAmount: totalPrice,
       method: 'STELLAR' as any,
       status: 'PENDING',
-      paymentMethodDetails: {
-        stellarAddress: driver.stellarAddress,
-        xlmAmount,
-        paymentUrl: paymentQR.paymentUrl,
-      },
+      paymentMethodDetails: request?.details ?? { stellarAddress: driver.stellarAddress, awaitingQuote: true },
     },
   })
 
@@ -1025,10 +1325,11 @@ export async function completeTrip(
   const updatedTrip = await prisma.trip.update({
     where: { id: tripId },
     data: {
-      completedAt: new Date(), // Marcar como completado por el conductor
-      paymentQrCode: paymentQR.qrCode,
-      paymentAddress: paymentQR.paymentAddress,
-      paymentExpiresAt: paymentQR.expiresAt,
+      completedAt, // Marcar como completado por el conductor
+      ...fareData,
+      paymentQrCode: request?.paymentQR.qrCode ?? null,
+      paymentAddress: request?.paymentQR.paymentAddress ?? driver.stellarAddress,
+      paymentExpiresAt: request?.paymentQR.expiresAt ?? completedAt, // Sin cobro: vencido para que el barrido lo genere
       // NO cambiar status a COMPLETED hasta que se verifique el pago
     } as any,
     include: {
@@ -1072,7 +1373,11 @@ export async function completeTrip(
           userId: updatedTrip.passengerId,
           type: NotificationType.PAYMENT_PENDING,
           title: 'Viaje completado - Pago pendiente',
-          message: `Tu viaje ${trip.tripNumber} ha sido completado. Escanea el código QR para realizar el pago con Freighter.`,
+          message: `Tu viaje ${trip.tripNumber} ha sido completado. ` +
+            (request
+              ? 'Escanea el código QR para realizar el pago con Freighter.'
+              : 'El código QR de pago estará disponible en unos minutos.') +
+            (adjustment?.lineItem ? ` El precio se ajustó al recorrido real: ${totalPrice} ${trip.currency}.` : ''),
           priority: NotificationPriority.HIGH,
           data: {
             tripId: tripId,
@@ -1092,10 +1397,163 @@ export async function completeTrip(
   return {
     ...updatedTrip,
     paymentId: payment.id,
-    paymentQR: paymentQR.qrCode,
-    paymentAddress: paymentQR.paymentAddress,
+    paymentQR: request?.paymentQR.qrCode ?? null,
+    paymentAddress: updatedTrip.paymentAddress,
   } as any
 }
 
 
 
+
+/**
+ * Invalida los PIN de inicio expirados de viajes confirmados
+ * El pasajero recibe una notificación para renovarlo
+ * Se ejecuta periódicamente desde el scheduler de jobs
+ */
+export async function sweepExpiredStartPins() {
+  const now = new Date()
+
+  const expiredTrips = await prisma.trip.findMany({
+    where: {
+      status: TripStatus.CONFIRMED,
+      startPin: { not: null },
+      startPinExpiresAt: { lt: now },
+    },
+    select: {
+      id: true,
+      tripNumber: true,
+      passengerId: true,
+    },
+  })
+
+  const { createNotification } = await import('./notificationService')
+  const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+  for (const trip of expiredTrips) {
+    await prisma.trip.update({
+      where: { id: trip.id },
+      data: {
+        startPin: null,
+        startQrCode: null,
+      },
+    })
+
+    if (trip.passengerId) {
+      await createNotification({
+        userId: trip.passengerId,
+        type: NotificationType.REMINDER,
+        title: 'PIN de inicio expirado',
+        message: `El PIN de inicio del viaje ${trip.tripNumber} expiró. Renuévalo para que el conductor pueda iniciar el viaje.`,
+        priority: NotificationPriority.NORMAL,
+        data: {
+          tripId: trip.id,
+          tripNumber: trip.tripNumber,
+        },
+        actionUrl: `/passenger/trips/${trip.id}`,
+        actionLabel: 'Renovar PIN',
+      }).catch(() => null)
+    }
+  }
+
+  return { count: expiredTrips.length }
+}
+
+/**
+ * Renueva las solicitudes de pago Stellar expiradas de viajes aún no pagados
+ * Genera un nuevo QR (con el monto recalculado) para el pago pendiente, o el primero si al completar
+ * el viaje no había tasa de cambio vigente
+ * Se ejecuta periódicamente desde el scheduler de jobs
+ */
+export async function sweepExpiredPaymentRequests() {
+  const now = new Date()
+
+  const expiredTrips = await prisma.trip.findMany({
+    where: {
+      status: TripStatus.IN_PROGRESS,
+      completedAt: { not: null },
+      paymentExpiresAt: { lt: now },
+    },
+    select: {
+      id: true,
+      tripNumber: true,
+      totalPrice: true,
+      currency: true,
+      passengerId: true,
+      originPlace: { select: { country: true } },
+      driver: {
+        select: {
+          stellarAddress: true,
+          settlementAssetCode: true,
+          settlementAssetIssuer: true,
+        },
+      },
+      payments: {
+        where: {
+          status: 'PENDING',
+          method: 'STELLAR',
+          type: 'TRIP_FARE',
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+  })
+
+  let refreshed = 0
+  for (const trip of expiredTrips) {
+    const payment = trip.payments[0]
+    const driver = trip.driver
+    const stellarAddress = driver?.stellarAddress
+    if (!payment || !driver || !stellarAddress) continue
+
+    // Sin tasa de cambio vigente se reintenta en la próxima ejecución
+    let request: Awaited<ReturnType<typeof buildTripPaymentRequest>>
+    try {
+      request = await buildTripPaymentRequest(trip, { ...driver, stellarAddress })
+    } catch (error: any) {
+      console.error(`Error renovando el cobro del viaje ${trip.tripNumber}:`, error.message)
+      continue
+    }
+    const { details, paymentQR } = request
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        paymentMethodDetails: {
+          ...((payment.paymentMethodDetails || {}) as Prisma.JsonObject),
+          ...details,
+          awaitingQuote: false,
+        },
+      },
+    })
+
+    await prisma.trip.update({
+      where: { id: trip.id },
+      data: {
+        paymentQrCode: paymentQR.qrCode,
+        paymentAddress: paymentQR.paymentAddress,
+        paymentExpiresAt: paymentQR.expiresAt,
+      },
+    })
+
+    // Primer cobro del viaje: avisar al pasajero que ya puede pagar
+    if ((payment.paymentMethodDetails as Prisma.JsonObject | null)?.awaitingQuote && trip.passengerId) {
+      const { createNotification } = await import('./notificationService')
+      const { NotificationType, NotificationPriority } = await import('@prisma/client')
+      await createNotification({
+        userId: trip.passengerId,
+        type: NotificationType.PAYMENT_PENDING,
+        title: 'Pago pendiente',
+        message: `El código QR de pago del viaje ${trip.tripNumber} ya está disponible.`,
+        priority: NotificationPriority.HIGH,
+        data: { tripId: trip.id, tripNumber: trip.tripNumber, paymentId: payment.id },
+        actionUrl: `/passenger/trips/${trip.id}`,
+        actionLabel: 'Pagar ahora',
+      }).catch(() => null)
+    }
+
+    refreshed++
+  }
+
+  return { count: refreshed }
+}
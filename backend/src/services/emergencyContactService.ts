@@ -0,0 +1,108 @@
+/**
+ * Servicio de contactos de emergencia de los usuarios
+ * Se les avisa por SMS, email o WhatsApp cuando el usuario activa el SOS durante un viaje
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { normalizePhone } from './messagingService'
+
+const prisma = new PrismaClient()
+
+// Máximo de contactos de emergencia por usuario
+export const MAX_EMERGENCY_CONTACTS = 5
+
+export interface EmergencyContactData {
+  name: string
+  phone?: string | null
+  email?: string | null
+  relationship?: string | null
+}
+
+/**
+ * Valida y normaliza los datos de un contacto
+ */
+function validateContact(data: EmergencyContactData) {
+  const name = data.name?.trim()
+  const phone = data.phone?.trim() ? normalizePhone(data.phone) : null
+  const email = data.email?.trim().toLowerCase() || null
+
+  if (!name) {
+    throw new Error('El nombre del contacto es requerido')
+  }
+
+  if (!phone && !email) {
+    throw new Error('El contacto debe tener un teléfono o un email')
+  }
+
+  if (phone && (phone.length < 9 || phone.length > 16)) {
+    throw new Error('Teléfono inválido (usa el formato internacional, p. ej. +56912345678)')
+  }
+
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new Error('Email inválido')
+  }
+
+  return {
+    name,
+    phone,
+    email,
+    relationship: data.relationship?.trim() || null,
+  }
+}
+
+/**
+ * Contactos de emergencia del usuario
+ */
+export async function listEmergencyContacts(userId: string) {
+  return prisma.emergencyContact.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+/**
+ * Agrega un contacto de emergencia
+ */
+export async function createEmergencyContact(userId: string, data: EmergencyContactData) {
+  const contact = validateContact(data)
+
+  const count = await prisma.emergencyContact.count({ where: { userId } })
+  if (count >= MAX_EMERGENCY_CONTACTS) {
+    throw new Error(`Puedes tener hasta ${MAX_EMERGENCY_CONTACTS} contactos de emergencia`)
+  }
+
+  return prisma.emergencyContact.create({
+    data: { userId, ...contact },
+  })
+}
+
+/**
+ * Actualiza un contacto de emergencia del usuario
+ */
+export async function updateEmergencyContact(userId: string, contactId: string, data: EmergencyContactData) {
+  const existing = await prisma.emergencyContact.findFirst({
+    where: { id: contactId, userId },
+  })
+
+  if (!existing) {
+    throw new Error('Contacto no encontrado')
+  }
+
+  return prisma.emergencyContact.update({
+    where: { id: contactId },
+    data: validateContact(data),
+  })
+}
+
+/**
+ * Elimina un contacto de emergencia del usuario
+ */
+export async function deleteEmergencyContact(userId: string, contactId: string) {
+  const { count } = await prisma.emergencyContact.deleteMany({
+    where: { id: contactId, userId },
+  })
+
+  if (count === 0) {
+    throw new Error('Contacto no encontrado')
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Servicio de tasas de cambio en vivo
+ * Obtiene las tasas desde proveedores intercambiables (feed FX externo, orderbook del DEX de Stellar
+ * o un archivo local para entornos sin conexión), las mantiene en caché con un límite de antigüedad
+ * y guarda cada lectura en el historial (ExchangeRate) para auditar las conversiones a XLM.
+ * Todas las tasas se expresan como unidades de la moneda por 1 USD
+ */
+
+import path from 'path'
+import { readFile } from 'fs/promises'
+import { PrismaClient } from '@prisma/client'
+import { Currency, setLiveExchangeRates } from './currencyService'
+import { StellarAssetOption } from './countrySettingsService'
+
+const prisma = new PrismaClient()
+
+// Tiempo que se reutiliza una tasa antes de volver a consultar (segundos)
+const CACHE_SECONDS = Number(process.env.EXCHANGE_RATE_CACHE_SECONDS) || 5 * 60
+
+// Antigüedad máxima de una tasa para cotizar un pago (minutos)
+const MAX_AGE_MINUTES = Number(process.env.EXCHANGE_RATE_MAX_AGE_MINUTES) || 60
+
+// Tiempo máximo de espera de cada proveedor (ms)
+const PROVIDER_TIMEOUT_MS = 10000
+
+// Emisor de USDC (Circle) en la red pública, para el precio XLM/USD del DEX
+const MAINNET_USDC_ISSUER = 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN'
+
+// Monedas que se guardan (los feeds FX informan cientos): las de la plataforma y los assets Stellar
+const TRACKED_CURRENCIES = new Set<string>([...Object.values(Currency), 'XLM'])
+
+export interface ExchangeRateProvider {
+  name: string
+  fetchRates(): Promise<Record<string, number>> // Unidades de cada moneda por 1 USD
+}
+
+interface CachedRate {
+  rate: number
+  source: string
+  fetchedAt: Date
+}
+
+/**
+ * Feed FX externo con el formato { rates: { CLP: 950, ... } } y base USD
+ */
+const fxFeedProvider: ExchangeRateProvider = {
+  name: 'fx-feed',
+  async fetchRates() {
+    const url = process.env.EXCHANGE_RATE_API_URL || 'https://open.er-api.com/v6/latest/USD'
+    const response = await fetch(url, { signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) })
+
+    if (!response.ok) {
+      throw new Error(`El feed de tasas respondió HTTP ${response.status}`)
+    }
+
+    const data = await response.json() as { rates?: Record<string, number> }
+    if (!data.rates) {
+      throw new Error('El feed de tasas no incluye "rates"')
+    }
+
+    return data.rates
+  },
+}
+
+/**
+ * Precio medio de XLM en USDC según el orderbook del DEX de Stellar
+ * Usa la red pública aunque los pagos vayan por testnet (en testnet los precios no son reales)
+ */
+const stellarDexProvider: ExchangeRateProvider = {
+  name: 'stellar-dex',
+  async fetchRates() {
+    const params = new URLSearchParams({
+      selling_asset_type: 'native',
+      buying_asset_type: 'credit_alphanum4',
+      buying_asset_code: 'USDC',
+      buying_asset_issuer: process.env.STELLAR_USDC_ISSUER || MAINNET_USDC_ISSUER,
+      limit: '1',
+    })
+
+    const horizonUrl = process.env.EXCHANGE_RATE_DEX_HORIZON_URL || 'https://horizon.stellar.org'
+    const response = await fetch(`${horizonUrl}/order_book?${params.toString()}`, {
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Horizon respondió HTTP ${response.status} al consultar el orderbook`)
+    }
+
+    // price: USDC por XLM
+    const book = await response.json() as { bids?: { price: string }[]; asks?: { price: string }[] }
+    const bid = parseFloat(book.bids?.[0]?.price || '')
+    const ask = parseFloat(book.asks?.[0]?.price || '')
+
+    if (!(bid > 0) || !(ask > 0)) {
+      throw new Error('El orderbook XLM/USDC no tiene ofertas')
+    }
+
+    return { XLM: 2 / (bid + ask) }
+  },
+}
+
+/**
+ * Archivo local con el formato { rates: { ... } }, para entornos sin conexión
+ */
+const fixtureProvider: ExchangeRateProvider = {
+  name: 'fixture',
+  async fetchRates() {
+    const file = process.env.EXCHANGE_RATE_FIXTURE_PATH
+      || path.resolve(__dirname, '../../prisma/fixtures/exchange-rates.json')
+    const data = JSON.parse(await readFile(file, 'utf8')) as { rates?: Record<string, number> }
+
+    if (!data.rates) {
+      throw new Error(`El archivo ${file} no incluye "rates"`)
+    }
+
+    return data.rates
+  },
+}
+
+const providers = new Map<string, ExchangeRateProvider>(
+  [fxFeedProvider, stellarDexProvider, fixtureProvider].map(provider => [provider.name, provider])
+)
+
+/**
+ * Registra un proveedor adicional (se activa incluyéndolo en EXCHANGE_RATE_PROVIDERS)
+ */
+export function registerExchangeRateProvider(provider: ExchangeRateProvider) {
+  providers.set(provider.name, provider)
+}
+
+// Proveedores activos en orden de prioridad: cada moneda se toma del primero que la informa
+const getActiveProviders = () =>
+  (process.env.EXCHANGE_RATE_PROVIDERS || 'stellar-dex,fx-feed')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => {
+      const provider = providers.get(name)
+      if (!provider) {
+        console.warn(`Proveedor de tasas desconocido: ${name}`)
+      }
+      return provider
+    })
+    .filter((provider): provider is ExchangeRateProvider => !!provider)
+
+const cache = new Map<string, CachedRate>()
+let lastRefreshAt = 0
+let refreshing: Promise<{ count: number }> | null = null
+
+const ageMinutes = (rate: CachedRate) => (Date.now() - rate.fetchedAt.getTime()) / 60000
+
+/**
+ * Consulta los proveedores activos, actualiza la caché y guarda las tasas en el historial
+ */
+export async function refreshExchangeRates(): Promise<{ count: number }> {
+  if (refreshing) return refreshing
+
+  refreshing = (async () => {
+    const fetchedAt = new Date()
+    const merged = new Map<string, CachedRate>()
+
+    for (const provider of getActiveProviders()) {
+      try {
+        const rates = await provider.fetchRates()
+        for (const [currency, rate] of Object.entries(rates)) {
+          if (TRACKED_CURRENCIES.has(currency) && !merged.has(currency) && Number.isFinite(rate) && rate > 0) {
+            merged.set(currency, { rate, source: provider.name, fetchedAt })
+          }
+        }
+      } catch (error: any) {
+        console.error(`Error obteniendo tasas de ${provider.name}:`, error.message)
+      }
+    }
+
+    lastRefreshAt = fetchedAt.getTime()
+    if (merged.size === 0) {
+      return { count: 0 }
+    }
+
+    await prisma.exchangeRate.createMany({
+      data: Array.from(merged, ([currency, rate]) => ({ currency, ...rate })),
+    })
+
+    for (const [currency, rate] of merged) {
+      cache.set(currency, rate)
+    }
+    setLiveExchangeRates(Object.fromEntries(Array.from(merged, ([currency, rate]) => [currency, rate.rate])))
+
+    return { count: merged.size }
+  })()
+
+  try {
+    return await refreshing
+  } finally {
+    refreshing = null
+  }
+}
+
+/**
+ * Tasa vigente de una moneda (unidades por 1 USD)
+ * Usa la caché, vuelve a consultar si venció y, tras un reinicio, el historial guardado.
+ * Lanza un error si no hay una tasa con la antigüedad permitida
+ */
+export async function getUsdRate(currency: string): Promise<CachedRate> {
+  if (currency === 'USD') {
+    return { rate: 1, source: 'base', fetchedAt: new Date() }
+  }
+
+  if (Date.now() - lastRefreshAt > CACHE_SECONDS * 1000) {
+    await refreshExchangeRates()
+  }
+
+  const cached = cache.get(currency)
+  if (cached && ageMinutes(cached) <= MAX_AGE_MINUTES) {
+    return cached
+  }
+
+  const stored = await prisma.exchangeRate.findFirst({
+    where: { currency },
+    orderBy: { fetchedAt: 'desc' },
+  })
+
+  if (stored && ageMinutes(stored) <= MAX_AGE_MINUTES) {
+    const rate = { rate: stored.rate, source: stored.source, fetchedAt: stored.fetchedAt }
+    cache.set(currency, rate)
+    return rate
+  }
+
+  throw new Error(`No hay una tasa de cambio vigente para ${currency}`)
+}
+
+/**
+ * Convierte un monto en moneda local a un asset Stellar (XLM por defecto) con la tasa vigente
+ * Las stablecoins se cotizan con la tasa de la moneda a la que están atadas (USDC a la par del USD)
+ * Retorna el monto (7 decimales) y la cotización usada, para guardarla en el pago
+ */
+export async function quoteStellarAmount(
+  amount: number,
+  currency: string,
+  asset: StellarAssetOption = { code: 'XLM', issuer: null }
+) {
+  const rateCurrency = asset.peggedTo || asset.code
+  const [fiat, target] = await Promise.all([getUsdRate(currency), getUsdRate(rateCurrency)])
+  const rate = target.rate / fiat.rate // Unidades del asset por unidad de la moneda local
+
+  return {
+    amount: (amount * rate).toFixed(7),
+    quote: {
+      fiatAmount: amount,
+      fiatCurrency: currency,
+      asset: asset.code,
+      assetIssuer: asset.issuer,
+      peggedTo: asset.peggedTo ?? null,
+      rate,
+      usdRates: { [currency]: fiat.rate, [rateCurrency]: target.rate },
+      sources: { [currency]: fiat.source, [rateCurrency]: target.source },
+      ratesFetchedAt: new Date(Math.min(fiat.fetchedAt.getTime(), target.fetchedAt.getTime())).toISOString(),
+      quotedAt: new Date().toISOString(),
+    },
+  }
+}
+
+/**
+ * Historial de tasas de una moneda (más recientes primero)
+ */
+export async function getExchangeRateHistory(currency: string, limit: number = 100) {
+  return prisma.exchangeRate.findMany({
+    where: { currency },
+    orderBy: { fetchedAt: 'desc' },
+    take: Math.min(limit, 1000),
+  })
+}
@@ -0,0 +1,119 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import * as jwt from 'jsonwebtoken'
+import { FareQuoteInput, getBillableRoute, hashRoute, toReturnLegInput, verifyFareQuote } from './fareQuoteService'
+import { calculateDistance } from '../utils/tripSecurity'
+
+const SECRET = 'fare-quote-test-secret'
+
+const trip: FareQuoteInput = {
+  distance: 12.4,
+  duration: 25,
+  vehicleType: 'SEDAN',
+  origin: { lat: -33.4372, lng: -70.6506 },
+  destination: { lat: -33.4489, lng: -70.6693 },
+  stops: [{ lat: -33.4411, lng: -70.6602 }],
+  scheduledAt: null,
+  routePolyline: 'abc123',
+}
+
+/**
+ * Cotización firmada como la entrega /api/pricing/calculate para el viaje
+ * (solo los campos que se comparan con el viaje y el total)
+ */
+function signQuote(input: FareQuoteInput, overrides: Record<string, unknown> = {}, options: jwt.SignOptions = {}) {
+  const fareQuote = {
+    quoteId: 'quote-1',
+    distance: input.distance,
+    country: 'CL',
+    vehicleType: input.vehicleType || null,
+    stops: (input.stops || []).length,
+    duration: input.duration || 0,
+    scheduledAt: input.scheduledAt ? input.scheduledAt.toISOString() : null,
+    origin: input.origin,
+    destination: input.destination,
+    routeHash: hashRoute(input.stops || [], input.routePolyline),
+    totalPrice: 10500,
+    currency: 'CLP',
+    ...overrides,
+  }
+  return jwt.sign(fareQuote, SECRET, { audience: 'fare-quote', expiresIn: 15 * 60, ...options })
+}
+
+before(() => {
+  process.env.FARE_QUOTE_SECRET = SECRET
+})
+
+test('verifyFareQuote acepta la cotización del mismo viaje', () => {
+  const quote = verifyFareQuote(signQuote(trip), trip)
+  assert.equal(quote.quoteId, 'quote-1')
+  assert.equal(quote.totalPrice, 10500)
+
+  // Diferencias menores a la tolerancia (GPS, redondeo de minutos)
+  const nearby = { ...trip, origin: { lat: -33.4374, lng: -70.6508 }, duration: 26 }
+  assert.doesNotThrow(() => verifyFareQuote(signQuote(trip), nearby))
+})
+
+test('verifyFareQuote rechaza cotizaciones alteradas, de otra audiencia o expiradas', () => {
+  const [header, , signature] = signQuote(trip).split('.')
+  const tampered = Buffer.from(JSON.stringify({ totalPrice: 1 })).toString('base64url')
+  assert.throws(() => verifyFareQuote(`${header}.${tampered}.${signature}`, trip), /Cotización inválida/)
+
+  assert.throws(() => verifyFareQuote(signQuote(trip, {}, { audience: 'session' }), trip), /Cotización inválida/)
+  assert.throws(() => verifyFareQuote(jwt.sign({ quoteId: 'x' }, 'otro-secreto', { audience: 'fare-quote' }), trip), /Cotización inválida/)
+
+  const expired = signQuote(trip, {}, { expiresIn: -10 })
+  assert.throws(() => verifyFareQuote(expired, trip), /La cotización expiró/)
+})
+
+test('verifyFareQuote rechaza la cotización de otro viaje', () => {
+  const quote = signQuote(trip)
+  const mismatch = /La cotización no corresponde al viaje solicitado/
+
+  assert.throws(() => verifyFareQuote(quote, { ...trip, distance: 8 }), mismatch)
+  assert.throws(() => verifyFareQuote(quote, { ...trip, duration: 40 }), mismatch)
+  assert.throws(() => verifyFareQuote(quote, { ...trip, vehicleType: 'SUV' }), mismatch)
+  assert.throws(() => verifyFareQuote(quote, { ...trip, destination: { lat: -33.5, lng: -70.7 } }), mismatch)
+  assert.throws(() => verifyFareQuote(quote, { ...trip, scheduledAt: new Date('2026-05-01T10:00:00Z') }), mismatch)
+  assert.throws(() => verifyFareQuote(quote, { ...trip, routePolyline: 'otra-ruta' }), mismatch)
+})
+
+test('verifyFareQuote compara las coordenadas de las paradas', () => {
+  const quote = signQuote(trip)
+  const mismatch = /La cotización no corresponde al viaje solicitado/
+
+  // Misma cantidad de paradas, en otro lugar
+  assert.throws(() => verifyFareQuote(quote, { ...trip, stops: [{ lat: -33.6, lng: -70.8 }] }), mismatch)
+  assert.throws(() => verifyFareQuote(quote, { ...trip, stops: [] }), mismatch)
+
+  // El orden de las paradas es parte de la ruta
+  const twoStops = { ...trip, stops: [{ lat: -33.44, lng: -70.66 }, { lat: -33.445, lng: -70.665 }] }
+  const reordered = { ...twoStops, stops: [...twoStops.stops].reverse() }
+  assert.throws(() => verifyFareQuote(signQuote(twoStops), reordered), mismatch)
+})
+
+test('verifyFareQuote verifica la vuelta con origen, destino y paradas invertidos', () => {
+  const returnAt = new Date('2026-05-01T18:00:00Z')
+  const returnLeg = toReturnLegInput(trip, returnAt)
+  const quote = signQuote(returnLeg, { quoteId: 'quote-2' })
+
+  assert.equal(verifyFareQuote(quote, toReturnLegInput(trip, returnAt)).quoteId, 'quote-2')
+  // La cotización de la vuelta no sirve para la ida
+  assert.throws(() => verifyFareQuote(quote, trip), /no corresponde/)
+})
+
+test('getBillableRoute cobra lo informado si no es menor que lo calculado con las coordenadas', () => {
+  assert.deepEqual(getBillableRoute(trip), { distance: 12.4, duration: 25 })
+})
+
+test('getBillableRoute no cobra menos que la línea recta por calles ni más rápido que la velocidad máxima', () => {
+  const points = [trip.origin, ...(trip.stops || []), trip.destination]
+  let straightKm = 0
+  for (let i = 1; i < points.length; i++) {
+    straightKm += calculateDistance(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng) / 1000
+  }
+
+  const billable = getBillableRoute({ ...trip, distance: 0.5, duration: 0 })
+  assert.ok(billable.distance >= straightKm * 1.3 - 0.01)
+  assert.ok(billable.duration >= (billable.distance / 90) * 60)
+})
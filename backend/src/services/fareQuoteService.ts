@@ -0,0 +1,257 @@
+/**
+ * Servicio de cotizaciones de tarifa
+ * El precio de un viaje lo fija el servidor: /api/pricing/calculate entrega una
+ * cotización firmada que la creación del viaje exige y vuelve a verificar
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import * as jwt from 'jsonwebtoken'
+import {
+  calculateTripPrice,
+  calculateVehiclePriceList,
+  isVehicleTypeOffered,
+  PriceLineItem,
+  VehiclePrice,
+} from './pricingService'
+import { resolveCountryPricing } from './pricingVersionService'
+import { getSurgeMultiplier } from './surgeService'
+import { shouldHoldScheduledTrip } from './scheduledTripService'
+import { resolveCountryByLocation } from './countrySettingsService'
+import { LatLng } from '../utils/polyline'
+import { calculateDistance } from '../utils/tripSecurity'
+
+// Vigencia de una cotización (minutos)
+const FARE_QUOTE_TTL_MINUTES = Number(process.env.FARE_QUOTE_TTL_MINUTES) || 15
+
+// Audiencia del token: evita que otro JWT firmado con el mismo secreto pase por cotización
+const FARE_QUOTE_AUDIENCE = 'fare-quote'
+
+// Tolerancias al comparar la cotización con el viaje
+const DISTANCE_TOLERANCE_KM = 0.01
+const DURATION_TOLERANCE_MINUTES = 1
+const COORDINATE_TOLERANCE_DEGREES = 0.0005 // ~50 metros
+
+// Factor de la línea recta origen → paradas → destino a la distancia por calles: la distancia
+// cobrada nunca es menor que la línea recta por este factor, aunque el cliente informe menos
+const FARE_ROAD_FACTOR = Number(process.env.FARE_ROAD_FACTOR) || 1.3
+
+// Velocidad media máxima (km/h): la duración cobrada nunca es menor que la distancia cobrada a esta velocidad
+const FARE_MAX_AVERAGE_SPEED_KMH = Number(process.env.FARE_MAX_AVERAGE_SPEED_KMH) || 90
+
+export interface FareQuoteInput {
+  distance: number
+  origin: LatLng
+  destination: LatLng
+  stops?: LatLng[] // Paradas intermedias, en orden
+  vehicleType?: string | null
+  duration?: number // Minutos
+  scheduledAt?: Date | null // Sin fecha: viaje inmediato
+  routePolyline?: string | null
+}
+
+export interface FareQuote {
+  quoteId: string
+  distance: number // Distancia informada por el cliente (km)
+  country: string
+  vehicleType: string | null
+  stops: number
+  duration: number // Duración informada por el cliente (minutos)
+  billableDistance: number // Distancia con que se calculó el precio (km)
+  billableDuration: number // Duración con que se calculó el precio (minutos)
+  scheduledAt: string | null
+  origin: LatLng
+  destination: LatLng
+  routeHash: string // Hash de las paradas y de la polyline usada para cotizar peajes
+  basePrice: number
+  distancePrice: number
+  timePrice: number
+  stopsPrice: number
+  totalPrice: number
+  currency: string
+  surgeMultiplier: number // Tarifa dinámica aplicada al cotizar (1 = sin recargo)
+  pricingVersionId: string | null // Versión de tarifas usada (null: tarifas por defecto)
+  pricingVersion: number | null
+  lineItems: PriceLineItem[]
+  expiresAt: string
+}
+
+// Cotización con su token firmado (`quote`), el que se presenta al crear el viaje
+export type SignedFareQuote = FareQuote & { quote: string }
+
+/**
+ * Obtiene el secreto de firma de cotizaciones
+ */
+function getFareQuoteSecret(): string {
+  const secret = process.env.FARE_QUOTE_SECRET || process.env.JWT_SECRET
+  if (!secret) {
+    throw new Error('FARE_QUOTE_SECRET no está configurado')
+  }
+  return secret
+}
+
+/**
+ * Hash de la ruta: las paradas (redondeadas a ~1 metro) y la polyline, que define qué peajes se cobran
+ */
+export function hashRoute(stops: LatLng[], routePolyline?: string | null): string {
+  const route = {
+    stops: stops.map(stop => [Number(stop.lat.toFixed(5)), Number(stop.lng.toFixed(5))]),
+    polyline: routePolyline || null,
+  }
+  return createHash('sha256').update(JSON.stringify(route)).digest('hex')
+}
+
+/**
+ * Compara un punto cotizado con el del viaje
+ */
+function samePoint(a: LatLng, b: LatLng): boolean {
+  return Math.abs(a.lat - b.lat) <= COORDINATE_TOLERANCE_DEGREES &&
+    Math.abs(a.lng - b.lng) <= COORDINATE_TOLERANCE_DEGREES
+}
+
+/**
+ * Distancia y duración con que se cobra un recorrido
+ * Las informa el cliente, pero nunca son menores que las que calcula el servidor con las coordenadas:
+ * la línea recta origen → paradas → destino por el factor de calles y esa distancia a la velocidad máxima
+ */
+export function getBillableRoute(input: FareQuoteInput): { distance: number; duration: number } {
+  const points = [input.origin, ...(input.stops || []), input.destination]
+  let straightKm = 0
+  for (let i = 1; i < points.length; i++) {
+    straightKm += calculateDistance(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng) / 1000
+  }
+
+  const distance = Math.max(input.distance, Math.round(straightKm * FARE_ROAD_FACTOR * 100) / 100)
+  const duration = Math.max(input.duration || 0, Math.ceil((distance / FARE_MAX_AVERAGE_SPEED_KMH) * 60))
+  return { distance, duration }
+}
+
+/**
+ * Tramo de vuelta de un viaje de ida y vuelta: origen y destino invertidos y paradas en orden inverso,
+ * a la hora de la vuelta (la ruta de vuelta se calcula al navegar: se cotiza con la de la ida)
+ */
+export function toReturnLegInput(input: FareQuoteInput, returnScheduledAt: Date | null): FareQuoteInput {
+  return {
+    ...input,
+    origin: input.destination,
+    destination: input.origin,
+    stops: [...(input.stops || [])].reverse(),
+    scheduledAt: returnScheduledAt,
+  }
+}
+
+/**
+ * Cotiza y firma un tramo con las tarifas del país vigentes a la hora de recogida
+ */
+async function quoteLeg(
+  input: FareQuoteInput,
+  country: string
+): Promise<{ leg: SignedFareQuote; priceList: VehiclePrice[] }> {
+  const vehicleType = input.vehicleType || null
+  const stopPoints = input.stops || []
+  const stops = stopPoints.length
+  const duration = input.duration || 0
+  const billable = getBillableRoute(input)
+  const surgeMultiplier = !shouldHoldScheduledTrip(input.scheduledAt)
+    ? await getSurgeMultiplier(input.origin.lat, input.origin.lng)
+    : 1
+  const pickupAt = input.scheduledAt || new Date()
+  const { pricing: tariffs, pricingVersionId, pricingVersion } = await resolveCountryPricing(country, pickupAt)
+
+  if (vehicleType && !isVehicleTypeOffered(tariffs, vehicleType)) {
+    throw new Error('Tipo de vehículo no disponible en el país')
+  }
+
+  const context = {
+    durationMinutes: billable.duration,
+    pickupAt,
+    origin: input.origin,
+    destination: input.destination,
+    routePolyline: input.routePolyline || undefined,
+    surgeMultiplier,
+  }
+  const pricing = calculateTripPrice(billable.distance, country, vehicleType || undefined, stops, context, tariffs)
+
+  const fareQuote: FareQuote = {
+    quoteId: randomUUID(),
+    distance: input.distance,
+    country,
+    vehicleType,
+    stops,
+    duration,
+    billableDistance: billable.distance,
+    billableDuration: billable.duration,
+    scheduledAt: input.scheduledAt ? input.scheduledAt.toISOString() : null,
+    origin: input.origin,
+    destination: input.destination,
+    routeHash: hashRoute(stopPoints, input.routePolyline),
+    ...pricing,
+    pricingVersionId,
+    pricingVersion,
+    expiresAt: new Date(Date.now() + FARE_QUOTE_TTL_MINUTES * 60 * 1000).toISOString(),
+  }
+
+  const quote = jwt.sign(fareQuote, getFareQuoteSecret(), {
+    audience: FARE_QUOTE_AUDIENCE,
+    expiresIn: FARE_QUOTE_TTL_MINUTES * 60,
+  })
+
+  return {
+    leg: { ...fareQuote, quote },
+    priceList: calculateVehiclePriceList(billable.distance, country, stops, context, tariffs),
+  }
+}
+
+/**
+ * Calcula el precio de un viaje y lo entrega como cotización firmada
+ * El país sale de la zona de servicio del origen; la distancia y la duración cobradas, de getBillableRoute.
+ * Usa la versión de tarifas vigente a la hora de recogida. La tarifa dinámica del origen
+ * queda fijada en la cotización; no aplica a viajes programados que todavía no se despachan.
+ * Incluye la lista de precios de cada clase de vehículo del país (no firmada: solo para elegir)
+ * y, si se indica la hora de vuelta, la cotización propia del tramo de vuelta
+ */
+export async function createFareQuote(
+  input: FareQuoteInput,
+  returnScheduledAt?: Date | null
+): Promise<SignedFareQuote & { priceList: VehiclePrice[]; returnQuote: SignedFareQuote | null }> {
+  // Ambos tramos son del país del origen de la ida
+  const country = await resolveCountryByLocation(input.origin)
+  const { leg, priceList } = await quoteLeg(input, country)
+  const returnQuote = returnScheduledAt
+    ? (await quoteLeg(toReturnLegInput(input, returnScheduledAt), country)).leg
+    : null
+
+  return { ...leg, priceList, returnQuote }
+}
+
+/**
+ * Verifica una cotización firmada y que corresponda al viaje solicitado
+ * Lanza error si fue alterada, expiró o se cotizó con otros datos de viaje
+ * (distancia, duración, vehículo, paradas, hora de recogida, ubicaciones o ruta)
+ */
+export function verifyFareQuote(quote: string, trip: FareQuoteInput): FareQuote {
+  let decoded: FareQuote
+  try {
+    decoded = jwt.verify(quote, getFareQuoteSecret(), { audience: FARE_QUOTE_AUDIENCE }) as FareQuote
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('La cotización expiró, vuelve a calcular el precio')
+    }
+    throw new Error('Cotización inválida')
+  }
+
+  const matchesTrip =
+    Math.abs(decoded.distance - trip.distance) <= DISTANCE_TOLERANCE_KM &&
+    Math.abs(decoded.duration - (trip.duration || 0)) <= DURATION_TOLERANCE_MINUTES &&
+    decoded.vehicleType === (trip.vehicleType || null) &&
+    decoded.stops === (trip.stops || []).length &&
+    decoded.scheduledAt === (trip.scheduledAt ? trip.scheduledAt.toISOString() : null) &&
+    samePoint(decoded.origin, trip.origin) &&
+    samePoint(decoded.destination, trip.destination) &&
+    decoded.routeHash === hashRoute(trip.stops || [], trip.routePolyline)
+
+  if (!matchesTrip) {
+    throw new Error('La cotización no corresponde al viaje solicitado')
+  }
+
+  return decoded
+}
@@ -0,0 +1,93 @@
+/**
+ * Servicio de conciliación de la tarifa con el recorrido real
+ * Al completar un viaje se mide la distancia recorrida con los breadcrumbs GPS y la duración real,
+ * y el precio cotizado se ajusta según la política del país (se mantiene, se recalcula o se recalcula
+ * con tope). Los viajes con diferencias grandes quedan marcados para revisión de soporte
+ */
+
+import { PrismaClient, FareReviewStatus, Prisma, Trip } from '@prisma/client'
+import { calculateFareAdjustment, FareAdjustment } from './pricingService'
+import { getTripPricing } from './pricingVersionService'
+import { measureRecordedRoute } from './locationService'
+
+const prisma = new PrismaClient()
+
+type ReconcilableTrip = Pick<
+  Trip,
+  | 'id' | 'distance' | 'duration' | 'totalPrice' | 'priceLineItems' | 'startedAt'
+  | 'pricingVersionId' | 'preferredVehicleType'
+> & { originPlace?: { country: string | null } | null }
+
+/**
+ * Calcula el ajuste de la tarifa de un viaje que termina en `completedAt`
+ * Retorna los datos a guardar en el viaje (sin cambios de precio si no hay traza GPS suficiente)
+ */
+export async function reconcileTripFare(
+  trip: ReconcilableTrip,
+  completedAt: Date
+): Promise<{ data: Prisma.TripUpdateInput; adjustment: FareAdjustment | null }> {
+  if (!trip.startedAt) {
+    return { data: { quotedPrice: trip.totalPrice }, adjustment: null }
+  }
+
+  const actualDuration = Math.round(((completedAt.getTime() - trip.startedAt.getTime()) / (60 * 1000)) * 10) / 10
+  const actualDistance = await measureRecordedRoute(trip.id, trip.startedAt, completedAt)
+
+  // Sin traza no se puede comprobar el recorrido: se cobra lo cotizado
+  if (actualDistance === null) {
+    return { data: { quotedPrice: trip.totalPrice, actualDuration }, adjustment: null }
+  }
+
+  const pricing = await getTripPricing(trip.pricingVersionId, trip.originPlace?.country)
+  const adjustment = calculateFareAdjustment(
+    trip.totalPrice,
+    { distance: trip.distance, durationMinutes: trip.duration },
+    { distance: Math.round(actualDistance * 100) / 100, durationMinutes: actualDuration },
+    pricing,
+    trip.preferredVehicleType || undefined
+  )
+
+  const lineItems = Array.isArray(trip.priceLineItems) ? trip.priceLineItems : []
+  const { lineItem, ...details } = adjustment
+
+  return {
+    data: {
+      quotedPrice: trip.totalPrice,
+      actualDistance: adjustment.actual.distance,
+      actualDuration,
+      totalPrice: adjustment.finalPrice,
+      ...(lineItem ? { priceLineItems: [...lineItems, { ...lineItem }] } : {}),
+      fareAdjustment: { ...details, planned: { ...details.planned }, actual: { ...details.actual } },
+      ...(adjustment.reviewReasons.length > 0 ? { fareReviewStatus: FareReviewStatus.PENDING } : {}),
+    },
+    adjustment,
+  }
+}
+
+/**
+ * Cierra la revisión de soporte de la tarifa de un viaje
+ */
+export async function resolveFareReview(tripId: string, adminId: string, note?: string) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    select: { id: true, fareReviewStatus: true },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  if (trip.fareReviewStatus !== FareReviewStatus.PENDING) {
+    throw new Error('El viaje no tiene una revisión de tarifa pendiente')
+  }
+
+  return prisma.trip.update({
+    where: { id: tripId },
+    data: {
+      fareReviewStatus: FareReviewStatus.RESOLVED,
+      fareReviewedAt: new Date(),
+      fareReviewedBy: adminId,
+      fareReviewNote: note || null,
+    },
+  })
+}
@@ -0,0 +1,268 @@
+/**
+ * Servicio de geocercas de inicio y fin de viaje
+ * El conductor solo puede iniciar un viaje cerca del origen y completarlo cerca del destino.
+ * El radio, si el GPS es obligatorio y la precisión mínima son parte de la configuración de cada país
+ * (ver countrySettingsService), con reglas propias por zona. Despacho puede autorizar una excepción
+ * para un viaje; cada autorización y su uso quedan registrados (GeofenceOverride)
+ */
+
+import { PrismaClient, GeofenceStage, Trip, TripStatus } from '@prisma/client'
+import { calculateDistance } from '../utils/tripSecurity'
+import { getCountrySettings, GeofencePolicy, GeofenceRule } from './countrySettingsService'
+
+const prisma = new PrismaClient()
+
+export interface GeofencePosition {
+  latitude: number
+  longitude: number
+  accuracy?: number | null // Precisión en metros
+}
+
+// Geocerca de una etapa del viaje: punto, radio y reglas que aplican
+export interface TripGeofence extends GeofenceRule {
+  stage: GeofenceStage
+  latitude: number
+  longitude: number
+  zone: string | null // Zona con reglas propias (null: reglas del país)
+}
+
+export interface GeofenceCheck {
+  inside: boolean
+  distanceMeters: number | null // null: sin posición GPS
+  error: string | null // Motivo por el que no se puede iniciar/completar (null: permitido)
+}
+
+type GeofencedTrip = Pick<
+  Trip,
+  'originLatitude' | 'originLongitude' | 'destinationLatitude' | 'destinationLongitude'
+> & { originPlace?: { country: string | null } | null }
+
+const STAGE_LABELS: Record<GeofenceStage, { action: string; point: string }> = {
+  [GeofenceStage.START]: { action: 'iniciar', point: 'origen' },
+  [GeofenceStage.COMPLETION]: { action: 'completar', point: 'destino' },
+}
+
+// Estado en el que debe estar el viaje para usar (o autorizar) la excepción de cada etapa
+const STAGE_TRIP_STATUS: Record<GeofenceStage, TripStatus> = {
+  [GeofenceStage.START]: TripStatus.CONFIRMED,
+  [GeofenceStage.COMPLETION]: TripStatus.IN_PROGRESS,
+}
+
+/**
+ * Geocerca de una etapa del viaje: el origen al iniciar y el destino al completar
+ * Si el punto cae dentro de una zona de la política, sus reglas reemplazan a las del país
+ */
+export function resolveTripGeofence(trip: GeofencedTrip, stage: GeofenceStage, policy: GeofencePolicy): TripGeofence {
+  const isStart = stage === GeofenceStage.START
+  const latitude = isStart ? trip.originLatitude : trip.destinationLatitude
+  const longitude = isStart ? trip.originLongitude : trip.destinationLongitude
+
+  const zone = policy.zones.find(zone =>
+    calculateDistance(zone.latitude, zone.longitude, latitude, longitude) <= zone.radiusKm * 1000
+  )
+
+  return {
+    stage,
+    latitude,
+    longitude,
+    zone: zone?.name || null,
+    ...(isStart ? policy.start : policy.completion),
+    ...(isStart ? zone?.start : zone?.completion),
+  }
+}
+
+/**
+ * Verifica una posición contra la geocerca
+ */
+export function checkGeofence(geofence: TripGeofence, position?: GeofencePosition | null): GeofenceCheck {
+  const { action, point } = STAGE_LABELS[geofence.stage]
+
+  if (!position) {
+    return {
+      inside: false,
+      distanceMeters: null,
+      error: geofence.requireGps ? `Debes compartir tu ubicación GPS para ${action} el viaje` : null,
+    }
+  }
+
+  const distanceMeters = calculateDistance(position.latitude, position.longitude, geofence.latitude, geofence.longitude)
+  const inside = distanceMeters <= geofence.radiusMeters
+
+  if (position.accuracy != null && position.accuracy > geofence.maxAccuracyMeters) {
+    return {
+      inside,
+      distanceMeters,
+      error: `La precisión del GPS (${Math.round(position.accuracy)}m) no es suficiente para ${action} el viaje (máximo: ${geofence.maxAccuracyMeters}m). Espera una mejor señal`,
+    }
+  }
+
+  return {
+    inside,
+    distanceMeters,
+    error: inside
+      ? null
+      : `Debes estar cerca del ${point} para ${action} el viaje. Distancia actual: ${Math.round(distanceMeters)}m (máximo: ${geofence.radiusMeters}m)`,
+  }
+}
+
+/**
+ * Exige la geocerca de una etapa antes de iniciar o completar un viaje
+ * Si la posición no cumple, usa una autorización pendiente de despacho; si no hay, lanza el error
+ * Retorna la autorización usada (null si no hizo falta)
+ */
+export async function enforceTripGeofence(
+  trip: GeofencedTrip & { id: string },
+  stage: GeofenceStage,
+  position?: GeofencePosition | null
+): Promise<{ overrideId: string | null; distanceMeters: number | null }> {
+  const { geofence } = await getCountrySettings(trip.originPlace?.country)
+  const check = checkGeofence(resolveTripGeofence(trip, stage, geofence), position)
+
+  if (!check.error) {
+    return { overrideId: null, distanceMeters: check.distanceMeters }
+  }
+
+  const override = await prisma.geofenceOverride.findFirst({
+    where: { tripId: trip.id, stage, usedAt: null },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  if (!override) {
+    throw new Error(check.error)
+  }
+
+  // La condición sobre usedAt evita usar dos veces la misma autorización
+  const { count } = await prisma.geofenceOverride.updateMany({
+    where: { id: override.id, usedAt: null },
+    data: {
+      usedAt: new Date(),
+      driverLatitude: position?.latitude ?? null,
+      driverLongitude: position?.longitude ?? null,
+      distanceMeters: check.distanceMeters,
+    },
+  })
+
+  if (count === 0) {
+    throw new Error(check.error)
+  }
+
+  return { overrideId: override.id, distanceMeters: check.distanceMeters }
+}
+
+/**
+ * Geocercas de inicio y fin de un viaje del conductor, para mostrar la distancia en vivo
+ * Indica además las etapas con una autorización de despacho pendiente de usar
+ */
+export async function getTripGeofences(tripId: string, driverId: string) {
+  const trip = await prisma.trip.findFirst({
+    where: { id: tripId, driverId },
+    include: { originPlace: { select: { country: true } } },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado o no disponible')
+  }
+
+  const { geofence } = await getCountrySettings(trip.originPlace?.country)
+  const overrides = await prisma.geofenceOverride.findMany({
+    where: { tripId, usedAt: null },
+    select: { stage: true },
+  })
+
+  return {
+    start: resolveTripGeofence(trip, GeofenceStage.START, geofence),
+    completion: resolveTripGeofence(trip, GeofenceStage.COMPLETION, geofence),
+    overriddenStages: [...new Set(overrides.map(override => override.stage))],
+  }
+}
+
+/**
+ * Autoriza al conductor a iniciar o completar un viaje fuera de la geocerca
+ * Solo pueden hacerlo los roles indicados en la política del país (por defecto, admin y despacho)
+ */
+export async function grantGeofenceOverride(
+  tripId: string,
+  stage: GeofenceStage,
+  grantor: { id: string; roles: string[]; isRootAdmin?: boolean },
+  reason: string
+) {
+  if (!reason?.trim()) {
+    throw new Error('Debes indicar el motivo de la autorización')
+  }
+
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    include: { originPlace: { select: { country: true } } },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  const { geofence } = await getCountrySettings(trip.originPlace?.country)
+  if (!grantor.isRootAdmin && !grantor.roles.some(role => geofence.overrideRoles.includes(role))) {
+    throw new Error('No tienes permiso para autorizar viajes fuera de la geocerca')
+  }
+
+  if (trip.status !== STAGE_TRIP_STATUS[stage] || (stage === GeofenceStage.COMPLETION && trip.completedAt)) {
+    throw new Error(`No se puede autorizar: el viaje ya no está por ${STAGE_LABELS[stage].action}se`)
+  }
+
+  const pending = await prisma.geofenceOverride.findFirst({
+    where: { tripId, stage, usedAt: null },
+  })
+
+  if (pending) {
+    throw new Error('El viaje ya tiene una autorización pendiente para esta etapa')
+  }
+
+  const override = await prisma.geofenceOverride.create({
+    data: {
+      tripId,
+      stage,
+      grantedById: grantor.id,
+      reason: reason.trim(),
+    },
+    include: {
+      grantedBy: { select: { id: true, name: true } },
+    },
+  })
+
+  // Avisar al conductor que ya puede continuar
+  if (trip.driverId) {
+    const driverId = trip.driverId
+    setImmediate(async () => {
+      try {
+        const { createNotification } = await import('./notificationService')
+        const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+        await createNotification({
+          userId: driverId,
+          type: stage === GeofenceStage.START ? NotificationType.TRIP_ASSIGNED : NotificationType.TRIP_IN_PROGRESS,
+          title: 'Autorización de despacho',
+          message: `Despacho te autorizó a ${STAGE_LABELS[stage].action} el viaje ${trip.tripNumber} fuera de la zona del ${STAGE_LABELS[stage].point}.`,
+          priority: NotificationPriority.HIGH,
+          data: { tripId, stage, overrideId: override.id },
+          actionUrl: `/driver/trips/${tripId}`,
+        }).catch(() => null)
+      } catch (error) {
+        console.error('Error notificando autorización de geocerca:', error)
+      }
+    })
+  }
+
+  return override
+}
+
+/**
+ * Autorizaciones de geocerca de un viaje (más recientes primero)
+ */
+export async function listGeofenceOverrides(tripId: string) {
+  return prisma.geofenceOverride.findMany({
+    where: { tripId },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      grantedBy: { select: { id: true, name: true } },
+    },
+  })
+}
@@ -0,0 +1,465 @@
+/**
+ * Servicio de jobs en segundo plano
+ * Los jobs se persisten en base de datos: soportan ejecución programada,
+ * jobs recurrentes, reintentos con backoff exponencial y un lock por instancia
+ * para que un mismo job no se ejecute en dos procesos a la vez
+ */
+
+import os from 'os'
+import { PrismaClient, JobStatus, Job, Prisma } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+// Intervalo de consulta de jobs pendientes
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS) || 5000
+
+// Duración del lock de un job en ejecución (si la instancia muere, otra lo retoma al vencer)
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000
+
+// Mientras el handler se ejecuta, el lock se renueva cada este intervalo
+const LOCK_RENEW_INTERVAL_MS = LOCK_TIMEOUT_MS / 3
+
+// Días que se conservan los jobs puntuales completados o cancelados
+const JOB_RETENTION_DAYS = Number(process.env.JOB_RETENTION_DAYS) || 7
+
+// Backoff de reintentos: 30s, 1m, 2m, 4m... hasta 1 hora
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+const DEFAULT_MAX_ATTEMPTS = 5
+
+// Jobs tomados por cada consulta
+const POLL_BATCH_SIZE = 10
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`
+
+export type JobHandler = (payload: any, job: Job) => Promise<unknown>
+
+export interface ScheduleJobOptions {
+  runAt?: Date
+  key?: string // Identificador único: reprogramar con la misma key reemplaza el job (si no se está ejecutando)
+  maxAttempts?: number
+}
+
+const handlers = new Map<string, JobHandler>()
+let pollTimer: NodeJS.Timeout | null = null
+let isPolling = false
+
+/**
+ * Registra la función que ejecuta los jobs con un nombre dado
+ */
+export function registerJobHandler(name: string, handler: JobHandler) {
+  handlers.set(name, handler)
+}
+
+/**
+ * Programa un job para ejecutarse una vez (por defecto, inmediatamente)
+ * Con `key` reemplaza el job existente, salvo que se esté ejecutando: en ese caso lo deja como está
+ */
+export async function scheduleJob(
+  name: string,
+  payload?: Prisma.InputJsonValue,
+  options: ScheduleJobOptions = {}
+) {
+  const data = {
+    name,
+    payload: payload ?? Prisma.JsonNull,
+    status: JobStatus.PENDING,
+    runAt: options.runAt || new Date(),
+    maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    attempts: 0,
+    lastError: null,
+    completedAt: null,
+  }
+
+  if (!options.key) {
+    return prisma.job.create({ data })
+  }
+
+  // Un job en ejecución (lock vigente) no se reprograma: volvería a PENDING y se ejecutaría dos veces
+  const now = new Date()
+  const updated = await prisma.job.updateMany({
+    where: {
+      key: options.key,
+      OR: [
+        { status: { not: JobStatus.RUNNING } },
+        { lockedUntil: null },
+        { lockedUntil: { lte: now } },
+      ],
+    },
+    data,
+  })
+
+  if (updated.count > 0) {
+    return prisma.job.findUniqueOrThrow({ where: { key: options.key } })
+  }
+
+  const existing = await prisma.job.findUnique({ where: { key: options.key } })
+  if (existing) {
+    console.warn(`El job ${options.key} está en ejecución; no se reprograma`)
+    return existing
+  }
+
+  return prisma.job.upsert({
+    where: { key: options.key },
+    update: {},
+    create: { ...data, key: options.key },
+  })
+}
+
+/**
+ * Programa un job recurrente que se ejecuta cada `intervalSeconds`
+ * Si ya existe, conserva su próxima ejecución y actualiza el intervalo
+ */
+export async function scheduleRecurringJob(
+  name: string,
+  intervalSeconds: number,
+  payload?: Prisma.InputJsonValue
+) {
+  const key = `recurring:${name}`
+  const existing = await prisma.job.findUnique({ where: { key } })
+
+  if (!existing) {
+    return prisma.job.create({
+      data: {
+        name,
+        key,
+        payload: payload ?? Prisma.JsonNull,
+        intervalSeconds,
+        runAt: new Date(),
+      },
+    })
+  }
+
+  return prisma.job.update({
+    where: { key },
+    data: {
+      intervalSeconds,
+      ...(payload !== undefined ? { payload } : {}),
+      // Reactivar jobs recurrentes cancelados o fallidos
+      ...(existing.status === JobStatus.CANCELLED || existing.status === JobStatus.FAILED
+        ? { status: JobStatus.PENDING, attempts: 0, runAt: new Date() }
+        : {}),
+    },
+  })
+}
+
+/**
+ * Cancela un job pendiente por su key
+ */
+export async function cancelJob(key: string) {
+  const result = await prisma.job.updateMany({
+    where: {
+      key,
+      status: JobStatus.PENDING,
+    },
+    data: {
+      status: JobStatus.CANCELLED,
+    },
+  })
+
+  return result.count > 0
+}
+
+/**
+ * Fuerza la ejecución inmediata de un job (reintento manual)
+ */
+export async function runJobNow(jobId: string) {
+  const job = await prisma.job.findUnique({ where: { id: jobId } })
+
+  if (!job) {
+    throw new Error('Job no encontrado')
+  }
+
+  if (job.status === JobStatus.RUNNING) {
+    throw new Error('El job ya se está ejecutando')
+  }
+
+  return prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: JobStatus.PENDING,
+      runAt: new Date(),
+      attempts: 0,
+      lastError: null,
+    },
+  })
+}
+
+/**
+ * Calcula el tiempo de espera antes del siguiente reintento
+ */
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Intenta tomar el lock de un job
+ * La actualización es condicional: solo una instancia puede pasarlo a RUNNING
+ */
+async function claimJob(job: Job): Promise<boolean> {
+  const now = new Date()
+
+  const result = await prisma.job.updateMany({
+    where: {
+      id: job.id,
+      runAt: { lte: now },
+      OR: [
+        { status: JobStatus.PENDING },
+        // Jobs cuyo lock venció (la instancia que los ejecutaba murió)
+        { status: JobStatus.RUNNING, lockedUntil: { lt: now } },
+      ],
+    },
+    data: {
+      status: JobStatus.RUNNING,
+      lockedBy: INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + LOCK_TIMEOUT_MS),
+      attempts: { increment: 1 },
+    },
+  })
+
+  return result.count > 0
+}
+
+/**
+ * Renueva el lock de un job que esta instancia está ejecutando
+ */
+async function renewJobLock(job: Job) {
+  const result = await prisma.job.updateMany({
+    where: { id: job.id, status: JobStatus.RUNNING, lockedBy: INSTANCE_ID },
+    data: { lockedUntil: new Date(Date.now() + LOCK_TIMEOUT_MS) },
+  })
+
+  if (result.count === 0) {
+    console.warn(`El job ${job.name} (${job.id}) ya no está tomado por esta instancia`)
+  }
+}
+
+/**
+ * Registra el resultado de un job, solo si esta instancia conserva su lock
+ * (si el lock venció y otra instancia lo retomó, el resultado lo registra esa instancia)
+ */
+async function finishJob(job: Job, data: Prisma.JobUpdateManyMutationInput) {
+  const result = await prisma.job.updateMany({
+    where: { id: job.id, lockedBy: INSTANCE_ID },
+    data,
+  })
+
+  if (result.count === 0) {
+    console.warn(`El job ${job.name} (${job.id}) lo tomó otra instancia; no se registra este resultado`)
+  }
+}
+
+/**
+ * Ejecuta un job ya tomado y registra su resultado
+ * Mientras el handler se ejecuta, renueva el lock para que otra instancia no lo retome
+ */
+async function executeJob(job: Job) {
+  const handler = handlers.get(job.name)
+  const startedAt = Date.now()
+  const attempts = job.attempts + 1
+
+  const heartbeat = setInterval(() => {
+    renewJobLock(job).catch(error => {
+      console.error(`Error renovando el lock del job ${job.name}:`, error)
+    })
+  }, LOCK_RENEW_INTERVAL_MS)
+  heartbeat.unref()
+
+  try {
+    if (!handler) {
+      throw new Error(`No hay handler registrado para el job ${job.name}`)
+    }
+
+    await handler(job.payload, job)
+
+    const finishedAt = new Date()
+    const result = {
+      lockedBy: null,
+      lockedUntil: null,
+      lastRunAt: finishedAt,
+      lastDurationMs: finishedAt.getTime() - startedAt,
+    }
+    await finishJob(job, job.intervalSeconds
+      ? {
+          // Recurrente: programar la siguiente ejecución
+          ...result,
+          status: JobStatus.PENDING,
+          runAt: new Date(finishedAt.getTime() + job.intervalSeconds * 1000),
+          attempts: 0,
+          lastError: null,
+        }
+      : { ...result, status: JobStatus.COMPLETED, completedAt: finishedAt })
+  } catch (error: any) {
+    const finishedAt = new Date()
+    const exhausted = attempts >= job.maxAttempts
+
+    console.error(`Error ejecutando job ${job.name} (intento ${attempts}/${job.maxAttempts}):`, error)
+
+    let nextRunAt = new Date(finishedAt.getTime() + getRetryDelayMs(attempts))
+    let status: JobStatus = JobStatus.PENDING
+    let nextAttempts = attempts
+
+    if (exhausted) {
+      if (job.intervalSeconds) {
+        // Un job recurrente no se abandona: se reintenta en su siguiente ciclo
+        nextRunAt = new Date(finishedAt.getTime() + job.intervalSeconds * 1000)
+        nextAttempts = 0
+      } else {
+        status = JobStatus.FAILED
+      }
+    }
+
+    await finishJob(job, {
+      status,
+      runAt: nextRunAt,
+      attempts: nextAttempts,
+      lastError: error?.message || String(error),
+      lockedBy: null,
+      lockedUntil: null,
+      lastRunAt: finishedAt,
+      lastDurationMs: finishedAt.getTime() - startedAt,
+    }).catch(updateError => {
+      console.error(`Error registrando fallo del job ${job.name}:`, updateError)
+    })
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+/**
+ * Elimina los jobs puntuales completados o cancelados hace más de JOB_RETENTION_DAYS días
+ * (los recurrentes se conservan: su fila es la programación)
+ */
+export async function purgeFinishedJobs() {
+  const cutoff = new Date(Date.now() - JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  const result = await prisma.job.deleteMany({
+    where: {
+      intervalSeconds: null,
+      status: { in: [JobStatus.COMPLETED, JobStatus.CANCELLED] },
+      updatedAt: { lt: cutoff },
+    },
+  })
+
+  return { deleted: result.count }
+}
+
+/**
+ * Busca jobs vencidos y ejecuta los que esta instancia logra tomar
+ */
+async function pollJobs() {
+  if (isPolling || handlers.size === 0) return
+  isPolling = true
+
+  try {
+    const now = new Date()
+    const dueJobs = await prisma.job.findMany({
+      where: {
+        name: { in: Array.from(handlers.keys()) },
+        runAt: { lte: now },
+        OR: [
+          { status: JobStatus.PENDING },
+          { status: JobStatus.RUNNING, lockedUntil: { lt: now } },
+        ],
+      },
+      orderBy: { runAt: 'asc' },
+      take: POLL_BATCH_SIZE,
+    })
+
+    for (const job of dueJobs) {
+      if (await claimJob(job)) {
+        await executeJob(job)
+      }
+    }
+  } catch (error) {
+    console.error('Error consultando jobs pendientes:', error)
+  } finally {
+    isPolling = false
+  }
+}
+
+/**
+ * Inicia el worker que ejecuta los jobs en esta instancia
+ */
+export function startJobWorker() {
+  if (pollTimer) return
+
+  pollTimer = setInterval(pollJobs, POLL_INTERVAL_MS)
+  pollTimer.unref()
+  console.log(`⏱️  Worker de jobs iniciado (${INSTANCE_ID})`)
+}
+
+/**
+ * Detiene el worker de jobs
+ */
+export function stopJobWorker() {
+  if (pollTimer) {
+    clearInterval(pollTimer)
+    pollTimer = null
+  }
+}
+
+/**
+ * Lista jobs para el panel de administración
+ */
+export async function listJobs(options: {
+  status?: JobStatus
+  name?: string
+  page?: number
+  limit?: number
+} = {}) {
+  const page = options.page || 1
+  const limit = options.limit || 50
+  const skip = (page - 1) * limit
+
+  const where: Prisma.JobWhereInput = {}
+  if (options.status) where.status = options.status
+  if (options.name) where.name = options.name
+
+  const [jobs, total, byStatus] = await Promise.all([
+    prisma.job.findMany({
+      where,
+      orderBy: [{ status: 'asc' }, { runAt: 'asc' }],
+      skip,
+      take: limit,
+      select: {
+        id: true,
+        name: true,
+        key: true,
+        status: true,
+        runAt: true,
+        intervalSeconds: true,
+        attempts: true,
+        maxAttempts: true,
+        lastError: true,
+        lockedBy: true,
+        lockedUntil: true,
+        lastRunAt: true,
+        lastDurationMs: true,
+        completedAt: true,
+        createdAt: true,
+      },
+    }),
+    prisma.job.count({ where }),
+    prisma.job.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    }),
+  ])
+
+  const summary: Record<string, number> = {}
+  for (const group of byStatus) {
+    summary[group.status] = group._count._all
+  }
+
+  return {
+    jobs,
+    summary,
+    registeredHandlers: Array.from(handlers.keys()),
+    workerRunning: pollTimer !== null,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  }
+}
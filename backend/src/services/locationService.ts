@@ -0,0 +1,503 @@
+/**
+ * Servicio de ubicación en tiempo real de conductores
+ * Recibe posiciones GPS, guarda breadcrumbs por viaje y publica actualizaciones
+ * a los suscriptores (SSE) del seguimiento del viaje. Con varias instancias del backend,
+ * cada una consulta los breadcrumbs (TripLocation) de los viajes que tienen suscriptores,
+ * así también llegan las posiciones que recibió otra instancia
+ */
+
+import { EventEmitter } from 'events'
+import { PrismaClient, TripStatus } from '@prisma/client'
+import { calculateDistance } from '../utils/tripSecurity'
+
+const prisma = new PrismaClient()
+
+// Factor de corrección entre distancia en línea recta y distancia por carretera
+const ROAD_DISTANCE_FACTOR = 1.3
+
+// Velocidad promedio por defecto si el viaje no permite estimarla (km/h)
+const DEFAULT_AVERAGE_SPEED_KMH = 30
+
+// Antigüedad máxima aceptada para una posición enviada por el dispositivo
+const MAX_FIX_AGE_MS = 5 * 60 * 1000
+
+export interface LocationFix {
+  latitude: number
+  longitude: number
+  accuracy?: number
+  heading?: number
+  speed?: number
+  recordedAt?: Date
+}
+
+export interface TripEta {
+  target: 'ORIGIN' | 'DESTINATION'
+  distanceMeters: number
+  etaMinutes: number
+  estimatedArrivalAt: Date
+}
+
+export interface TripLocationUpdate {
+  tripId: string
+  driverId: string
+  latitude: number
+  longitude: number
+  accuracy: number | null
+  heading: number | null
+  speed: number | null
+  recordedAt: Date
+  status: TripStatus
+  eta: TripEta | null
+}
+
+// Consulta de breadcrumbs guardados por otras instancias para los viajes con suscriptores (ms)
+const TRACKING_POLL_INTERVAL_MS = Number(process.env.TRACKING_POLL_INTERVAL_MS) || 2000
+
+// Cada consulta vuelve a mirar este margen hacia atrás: cubre breadcrumbs que otra instancia guardó con retraso (ms)
+const TRACKING_POLL_LOOKBACK_MS = 10000
+
+/**
+ * Emisor de actualizaciones de seguimiento
+ * Cada evento se publica con el nombre `trip:<tripId>`
+ */
+const trackingEvents = new EventEmitter()
+trackingEvents.setMaxListeners(0)
+
+// Consulta periódica de un viaje con suscriptores en esta instancia
+interface TripLocationPoller {
+  timer: NodeJS.Timeout
+  startedAt: Date // Lo anterior ya va en el snapshot de la suscripción
+  since: Date // Creación del último breadcrumb visto
+  delivered: Map<string, number> // Breadcrumbs ya publicados (id → creación en ms)
+  isPolling: boolean
+}
+
+const tripPollers = new Map<string, TripLocationPoller>()
+
+const tripEtaSelect = {
+  status: true,
+  originLatitude: true,
+  originLongitude: true,
+  destinationLatitude: true,
+  destinationLongitude: true,
+  distance: true,
+  duration: true,
+} as const
+
+/**
+ * Publica un breadcrumb a los suscriptores de esta instancia (una sola vez por breadcrumb)
+ */
+function publishTripLocation(location: { id: string; createdAt: Date }, update: TripLocationUpdate) {
+  const poller = tripPollers.get(update.tripId)
+  if (poller) {
+    if (poller.delivered.has(location.id)) return
+    poller.delivered.set(location.id, location.createdAt.getTime())
+  }
+  trackingEvents.emit(`trip:${update.tripId}`, update)
+}
+
+/**
+ * Publica los breadcrumbs de un viaje que guardó otra instancia desde la última consulta
+ */
+async function pollTripLocations(tripId: string, poller: TripLocationPoller) {
+  if (poller.isPolling) return
+  poller.isPolling = true
+
+  try {
+    const from = Math.max(poller.since.getTime() - TRACKING_POLL_LOOKBACK_MS, poller.startedAt.getTime())
+    const locations = await prisma.tripLocation.findMany({
+      where: { tripId, createdAt: { gte: new Date(from) } },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    })
+
+    const fresh = locations.filter(location => !poller.delivered.has(location.id))
+    const trip = fresh.length > 0
+      ? await prisma.trip.findUnique({ where: { id: tripId }, select: tripEtaSelect })
+      : null
+
+    if (trip) {
+      for (const location of fresh) {
+        publishTripLocation(location, {
+          tripId,
+          driverId: location.driverId,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          accuracy: location.accuracy,
+          heading: location.heading,
+          speed: location.speed,
+          recordedAt: location.recordedAt,
+          status: trip.status,
+          eta: estimateTripEta(trip, location.latitude, location.longitude),
+        })
+      }
+    }
+
+    if (locations.length > 0) {
+      poller.since = locations[locations.length - 1].createdAt
+    }
+
+    // Olvidar los breadcrumbs que ya quedaron fuera del margen de consulta
+    const oldest = poller.since.getTime() - TRACKING_POLL_LOOKBACK_MS
+    for (const [id, createdAt] of poller.delivered) {
+      if (createdAt < oldest) poller.delivered.delete(id)
+    }
+  } catch (error) {
+    console.error(`Error consultando el seguimiento del viaje ${tripId}:`, error)
+  } finally {
+    poller.isPolling = false
+  }
+}
+
+/**
+ * Suscribe un listener a las actualizaciones de un viaje
+ * Mientras el viaje tenga suscriptores en esta instancia, se consultan sus breadcrumbs guardados
+ * Retorna una función para cancelar la suscripción
+ */
+export function subscribeToTrip(
+  tripId: string,
+  listener: (update: TripLocationUpdate) => void
+): () => void {
+  const eventName = `trip:${tripId}`
+  trackingEvents.on(eventName, listener)
+
+  if (!tripPollers.has(tripId)) {
+    const now = new Date()
+    const poller: TripLocationPoller = {
+      timer: setInterval(() => pollTripLocations(tripId, poller), TRACKING_POLL_INTERVAL_MS),
+      startedAt: now,
+      since: now,
+      delivered: new Map(),
+      isPolling: false,
+    }
+    poller.timer.unref()
+    tripPollers.set(tripId, poller)
+  }
+
+  return () => {
+    trackingEvents.off(eventName, listener)
+    if (trackingEvents.listenerCount(eventName) === 0) {
+      const poller = tripPollers.get(tripId)
+      if (poller) clearInterval(poller.timer)
+      tripPollers.delete(tripId)
+    }
+  }
+}
+
+/**
+ * Valida las coordenadas y campos opcionales de una posición GPS
+ */
+export function validateLocationFix(fix: any): LocationFix {
+  const latitude = Number(fix?.latitude)
+  const longitude = Number(fix?.longitude)
+
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    throw new Error('Latitud inválida')
+  }
+
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new Error('Longitud inválida')
+  }
+
+  const optionalNumber = (value: any) =>
+    value === undefined || value === null || !Number.isFinite(Number(value)) ? undefined : Number(value)
+
+  let recordedAt = fix?.recordedAt ? new Date(fix.recordedAt) : new Date()
+  if (isNaN(recordedAt.getTime())) {
+    throw new Error('Fecha de la posición inválida')
+  }
+
+  // No aceptar posiciones del futuro (reloj del dispositivo adelantado)
+  const now = new Date()
+  if (recordedAt > now) {
+    recordedAt = now
+  }
+
+  if (now.getTime() - recordedAt.getTime() > MAX_FIX_AGE_MS) {
+    throw new Error('La posición es demasiado antigua')
+  }
+
+  return {
+    latitude,
+    longitude,
+    accuracy: optionalNumber(fix?.accuracy),
+    heading: optionalNumber(fix?.heading),
+    speed: optionalNumber(fix?.speed),
+    recordedAt,
+  }
+}
+
+/**
+ * Estima el tiempo de viaje a partir de una distancia en línea recta (metros)
+ * Aplica un factor de corrección por carretera y una velocidad promedio (km/h)
+ */
+export function estimateTravelTime(
+  straightLineMeters: number,
+  averageSpeedKmh: number = DEFAULT_AVERAGE_SPEED_KMH
+): { roadDistanceMeters: number; minutes: number } {
+  const speed = averageSpeedKmh > 0 ? averageSpeedKmh : DEFAULT_AVERAGE_SPEED_KMH
+  const roadDistanceMeters = straightLineMeters * ROAD_DISTANCE_FACTOR
+
+  return {
+    roadDistanceMeters: Math.round(roadDistanceMeters),
+    minutes: Math.max(0, Math.round((roadDistanceMeters / 1000 / speed) * 60)),
+  }
+}
+
+/**
+ * Calcula el ETA del conductor hacia el siguiente punto del viaje
+ * CONFIRMED: hacia el origen (recogida), IN_PROGRESS: hacia el destino
+ */
+export function estimateTripEta(
+  trip: {
+    status: TripStatus
+    originLatitude: number
+    originLongitude: number
+    destinationLatitude: number
+    destinationLongitude: number
+    distance: number
+    duration: number
+  },
+  latitude: number,
+  longitude: number
+): TripEta | null {
+  let target: TripEta['target']
+  let targetLat: number
+  let targetLon: number
+
+  if (trip.status === TripStatus.CONFIRMED) {
+    target = 'ORIGIN'
+    targetLat = trip.originLatitude
+    targetLon = trip.originLongitude
+  } else if (trip.status === TripStatus.IN_PROGRESS) {
+    target = 'DESTINATION'
+    targetLat = trip.destinationLatitude
+    targetLon = trip.destinationLongitude
+  } else {
+    return null
+  }
+
+  const straightLine = calculateDistance(latitude, longitude, targetLat, targetLon)
+
+  // Velocidad promedio planificada del viaje (distancia en km, duración en minutos)
+  const plannedSpeed = trip.distance > 0 && trip.duration > 0
+    ? trip.distance / (trip.duration / 60)
+    : DEFAULT_AVERAGE_SPEED_KMH
+
+  const { roadDistanceMeters, minutes: etaMinutes } = estimateTravelTime(straightLine, plannedSpeed)
+
+  return {
+    target,
+    distanceMeters: roadDistanceMeters,
+    etaMinutes,
+    estimatedArrivalAt: new Date(Date.now() + etaMinutes * 60 * 1000),
+  }
+}
+
+/**
+ * Registra una posición GPS del conductor
+ * - Actualiza su última posición conocida
+ * - Si tiene un viaje activo (CONFIRMED / IN_PROGRESS), guarda el breadcrumb
+ *   y publica la actualización a los suscriptores del viaje
+ */
+export async function recordDriverLocation(
+  driverId: string,
+  fix: LocationFix,
+  tripId?: string
+) {
+  const recordedAt = fix.recordedAt || new Date()
+
+  // Buscar el viaje activo del conductor (el indicado o el más reciente en curso)
+  const trip = await prisma.trip.findFirst({
+    where: {
+      driverId,
+      status: {
+        in: [TripStatus.CONFIRMED, TripStatus.IN_PROGRESS],
+      },
+      ...(tripId ? { id: tripId } : {}),
+    },
+    orderBy: [{ startedAt: 'desc' }, { driverAcceptedAt: 'desc' }],
+  })
+
+  if (tripId && !trip) {
+    throw new Error('Viaje no encontrado o no está activo')
+  }
+
+  await prisma.driverLocation.upsert({
+    where: { driverId },
+    update: {
+      tripId: trip?.id || null,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      accuracy: fix.accuracy ?? null,
+      heading: fix.heading ?? null,
+      speed: fix.speed ?? null,
+      recordedAt,
+    },
+    create: {
+      driverId,
+      tripId: trip?.id || null,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      accuracy: fix.accuracy ?? null,
+      heading: fix.heading ?? null,
+      speed: fix.speed ?? null,
+      recordedAt,
+    },
+  })
+
+  if (!trip) {
+    return { tripId: null, eta: null }
+  }
+
+  const location = await prisma.tripLocation.create({
+    data: {
+      tripId: trip.id,
+      driverId,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      accuracy: fix.accuracy ?? null,
+      heading: fix.heading ?? null,
+      speed: fix.speed ?? null,
+      recordedAt,
+    },
+  })
+
+  const eta = estimateTripEta(trip, fix.latitude, fix.longitude)
+
+  const update: TripLocationUpdate = {
+    tripId: trip.id,
+    driverId,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    accuracy: fix.accuracy ?? null,
+    heading: fix.heading ?? null,
+    speed: fix.speed ?? null,
+    recordedAt,
+    status: trip.status,
+    eta,
+  }
+
+  publishTripLocation(location, update)
+
+  return { tripId: trip.id, eta }
+}
+
+/**
+ * Obtiene la última posición conocida de un conductor
+ */
+export async function getDriverLastLocation(driverId: string) {
+  return prisma.driverLocation.findUnique({
+    where: { driverId },
+  })
+}
+
+/**
+ * Obtiene el estado de seguimiento de un viaje:
+ * última posición del conductor, ETA y breadcrumbs registrados
+ */
+export async function getTripTracking(tripId: string, options: { breadcrumbLimit?: number } = {}) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      id: true,
+      status: true,
+      driverId: true,
+      originLatitude: true,
+      originLongitude: true,
+      destinationLatitude: true,
+      destinationLongitude: true,
+      distance: true,
+      duration: true,
+    },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  const breadcrumbs = await prisma.tripLocation.findMany({
+    where: { tripId },
+    orderBy: { recordedAt: 'desc' },
+    take: options.breadcrumbLimit || 500,
+    select: {
+      latitude: true,
+      longitude: true,
+      heading: true,
+      speed: true,
+      recordedAt: true,
+    },
+  })
+
+  // Ordenar cronológicamente para dibujar la traza
+  breadcrumbs.reverse()
+
+  const last = breadcrumbs[breadcrumbs.length - 1]
+  const lastLocation: TripLocationUpdate | null = last && trip.driverId
+    ? {
+        tripId,
+        driverId: trip.driverId,
+        latitude: last.latitude,
+        longitude: last.longitude,
+        accuracy: null,
+        heading: last.heading,
+        speed: last.speed,
+        recordedAt: last.recordedAt,
+        status: trip.status,
+        eta: estimateTripEta(trip, last.latitude, last.longitude),
+      }
+    : null
+
+  return {
+    tripId,
+    status: trip.status,
+    lastLocation,
+    breadcrumbs,
+  }
+}
+
+// Breadcrumbs con peor precisión (metros) no se usan para medir el recorrido
+const MAX_MEASURE_ACCURACY_METERS = 100
+
+// Saltos a más de esta velocidad (m/s, ~250 km/h) se consideran errores de GPS
+const MAX_MEASURE_SPEED_MS = 70
+
+/**
+ * Mide el recorrido real de un viaje a partir de sus breadcrumbs entre el inicio y el fin
+ * Descarta posiciones imprecisas y saltos imposibles
+ * Retorna la distancia en km, o null si no hay suficientes posiciones para medir
+ */
+export async function measureRecordedRoute(tripId: string, from: Date, to: Date): Promise<number | null> {
+  const breadcrumbs = await prisma.tripLocation.findMany({
+    where: {
+      tripId,
+      recordedAt: { gte: from, lte: to },
+    },
+    orderBy: { recordedAt: 'asc' },
+    select: {
+      latitude: true,
+      longitude: true,
+      accuracy: true,
+      recordedAt: true,
+    },
+  })
+
+  const points = breadcrumbs.filter(point => point.accuracy === null || point.accuracy <= MAX_MEASURE_ACCURACY_METERS)
+
+  let meters = 0
+  let previous: (typeof points)[number] | null = null
+  let usedPoints = 0
+
+  for (const point of points) {
+    if (previous) {
+      const step = calculateDistance(previous.latitude, previous.longitude, point.latitude, point.longitude)
+      const seconds = (point.recordedAt.getTime() - previous.recordedAt.getTime()) / 1000
+      if (seconds <= 0 || step / seconds > MAX_MEASURE_SPEED_MS) continue
+      meters += step
+    }
+    previous = point
+    usedPoints++
+  }
+
+  return usedPoints >= 2 ? meters / 1000 : null
+}
@@ -0,0 +1,108 @@
+/**
+ * Servicio de mensajes salientes a personas fuera de la plataforma (p. ej. contactos de emergencia)
+ * - SMS: API REST de Twilio (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_NUMBER)
+ * - Email: proveedor HTTP genérico (EMAIL_API_URL, EMAIL_API_KEY, EMAIL_FROM) que recibe { from, to, subject, text }
+ * - WhatsApp: enlace wa.me con el mensaje prellenado, para que el usuario lo envíe desde su teléfono
+ * Si un canal no está configurado, el envío se omite y se informa como NOT_CONFIGURED
+ */
+
+// Tiempo máximo de espera de cada proveedor (ms)
+const SEND_TIMEOUT_MS = 10000
+
+export type MessageChannel = 'SMS' | 'EMAIL' | 'WHATSAPP'
+
+export interface MessageDelivery {
+  channel: MessageChannel
+  to: string
+  status: 'SENT' | 'FAILED' | 'NOT_CONFIGURED' | 'LINK' // LINK: enlace para que el usuario lo envíe
+  link?: string
+  error?: string
+}
+
+/**
+ * Normaliza un teléfono a formato internacional (+ y dígitos)
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/[^\d]/g, '')
+  return digits ? `+${digits}` : ''
+}
+
+/**
+ * Enlace de WhatsApp con el mensaje prellenado
+ */
+export function buildWhatsAppLink(phone: string, text: string): MessageDelivery {
+  const to = normalizePhone(phone)
+  return {
+    channel: 'WHATSAPP',
+    to,
+    status: 'LINK',
+    link: `https://wa.me/${to.slice(1)}?text=${encodeURIComponent(text)}`,
+  }
+}
+
+/**
+ * Envía un SMS
+ */
+export async function sendSms(phone: string, text: string): Promise<MessageDelivery> {
+  const to = normalizePhone(phone)
+  const accountSid = process.env.TWILIO_ACCOUNT_SID
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  const from = process.env.TWILIO_SMS_NUMBER
+
+  if (!accountSid || !authToken || !from) {
+    return { channel: 'SMS', to, status: 'NOT_CONFIGURED' }
+  }
+
+  try {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: to, From: from, Body: text }).toString(),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      return { channel: 'SMS', to, status: 'FAILED', error: `HTTP ${response.status}` }
+    }
+
+    return { channel: 'SMS', to, status: 'SENT' }
+  } catch (error: any) {
+    return { channel: 'SMS', to, status: 'FAILED', error: error.message }
+  }
+}
+
+/**
+ * Envía un email
+ */
+export async function sendEmail(to: string, subject: string, text: string): Promise<MessageDelivery> {
+  const apiUrl = process.env.EMAIL_API_URL
+  const apiKey = process.env.EMAIL_API_KEY
+  const from = process.env.EMAIL_FROM
+
+  if (!apiUrl || !from) {
+    return { channel: 'EMAIL', to, status: 'NOT_CONFIGURED' }
+  }
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ from, to, subject, text }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      return { channel: 'EMAIL', to, status: 'FAILED', error: `HTTP ${response.status}` }
+    }
+
+    return { channel: 'EMAIL', to, status: 'SENT' }
+  } catch (error: any) {
+    return { channel: 'EMAIL', to, status: 'FAILED', error: error.message }
+  }
+}
@@ -3,7 +3,7 @@
  * Maneja la creación y gestión de notificaciones para usuarios
  */
 
-import { PrismaClient, NotificationType, NotificationChannel, NotificationPriority, NotificationStatus } from '@prisma/client'
+import { PrismaClient, NotificationType, NotificationChannel, NotificationPriority, NotificationStatus, UserRole } from '@prisma/client'
 
 const prisma = new PrismaClient()
 
@@ -113,6 +113,32 @@ export async function createGlobalNotification(
   return createBulkNotifications(notifications)
 }
 
+/**
+ * Notifica a los usuarios activos que tengan alguno de los roles, como rol principal o adicional
+ * (p. ej. despacho y soporte ante una alerta de seguridad)
+ */
+export async function notifyUsersWithRoles(
+  data: Omit<CreateNotificationData, 'userId'>,
+  roles: UserRole[]
+) {
+  const users = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { role: { in: roles } },
+        { userRoles: { some: { role: { in: roles } } } },
+      ],
+    },
+    select: { id: true },
+  })
+
+  if (users.length === 0) {
+    return { count: 0 }
+  }
+
+  return createBulkNotifications(users.map(user => ({ ...data, userId: user.id })))
+}
+
 /**
  * Obtiene las notificaciones de un usuario
  */
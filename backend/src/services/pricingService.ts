@@ -1,27 +1,213 @@
 /**
  * Servicio de cálculo de precios por país/región
  * Cada país tiene sus propias tarifas en su moneda local
+ * El precio se arma con reglas (distancia, tiempo, espera, recargos, cargos fijos, tarifa mínima)
+ * y cada regla aplicada queda como una línea del desglose. Al completar el viaje, la tarifa se
+ * ajusta al recorrido real según la política del país
  */
 
+import { VehicleType } from '@prisma/client'
+import { decodePolyline, distanceToPath, LatLng } from '../utils/polyline'
+import { calculateDistance } from '../utils/tripSecurity'
+
 export interface PricingTier {
-  maxKm: number
+  maxKm: number // Infinity en el último tramo (null al guardarse como JSON)
   pricePerKm: number
 }
 
+export interface PricingZone {
+  name: string
+  latitude: number
+  longitude: number
+  radiusKm: number
+}
+
+export interface TollPoint {
+  name: string
+  latitude: number
+  longitude: number
+  fee: number
+}
+
+export interface VehicleClassPricing {
+  baseFare: number
+  perKmMultiplier: number // Multiplicador del precio por distancia de los tramos del país
+  minimumFare: number
+}
+
+export interface CancellationPolicy {
+  freeWindowMinutes: number // Minutos sin cargo tras la aceptación del conductor
+  scheduledFreeMinutes: number // Viajes programados: sin cargo hasta estos minutos antes de la recogida
+  enRouteFee: number // Cargo si el conductor ya va en camino al origen
+  arrivedFee: number // Cargo si el conductor ya llegó al origen o el viaje empezó
+  arrivalRadiusMeters: number // Distancia al origen para considerar que el conductor llegó
+  driverPenalty: number // Penalización al conductor que cancela un viaje aceptado
+  noShowGraceMinutes: number // Espera desde la llegada antes de poder marcar al pasajero como no presentado
+  noShowFee: number // Cargo al pasajero que no se presenta
+}
+
+// QUOTED: se cobra lo cotizado; ACTUAL: se recalcula con el recorrido real; CAPPED: se recalcula con tope
+export type FareAdjustmentMode = 'QUOTED' | 'ACTUAL' | 'CAPPED'
+
+export interface FareAdjustmentPolicy {
+  mode: FareAdjustmentMode
+  maxIncreasePercent: number // CAPPED: alza máxima sobre el precio cotizado
+  maxDecreasePercent: number // CAPPED: baja máxima bajo el precio cotizado
+  reviewThresholdPercent: number // Diferencia (distancia o precio) desde la que el viaje se marca para revisión
+}
+
 export interface CountryPricing {
   currency: string
-  basePrice: number
+  basePrice: number // Tarifa base sin tipo de vehículo preferido
   tiers: PricingTier[]
-  sedanDiscount?: number // Descuento porcentual para SEDAN (ej: 0.35 = 35%)
+  stopFee: number // Cargo por cada parada intermedia
+  timeZone: string // Zona horaria para los recargos nocturnos y de fin de semana
+  perMinute: number // Cargo por minuto de duración estimada
+  waiting: { freeMinutes: number; perMinute: number } // Espera tras la llegada del conductor
+  nightSurcharge: { startHour: number; endHour: number; rate: number } // Recargo porcentual nocturno
+  weekendSurchargeRate: number // Recargo porcentual en fin de semana y feriados
+  holidays: string[] // Feriados de fecha fija (MM-DD)
+  airportFee: number // Cargo por origen o destino en un aeropuerto
+  airports: PricingZone[]
+  tolls: TollPoint[] // Peajes: se cobran si la ruta pasa por la plaza
+  minimumFare: number
+  surgeCap?: number // Tope del multiplicador de tarifa dinámica (por defecto SURGE_MAX_MULTIPLIER)
+  vehicleClasses: Partial<Record<VehicleType, VehicleClassPricing>> // Clases de vehículo ofrecidas en el país
+  cancellation: CancellationPolicy
+  fareAdjustment: FareAdjustmentPolicy
+}
+
+export type PriceLineItemCode =
+  | 'BASE'
+  | 'DISTANCE'
+  | 'TIME'
+  | 'STOPS'
+  | 'WAITING'
+  | 'NIGHT_SURCHARGE'
+  | 'WEEKEND_SURCHARGE'
+  | 'HOLIDAY_SURCHARGE'
+  | 'SURGE'
+  | 'AIRPORT_FEE'
+  | 'TOLL'
+  | 'MINIMUM_FARE'
+  | 'ROUTE_ADJUSTMENT'
+
+export interface PriceLineItem {
+  code: PriceLineItemCode
+  label: string
+  amount: number
+}
+
+/**
+ * Datos del viaje que usan las reglas además de la distancia
+ */
+export interface TripPricingContext {
+  durationMinutes?: number
+  pickupAt?: Date // Hora de recogida (programada o inmediata)
+  waitingMinutes?: number // Minutos de espera desde la llegada del conductor
+  origin?: LatLng
+  destination?: LatLng
+  routePolyline?: string
+  surgeMultiplier?: number // Multiplicador de tarifa dinámica en el origen (1 = sin recargo)
+}
+
+export interface VehiclePrice {
+  vehicleType: VehicleType | null // null: cualquier vehículo (tarifas generales del país)
+  totalPrice: number
+  currency: string
+}
+
+export interface TripPriceBreakdown {
+  basePrice: number
+  distancePrice: number
+  timePrice: number
+  stopsPrice: number
+  totalPrice: number
+  currency: string
+  surgeMultiplier: number // Multiplicador aplicado, ya limitado por el tope
+  lineItems: PriceLineItem[]
+}
+
+// Radio alrededor de una plaza de peaje para considerar que la ruta pasa por ella (metros)
+const TOLL_MATCH_RADIUS_METERS = 150
+
+// Monedas que no usan decimales
+const ZERO_DECIMAL_CURRENCIES = ['CLP', 'COP']
+
+// Tope por defecto del multiplicador de tarifa dinámica
+const SURGE_MAX_MULTIPLIER = Number(process.env.SURGE_MAX_MULTIPLIER) || 2.5
+
+// Nombre de cada tipo de vehículo en el desglose
+const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  SEDAN: 'sedán',
+  SUV: 'SUV',
+  VAN: 'van',
+  PICKUP: 'pickup',
+  OFF_ROAD: 'todo terreno',
+  LUXURY: 'lujo',
+  MOTORCYCLE: 'moto',
+  OTHER: 'otro',
+}
+
+// Clases de vehículo por defecto, relativas a las tarifas generales del país
+// (tarifa base, multiplicador por km y tarifa mínima)
+const DEFAULT_VEHICLE_CLASS_RATIOS: Partial<Record<VehicleType, VehicleClassPricing>> = {
+  MOTORCYCLE: { baseFare: 0.5, perKmMultiplier: 0.5, minimumFare: 0.5 },
+  SEDAN: { baseFare: 1, perKmMultiplier: 0.65, minimumFare: 1 },
+  SUV: { baseFare: 1, perKmMultiplier: 1, minimumFare: 1 },
+  PICKUP: { baseFare: 1, perKmMultiplier: 1.1, minimumFare: 1 },
+  VAN: { baseFare: 1.2, perKmMultiplier: 1.2, minimumFare: 1.2 },
+  OFF_ROAD: { baseFare: 1.2, perKmMultiplier: 1.3, minimumFare: 1.2 },
+  LUXURY: { baseFare: 1.6, perKmMultiplier: 1.8, minimumFare: 1.6 },
+}
+
+// Ajuste por recorrido real por defecto: se recalcula con un tope de ±20% y se revisa desde un 30% de diferencia
+const DEFAULT_FARE_ADJUSTMENT: FareAdjustmentPolicy = {
+  mode: 'CAPPED',
+  maxIncreasePercent: 20,
+  maxDecreasePercent: 20,
+  reviewThresholdPercent: 30,
 }
 
+// Recargo nocturno por defecto: 20% entre las 22:00 y las 06:00
+const DEFAULT_NIGHT_SURCHARGE = { startHour: 22, endHour: 6, rate: 0.2 }
+
 /**
- * Tarifas por país/región
+ * Completa las tarifas de un país con sus clases de vehículo y sus políticas de cancelación y de ajuste por defecto
+ */
+function withDerivedDefaults(
+  pricing: Omit<CountryPricing, 'vehicleClasses' | 'cancellation' | 'fareAdjustment'>
+): CountryPricing {
+  const vehicleClasses: CountryPricing['vehicleClasses'] = {}
+  for (const [type, ratio] of Object.entries(DEFAULT_VEHICLE_CLASS_RATIOS)) {
+    vehicleClasses[type as VehicleType] = {
+      baseFare: roundAmount(pricing.basePrice * ratio.baseFare, pricing.currency),
+      perKmMultiplier: ratio.perKmMultiplier,
+      minimumFare: roundAmount(pricing.minimumFare * ratio.minimumFare, pricing.currency),
+    }
+  }
+  // Cancelación: en camino cobra la tarifa base, en el origen la tarifa mínima
+  const cancellation: CancellationPolicy = {
+    freeWindowMinutes: 2,
+    scheduledFreeMinutes: 60,
+    enRouteFee: pricing.basePrice,
+    arrivedFee: pricing.minimumFare,
+    arrivalRadiusMeters: 150,
+    driverPenalty: pricing.basePrice,
+    noShowGraceMinutes: 5,
+    noShowFee: pricing.minimumFare,
+  }
+
+  return { ...pricing, vehicleClasses, cancellation, fareAdjustment: { ...DEFAULT_FARE_ADJUSTMENT } }
+}
+
+/**
+ * Tarifas por defecto por país/región (rigen mientras no haya una versión publicada en la base de datos)
  * Los precios están en la moneda local de cada país
  */
 const COUNTRY_PRICING: Record<string, CountryPricing> = {
   // Chile
-  CL: {
+  CL: withDerivedDefaults({
     currency: 'CLP',
     basePrice: 5000,
     tiers: [
@@ -29,10 +215,22 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 1200 },
       { maxKm: Infinity, pricePerKm: 1000 },
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 2000,
+    timeZone: 'America/Santiago',
+    perMinute: 100,
+    waiting: { freeMinutes: 5, perMinute: 150 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '05-01', '05-21', '06-29', '07-16', '08-15', '09-18', '09-19', '10-12', '11-01', '12-08', '12-25'],
+    airportFee: 3000,
+    airports: [
+      { name: 'Aeropuerto Arturo Merino Benítez (SCL)', latitude: -33.393, longitude: -70.786, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 7000,
+  }),
   // México
-  MX: {
+  MX: withDerivedDefaults({
     currency: 'MXN',
     basePrice: 80, // ~80 MXN equivalente a ~5,000 CLP
     tiers: [
@@ -40,10 +238,24 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 20 }, // ~20 MXN/km equivalente a ~1,200 CLP/km
       { maxKm: Infinity, pricePerKm: 17 }, // ~17 MXN/km equivalente a ~1,000 CLP/km
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 32, // ~32 MXN equivalente a ~2,000 CLP
+    timeZone: 'America/Mexico_City',
+    perMinute: 1.6,
+    waiting: { freeMinutes: 5, perMinute: 2.4 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '05-01', '09-16', '11-20', '12-25'],
+    airportFee: 48,
+    airports: [
+      { name: 'Aeropuerto Internacional de la Ciudad de México (MEX)', latitude: 19.436, longitude: -99.072, radiusKm: 3 },
+      { name: 'Aeropuerto Internacional de Guadalajara (GDL)', latitude: 20.522, longitude: -103.311, radiusKm: 3 },
+      { name: 'Aeropuerto Internacional de Monterrey (MTY)', latitude: 25.778, longitude: -100.107, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 112,
+  }),
   // Estados Unidos
-  US: {
+  US: withDerivedDefaults({
     currency: 'USD',
     basePrice: 5,
     tiers: [
@@ -51,10 +263,24 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 1.2 },
       { maxKm: Infinity, pricePerKm: 1.0 },
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 2,
+    timeZone: 'America/New_York',
+    perMinute: 0.1,
+    waiting: { freeMinutes: 5, perMinute: 0.15 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '06-19', '07-04', '11-11', '12-25'],
+    airportFee: 3,
+    airports: [
+      { name: 'John F. Kennedy International Airport (JFK)', latitude: 40.641, longitude: -73.778, radiusKm: 3 },
+      { name: 'Los Angeles International Airport (LAX)', latitude: 33.942, longitude: -118.408, radiusKm: 3 },
+      { name: 'Miami International Airport (MIA)', latitude: 25.795, longitude: -80.287, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 7,
+  }),
   // Argentina
-  AR: {
+  AR: withDerivedDefaults({
     currency: 'ARS',
     basePrice: 4500, // ~4,500 ARS equivalente a ~5,000 CLP
     tiers: [
@@ -62,10 +288,23 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 1080 }, // ~1,080 ARS/km
       { maxKm: Infinity, pricePerKm: 900 }, // ~900 ARS/km
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 1800, // ~1,800 ARS
+    timeZone: 'America/Argentina/Buenos_Aires',
+    perMinute: 90,
+    waiting: { freeMinutes: 5, perMinute: 135 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '03-24', '04-02', '05-01', '05-25', '06-20', '07-09', '12-08', '12-25'],
+    airportFee: 2700,
+    airports: [
+      { name: 'Aeropuerto Internacional de Ezeiza (EZE)', latitude: -34.822, longitude: -58.536, radiusKm: 3 },
+      { name: 'Aeroparque Jorge Newbery (AEP)', latitude: -34.559, longitude: -58.416, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 6300,
+  }),
   // Colombia
-  CO: {
+  CO: withDerivedDefaults({
     currency: 'COP',
     basePrice: 19500, // ~19,500 COP equivalente a ~5,000 CLP
     tiers: [
@@ -73,10 +312,23 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 4680 }, // ~4,680 COP/km
       { maxKm: Infinity, pricePerKm: 3900 }, // ~3,900 COP/km
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 7800, // ~7,800 COP
+    timeZone: 'America/Bogota',
+    perMinute: 390,
+    waiting: { freeMinutes: 5, perMinute: 585 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '05-01', '07-20', '08-07', '12-08', '12-25'],
+    airportFee: 11700,
+    airports: [
+      { name: 'Aeropuerto Internacional El Dorado (BOG)', latitude: 4.702, longitude: -74.147, radiusKm: 3 },
+      { name: 'Aeropuerto Internacional José María Córdova (MDE)', latitude: 6.165, longitude: -75.423, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 27300,
+  }),
   // Brasil
-  BR: {
+  BR: withDerivedDefaults({
     currency: 'BRL',
     basePrice: 25, // ~25 BRL equivalente a ~5,000 CLP
     tiers: [
@@ -84,10 +336,23 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 6 }, // ~6 BRL/km
       { maxKm: Infinity, pricePerKm: 5 }, // ~5 BRL/km
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 10, // ~10 BRL
+    timeZone: 'America/Sao_Paulo',
+    perMinute: 0.5,
+    waiting: { freeMinutes: 5, perMinute: 0.75 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '11-20', '12-25'],
+    airportFee: 15,
+    airports: [
+      { name: 'Aeroporto Internacional de Guarulhos (GRU)', latitude: -23.432, longitude: -46.469, radiusKm: 3 },
+      { name: 'Aeroporto do Galeão (GIG)', latitude: -22.81, longitude: -43.251, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 35,
+  }),
   // Bolivia
-  BO: {
+  BO: withDerivedDefaults({
     currency: 'BOB',
     basePrice: 35, // ~35 BOB equivalente a ~5,000 CLP
     tiers: [
@@ -95,10 +360,23 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 8.4 }, // ~8.4 BOB/km
       { maxKm: Infinity, pricePerKm: 7 }, // ~7 BOB/km
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 14, // ~14 BOB
+    timeZone: 'America/La_Paz',
+    perMinute: 0.7,
+    waiting: { freeMinutes: 5, perMinute: 1.05 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '01-22', '05-01', '08-06', '11-02', '12-25'],
+    airportFee: 21,
+    airports: [
+      { name: 'Aeropuerto Internacional Viru Viru (VVI)', latitude: -17.645, longitude: -63.135, radiusKm: 3 },
+      { name: 'Aeropuerto Internacional El Alto (LPB)', latitude: -16.513, longitude: -68.192, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 49,
+  }),
   // Perú
-  PE: {
+  PE: withDerivedDefaults({
     currency: 'PEN',
     basePrice: 19, // ~19 PEN equivalente a ~5,000 CLP
     tiers: [
@@ -106,10 +384,22 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 4.6 }, // ~4.6 PEN/km
       { maxKm: Infinity, pricePerKm: 3.8 }, // ~3.8 PEN/km
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 7.6, // ~7.6 PEN
+    timeZone: 'America/Lima',
+    perMinute: 0.38,
+    waiting: { freeMinutes: 5, perMinute: 0.57 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '05-01', '06-29', '07-28', '07-29', '08-30', '10-08', '11-01', '12-08', '12-25'],
+    airportFee: 11.4,
+    airports: [
+      { name: 'Aeropuerto Internacional Jorge Chávez (LIM)', latitude: -12.022, longitude: -77.114, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 26.6,
+  }),
   // Canadá
-  CA: {
+  CA: withDerivedDefaults({
     currency: 'CAD',
     basePrice: 7, // ~7 CAD equivalente a ~5,000 CLP
     tiers: [
@@ -117,14 +407,27 @@ const COUNTRY_PRICING: Record<string, CountryPricing> = {
       { maxKm: 200, pricePerKm: 1.6 }, // ~1.6 CAD/km
       { maxKm: Infinity, pricePerKm: 1.3 }, // ~1.3 CAD/km
     ],
-    sedanDiscount: 0.35,
-  },
+    stopFee: 2.8, // ~2.8 CAD
+    timeZone: 'America/Toronto',
+    perMinute: 0.14,
+    waiting: { freeMinutes: 5, perMinute: 0.21 },
+    nightSurcharge: DEFAULT_NIGHT_SURCHARGE,
+    weekendSurchargeRate: 0.1,
+    holidays: ['01-01', '07-01', '11-11', '12-25', '12-26'],
+    airportFee: 4.2,
+    airports: [
+      { name: 'Toronto Pearson International Airport (YYZ)', latitude: 43.677, longitude: -79.625, radiusKm: 3 },
+      { name: 'Vancouver International Airport (YVR)', latitude: 49.194, longitude: -123.184, radiusKm: 3 },
+    ],
+    tolls: [],
+    minimumFare: 9.8,
+  }),
 }
 
 /**
  * Obtiene el código de país desde un código ISO o nombre de país
  */
-function normalizeCountryCode(country: string | null | undefined): string {
+export function normalizeCountryCode(country: string | null | undefined): string {
   if (!country) return 'CL' // Default a Chile
 
   const upperCountry = country.toUpperCase().trim()
@@ -155,81 +458,323 @@ function normalizeCountryCode(country: string | null | undefined): string {
 }
 
 /**
- * Obtiene las tarifas para un país específico
+ * Obtiene las tarifas por defecto para un país específico
  */
 export function getCountryPricing(country: string | null | undefined): CountryPricing {
   const countryCode = normalizeCountryCode(country)
   return COUNTRY_PRICING[countryCode] || COUNTRY_PRICING['CL'] // Fallback a Chile
 }
 
+/**
+ * Códigos de los países con tarifas
+ */
+export function getPricingCountries(): string[] {
+  return Object.keys(COUNTRY_PRICING)
+}
+
+/**
+ * Redondea un monto según los decimales de la moneda
+ */
+function roundAmount(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency)
+    ? Math.round(amount)
+    : Math.round(amount * 100) / 100
+}
+
+/**
+ * Obtiene hora, día de la semana y fecha (MM-DD) locales de un instante en la zona horaria del país
+ */
+function getLocalTime(date: Date, timeZone: string): { hour: number; weekday: number; monthDay: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+    weekday: 'short',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date)
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || ''
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+  return {
+    hour: Number(get('hour')),
+    weekday: weekdays.indexOf(get('weekday')),
+    monthDay: `${get('month')}-${get('day')}`,
+  }
+}
+
+/**
+ * Indica si una hora cae en la franja nocturna (la franja puede cruzar la medianoche)
+ */
+function isNightHour(hour: number, night: CountryPricing['nightSurcharge']): boolean {
+  return night.startHour > night.endHour
+    ? hour >= night.startHour || hour < night.endHour
+    : hour >= night.startHour && hour < night.endHour
+}
+
+/**
+ * Cargo por la espera tras la llegada del conductor (se cobra cada minuto iniciado después de los gratuitos)
+ * Devuelve la línea del desglose o null si no corresponde cobrar
+ */
+export function calculateWaitingCharge(waitingMinutes: number, pricing: CountryPricing): PriceLineItem | null {
+  const chargeableMinutes = Math.ceil(Math.max(0, waitingMinutes - pricing.waiting.freeMinutes))
+  const amount = roundAmount(chargeableMinutes * pricing.waiting.perMinute, pricing.currency)
+  return amount > 0 ? { code: 'WAITING', label: `Espera (${chargeableMinutes} min)`, amount } : null
+}
+
 /**
  * Calcula el precio de un viaje basado en distancia y país
- * @param distance Distancia en kilómetros
+ * @param distance Distancia en kilómetros (total, incluyendo las paradas intermedias)
  * @param country Código de país (CL, MX, US, etc.) o nombre del país
- * @param vehicleType Tipo de vehículo (opcional). Si es SEDAN, aplica descuento
- * @returns Objeto con basePrice, distancePrice, timePrice, totalPrice y currency
+ * @param vehicleType Tipo de vehículo (opcional). Usa la tarifa base, el multiplicador por km y la tarifa mínima de su clase
+ * @param stops Número de paradas intermedias (cada una tiene un cargo fijo)
+ * @param context Duración, hora de recogida, espera, ubicaciones y tarifa dinámica para el resto de las reglas
+ * @param pricing Tarifas a usar (por defecto, las del país; ver pricingVersionService para la versión vigente)
+ * @returns Totales por componente, moneda y el desglose de cada regla aplicada
  */
 export function calculateTripPrice(
   distance: number,
   country: string | null | undefined,
-  vehicleType?: string
-): {
-  basePrice: number
-  distancePrice: number
-  timePrice: number
-  totalPrice: number
-  currency: string
-} {
-  if (distance <= 0) {
-    const pricing = getCountryPricing(country)
-    return {
-      basePrice: pricing.basePrice,
-      distancePrice: 0,
-      timePrice: 0,
-      totalPrice: pricing.basePrice,
-      currency: pricing.currency,
+  vehicleType?: string,
+  stops: number = 0,
+  context: TripPricingContext = {},
+  pricing: CountryPricing = getCountryPricing(country)
+): TripPriceBreakdown {
+  const { currency } = pricing
+  const lineItems: PriceLineItem[] = []
+
+  const addLineItem = (code: PriceLineItemCode, label: string, amount: number) => {
+    const rounded = roundAmount(amount, currency)
+    if (rounded !== 0) {
+      lineItems.push({ code, label, amount: rounded })
     }
+    return rounded
   }
 
-  const pricing = getCountryPricing(country)
-  let distancePrice = 0
-  let remainingDistance = distance
+  // Clase del vehículo (sin tipo preferido o sin clase en el país: tarifas generales)
+  const vehicleClass = vehicleType ? pricing.vehicleClasses[vehicleType as VehicleType] : undefined
+  const vehicleLabel = vehicleClass ? ` ${VEHICLE_TYPE_LABELS[vehicleType as VehicleType]}` : ''
+
+  // Tarifa base
+  const basePrice = addLineItem('BASE', `Tarifa base${vehicleLabel}`, vehicleClass?.baseFare ?? pricing.basePrice)
+
+  // Precio por distancia usando los tiers y el multiplicador por km de la clase del vehículo
+  const perKmMultiplier = vehicleClass?.perKmMultiplier ?? 1
+  const distancePrice = addLineItem(
+    'DISTANCE',
+    `Distancia (${distance.toFixed(1)} km${perKmMultiplier !== 1 ? `, x${perKmMultiplier}` : ''})`,
+    calculateDistancePrice(distance, pricing, vehicleType)
+  )
+
+  // Precio por tiempo según la duración estimada
+  const durationMinutes = Math.max(0, context.durationMinutes || 0)
+  const timePrice = addLineItem('TIME', `Tiempo (${Math.round(durationMinutes)} min)`, durationMinutes * pricing.perMinute)
+
+  // Cargo fijo por parada intermedia
+  const stopCount = Math.max(0, Math.floor(stops))
+  const stopsPrice = addLineItem('STOPS', `Paradas (${stopCount})`, stopCount * pricing.stopFee)
+
+  // Espera tras la llegada del conductor (después de los minutos gratuitos)
+  const waiting = calculateWaitingCharge(context.waitingMinutes || 0, pricing)
+  if (waiting) lineItems.push(waiting)
+
+  // Recargos porcentuales sobre la tarifa del viaje
+  const fareSubtotal = lineItems.reduce((sum, item) => sum + item.amount, 0)
+  const local = getLocalTime(context.pickupAt || new Date(), pricing.timeZone)
+
+  if (isNightHour(local.hour, pricing.nightSurcharge)) {
+    addLineItem(
+      'NIGHT_SURCHARGE',
+      `Recargo nocturno (${Math.round(pricing.nightSurcharge.rate * 100)}%)`,
+      fareSubtotal * pricing.nightSurcharge.rate
+    )
+  }
+
+  if (pricing.holidays.includes(local.monthDay)) {
+    addLineItem('HOLIDAY_SURCHARGE', `Recargo feriado (${Math.round(pricing.weekendSurchargeRate * 100)}%)`, fareSubtotal * pricing.weekendSurchargeRate)
+  } else if (local.weekday === 0 || local.weekday === 6) {
+    addLineItem('WEEKEND_SURCHARGE', `Recargo fin de semana (${Math.round(pricing.weekendSurchargeRate * 100)}%)`, fareSubtotal * pricing.weekendSurchargeRate)
+  }
+
+  // Tarifa dinámica: recargo sobre la tarifa del viaje según demanda, limitado por el tope del país
+  const surgeMultiplier = Math.min(
+    Math.max(1, context.surgeMultiplier || 1),
+    pricing.surgeCap || SURGE_MAX_MULTIPLIER
+  )
+  if (surgeMultiplier > 1) {
+    addLineItem('SURGE', `Alta demanda (x${surgeMultiplier.toFixed(1)})`, fareSubtotal * (surgeMultiplier - 1))
+  }
+
+  // Cargo de aeropuerto (una vez por viaje)
+  const endpoints = [context.origin, context.destination].filter((point): point is LatLng => !!point)
+  const airport = pricing.airports.find(zone =>
+    endpoints.some(point =>
+      calculateDistance(point.lat, point.lng, zone.latitude, zone.longitude) <= zone.radiusKm * 1000
+    )
+  )
+  if (airport) {
+    addLineItem('AIRPORT_FEE', `Cargo aeropuerto: ${airport.name}`, pricing.airportFee)
+  }
+
+  // Peajes por los que pasa la ruta
+  if (context.routePolyline && pricing.tolls.length > 0) {
+    const path = decodePolyline(context.routePolyline)
+    for (const toll of pricing.tolls) {
+      if (distanceToPath({ lat: toll.latitude, lng: toll.longitude }, path) <= TOLL_MATCH_RADIUS_METERS) {
+        addLineItem('TOLL', `Peaje: ${toll.name}`, toll.fee)
+      }
+    }
+  }
+
+  // Tarifa mínima (de la clase del vehículo): se completa la diferencia
+  const minimumFare = vehicleClass?.minimumFare ?? pricing.minimumFare
+  const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0)
+  if (subtotal < minimumFare) {
+    addLineItem('MINIMUM_FARE', 'Ajuste a tarifa mínima', minimumFare - subtotal)
+  }
+
+  return {
+    basePrice,
+    distancePrice,
+    timePrice,
+    stopsPrice,
+    totalPrice: roundAmount(lineItems.reduce((sum, item) => sum + item.amount, 0), currency),
+    currency,
+    surgeMultiplier,
+    lineItems,
+  }
+}
+
+/**
+ * Precio por distancia según los tramos del país y el multiplicador por km de la clase del vehículo
+ */
+function calculateDistancePrice(distance: number, pricing: CountryPricing, vehicleType?: string): number {
+  let fullDistancePrice = 0
+  let remainingDistance = Math.max(0, distance)
 
-  // Calcular precio por distancia usando los tiers
   for (const tier of pricing.tiers) {
     if (remainingDistance <= 0) break
 
     const kmInTier = Math.min(remainingDistance, tier.maxKm === Infinity ? remainingDistance : tier.maxKm)
-    distancePrice += kmInTier * tier.pricePerKm
+    fullDistancePrice += kmInTier * tier.pricePerKm
     remainingDistance -= kmInTier
   }
 
-  // Precio base
-  const basePrice = pricing.basePrice
+  const vehicleClass = vehicleType ? pricing.vehicleClasses[vehicleType as VehicleType] : undefined
+  return fullDistancePrice * (vehicleClass?.perKmMultiplier ?? 1)
+}
+
+export interface RideMeasure {
+  distance: number // km
+  durationMinutes: number
+}
+
+export interface FareAdjustment {
+  mode: FareAdjustmentMode
+  planned: RideMeasure
+  actual: RideMeasure
+  quotedPrice: number
+  recalculatedPrice: number // Precio con el recorrido real, antes del tope
+  finalPrice: number
+  distanceDiffPercent: number
+  priceDiffPercent: number
+  lineItem: PriceLineItem | null // Línea que se agrega al desglose (null: sin cambio de precio)
+  reviewReasons: string[] // Motivos para marcar el viaje para revisión de soporte (vacío: no requiere)
+}
+
+/**
+ * Ajusta el precio cotizado al recorrido real
+ * Solo cambia la parte por distancia y tiempo; los cargos fijos y recargos quedan como se cotizaron
+ */
+export function calculateFareAdjustment(
+  quotedPrice: number,
+  planned: RideMeasure,
+  actual: RideMeasure,
+  pricing: CountryPricing,
+  vehicleType?: string
+): FareAdjustment {
+  const policy = pricing.fareAdjustment
+  const { currency } = pricing
+
+  const rideDelta =
+    calculateDistancePrice(actual.distance, pricing, vehicleType) -
+    calculateDistancePrice(planned.distance, pricing, vehicleType) +
+    (Math.max(0, actual.durationMinutes) - Math.max(0, planned.durationMinutes)) * pricing.perMinute
 
-  // Precio por tiempo (por ahora 0, pero se puede agregar después)
-  const timePrice = 0
+  const vehicleClass = vehicleType ? pricing.vehicleClasses[vehicleType as VehicleType] : undefined
+  const minimumFare = vehicleClass?.minimumFare ?? pricing.minimumFare
+  const recalculatedPrice = roundAmount(Math.max(quotedPrice + rideDelta, minimumFare), currency)
 
-  // Precio total antes de descuentos
-  let totalPrice = basePrice + distancePrice + timePrice
+  let finalPrice = quotedPrice
+  if (policy.mode === 'ACTUAL') {
+    finalPrice = recalculatedPrice
+  } else if (policy.mode === 'CAPPED') {
+    const ceiling = quotedPrice * (1 + policy.maxIncreasePercent / 100)
+    const floor = quotedPrice * (1 - policy.maxDecreasePercent / 100)
+    finalPrice = roundAmount(Math.min(Math.max(recalculatedPrice, floor), ceiling), currency)
+  }
+
+  const percentDiff = (value: number, reference: number) =>
+    reference > 0 ? Math.round((Math.abs(value - reference) / reference) * 1000) / 10 : 0
+  const distanceDiffPercent = percentDiff(actual.distance, planned.distance)
+  const priceDiffPercent = percentDiff(recalculatedPrice, quotedPrice)
 
-  // Aplicar descuento para SEDAN si existe
-  if (vehicleType === 'SEDAN' && pricing.sedanDiscount) {
-    // El descuento se aplica solo al precio por distancia
-    const discountedDistancePrice = distancePrice * (1 - pricing.sedanDiscount)
-    totalPrice = basePrice + discountedDistancePrice + timePrice
-    distancePrice = discountedDistancePrice
+  const reviewReasons: string[] = []
+  if (distanceDiffPercent >= policy.reviewThresholdPercent) {
+    reviewReasons.push(`La distancia recorrida difiere un ${distanceDiffPercent}% de la planificada`)
+  }
+  if (priceDiffPercent >= policy.reviewThresholdPercent) {
+    reviewReasons.push(`El precio recalculado difiere un ${priceDiffPercent}% del cotizado`)
   }
 
+  const adjustment = roundAmount(finalPrice - quotedPrice, currency)
+
   return {
-    basePrice,
-    distancePrice,
-    timePrice,
-    totalPrice: Math.round(totalPrice),
-    currency: pricing.currency,
+    mode: policy.mode,
+    planned,
+    actual,
+    quotedPrice,
+    recalculatedPrice,
+    finalPrice,
+    distanceDiffPercent,
+    priceDiffPercent,
+    lineItem: adjustment !== 0
+      ? {
+          code: 'ROUTE_ADJUSTMENT',
+          label: `Ajuste por recorrido real (${actual.distance.toFixed(1)} km, ${Math.round(actual.durationMinutes)} min)`,
+          amount: adjustment,
+        }
+      : null,
+    reviewReasons,
   }
 }
 
+/**
+ * Lista de precios del viaje para cada clase de vehículo ofrecida en el país (y sin tipo preferido)
+ */
+export function calculateVehiclePriceList(
+  distance: number,
+  country: string | null | undefined,
+  stops: number = 0,
+  context: TripPricingContext = {},
+  pricing: CountryPricing = getCountryPricing(country)
+): VehiclePrice[] {
+  const vehicleTypes: Array<VehicleType | null> = [null, ...(Object.keys(pricing.vehicleClasses) as VehicleType[])]
+
+  return vehicleTypes.map(vehicleType => {
+    const breakdown = calculateTripPrice(distance, country, vehicleType || undefined, stops, context, pricing)
+    return { vehicleType, totalPrice: breakdown.totalPrice, currency: breakdown.currency }
+  })
+}
+
+/**
+ * Indica si un tipo de vehículo se ofrece en las tarifas de un país
+ */
+export function isVehicleTypeOffered(pricing: CountryPricing, vehicleType: string): boolean {
+  return vehicleType in pricing.vehicleClasses
+}
+
 /**
  * Obtiene la moneda para un país específico
  */
@@ -0,0 +1,381 @@
+/**
+ * Servicio de versiones de tarifas
+ * Las tarifas de cada país se guardan como versiones: un administrador edita un borrador
+ * y lo publica con una fecha de entrada en vigencia. Las versiones publicadas no se modifican,
+ * así queda el historial y cada viaje registra la versión con la que se cotizó
+ */
+
+import { PrismaClient, PricingVersion, PricingVersionStatus, Prisma, VehicleType } from '@prisma/client'
+import {
+  calculateTripPrice,
+  getCountryPricing,
+  getPricingCountries,
+  normalizeCountryCode,
+  CountryPricing,
+  PricingTier,
+} from './pricingService'
+
+const prisma = new PrismaClient()
+
+export interface ResolvedPricing {
+  pricing: CountryPricing
+  pricingVersionId: string | null // null: tarifas por defecto (sin versión publicada)
+  pricingVersion: number | null
+}
+
+const HOLIDAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/
+
+/**
+ * Lanza el error de validación de una configuración de tarifas
+ */
+function invalidConfig(detail: string): never {
+  throw new Error(`Configuración de tarifas inválida: ${detail}`)
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+function isRate(value: unknown): value is number {
+  return isNonNegative(value) && value <= 1
+}
+
+function isHour(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23
+}
+
+/**
+ * Valida una configuración de tarifas (los campos ausentes se toman de `base`)
+ * El último tramo de distancia puede no tener límite (maxKm null o Infinity)
+ */
+export function validatePricingConfig(input: unknown, base: CountryPricing): CountryPricing {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    invalidConfig('se esperaba un objeto')
+  }
+
+  const config = { ...base, ...(input as Partial<CountryPricing>), currency: base.currency }
+
+  for (const field of ['basePrice', 'stopFee', 'perMinute', 'airportFee', 'minimumFare'] as const) {
+    if (!isNonNegative(config[field])) invalidConfig(`${field} debe ser un número positivo`)
+  }
+
+  if (!Array.isArray(config.tiers) || config.tiers.length === 0) {
+    invalidConfig('se requiere al menos un tramo de distancia')
+  }
+  config.tiers = config.tiers.map((tier: { maxKm: number | null; pricePerKm: number }, index): PricingTier => {
+    const isLast = index === config.tiers.length - 1
+    const unlimited = tier?.maxKm === null || tier?.maxKm === Infinity
+    if (!tier || !isNonNegative(tier.pricePerKm)) invalidConfig(`precio por km inválido en el tramo ${index + 1}`)
+    if (unlimited ? !isLast : !(isNonNegative(tier.maxKm) && tier.maxKm > 0)) {
+      invalidConfig(`límite de km inválido en el tramo ${index + 1}`)
+    }
+    return { maxKm: unlimited ? Infinity : tier.maxKm as number, pricePerKm: tier.pricePerKm }
+  })
+
+  if (!config.vehicleClasses || typeof config.vehicleClasses !== 'object' || Array.isArray(config.vehicleClasses)) {
+    invalidConfig('vehicleClasses debe ser un objeto')
+  }
+  for (const [type, vehicleClass] of Object.entries(config.vehicleClasses)) {
+    if (!Object.values(VehicleType).includes(type as VehicleType)) invalidConfig(`tipo de vehículo desconocido: ${type}`)
+    if (!vehicleClass || !isNonNegative(vehicleClass.baseFare) || !isNonNegative(vehicleClass.minimumFare) ||
+        !(isNonNegative(vehicleClass.perKmMultiplier) && vehicleClass.perKmMultiplier > 0)) {
+      invalidConfig(`tarifas inválidas para ${type}`)
+    }
+  }
+
+  config.cancellation = { ...base.cancellation, ...config.cancellation }
+  for (const [field, value] of Object.entries(config.cancellation)) {
+    if (!isNonNegative(value)) invalidConfig(`cancellation.${field} debe ser un número positivo`)
+  }
+
+  config.fareAdjustment = { ...base.fareAdjustment, ...config.fareAdjustment }
+  if (!['QUOTED', 'ACTUAL', 'CAPPED'].includes(config.fareAdjustment.mode)) {
+    invalidConfig('fareAdjustment.mode debe ser QUOTED, ACTUAL o CAPPED')
+  }
+  for (const field of ['maxIncreasePercent', 'maxDecreasePercent', 'reviewThresholdPercent'] as const) {
+    if (!isNonNegative(config.fareAdjustment[field])) invalidConfig(`fareAdjustment.${field} debe ser un número positivo`)
+  }
+  if (config.fareAdjustment.maxDecreasePercent > 100) {
+    invalidConfig('fareAdjustment.maxDecreasePercent no puede superar 100')
+  }
+
+  if (!config.waiting || !isNonNegative(config.waiting.freeMinutes) || !isNonNegative(config.waiting.perMinute)) {
+    invalidConfig('espera inválida')
+  }
+  if (!config.nightSurcharge || !isHour(config.nightSurcharge.startHour) ||
+      !isHour(config.nightSurcharge.endHour) || !isRate(config.nightSurcharge.rate)) {
+    invalidConfig('recargo nocturno inválido')
+  }
+  if (!isRate(config.weekendSurchargeRate)) invalidConfig('weekendSurchargeRate debe estar entre 0 y 1')
+  if (config.surgeCap !== undefined && !(isNonNegative(config.surgeCap) && config.surgeCap >= 1)) {
+    invalidConfig('surgeCap debe ser mayor o igual a 1')
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: config.timeZone })
+  } catch {
+    invalidConfig(`zona horaria desconocida: ${config.timeZone}`)
+  }
+
+  if (!Array.isArray(config.holidays) || !config.holidays.every(day => typeof day === 'string' && HOLIDAY_PATTERN.test(day))) {
+    invalidConfig('los feriados deben tener formato MM-DD')
+  }
+  if (!Array.isArray(config.airports) || !config.airports.every(zone =>
+    zone && typeof zone.name === 'string' && typeof zone.latitude === 'number' &&
+    typeof zone.longitude === 'number' && isNonNegative(zone.radiusKm))) {
+    invalidConfig('aeropuertos inválidos')
+  }
+  if (!Array.isArray(config.tolls) || !config.tolls.every(toll =>
+    toll && typeof toll.name === 'string' && typeof toll.latitude === 'number' &&
+    typeof toll.longitude === 'number' && isNonNegative(toll.fee))) {
+    invalidConfig('peajes inválidos')
+  }
+
+  return config
+}
+
+/**
+ * Configuración lista para guardarse como JSON (el tramo sin límite queda con maxKm null)
+ */
+function toJsonConfig(config: CountryPricing): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(config))
+}
+
+/**
+ * Convierte la configuración guardada en tarifas (los campos que falten se toman de las tarifas por defecto)
+ */
+function toCountryPricing(version: PricingVersion): CountryPricing {
+  return validatePricingConfig(version.config, getCountryPricing(version.country))
+}
+
+/**
+ * Obtiene las tarifas vigentes de un país en un instante (por defecto, ahora)
+ * Usa la última versión publicada con effectiveFrom anterior a ese instante; si no hay, las tarifas por defecto
+ */
+export async function resolveCountryPricing(
+  country: string | null | undefined,
+  at: Date = new Date()
+): Promise<ResolvedPricing> {
+  const countryCode = normalizeCountryCode(country)
+  const version = await prisma.pricingVersion.findFirst({
+    where: {
+      country: countryCode,
+      status: PricingVersionStatus.PUBLISHED,
+      effectiveFrom: { lte: at },
+    },
+    orderBy: { effectiveFrom: 'desc' },
+  })
+
+  if (!version) {
+    return { pricing: getCountryPricing(countryCode), pricingVersionId: null, pricingVersion: null }
+  }
+
+  return { pricing: toCountryPricing(version), pricingVersionId: version.id, pricingVersion: version.version }
+}
+
+/**
+ * Tarifas con las que se cotizó un viaje: su versión o, si no tiene, las tarifas por defecto del país
+ */
+export async function getTripPricing(
+  pricingVersionId: string | null,
+  country: string | null | undefined
+): Promise<CountryPricing> {
+  const version = pricingVersionId
+    ? await prisma.pricingVersion.findUnique({ where: { id: pricingVersionId } })
+    : null
+
+  return version ? toCountryPricing(version) : getCountryPricing(country)
+}
+
+/**
+ * Lista los países con tarifas y su versión vigente
+ */
+export async function listPricingCountries() {
+  return Promise.all(getPricingCountries().map(async country => {
+    const live = await resolveCountryPricing(country)
+    return {
+      country,
+      currency: live.pricing.currency,
+      liveVersionId: live.pricingVersionId,
+      liveVersion: live.pricingVersion,
+    }
+  }))
+}
+
+/**
+ * Historial de versiones de un país (más recientes primero) y la versión vigente
+ */
+export async function listPricingVersions(country: string) {
+  const countryCode = normalizeCountryCode(country)
+  const [versions, live] = await Promise.all([
+    prisma.pricingVersion.findMany({
+      where: { country: countryCode },
+      orderBy: { version: 'desc' },
+    }),
+    resolveCountryPricing(countryCode),
+  ])
+
+  return {
+    country: countryCode,
+    liveVersionId: live.pricingVersionId,
+    defaults: getCountryPricing(countryCode),
+    versions,
+  }
+}
+
+/**
+ * Obtiene una versión de tarifas
+ */
+export async function getPricingVersion(id: string) {
+  const version = await prisma.pricingVersion.findUnique({ where: { id } })
+  if (!version) {
+    throw new Error('Versión de tarifas no encontrada')
+  }
+  return version
+}
+
+/**
+ * Obtiene un borrador (las versiones publicadas no se pueden modificar)
+ */
+async function getDraft(id: string) {
+  const version = await getPricingVersion(id)
+  if (version.status !== PricingVersionStatus.DRAFT) {
+    throw new Error('Solo se pueden modificar borradores de tarifas')
+  }
+  return version
+}
+
+/**
+ * Crea un borrador de tarifas para un país
+ * Parte de la configuración indicada, de otra versión (copyFromId) o de las tarifas vigentes
+ */
+export async function createPricingDraft(data: {
+  country: string
+  config?: unknown
+  copyFromId?: string
+  notes?: string
+  adminId: string
+}) {
+  const country = normalizeCountryCode(data.country)
+  if (!getPricingCountries().includes(country)) {
+    throw new Error('País sin tarifas configuradas')
+  }
+
+  let base: CountryPricing
+  if (data.copyFromId) {
+    const source = await getPricingVersion(data.copyFromId)
+    if (source.country !== country) {
+      throw new Error('La versión a copiar es de otro país')
+    }
+    base = toCountryPricing(source)
+  } else {
+    base = (await resolveCountryPricing(country)).pricing
+  }
+
+  const config = data.config !== undefined ? validatePricingConfig(data.config, base) : base
+  const last = await prisma.pricingVersion.findFirst({
+    where: { country },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  })
+
+  return prisma.pricingVersion.create({
+    data: {
+      country,
+      version: (last?.version || 0) + 1,
+      config: toJsonConfig(config),
+      notes: data.notes || null,
+      createdBy: data.adminId,
+    },
+  })
+}
+
+/**
+ * Actualiza la configuración o las notas de un borrador
+ */
+export async function updatePricingDraft(id: string, data: { config?: unknown; notes?: string }) {
+  const draft = await getDraft(id)
+
+  return prisma.pricingVersion.update({
+    where: { id },
+    data: {
+      ...(data.config !== undefined && {
+        config: toJsonConfig(validatePricingConfig(data.config, toCountryPricing(draft))),
+      }),
+      ...(data.notes !== undefined && { notes: data.notes || null }),
+    },
+  })
+}
+
+/**
+ * Publica un borrador: rige desde `effectiveFrom` (por defecto, de inmediato; no puede ser una fecha pasada)
+ */
+export async function publishPricingVersion(id: string, data: { effectiveFrom?: Date; adminId: string }) {
+  const draft = await getDraft(id)
+  const now = new Date()
+
+  if (data.effectiveFrom && data.effectiveFrom.getTime() < now.getTime() - 60 * 1000) {
+    throw new Error('La fecha de vigencia no puede estar en el pasado')
+  }
+
+  // Se valida de nuevo por si la configuración se guardó con otra versión de las reglas
+  toCountryPricing(draft)
+
+  return prisma.pricingVersion.update({
+    where: { id },
+    data: {
+      status: PricingVersionStatus.PUBLISHED,
+      effectiveFrom: data.effectiveFrom && data.effectiveFrom > now ? data.effectiveFrom : now,
+      publishedBy: data.adminId,
+      publishedAt: now,
+    },
+  })
+}
+
+/**
+ * Elimina un borrador
+ */
+export async function deletePricingDraft(id: string) {
+  await getDraft(id)
+  await prisma.pricingVersion.delete({ where: { id } })
+}
+
+/**
+ * Compara el precio de un viaje de ejemplo con un borrador (o una configuración sin guardar)
+ * y con las tarifas vigentes del país
+ */
+export async function previewPricing(data: {
+  country: string
+  draftId?: string
+  config?: unknown
+  distance: number
+  duration?: number
+  vehicleType?: string
+  stops?: number
+  pickupAt?: Date
+}) {
+  const country = normalizeCountryCode(data.country)
+  const live = await resolveCountryPricing(country, data.pickupAt)
+
+  let draft: CountryPricing
+  if (data.draftId) {
+    const version = await getPricingVersion(data.draftId)
+    if (version.country !== country) {
+      throw new Error('La versión a comparar es de otro país')
+    }
+    draft = data.config !== undefined ? validatePricingConfig(data.config, toCountryPricing(version)) : toCountryPricing(version)
+  } else if (data.config !== undefined) {
+    draft = validatePricingConfig(data.config, live.pricing)
+  } else {
+    throw new Error('Indica el borrador o la configuración a comparar')
+  }
+
+  const context = { durationMinutes: data.duration || 0, pickupAt: data.pickupAt }
+  return {
+    country,
+    liveVersionId: live.pricingVersionId,
+    liveVersion: live.pricingVersion,
+    live: calculateTripPrice(data.distance, country, data.vehicleType, data.stops || 0, context, live.pricing),
+    draft: calculateTripPrice(data.distance, country, data.vehicleType, data.stops || 0, context, draft),
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Servicio de viajes programados
+ * - Retiene los viajes con fecha futura y los despacha con anticipación configurable
+ * - Envía recordatorios a pasajero y conductor antes de la recogida
+ * - Exige que el conductor confirme un viaje pre-aceptado; si no confirma
+ *   antes de T-30 min, el viaje se libera y se vuelve a despachar
+ */
+
+import { PrismaClient, Prisma, TripStatus, NotificationType, NotificationPriority } from '@prisma/client'
+import { scheduleJob, cancelJob } from './jobService'
+import { assertTripTransition, recordTripEvent, SYSTEM_ACTOR } from './tripStateService'
+
+const prisma = new PrismaClient()
+
+// Anticipación con la que se despacha un viaje programado a los conductores (minutos)
+const DISPATCH_LEAD_MINUTES = Number(process.env.SCHEDULED_TRIP_DISPATCH_LEAD_MINUTES) || 60
+
+// Ventana antes de la recogida en la que el conductor puede (y debe) confirmar (minutos)
+const CONFIRMATION_WINDOW_MINUTES = Number(process.env.SCHEDULED_TRIP_CONFIRMATION_WINDOW_MINUTES) || 120
+
+// Plazo para confirmar: si el conductor no confirmó a T-30 min, se redespacha
+const CONFIRMATION_DEADLINE_MINUTES = 30
+
+// Un viaje confirmado ocupa al conductor desde 30 minutos antes de la recogida
+const ACTIVE_TRIP_WINDOW_MINUTES = 30
+
+// Recordatorios antes de la recogida (minutos)
+const REMINDER_OFFSETS_MINUTES = [24 * 60, 60, 15]
+
+export const SCHEDULED_TRIP_JOBS = {
+  DISPATCH: 'dispatch-scheduled-trip',
+  REMINDER: 'trip-reminder',
+  CONFIRMATION: 'enforce-driver-confirmation',
+} as const
+
+/**
+ * Indica si un viaje programado debe retenerse en lugar de despacharse de inmediato
+ */
+export function shouldHoldScheduledTrip(scheduledAt: Date | null | undefined, now: Date = new Date()): boolean {
+  if (!scheduledAt) return false
+  return scheduledAt.getTime() - now.getTime() > DISPATCH_LEAD_MINUTES * 60 * 1000
+}
+
+/**
+ * Filtro de los viajes que ocupan a un conductor: los que están en curso y los confirmados
+ * inmediatos o con recogida dentro de la ventana (los programados más adelante no lo ocupan)
+ */
+export function getActiveTripFilter(now: Date = new Date()): Prisma.TripWhereInput {
+  return {
+    OR: [
+      { status: TripStatus.IN_PROGRESS },
+      {
+        status: TripStatus.CONFIRMED,
+        OR: [
+          { scheduledAt: null },
+          { scheduledAt: { lte: new Date(now.getTime() + ACTIVE_TRIP_WINDOW_MINUTES * 60 * 1000) } },
+        ],
+      },
+    ],
+  }
+}
+
+/**
+ * Fecha de confirmación del conductor al aceptar un viaje
+ * Los viajes inmediatos o dentro de la ventana de confirmación quedan confirmados
+ * al aceptarlos; los que son más adelante quedan pre-aceptados (null)
+ */
+export function getDriverConfirmationOnAccept(scheduledAt: Date | null | undefined, now: Date = new Date()): Date | null {
+  if (!scheduledAt) return now
+  return scheduledAt.getTime() - now.getTime() <= CONFIRMATION_WINDOW_MINUTES * 60 * 1000 ? now : null
+}
+
+function formatPickupTime(scheduledAt: Date) {
+  return scheduledAt.toLocaleString('es-CL', { timeZone: 'America/Santiago' })
+}
+
+function formatOffset(minutes: number) {
+  if (minutes >= 60 * 24) return `${Math.round(minutes / (60 * 24))} día(s)`
+  if (minutes >= 60) return `${Math.round(minutes / 60)} hora(s)`
+  return `${minutes} minutos`
+}
+
+/**
+ * Programa los jobs de un viaje programado: despacho anticipado,
+ * recordatorios y control de confirmación del conductor
+ */
+export async function scheduleTripJobs(trip: { id: string; scheduledAt: Date | null }) {
+  if (!trip.scheduledAt) return
+
+  const now = Date.now()
+  const pickupAt = trip.scheduledAt.getTime()
+
+  if (shouldHoldScheduledTrip(trip.scheduledAt)) {
+    await scheduleJob(SCHEDULED_TRIP_JOBS.DISPATCH, { tripId: trip.id }, {
+      key: `${SCHEDULED_TRIP_JOBS.DISPATCH}:${trip.id}`,
+      runAt: new Date(pickupAt - DISPATCH_LEAD_MINUTES * 60 * 1000),
+    })
+  }
+
+  for (const offsetMinutes of REMINDER_OFFSETS_MINUTES) {
+    const runAt = pickupAt - offsetMinutes * 60 * 1000
+    if (runAt <= now) continue
+
+    await scheduleJob(SCHEDULED_TRIP_JOBS.REMINDER, { tripId: trip.id, offsetMinutes }, {
+      key: `${SCHEDULED_TRIP_JOBS.REMINDER}:${trip.id}:${offsetMinutes}`,
+      runAt: new Date(runAt),
+    })
+  }
+
+  const confirmationDeadline = pickupAt - CONFIRMATION_DEADLINE_MINUTES * 60 * 1000
+  if (confirmationDeadline > now) {
+    await scheduleJob(SCHEDULED_TRIP_JOBS.CONFIRMATION, { tripId: trip.id }, {
+      key: `${SCHEDULED_TRIP_JOBS.CONFIRMATION}:${trip.id}`,
+      runAt: new Date(confirmationDeadline),
+    })
+  }
+}
+
+/**
+ * Cancela los jobs pendientes de un viaje (p. ej. al cancelarlo)
+ */
+export async function cancelTripJobs(tripId: string) {
+  await cancelJob(`${SCHEDULED_TRIP_JOBS.DISPATCH}:${tripId}`)
+  await cancelJob(`${SCHEDULED_TRIP_JOBS.CONFIRMATION}:${tripId}`)
+  for (const offsetMinutes of REMINDER_OFFSETS_MINUTES) {
+    await cancelJob(`${SCHEDULED_TRIP_JOBS.REMINDER}:${tripId}:${offsetMinutes}`)
+  }
+}
+
+/**
+ * Job: despacha un viaje programado a los conductores cercanos
+ * La vuelta de un viaje de ida y vuelta sigue reservada mientras la ida no tenga conductor;
+ * al liberarse la despacha el barrido de plazos (sweepExpiredAcceptanceDeadlines)
+ */
+export async function dispatchScheduledTrip(payload: { tripId: string }) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: payload.tripId },
+    select: { status: true, driverId: true, outboundTrip: { select: { status: true } } },
+  })
+
+  // Ya fue pre-aceptado, cancelado, despachado u ofrecido al conductor de la ida
+  if (!trip || trip.status !== TripStatus.PENDING || trip.driverId) {
+    return
+  }
+
+  // Vuelta cuya ida todavía no tiene conductor
+  if (trip.outboundTrip?.status === TripStatus.PENDING) {
+    return
+  }
+
+  const { dispatchTripToNearbyDrivers } = await import('./driverAlertService')
+  await dispatchTripToNearbyDrivers(payload.tripId)
+}
+
+/**
+ * Job: envía el recordatorio de recogida al pasajero y al conductor
+ */
+export async function sendTripReminder(payload: { tripId: string; offsetMinutes: number }) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: payload.tripId },
+    select: {
+      id: true,
+      tripNumber: true,
+      status: true,
+      scheduledAt: true,
+      originAddress: true,
+      passengerId: true,
+      driverId: true,
+      driverConfirmedAt: true,
+    },
+  })
+
+  if (
+    !trip ||
+    !trip.scheduledAt ||
+    (trip.status !== TripStatus.PENDING && trip.status !== TripStatus.CONFIRMED)
+  ) {
+    return
+  }
+
+  const { createNotification } = await import('./notificationService')
+  const inTime = formatOffset(payload.offsetMinutes)
+  const pickupTime = formatPickupTime(trip.scheduledAt)
+  const priority = payload.offsetMinutes <= 60 ? NotificationPriority.HIGH : NotificationPriority.NORMAL
+
+  if (trip.passengerId) {
+    await createNotification({
+      userId: trip.passengerId,
+      type: NotificationType.REMINDER,
+      title: `Tu viaje es en ${inTime}`,
+      message: trip.driverId
+        ? `Recogida del viaje ${trip.tripNumber} el ${pickupTime} en ${trip.originAddress}`
+        : `Tu viaje ${trip.tripNumber} del ${pickupTime} aún está buscando conductor`,
+      priority,
+      data: {
+        tripId: trip.id,
+        tripNumber: trip.tripNumber,
+        offsetMinutes: payload.offsetMinutes,
+      },
+      actionUrl: `/passenger/trips/${trip.id}`,
+      actionLabel: 'Ver viaje',
+    }).catch(() => null)
+  }
+
+  if (trip.driverId && trip.status === TripStatus.CONFIRMED) {
+    const needsConfirmation = !trip.driverConfirmedAt
+
+    await createNotification({
+      userId: trip.driverId,
+      type: NotificationType.REMINDER,
+      title: needsConfirmation ? `Confirma tu viaje de ${inTime}` : `Tienes un viaje en ${inTime}`,
+      message: needsConfirmation
+        ? `Confirma el viaje ${trip.tripNumber} (${pickupTime}) antes de ${CONFIRMATION_DEADLINE_MINUTES} minutos de la recogida o será reasignado`
+        : `Recogida del viaje ${trip.tripNumber} el ${pickupTime} en ${trip.originAddress}`,
+      priority,
+      data: {
+        tripId: trip.id,
+        tripNumber: trip.tripNumber,
+        offsetMinutes: payload.offsetMinutes,
+      },
+      actionUrl: `/driver/trips/${trip.id}`,
+      actionLabel: needsConfirmation ? 'Confirmar viaje' : 'Ver viaje',
+    }).catch(() => null)
+  }
+}
+
+/**
+ * Job: libera y vuelve a despachar un viaje pre-aceptado cuyo conductor
+ * no lo confirmó antes del plazo (T-30 min)
+ */
+export async function enforceDriverConfirmation(payload: { tripId: string }) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: payload.tripId },
+    select: {
+      id: true,
+      tripNumber: true,
+      status: true,
+      driverId: true,
+      vehicleId: true,
+      passengerId: true,
+      driverConfirmedAt: true,
+    },
+  })
+
+  if (!trip || trip.status !== TripStatus.CONFIRMED || !trip.driverId || trip.driverConfirmedAt) {
+    return
+  }
+
+  assertTripTransition(trip.status, TripStatus.PENDING, SYSTEM_ACTOR.role)
+
+  // Condición sobre la confirmación para no pisar una confirmación concurrente
+  const released = await prisma.trip.updateMany({
+    where: {
+      id: trip.id,
+      status: TripStatus.CONFIRMED,
+      driverId: trip.driverId,
+      driverConfirmedAt: null,
+    },
+    data: {
+      status: TripStatus.PENDING,
+      driverId: null,
+      vehicleId: null,
+      driverAcceptedAt: null,
+      driverRequestedAt: null,
+      acceptanceDeadline: null,
+      startPin: null,
+      startPinExpiresAt: null,
+      startQrCode: null,
+    },
+  })
+
+  if (released.count === 0) {
+    return
+  }
+
+  await recordTripEvent(prisma, {
+    tripId: trip.id,
+    fromStatus: trip.status,
+    toStatus: TripStatus.PENDING,
+    actor: SYSTEM_ACTOR,
+    reason: 'El conductor no confirmó el viaje programado a tiempo',
+    metadata: { driverId: trip.driverId },
+  })
+
+  if (trip.vehicleId) {
+    await prisma.vehicle.update({
+      where: { id: trip.vehicleId },
+      data: { isAvailable: true },
+    }).catch(() => null)
+  }
+
+  const { createNotification } = await import('./notificationService')
+
+  await createNotification({
+    userId: trip.driverId,
+    type: NotificationType.TRIP_UNASSIGNED,
+    title: 'Viaje reasignado',
+    message: `No confirmaste el viaje ${trip.tripNumber} a tiempo y fue reasignado a otro conductor`,
+    priority: NotificationPriority.HIGH,
+    data: {
+      tripId: trip.id,
+      tripNumber: trip.tripNumber,
+    },
+  }).catch(() => null)
+
+  if (trip.passengerId) {
+    await createNotification({
+      userId: trip.passengerId,
+      type: NotificationType.TRIP_REASSIGNED,
+      title: 'Buscando un nuevo conductor',
+      message: `El conductor de tu viaje ${trip.tripNumber} no confirmó. Estamos buscando otro conductor.`,
+      priority: NotificationPriority.HIGH,
+      data: {
+        tripId: trip.id,
+        tripNumber: trip.tripNumber,
+      },
+      actionUrl: `/passenger/trips/${trip.id}`,
+      actionLabel: 'Ver viaje',
+    }).catch(() => null)
+  }
+
+  const { dispatchTripToNearbyDrivers } = await import('./driverAlertService')
+  await dispatchTripToNearbyDrivers(trip.id)
+}
+
+/**
+ * Confirma un viaje programado pre-aceptado por el conductor
+ * Solo se puede confirmar dentro de la ventana previa a la recogida
+ */
+export async function confirmScheduledTrip(tripId: string, driverId: string) {
+  const trip = await prisma.trip.findFirst({
+    where: {
+      id: tripId,
+      driverId,
+      status: TripStatus.CONFIRMED,
+    },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado o no está confirmado')
+  }
+
+  if (trip.driverConfirmedAt) {
+    return trip
+  }
+
+  const now = new Date()
+  if (trip.scheduledAt && trip.scheduledAt.getTime() - now.getTime() > CONFIRMATION_WINDOW_MINUTES * 60 * 1000) {
+    throw new Error(
+      `Solo puedes confirmar el viaje durante las ${formatOffset(CONFIRMATION_WINDOW_MINUTES)} previas a la recogida`
+    )
+  }
+
+  const updatedTrip = await prisma.trip.update({
+    where: { id: tripId },
+    data: { driverConfirmedAt: now },
+  })
+
+  if (updatedTrip.passengerId) {
+    const { createNotification } = await import('./notificationService')
+    await createNotification({
+      userId: updatedTrip.passengerId,
+      type: NotificationType.TRIP_ACCEPTED,
+      title: 'Conductor confirmado',
+      message: `El conductor confirmó tu viaje ${updatedTrip.tripNumber}`,
+      priority: NotificationPriority.NORMAL,
+      data: {
+        tripId: updatedTrip.id,
+        tripNumber: updatedTrip.tripNumber,
+      },
+      actionUrl: `/passenger/trips/${updatedTrip.id}`,
+      actionLabel: 'Ver viaje',
+    }).catch(() => null)
+  }
+
+  return updatedTrip
+}
@@ -0,0 +1,246 @@
+/**
+ * Servicio de SOS (botón de pánico) durante un viaje
+ * El pasajero o el conductor registra un incidente con su posición y una instantánea del viaje
+ * (vehículo y contraparte). Se avisa con prioridad URGENTE a despacho y soporte, y a los contactos
+ * de emergencia del usuario por SMS, email y un enlace de WhatsApp prellenado
+ */
+
+import { PrismaClient, Prisma, SosIncidentStatus, TripActorRole, TripStatus } from '@prisma/client'
+import { buildWhatsAppLink, MessageDelivery, sendEmail, sendSms } from './messagingService'
+import { SAFETY_STAFF_ROLES } from './tripSafetyService'
+
+const prisma = new PrismaClient()
+
+// Un segundo SOS del mismo usuario dentro de este plazo reutiliza el incidente abierto (doble toque)
+const SOS_DEDUP_MINUTES = 2
+
+// Estados del viaje en los que se puede activar el SOS
+const SOS_TRIP_STATUSES: TripStatus[] = [TripStatus.CONFIRMED, TripStatus.IN_PROGRESS]
+
+export interface SosInput {
+  latitude?: number | null
+  longitude?: number | null
+  accuracy?: number | null
+  message?: string | null
+}
+
+// Datos incluidos al devolver un incidente
+const incidentInclude = {
+  trip: { select: { id: true, tripNumber: true, status: true } },
+  reporter: { select: { id: true, name: true, phone: true } },
+  handledBy: { select: { id: true, name: true } },
+} as const
+
+/**
+ * Activa el SOS de un viaje del usuario (como pasajero o conductor)
+ * Retorna el incidente y el resultado del aviso a cada contacto (incluye los enlaces de WhatsApp)
+ */
+export async function triggerSos(tripId: string, userId: string, input: SosInput = {}) {
+  const trip = await prisma.trip.findFirst({
+    where: { id: tripId, OR: [{ passengerId: userId }, { driverId: userId }] },
+    include: {
+      passenger: { select: { id: true, name: true, phone: true } },
+      driver: { select: { id: true, name: true, phone: true } },
+      vehicle: { select: { make: true, model: true, color: true, licensePlate: true } },
+    },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  if (!SOS_TRIP_STATUSES.includes(trip.status)) {
+    throw new Error('Solo puedes activar el SOS durante un viaje activo')
+  }
+
+  const reporterRole = trip.passengerId === userId ? TripActorRole.PASSENGER : TripActorRole.DRIVER
+
+  const recent = await prisma.sosIncident.findFirst({
+    where: {
+      tripId,
+      reporterId: userId,
+      status: { not: SosIncidentStatus.RESOLVED },
+      createdAt: { gte: new Date(Date.now() - SOS_DEDUP_MINUTES * 60 * 1000) },
+    },
+    include: incidentInclude,
+  })
+
+  if (recent) {
+    return { incident: recent, deliveries: (recent.contactDeliveries as unknown as MessageDelivery[] | null) || [] }
+  }
+
+  // Posición: la enviada por el dispositivo o, si no hay, el último breadcrumb del viaje
+  let latitude = input.latitude ?? null
+  let longitude = input.longitude ?? null
+  let accuracy = input.accuracy ?? null
+
+  if (latitude !== null && longitude !== null) {
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new Error('Coordenadas inválidas')
+    }
+  } else {
+    const last = await prisma.tripLocation.findFirst({
+      where: { tripId },
+      orderBy: { recordedAt: 'desc' },
+      select: { latitude: true, longitude: true },
+    })
+    latitude = last?.latitude ?? null
+    longitude = last?.longitude ?? null
+    accuracy = null
+  }
+
+  const reporter = reporterRole === TripActorRole.PASSENGER ? trip.passenger : trip.driver
+  const counterpart = reporterRole === TripActorRole.PASSENGER ? trip.driver : trip.passenger
+  const snapshot = {
+    tripNumber: trip.tripNumber,
+    status: trip.status,
+    startedAt: trip.startedAt,
+    originAddress: trip.originAddress,
+    destinationAddress: trip.destinationAddress,
+    vehicle: trip.vehicle,
+    counterpart: counterpart ? { ...counterpart, role: reporterRole === TripActorRole.PASSENGER ? 'DRIVER' : 'PASSENGER' } : null,
+  }
+
+  const incident = await prisma.sosIncident.create({
+    data: {
+      tripId,
+      reporterId: userId,
+      reporterRole,
+      latitude,
+      longitude,
+      accuracy,
+      message: input.message?.trim() || null,
+      snapshot: JSON.parse(JSON.stringify(snapshot)),
+    },
+  })
+
+  // Avisar a despacho y soporte
+  setImmediate(async () => {
+    try {
+      const { notifyUsersWithRoles } = await import('./notificationService')
+      const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+      await notifyUsersWithRoles({
+        type: NotificationType.SECURITY_ALERT,
+        title: `SOS: viaje ${trip.tripNumber}`,
+        message: `${reporter?.name || 'Un usuario'} (${reporterRole === TripActorRole.PASSENGER ? 'pasajero' : 'conductor'}) activó el SOS.${incident.message ? ` "${incident.message}"` : ''}`,
+        priority: NotificationPriority.URGENT,
+        data: { tripId, incidentId: incident.id },
+        actionUrl: '/admin/safety',
+        actionLabel: 'Atender',
+      }, SAFETY_STAFF_ROLES).catch(() => null)
+    } catch (error) {
+      console.error('Error notificando SOS a despacho:', error)
+    }
+  })
+
+  // Avisar a los contactos de emergencia por los canales disponibles
+  const contacts = await prisma.emergencyContact.findMany({ where: { userId } })
+  const location = latitude !== null && longitude !== null ? ` Ubicación: https://www.google.com/maps?q=${latitude},${longitude}.` : ''
+  const vehicle = trip.vehicle
+    ? ` Vehículo: ${trip.vehicle.make} ${trip.vehicle.model}${trip.vehicle.color ? ` ${trip.vehicle.color}` : ''}, patente ${trip.vehicle.licensePlate}.`
+    : ''
+  const counterpartLine = counterpart
+    ? ` ${reporterRole === TripActorRole.PASSENGER ? 'Conductor' : 'Pasajero'}: ${counterpart.name}.`
+    : ''
+  const text = `SOS: ${reporter?.name || 'Tu contacto'} activó una alerta de emergencia durante el viaje ${trip.tripNumber}.${location}${vehicle}${counterpartLine}`
+
+  const deliveries: MessageDelivery[] = []
+  await Promise.all(contacts.map(async contact => {
+    if (contact.phone) {
+      deliveries.push(await sendSms(contact.phone, text))
+      deliveries.push(buildWhatsAppLink(contact.phone, text))
+    }
+    if (contact.email) {
+      deliveries.push(await sendEmail(contact.email, `SOS de ${reporter?.name || 'tu contacto'}`, text))
+    }
+  }))
+
+  const updated = await prisma.sosIncident.update({
+    where: { id: incident.id },
+    data: { contactDeliveries: JSON.parse(JSON.stringify(deliveries)) },
+    include: incidentInclude,
+  })
+
+  return { incident: updated, deliveries }
+}
+
+/**
+ * Lista los incidentes SOS para despacho y soporte (más recientes primero)
+ */
+export async function listSosIncidents(filters: { status?: SosIncidentStatus; page?: number; limit?: number } = {}) {
+  const page = filters.page || 1
+  const limit = filters.limit || 20
+  const where: Prisma.SosIncidentWhereInput = filters.status ? { status: filters.status } : {}
+
+  const [incidents, total] = await Promise.all([
+    prisma.sosIncident.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: incidentInclude,
+    }),
+    prisma.sosIncident.count({ where }),
+  ])
+
+  return {
+    incidents,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  }
+}
+
+/**
+ * Marca un incidente SOS como en atención por el usuario de despacho o soporte
+ */
+export async function acknowledgeSosIncident(incidentId: string, staffId: string) {
+  const { count } = await prisma.sosIncident.updateMany({
+    where: { id: incidentId, status: SosIncidentStatus.OPEN },
+    data: {
+      status: SosIncidentStatus.ACKNOWLEDGED,
+      acknowledgedAt: new Date(),
+      handledById: staffId,
+    },
+  })
+
+  if (count === 0) {
+    const exists = await prisma.sosIncident.count({ where: { id: incidentId } })
+    throw new Error(exists ? 'El incidente ya está siendo atendido' : 'Incidente no encontrado')
+  }
+
+  return prisma.sosIncident.findUniqueOrThrow({ where: { id: incidentId }, include: incidentInclude })
+}
+
+/**
+ * Cierra un incidente SOS con una nota de lo que se hizo
+ */
+export async function resolveSosIncident(incidentId: string, staffId: string, note: string) {
+  if (!note?.trim()) {
+    throw new Error('Debes indicar cómo se resolvió el incidente')
+  }
+
+  const incident = await prisma.sosIncident.findUnique({ where: { id: incidentId } })
+
+  if (!incident) {
+    throw new Error('Incidente no encontrado')
+  }
+
+  if (incident.status === SosIncidentStatus.RESOLVED) {
+    throw new Error('El incidente ya fue resuelto')
+  }
+
+  return prisma.sosIncident.update({
+    where: { id: incidentId },
+    data: {
+      status: SosIncidentStatus.RESOLVED,
+      resolvedAt: new Date(),
+      acknowledgedAt: incident.acknowledgedAt ?? new Date(),
+      handledById: staffId,
+      resolutionNote: note.trim(),
+    },
+    include: incidentInclude,
+  })
+}
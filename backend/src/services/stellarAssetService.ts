@@ -0,0 +1,194 @@
+/**
+ * Servicio de assets Stellar de cobro
+ * Cada país acepta una lista de assets (XLM, USDC u otra stablecoin con su emisor) en su configuración
+ * (ver countrySettingsService) y cada conductor elige con cuál cobra. Las cuentas solo pueden recibir un asset que no es
+ * XLM si tienen la trustline, así que se revisa en Horizon al elegirlo y antes de cada cobro
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { getCountrySettings, StellarAssetOption } from './countrySettingsService'
+import { getHorizonUrl } from './stellarService'
+
+const prisma = new PrismaClient()
+
+// Tiempo máximo de espera de Horizon (ms)
+const HORIZON_TIMEOUT_MS = 10000
+
+export const NATIVE_STELLAR_ASSET: StellarAssetOption = { code: 'XLM', issuer: null }
+
+// Si la cuenta puede recibir el asset (UNKNOWN: no se pudo consultar Horizon)
+export type TrustlineStatus = 'OK' | 'ACCOUNT_NOT_FOUND' | 'NO_TRUSTLINE' | 'NOT_AUTHORIZED' | 'UNKNOWN'
+
+// Balance de una cuenta (GET /accounts/:id)
+interface HorizonBalance {
+  asset_type: string
+  asset_code?: string
+  asset_issuer?: string
+  is_authorized?: boolean
+}
+
+export interface SettlementDriver {
+  stellarAddress: string
+  settlementAssetCode: string | null
+  settlementAssetIssuer: string | null
+}
+
+const isSameAsset = (a: { code: string; issuer: string | null }, b: { code: string; issuer: string | null }) =>
+  a.code === b.code && (a.issuer ?? null) === (b.issuer ?? null)
+
+const getSelectedAsset = (driver: { settlementAssetCode: string | null; settlementAssetIssuer: string | null }) =>
+  driver.settlementAssetCode
+    ? { code: driver.settlementAssetCode, issuer: driver.settlementAssetIssuer }
+    : NATIVE_STELLAR_ASSET
+
+/**
+ * Balances de una cuenta en Horizon (null si la cuenta aún no existe en la red)
+ */
+async function fetchAccountBalances(account: string): Promise<HorizonBalance[] | null> {
+  const response = await fetch(`${getHorizonUrl()}/accounts/${account}`, {
+    signal: AbortSignal.timeout(HORIZON_TIMEOUT_MS),
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+
+  if (!response.ok) {
+    throw new Error(`Error al consultar la cuenta ${account}: ${response.statusText}`)
+  }
+
+  const data = await response.json() as { balances?: HorizonBalance[] }
+  return data.balances || []
+}
+
+/**
+ * Indica si una cuenta con esos balances puede recibir el asset
+ */
+function getTrustlineStatus(balances: HorizonBalance[] | null | undefined, asset: StellarAssetOption): TrustlineStatus {
+  if (balances === undefined) return 'UNKNOWN'
+  if (balances === null) return 'ACCOUNT_NOT_FOUND'
+  if (asset.code === NATIVE_STELLAR_ASSET.code) return 'OK'
+
+  const trustline = balances.find(balance =>
+    balance.asset_type !== 'native' && balance.asset_code === asset.code && balance.asset_issuer === asset.issuer)
+
+  if (!trustline) return 'NO_TRUSTLINE'
+  return trustline.is_authorized === false ? 'NOT_AUTHORIZED' : 'OK'
+}
+
+/**
+ * Aviso para el conductor cuando su cuenta no puede recibir el asset elegido
+ */
+function getTrustlineWarning(status: TrustlineStatus, asset: StellarAssetOption): string | null {
+  switch (status) {
+    case 'ACCOUNT_NOT_FOUND':
+      return 'Tu cuenta Stellar aún no existe en la red: debe recibir XLM para activarse antes de poder cobrar'
+    case 'NO_TRUSTLINE':
+      return `Tu cuenta no tiene una trustline para ${asset.code}. Agrégala en tu billetera; mientras tanto cobrarás en XLM`
+    case 'NOT_AUTHORIZED':
+      return `El emisor de ${asset.code} aún no autoriza tu trustline; mientras tanto cobrarás en XLM`
+    case 'UNKNOWN':
+      return 'No se pudo revisar tu cuenta en la red Stellar. Vuelve a intentarlo más tarde'
+    default:
+      return null
+  }
+}
+
+// Balances de la cuenta o undefined si Horizon no respondió
+const fetchBalancesOrUndefined = (account: string) =>
+  fetchAccountBalances(account).catch((error) => {
+    console.error(`Error consultando la cuenta Stellar ${account}:`, error)
+    return undefined
+  })
+
+/**
+ * Assets aceptados en el país del conductor, el asset elegido y si su cuenta puede recibir cada uno
+ */
+export async function getDriverSettlementOptions(driverId: string) {
+  const driver = await prisma.user.findUnique({
+    where: { id: driverId },
+    select: { stellarAddress: true, country: true, settlementAssetCode: true, settlementAssetIssuer: true },
+  })
+
+  if (!driver) {
+    throw new Error('Conductor no encontrado')
+  }
+
+  const { stellarAssets } = await getCountrySettings(driver.country)
+  const balances = driver.stellarAddress ? await fetchBalancesOrUndefined(driver.stellarAddress) : null
+
+  return {
+    stellarAddress: driver.stellarAddress,
+    selected: getSelectedAsset(driver),
+    assets: stellarAssets.map(asset => ({
+      ...asset,
+      trustline: driver.stellarAddress ? getTrustlineStatus(balances, asset) : null,
+    })),
+  }
+}
+
+/**
+ * Guarda el asset con que cobra el conductor (debe estar aceptado en su país)
+ * Se guarda aunque la cuenta no tenga la trustline, con un aviso: hasta agregarla se cobra en XLM
+ */
+export async function setDriverSettlementAsset(driverId: string, input: { code: string; issuer?: string | null }) {
+  const driver = await prisma.user.findUnique({
+    where: { id: driverId },
+    select: { stellarAddress: true, country: true },
+  })
+
+  if (!driver) {
+    throw new Error('Conductor no encontrado')
+  }
+
+  const { stellarAssets } = await getCountrySettings(driver.country)
+  const asset = stellarAssets.find(option => isSameAsset(option, { code: input.code, issuer: input.issuer ?? null }))
+
+  if (!asset) {
+    throw new Error(`El asset ${input.code} no está aceptado en tu país`)
+  }
+
+  const isNative = asset.code === NATIVE_STELLAR_ASSET.code
+  await prisma.user.update({
+    where: { id: driverId },
+    data: {
+      settlementAssetCode: isNative ? null : asset.code,
+      settlementAssetIssuer: isNative ? null : asset.issuer,
+    },
+  })
+
+  if (!driver.stellarAddress) {
+    return { asset, trustline: null, warning: 'Conecta tu billetera Stellar para recibir pagos' }
+  }
+
+  const trustline = getTrustlineStatus(await fetchBalancesOrUndefined(driver.stellarAddress), asset)
+  return { asset, trustline, warning: getTrustlineWarning(trustline, asset) }
+}
+
+/**
+ * Asset en que se cobra a un conductor en un país
+ * Usa el asset elegido por el conductor si el país lo acepta y su cuenta puede recibirlo; si no, XLM
+ * (o el primer asset aceptado que pueda recibir). Si Horizon no responde se usa la elección del conductor
+ */
+export async function resolveSettlementAsset(
+  driver: SettlementDriver,
+  country: string | null | undefined
+): Promise<StellarAssetOption> {
+  const accepted = (await getCountrySettings(country)).stellarAssets
+
+  const candidates = [getSelectedAsset(driver), NATIVE_STELLAR_ASSET, ...accepted]
+    .map(candidate => accepted.find(asset => isSameAsset(asset, candidate)))
+    .filter((asset): asset is StellarAssetOption => !!asset)
+
+  const balances = await fetchBalancesOrUndefined(driver.stellarAddress)
+  if (balances === undefined) {
+    return candidates[0]
+  }
+
+  const receivable = candidates.find(asset => getTrustlineStatus(balances, asset) === 'OK') || candidates[0]
+  if (!isSameAsset(receivable, candidates[0])) {
+    console.warn(`La cuenta ${driver.stellarAddress} no puede recibir ${candidates[0].code}; se cobra en ${receivable.code}`)
+  }
+
+  return receivable
+}
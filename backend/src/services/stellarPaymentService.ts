@@ -0,0 +1,478 @@
+/**
+ * Servicio de cobros Stellar de viajes
+ * Liquida un pago verificado (pago, estado del viaje y avisos) y observa en Horizon los pagos que
+ * llegan a las direcciones de los conductores con cobros pendientes, para liquidarlos sin que el
+ * pasajero tenga que pegar el hash de la transacción. El avance por cuenta se guarda en
+ * StellarPaymentCursor para no perder pagos entre reinicios
+ */
+
+import { PrismaClient, Prisma, Payment, PaymentMethod, PaymentStatus, PaymentType, TripStatus } from '@prisma/client'
+import { quoteStellarAmount } from './exchangeRateService'
+import { resolveSettlementAsset, SettlementDriver } from './stellarAssetService'
+import {
+  buildStellarTransaction,
+  findStrictReceivePaths,
+  generateStellarPaymentQR,
+  getHorizonUrl,
+  getNetworkPassphrase,
+  isStellarPaymentOperation,
+  StellarAssetRef,
+  StellarPaymentExpectation,
+  StellarVerificationResult,
+  verifyStellarTransaction,
+} from './stellarService'
+import { canTransitionTrip, recordTripEvent, SYSTEM_ACTOR, TripActor } from './tripStateService'
+
+const prisma = new PrismaClient()
+
+// Horizon: pagos por página, máximo de páginas por cuenta en cada ejecución y tiempo de espera (ms)
+const HORIZON_PAGE_LIMIT = 200
+const MAX_PAGES_PER_RUN = 10
+const HORIZON_TIMEOUT_MS = 10000
+
+// Sin cursor guardado, los pagos se leen desde un poco antes del cobro pendiente más antiguo (ms)
+const START_CURSOR_MARGIN_MS = 60 * 1000
+
+// Margen de deslizamiento de los path payments: el pasajero gasta como máximo la cotización más este porcentaje
+const PATH_PAYMENT_SLIPPAGE_PERCENT = Number(process.env.STELLAR_PATH_PAYMENT_SLIPPAGE_PERCENT) || 1
+
+type VerifiedStellarPayment = Extract<StellarVerificationResult, { verified: true }>
+
+type PaymentWithTrip = Payment & {
+  trip: { tripNumber: string; driver: { stellarAddress: string | null } | null } | null
+}
+
+// Pago recibido por una cuenta (GET /accounts/:id/payments con join=transactions)
+interface HorizonPaymentRecord {
+  paging_token: string
+  created_at: string
+  type: string
+  to?: string
+  transaction_hash: string
+  transaction_successful: boolean
+  transaction?: { memo_type: string; memo?: string }
+}
+
+/**
+ * Genera la solicitud de cobro Stellar (QR SEP-0007 y XDR) hacia la billetera del conductor
+ * Cobra en el asset de cobro del conductor, convertido con la tasa vigente, y retorna los datos que
+ * se guardan en paymentMethodDetails para verificar el pago
+ */
+export async function createStellarPaymentRequest(input: {
+  driver: SettlementDriver
+  country: string | null | undefined
+  amount: number
+  currency: string
+  memo: string
+}) {
+  const asset = await resolveSettlementAsset(input.driver, input.country)
+  const { amount: assetAmount, quote: exchangeRate } = await quoteStellarAmount(input.amount, input.currency, asset)
+
+  const paymentQR = await generateStellarPaymentQR({
+    destination: input.driver.stellarAddress,
+    amount: assetAmount,
+    memo: input.memo,
+    asset: asset.code,
+    assetIssuer: asset.issuer || undefined,
+    networkPassphrase: getNetworkPassphrase(),
+  })
+
+  return {
+    paymentQR,
+    details: {
+      stellarAddress: input.driver.stellarAddress,
+      assetAmount,
+      memo: input.memo,
+      asset: asset.code,
+      assetIssuer: asset.issuer,
+      exchangeRate,
+      paymentUrl: paymentQR.paymentUrl,
+      transactionXdr: paymentQR.transactionXdr || null,
+    },
+  }
+}
+
+/**
+ * Pago Stellar que debe contener la transacción
+ * Los pagos creados antes de guardar el memo y el asset usan los valores con que se generó su QR
+ * (los anteriores a los assets de cobro guardan el monto en xlmAmount)
+ */
+export function getStellarPaymentExpectation(payment: PaymentWithTrip): StellarPaymentExpectation | null {
+  const details = (payment.paymentMethodDetails || {}) as Prisma.JsonObject
+  const destination = (details.stellarAddress as string | undefined) || payment.trip?.driver?.stellarAddress
+  const amount = (details.assetAmount || details.xlmAmount) as string | undefined
+  const memoPrefix = payment.type === PaymentType.CANCELLATION_FEE ? 'Cancel' : 'Viaje'
+  const memo = (details.memo as string | undefined) || (payment.trip ? `${memoPrefix} ${payment.trip.tripNumber}` : undefined)
+
+  if (!destination || !amount || !memo) {
+    return null
+  }
+
+  return {
+    destination,
+    amount,
+    memo,
+    asset: (details.asset as string | undefined) || 'XLM',
+    assetIssuer: (details.assetIssuer as string | undefined) || null,
+    notBefore: payment.createdAt,
+  }
+}
+
+// Monto máximo a gastar en un path payment: la cotización más el margen, redondeado hacia arriba en stroops
+const withSlippage = (amount: string) =>
+  (Math.ceil(parseFloat(amount) * (1 + PATH_PAYMENT_SLIPPAGE_PERCENT / 100) * 10_000_000) / 10_000_000).toFixed(7)
+
+const isSameAssetRef = (a: StellarAssetRef, b: StellarAssetRef) => a.code === b.code && (a.issuer ?? null) === (b.issuer ?? null)
+
+/**
+ * Cobro Stellar pendiente del pasajero, con el pago que debe recibir el conductor
+ */
+async function getPayablePayment(paymentId: string, userId: string) {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { trip: { include: { driver: { select: { stellarAddress: true } } } } },
+  })
+
+  if (!payment || payment.method !== PaymentMethod.STELLAR) {
+    throw new Error('Pago no encontrado')
+  }
+
+  if (payment.userId !== userId) {
+    throw new Error('No tienes permiso para pagar este cobro')
+  }
+
+  if (payment.status !== PaymentStatus.PENDING) {
+    throw new Error(`El pago ya está ${payment.status}`)
+  }
+
+  const expectation = getStellarPaymentExpectation(payment)
+  if (!expectation) {
+    throw new Error('Información de pago Stellar incompleta')
+  }
+
+  return expectation
+}
+
+/**
+ * Formas de pagar un cobro con los assets de la cuenta del pasajero
+ * Cada opción indica lo que costaría hoy y el máximo que se gastará con el margen de deslizamiento;
+ * el conductor siempre recibe el monto exacto en su asset de cobro
+ */
+export async function getStellarPathPaymentOptions(paymentId: string, userId: string, sourceAccount: string) {
+  const expectation = await getPayablePayment(paymentId, userId)
+  const destinationAsset = { code: expectation.asset, issuer: expectation.assetIssuer ?? null }
+
+  const quotes = await findStrictReceivePaths({
+    sourceAccount,
+    destinationAsset,
+    destinationAmount: expectation.amount,
+  })
+
+  // Horizon puede informar varias rutas por asset: se ofrece la más barata de cada uno
+  const options = quotes.filter((quote, index) =>
+    quotes.findIndex(other => isSameAssetRef(other.sourceAsset, quote.sourceAsset)) === index)
+
+  return {
+    destinationAsset,
+    destinationAmount: expectation.amount,
+    slippagePercent: PATH_PAYMENT_SLIPPAGE_PERCENT,
+    options: options.map(option => ({
+      ...option,
+      sendMax: isSameAssetRef(option.sourceAsset, destinationAsset) ? expectation.amount : withSlippage(option.sourceAmount),
+    })),
+  }
+}
+
+/**
+ * Construye la transacción (XDR) para pagar un cobro con otro asset de la cuenta del pasajero
+ * Usa un path payment strict-receive: el conductor recibe el monto exacto y el pasajero gasta como máximo sendMax.
+ * Si el asset de origen es el mismo del cobro se construye un pago directo
+ */
+export async function buildStellarPathPayment(
+  paymentId: string,
+  userId: string,
+  input: { sourceAccount: string; sourceAsset: StellarAssetRef }
+) {
+  const expectation = await getPayablePayment(paymentId, userId)
+  const destinationAsset = { code: expectation.asset, issuer: expectation.assetIssuer ?? null }
+  const isDirect = isSameAssetRef(input.sourceAsset, destinationAsset)
+
+  const quote = isDirect
+    ? { sourceAsset: destinationAsset, sourceAmount: expectation.amount, path: [] }
+    : (await findStrictReceivePaths({
+      sourceAccount: input.sourceAccount,
+      destinationAsset,
+      destinationAmount: expectation.amount,
+    })).find(option => isSameAssetRef(option.sourceAsset, input.sourceAsset))
+
+  if (!quote) {
+    throw new Error(`No hay una ruta de pago de ${input.sourceAsset.code} a ${destinationAsset.code}`)
+  }
+
+  const sendMax = isDirect ? expectation.amount : withSlippage(quote.sourceAmount)
+  const { transactionXdr, networkPassphrase } = await buildStellarTransaction({
+    destination: expectation.destination,
+    amount: expectation.amount,
+    memo: expectation.memo,
+    asset: destinationAsset.code,
+    assetIssuer: destinationAsset.issuer || undefined,
+    sendAsset: quote.sourceAsset.code,
+    sendAssetIssuer: quote.sourceAsset.issuer,
+    sendMax,
+    path: quote.path,
+    networkPassphrase: getNetworkPassphrase(),
+  }, input.sourceAccount)
+
+  return {
+    transactionXdr,
+    networkPassphrase,
+    sourceAsset: quote.sourceAsset,
+    sourceAmount: quote.sourceAmount,
+    sendMax,
+    slippagePercent: isDirect ? 0 : PATH_PAYMENT_SLIPPAGE_PERCENT,
+    destinationAsset,
+    destinationAmount: expectation.amount,
+  }
+}
+
+/**
+ * Liquida un pago Stellar ya verificado: lo marca como completado, cierra el viaje si es la tarifa
+ * y avisa al conductor (y al pasajero si lo liquidó el sistema)
+ */
+export async function settleStellarPayment(paymentId: string, verification: VerifiedStellarPayment, actor: TripActor) {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { trip: true },
+  })
+
+  if (!payment) {
+    throw new Error('Pago no encontrado')
+  }
+
+  if (payment.status !== PaymentStatus.PENDING) {
+    throw new Error(`El pago ya está ${payment.status}`)
+  }
+
+  const trip = payment.trip
+  const closingTrip = payment.type === PaymentType.TRIP_FARE ? trip : null
+
+  // El pago de la tarifa cierra el viaje: solo si el viaje está en curso
+  if (closingTrip && !canTransitionTrip(closingTrip.status, TripStatus.COMPLETED, actor.role)) {
+    throw new Error(`No se puede completar un viaje en estado ${closingTrip.status}`)
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Solo si sigue pendiente, por si se liquidó en paralelo
+      const { count } = await tx.payment.updateMany({
+        where: { id: paymentId, status: PaymentStatus.PENDING },
+        data: {
+          status: PaymentStatus.COMPLETED,
+          transactionId: verification.transactionId,
+          sourceAccount: verification.sourceAccount,
+          ledgerClosedAt: verification.ledgerClosedAt,
+          processedAt: new Date(),
+        },
+      })
+
+      if (count === 0) {
+        throw new Error('El pago ya fue procesado')
+      }
+
+      if (closingTrip) {
+        await tx.trip.update({
+          where: { id: closingTrip.id },
+          data: {
+            status: TripStatus.COMPLETED,
+            stellarTransactionId: verification.transactionId,
+          },
+        })
+
+        await recordTripEvent(tx, {
+          tripId: closingTrip.id,
+          fromStatus: closingTrip.status,
+          toStatus: TripStatus.COMPLETED,
+          actor,
+          reason: 'Pago verificado',
+          metadata: { paymentId, transactionId: verification.transactionId },
+        })
+      }
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('La transacción ya fue usada para otro pago')
+    }
+    throw error
+  }
+
+  if (trip) {
+    const { createNotification } = await import('./notificationService')
+    const { NotificationType, NotificationPriority } = await import('@prisma/client')
+    const isCancellationFee = payment.type === PaymentType.CANCELLATION_FEE
+    const data = { tripId: trip.id, paymentId, transactionId: verification.transactionId }
+
+    if (trip.driverId) {
+      await createNotification({
+        userId: trip.driverId,
+        type: NotificationType.PAYMENT_RECEIVED,
+        title: isCancellationFee ? 'Cargo por cancelación recibido' : 'Pago recibido',
+        message: isCancellationFee
+          ? `Has recibido el cargo por cancelación del viaje ${trip.tripNumber}`
+          : `Has recibido el pago del viaje ${trip.tripNumber}`,
+        priority: isCancellationFee ? NotificationPriority.NORMAL : NotificationPriority.HIGH,
+        data,
+        actionUrl: `/driver/trips/${trip.id}`,
+        actionLabel: 'Ver viaje',
+      }).catch(() => null)
+    }
+
+    // Si lo detectó el observador de Horizon, el pasajero no vio la confirmación
+    if (actor.role === SYSTEM_ACTOR.role && payment.userId) {
+      await createNotification({
+        userId: payment.userId,
+        type: NotificationType.PAYMENT_COMPLETED,
+        title: 'Pago confirmado',
+        message: isCancellationFee
+          ? `Recibimos tu pago del cargo por cancelación del viaje ${trip.tripNumber}`
+          : `Recibimos tu pago del viaje ${trip.tripNumber}`,
+        priority: NotificationPriority.NORMAL,
+        data,
+        actionUrl: `/passenger/trips/${trip.id}`,
+        actionLabel: 'Ver viaje',
+      }).catch(() => null)
+    }
+  }
+
+  return prisma.payment.findUniqueOrThrow({ where: { id: paymentId } })
+}
+
+/**
+ * Página de pagos recibidos por una cuenta a partir de un cursor (sin cursor: desde el extremo según el orden)
+ */
+async function fetchAccountPayments(
+  account: string,
+  cursor: string | null,
+  order: 'asc' | 'desc' = 'asc'
+): Promise<HorizonPaymentRecord[]> {
+  const params = new URLSearchParams({
+    limit: String(HORIZON_PAGE_LIMIT),
+    order,
+    join: 'transactions',
+  })
+  if (cursor) {
+    params.set('cursor', cursor)
+  }
+
+  const response = await fetch(`${getHorizonUrl()}/accounts/${account}/payments?${params.toString()}`, {
+    signal: AbortSignal.timeout(HORIZON_TIMEOUT_MS),
+  })
+
+  // Cuenta aún no creada en la red: no tiene pagos
+  if (response.status === 404) {
+    return []
+  }
+
+  if (!response.ok) {
+    throw new Error(`Error al consultar los pagos de ${account}: ${response.statusText}`)
+  }
+
+  const page = await response.json() as { _embedded?: { records?: HorizonPaymentRecord[] } }
+  return page._embedded?.records || []
+}
+
+/**
+ * Cursor desde el que empezar a observar una cuenta sin cursor guardado (nueva, tras un despliegue o un
+ * reinicio del cursor): recorre sus pagos hacia atrás hasta el primero anterior a `since`, el cobro
+ * pendiente más antiguo, para no perder pagos anteriores a la última página. null: desde el primer pago
+ */
+async function findStartCursor(account: string, since: Date): Promise<string | null> {
+  let cursor: string | null = null
+
+  for (let page = 0; page < MAX_PAGES_PER_RUN; page++) {
+    const records = await fetchAccountPayments(account, cursor, 'desc')
+    const older = records.find(record => new Date(record.created_at) < since)
+    if (older) return older.paging_token
+    if (records.length < HORIZON_PAGE_LIMIT) return null
+
+    cursor = records[records.length - 1].paging_token
+  }
+
+  console.warn(`La cuenta ${account} tiene demasiados pagos desde ${since.toISOString()}; se observa desde el cursor ${cursor}`)
+  return cursor
+}
+
+/**
+ * Observa los pagos entrantes de las direcciones con cobros Stellar pendientes y liquida los que coinciden
+ * Coincide por memo y luego verifica la transacción completa (asset, monto, ventana de tiempo)
+ */
+export async function watchStellarPayments() {
+  const pending = await prisma.payment.findMany({
+    where: { method: PaymentMethod.STELLAR, status: PaymentStatus.PENDING },
+    include: { trip: { include: { driver: { select: { stellarAddress: true } } } } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  // Cobros pendientes por dirección de destino
+  const byAccount = new Map<string, { payment: PaymentWithTrip; expectation: StellarPaymentExpectation }[]>()
+  for (const payment of pending) {
+    const expectation = getStellarPaymentExpectation(payment)
+    if (!expectation) continue
+    const entries = byAccount.get(expectation.destination) || []
+    entries.push({ payment, expectation })
+    byAccount.set(expectation.destination, entries)
+  }
+
+  let settled = 0
+
+  for (const [account, entries] of byAccount) {
+    try {
+      // Los cobros están en orden de creación: el primero es el más antiguo de la cuenta
+      const saved = await prisma.stellarPaymentCursor.findUnique({ where: { account } })
+      let cursor = saved
+        ? saved.cursor
+        : await findStartCursor(account, new Date(entries[0].payment.createdAt.getTime() - START_CURSOR_MARGIN_MS))
+
+      for (let page = 0; page < MAX_PAGES_PER_RUN && entries.length > 0; page++) {
+        const records = await fetchAccountPayments(account, cursor)
+        if (records.length === 0) break
+
+        for (const record of records) {
+          if (!isStellarPaymentOperation(record.type) || record.to !== account || !record.transaction_successful) continue
+          if (record.transaction?.memo_type !== 'text') continue
+
+          const index = entries.findIndex(entry => entry.expectation.memo === record.transaction?.memo)
+          if (index === -1) continue
+
+          const { payment, expectation } = entries[index]
+          const verification = await verifyStellarTransaction(record.transaction_hash, expectation)
+
+          if (!verification.verified) {
+            console.warn(`Pago Stellar ${payment.id} no liquidado (${verification.reason}): ${verification.error}`)
+            continue
+          }
+
+          try {
+            await settleStellarPayment(payment.id, verification, SYSTEM_ACTOR)
+            entries.splice(index, 1)
+            settled++
+          } catch (error: any) {
+            console.warn(`Pago Stellar ${payment.id} no liquidado: ${error.message}`)
+          }
+        }
+
+        cursor = records[records.length - 1].paging_token
+        await prisma.stellarPaymentCursor.upsert({
+          where: { account },
+          create: { account, cursor },
+          update: { cursor },
+        })
+
+        if (records.length < HORIZON_PAGE_LIMIT) break
+      }
+    } catch (error) {
+      console.error(`Error observando pagos de ${account}:`, error)
+    }
+  }
+
+  return { count: settled }
+}
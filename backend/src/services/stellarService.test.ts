@@ -0,0 +1,141 @@
+import { afterEach, test, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { StellarPaymentExpectation, verifyStellarTransaction } from './stellarService'
+
+const HORIZON_URL = 'https://horizon.test'
+const TX_HASH = 'a'.repeat(64)
+const DRIVER = 'GDRIVER'
+const PASSENGER = 'GPASSENGER'
+const USDC_ISSUER = 'GISSUER'
+
+const expected: StellarPaymentExpectation = {
+  destination: DRIVER,
+  amount: '10.5',
+  memo: 'TRIP-123',
+  asset: 'XLM',
+  notBefore: new Date(Date.now() - 10 * 60 * 1000),
+}
+
+const transaction = (overrides: Record<string, unknown> = {}) => ({
+  hash: TX_HASH.toUpperCase(),
+  successful: true,
+  ledger: 1234,
+  created_at: new Date(Date.now() - 60 * 1000).toISOString(),
+  source_account: PASSENGER,
+  memo_type: 'text',
+  memo: 'TRIP-123',
+  ...overrides,
+})
+
+const payment = (overrides: Record<string, unknown> = {}) => ({
+  type: 'payment',
+  source_account: PASSENGER,
+  from: PASSENGER,
+  to: DRIVER,
+  amount: '10.5000000',
+  asset_type: 'native',
+  ...overrides,
+})
+
+/**
+ * Simula Horizon: responde la transacción y sus operaciones (o el estado HTTP indicado)
+ */
+function mockHorizon(tx: object, operations: object[], status: number = 200) {
+  return mock.method(globalThis, 'fetch', async (input: string | URL | Request) => {
+    const url = String(input)
+    if (status !== 200) {
+      return new Response('{}', { status, statusText: 'Error' })
+    }
+    const body = url.includes('/operations') ? { _embedded: { records: operations } } : tx
+    return new Response(JSON.stringify(body), { status: 200 })
+  })
+}
+
+afterEach(() => {
+  mock.restoreAll()
+})
+
+test('verifyStellarTransaction acepta un pago que cumple lo esperado', async () => {
+  const fetchMock = mockHorizon(transaction(), [payment()])
+  const result = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+
+  assert.equal(result.verified, true)
+  if (result.verified) {
+    assert.equal(result.transactionId, TX_HASH)
+    assert.equal(result.sourceAccount, PASSENGER)
+    assert.equal(result.ledger, 1234)
+  }
+  assert.equal(String(fetchMock.mock.calls[0].arguments[0]), `${HORIZON_URL}/transactions/${TX_HASH}`)
+})
+
+test('verifyStellarTransaction acepta path payments según lo que recibió el destino', async () => {
+  mockHorizon(transaction(), [payment({
+    type: 'path_payment_strict_receive',
+    amount: '10.5',
+    asset_type: 'credit_alphanum4',
+    asset_code: 'USDC',
+    asset_issuer: USDC_ISSUER,
+  })])
+  const result = await verifyStellarTransaction(TX_HASH, { ...expected, asset: 'USDC', assetIssuer: USDC_ISSUER }, HORIZON_URL)
+  assert.equal(result.verified, true)
+})
+
+test('verifyStellarTransaction rechaza IDs que no son hashes sin consultar Horizon', async () => {
+  const fetchMock = mockHorizon(transaction(), [payment()])
+  const result = await verifyStellarTransaction('no-es-un-hash', expected, HORIZON_URL)
+  assert.equal(result.verified, false)
+  assert.equal(!result.verified && result.reason, 'INVALID_TRANSACTION_ID')
+  assert.equal(fetchMock.mock.callCount(), 0)
+})
+
+test('verifyStellarTransaction distingue transacciones inexistentes de errores de Horizon', async () => {
+  mockHorizon(transaction(), [], 404)
+  const notFound = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+  assert.equal(!notFound.verified && notFound.reason, 'TX_NOT_FOUND')
+
+  mock.restoreAll()
+  mockHorizon(transaction(), [], 503)
+  const unavailable = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+  assert.equal(!unavailable.verified && unavailable.reason, 'HORIZON_ERROR')
+
+  mock.restoreAll()
+  mock.method(globalThis, 'fetch', async () => {
+    throw new Error('timeout')
+  })
+  const failed = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+  assert.equal(!failed.verified && failed.reason, 'HORIZON_ERROR')
+})
+
+test('verifyStellarTransaction rechaza transacciones fallidas o con otro memo', async () => {
+  mockHorizon(transaction({ successful: false }), [payment()])
+  const unsuccessful = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+  assert.equal(!unsuccessful.verified && unsuccessful.reason, 'TX_FAILED')
+
+  mock.restoreAll()
+  mockHorizon(transaction({ memo: 'TRIP-999' }), [payment()])
+  const otherMemo = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+  assert.equal(!otherMemo.verified && otherMemo.reason, 'MEMO_MISMATCH')
+})
+
+test('verifyStellarTransaction rechaza transacciones anteriores a la solicitud de pago', async () => {
+  mockHorizon(transaction({ created_at: new Date(Date.now() - 60 * 60 * 1000).toISOString() }), [payment()])
+  const result = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+  assert.equal(!result.verified && result.reason, 'OUTSIDE_TIME_WINDOW')
+})
+
+test('verifyStellarTransaction rechaza pagos a otra cuenta, en otro asset o por menos', async () => {
+  mockHorizon(transaction(), [payment({ to: 'GOTHER' })])
+  const otherDestination = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+  assert.equal(!otherDestination.verified && otherDestination.reason, 'DESTINATION_MISMATCH')
+
+  // Mismo código de asset pero de otro emisor
+  mock.restoreAll()
+  mockHorizon(transaction(), [payment({ asset_type: 'credit_alphanum4', asset_code: 'USDC', asset_issuer: 'GFAKE' })])
+  const otherIssuer = await verifyStellarTransaction(TX_HASH, { ...expected, asset: 'USDC', assetIssuer: USDC_ISSUER }, HORIZON_URL)
+  assert.equal(!otherIssuer.verified && otherIssuer.reason, 'ASSET_MISMATCH')
+
+  mock.restoreAll()
+  mockHorizon(transaction(), [payment({ amount: '10.4999999' })])
+  const underpaid = await verifyStellarTransaction(TX_HASH, expected, HORIZON_URL)
+  assert.equal(!underpaid.verified && underpaid.reason, 'AMOUNT_MISMATCH')
+})
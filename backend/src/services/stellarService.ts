@@ -13,7 +13,16 @@ export interface StellarPaymentData {
   asset?: string // Asset code (default: XLM)
   assetIssuer?: string // Asset issuer (si no es XLM)
   sourceAccount?: string // Cuenta fuente (opcional, para construir transacción completa)
-  networkPassphrase?: string // Network passphrase (default: Testnet)
+  networkPassphrase?: string // Network passphrase (default: la de la red configurada)
+  sendAsset?: string // Path payment: asset con que paga el pasajero (si difiere del asset de destino)
+  sendAssetIssuer?: string | null
+  sendMax?: string // Path payment: máximo a gastar en sendAsset (incluye el margen de deslizamiento)
+  path?: StellarAssetRef[] // Path payment: assets intermedios de la ruta
+}
+
+export interface StellarAssetRef {
+  code: string // 'XLM' o código del asset
+  issuer: string | null
 }
 
 export interface StellarQRData {
@@ -24,6 +33,39 @@ export interface StellarQRData {
   transactionXdr?: string // Transacción XDR para Freighter (opcional)
 }
 
+const toSdkAsset = (code?: string, issuer?: string | null) =>
+  code === 'XLM' || !code
+    ? StellarSdk.Asset.native()
+    : new StellarSdk.Asset(code, issuer || '')
+
+/**
+ * Operación que paga al destino: un pago directo o, si el pasajero paga con otro asset,
+ * un path payment strict-receive (el destino recibe exactamente `amount` y se gasta como máximo `sendMax`)
+ */
+function buildPaymentOperation(paymentData: StellarPaymentData) {
+  const asset = toSdkAsset(paymentData.asset, paymentData.assetIssuer)
+
+  if (paymentData.sendAsset && paymentData.sendMax) {
+    const sendAsset = toSdkAsset(paymentData.sendAsset, paymentData.sendAssetIssuer)
+    if (!sendAsset.equals(asset)) {
+      return StellarSdk.Operation.pathPaymentStrictReceive({
+        sendAsset,
+        sendMax: paymentData.sendMax,
+        destination: paymentData.destination,
+        destAsset: asset,
+        destAmount: paymentData.amount,
+        path: (paymentData.path || []).map(step => toSdkAsset(step.code, step.issuer)),
+      })
+    }
+  }
+
+  return StellarSdk.Operation.payment({
+    destination: paymentData.destination,
+    asset,
+    amount: paymentData.amount,
+  })
+}
+
 /**
  * Construye una transacción Stellar para pago
  * Usa el SDK de Stellar para construir la transacción correctamente
@@ -35,12 +77,9 @@ export async function buildStellarTransaction(
   transactionXdr: string
   networkPassphrase: string
 }> {
-  const networkPassphrase = paymentData.networkPassphrase || StellarSdk.Networks.TESTNET
-  const server = new StellarSdk.Server(
-    networkPassphrase === StellarSdk.Networks.TESTNET
-      ? 'https://horizon-testnet.stellar.org'
-      : 'https://horizon.stellar.org'
-  )
+  const networkPassphrase = paymentData.networkPassphrase || getNetworkPassphrase()
+  const horizonUrl = getHorizonUrl()
+  const server = new StellarSdk.Horizon.Server(horizonUrl, { allowHttp: horizonUrl.startsWith('http://') })
 
   // Si no hay cuenta fuente, crear una transacción sin cuenta fuente
   // (Freighter la completará con la cuenta del usuario)
@@ -52,23 +91,13 @@ export async function buildStellarTransaction(
       const sourceAccount = await server.loadAccount(sourcePublicKey)
       
       // Construir la transacción con cuenta fuente
-      const asset = paymentData.asset === 'XLM' || !paymentData.asset
-        ? StellarSdk.Asset.native()
-        : new StellarSdk.Asset(paymentData.asset, paymentData.assetIssuer || '')
-
       const transactionBuilder = new StellarSdk.TransactionBuilder(sourceAccount, {
         fee: StellarSdk.BASE_FEE,
         networkPassphrase,
       })
 
       // Agregar operación de pago
-      transactionBuilder.addOperation(
-        StellarSdk.Operation.payment({
-          destination: paymentData.destination,
-          asset,
-          amount: paymentData.amount,
-        })
-      )
+      transactionBuilder.addOperation(buildPaymentOperation(paymentData))
 
       // Agregar memo si existe
       if (paymentData.memo) {
@@ -106,23 +135,13 @@ function buildTransactionWithoutSource(
   const tempKeypair = StellarSdk.Keypair.random()
   const tempAccount = new StellarSdk.Account(tempKeypair.publicKey(), '0')
 
-  const asset = paymentData.asset === 'XLM' || !paymentData.asset
-    ? StellarSdk.Asset.native()
-    : new StellarSdk.Asset(paymentData.asset, paymentData.assetIssuer || '')
-
   const transactionBuilder = new StellarSdk.TransactionBuilder(tempAccount, {
     fee: StellarSdk.BASE_FEE,
     networkPassphrase,
   })
 
   // Agregar operación de pago
-  transactionBuilder.addOperation(
-    StellarSdk.Operation.payment({
-      destination: paymentData.destination,
-      asset,
-      amount: paymentData.amount,
-    })
-  )
+  transactionBuilder.addOperation(buildPaymentOperation(paymentData))
 
   // Agregar memo si existe
   if (paymentData.memo) {
@@ -195,74 +214,284 @@ export async function generateStellarPaymentQR(
   }
 }
 
+// Tiempo máximo de espera de Horizon (ms)
+const HORIZON_TIMEOUT_MS = 10000
+
+// Tolerancia entre el reloj del servidor y el cierre del ledger (segundos)
+const LEDGER_CLOCK_SKEW_SECONDS = 60
+
+// Horizon y passphrase de cada red (STELLAR_NETWORK); standalone es un nodo local de stellar/quickstart
+const STELLAR_NETWORKS: Record<string, { horizonUrl: string; passphrase: string }> = {
+  testnet: { horizonUrl: 'https://horizon-testnet.stellar.org', passphrase: StellarSdk.Networks.TESTNET },
+  mainnet: { horizonUrl: 'https://horizon.stellar.org', passphrase: StellarSdk.Networks.PUBLIC },
+  futurenet: { horizonUrl: 'https://horizon-futurenet.stellar.org', passphrase: StellarSdk.Networks.FUTURENET },
+  standalone: { horizonUrl: 'http://localhost:8000', passphrase: StellarSdk.Networks.STANDALONE },
+}
+
+const getStellarNetwork = () => STELLAR_NETWORKS[process.env.STELLAR_NETWORK || 'testnet'] || STELLAR_NETWORKS.testnet
+
+/**
+ * URL de Horizon según la red configurada (STELLAR_HORIZON_URL la reemplaza)
+ * Se usa para construir, verificar y observar los pagos
+ */
+export function getHorizonUrl(): string {
+  return process.env.STELLAR_HORIZON_URL || getStellarNetwork().horizonUrl
+}
+
+/**
+ * Passphrase de la red configurada (testnet por defecto; STELLAR_NETWORK_PASSPHRASE la reemplaza)
+ */
+export function getNetworkPassphrase(): string {
+  return process.env.STELLAR_NETWORK_PASSPHRASE || getStellarNetwork().passphrase
+}
+
+// Ruta encontrada por Horizon para entregar un monto exacto (GET /paths/strict-receive)
+export interface StellarPathQuote {
+  sourceAsset: StellarAssetRef
+  sourceAmount: string // Lo que costaría hoy en el asset de origen
+  path: StellarAssetRef[]
+}
+
+interface HorizonPathAsset {
+  asset_type: string
+  asset_code?: string
+  asset_issuer?: string
+}
+
+interface HorizonPathRecord {
+  source_asset_type: string
+  source_asset_code?: string
+  source_asset_issuer?: string
+  source_amount: string
+  path: HorizonPathAsset[]
+}
+
+const fromHorizonAsset = (type: string, code?: string, issuer?: string): StellarAssetRef =>
+  type === 'native' ? { code: 'XLM', issuer: null } : { code: code || '', issuer: issuer || null }
+
+/**
+ * Rutas para que `sourceAccount` entregue exactamente `amount` del asset de destino,
+ * una por cada asset de la cuenta que puede pagarlo, de la más barata a la más cara por asset
+ */
+export async function findStrictReceivePaths(input: {
+  sourceAccount: string
+  destinationAsset: StellarAssetRef
+  destinationAmount: string
+}): Promise<StellarPathQuote[]> {
+  const { destinationAsset } = input
+  const params = new URLSearchParams({
+    source_account: input.sourceAccount,
+    destination_amount: input.destinationAmount,
+  })
+
+  if (destinationAsset.code === 'XLM') {
+    params.set('destination_asset_type', 'native')
+  } else {
+    params.set('destination_asset_type', destinationAsset.code.length <= 4 ? 'credit_alphanum4' : 'credit_alphanum12')
+    params.set('destination_asset_code', destinationAsset.code)
+    params.set('destination_asset_issuer', destinationAsset.issuer || '')
+  }
+
+  const response = await fetch(`${getHorizonUrl()}/paths/strict-receive?${params.toString()}`, {
+    signal: AbortSignal.timeout(HORIZON_TIMEOUT_MS),
+  })
+
+  if (response.status === 404) {
+    throw new Error('La cuenta de origen no existe en la red Stellar')
+  }
+
+  if (!response.ok) {
+    throw new Error(`Error al buscar rutas de pago: ${response.statusText}`)
+  }
+
+  const page = await response.json() as { _embedded?: { records?: HorizonPathRecord[] } }
+
+  return (page._embedded?.records || [])
+    .map(record => ({
+      sourceAsset: fromHorizonAsset(record.source_asset_type, record.source_asset_code, record.source_asset_issuer),
+      sourceAmount: record.source_amount,
+      path: record.path.map(step => fromHorizonAsset(step.asset_type, step.asset_code, step.asset_issuer)),
+    }))
+    .sort((a, b) => parseFloat(a.sourceAmount) - parseFloat(b.sourceAmount))
+}
+
 /**
- * Verifica una transacción Stellar usando Horizon API
+ * Indica si un texto tiene el formato de un hash de transacción Stellar (64 caracteres hexadecimales)
+ */
+export function isStellarTransactionHash(value: string): boolean {
+  return /^[0-9a-f]{64}$/i.test(value)
+}
+
+// Pago que se espera encontrar en la transacción
+export interface StellarPaymentExpectation {
+  destination: string
+  amount: string
+  memo: string
+  asset: string // 'XLM' o código del asset
+  assetIssuer?: string | null
+  notBefore: Date // La transacción debe haberse cerrado después de crear el pago
+}
+
+// Motivos de rechazo de una verificación
+export type StellarVerificationFailure =
+  | 'INVALID_TRANSACTION_ID'
+  | 'TX_ALREADY_USED'
+  | 'TX_NOT_FOUND'
+  | 'HORIZON_ERROR'
+  | 'TX_FAILED'
+  | 'MEMO_MISMATCH'
+  | 'DESTINATION_MISMATCH'
+  | 'ASSET_MISMATCH'
+  | 'AMOUNT_MISMATCH'
+  | 'OUTSIDE_TIME_WINDOW'
+
+export type StellarVerificationResult =
+  | {
+      verified: true
+      transactionId: string
+      sourceAccount: string // Cuenta que envió el pago
+      amount: string
+      ledger: number
+      ledgerClosedAt: Date
+    }
+  | {
+      verified: false
+      reason: StellarVerificationFailure
+      error: string
+    }
+
+// Campos de Horizon que se usan en la verificación
+interface HorizonTransaction {
+  hash: string
+  successful: boolean
+  ledger: number
+  created_at: string
+  source_account: string
+  memo_type: string
+  memo?: string
+}
+
+// En los path payments, amount y asset_* son lo que recibió el destino
+interface HorizonOperation {
+  type: string
+  source_account: string
+  from?: string
+  to?: string
+  amount?: string
+  asset_type?: string
+  asset_code?: string
+  asset_issuer?: string
+}
+
+// Operaciones que entregan un monto al destino
+const PAYMENT_OPERATION_TYPES = ['payment', 'path_payment_strict_receive']
+
+/**
+ * Indica si una operación de Horizon es un pago al destino (directo o path payment strict-receive)
+ */
+export function isStellarPaymentOperation(type: string): boolean {
+  return PAYMENT_OPERATION_TYPES.includes(type)
+}
+
+// Montos en stroops (7 decimales) para comparar sin errores de punto flotante
+const toStroops = (amount: string) => Math.round(parseFloat(amount) * 10_000_000)
+
+const matchesAsset = (operation: HorizonOperation, asset: string, assetIssuer?: string | null) =>
+  asset === 'XLM'
+    ? operation.asset_type === 'native'
+    : operation.asset_code === asset && operation.asset_issuer === assetIssuer
+
+const rejection = (reason: StellarVerificationFailure, error: string): StellarVerificationResult => ({
+  verified: false,
+  reason,
+  error,
+})
+
+/**
+ * Verifica en Horizon que una transacción pague exactamente lo esperado:
+ * exitosa, con el memo del pago, hacia el destino, en el asset y emisor indicados,
+ * por al menos el monto esperado y cerrada después de crear el pago
+ * Acepta pagos directos y path payments strict-receive (se compara lo que recibió el destino)
  */
 export async function verifyStellarTransaction(
   transactionId: string,
-  expectedDestination: string,
-  expectedAmount: string,
-  horizonUrl: string = 'https://horizon.stellar.org'
-): Promise<{
-  verified: boolean
-  transaction?: any
-  error?: string
-}> {
+  expected: StellarPaymentExpectation,
+  horizonUrl: string = getHorizonUrl()
+): Promise<StellarVerificationResult> {
+  if (!isStellarTransactionHash(transactionId)) {
+    return rejection('INVALID_TRANSACTION_ID', 'El ID de transacción no es un hash Stellar válido')
+  }
+
+  let transaction: HorizonTransaction
+  let operations: HorizonOperation[]
+
   try {
-    const response = await fetch(`${horizonUrl}/transactions/${transactionId}`)
-    
+    const response = await fetch(`${horizonUrl}/transactions/${transactionId}`, {
+      signal: AbortSignal.timeout(HORIZON_TIMEOUT_MS),
+    })
+
+    if (response.status === 404) {
+      return rejection('TX_NOT_FOUND', 'La transacción no existe en la red Stellar')
+    }
+
     if (!response.ok) {
-      return {
-        verified: false,
-        error: `Error al verificar transacción: ${response.statusText}`,
-      }
+      return rejection('HORIZON_ERROR', `Error al verificar transacción: ${response.statusText}`)
     }
 
-    const transaction: any = await response.json()
+    transaction = await response.json() as HorizonTransaction
 
-    // Verificar que la transacción fue exitosa
-    if (transaction.successful !== true) {
-      return {
-        verified: false,
-        error: 'La transacción no fue exitosa',
-      }
-    }
+    const operationsResponse = await fetch(`${horizonUrl}/transactions/${transactionId}/operations?limit=200`, {
+      signal: AbortSignal.timeout(HORIZON_TIMEOUT_MS),
+    })
 
-    // Verificar el destino y monto en las operaciones
-    const operations: any[] = transaction.operations || []
-    const paymentOperation = operations.find(
-      (op: any) =>
-        op.type === 'payment' &&
-        op.to === expectedDestination &&
-        parseFloat(op.amount) >= parseFloat(expectedAmount) * 0.99 // Permitir 1% de diferencia por fees
-    )
-
-    if (!paymentOperation) {
-      return {
-        verified: false,
-        error: 'No se encontró una operación de pago que coincida',
-      }
+    if (!operationsResponse.ok) {
+      return rejection('HORIZON_ERROR', `Error al obtener las operaciones: ${operationsResponse.statusText}`)
     }
 
-    return {
-      verified: true,
-      transaction,
-    }
+    const page = await operationsResponse.json() as { _embedded?: { records?: HorizonOperation[] } }
+    operations = page._embedded?.records || []
   } catch (error: any) {
-    return {
-      verified: false,
-      error: error.message || 'Error al verificar la transacción',
-    }
+    return rejection('HORIZON_ERROR', error.message || 'Error al verificar la transacción')
   }
-}
 
-/**
- * Convierte un monto en CLP a XLM (Stellar Lumens)
- * Nota: Esto debería usar una API de conversión de divisas en producción
- */
-export function convertCLPToXLM(clpAmount: number, xlmRate: number = 0.1): string {
-  // En producción, obtener el rate desde una API de conversión
-  const xlmAmount = clpAmount * xlmRate
-  return xlmAmount.toFixed(7) // XLM tiene 7 decimales
-}
+  if (transaction.successful !== true) {
+    return rejection('TX_FAILED', 'La transacción no fue exitosa')
+  }
 
+  if (transaction.memo_type !== 'text' || transaction.memo !== expected.memo) {
+    return rejection('MEMO_MISMATCH', `La transacción debe incluir el memo "${expected.memo}"`)
+  }
+
+  const ledgerClosedAt = new Date(transaction.created_at)
+  const skew = LEDGER_CLOCK_SKEW_SECONDS * 1000
+  if (
+    ledgerClosedAt.getTime() < expected.notBefore.getTime() - skew ||
+    ledgerClosedAt.getTime() > Date.now() + skew
+  ) {
+    return rejection('OUTSIDE_TIME_WINDOW', 'La transacción no se realizó después de la solicitud de pago')
+  }
+
+  const toDestination = operations.filter(op => isStellarPaymentOperation(op.type) && op.to === expected.destination)
+  if (toDestination.length === 0) {
+    return rejection('DESTINATION_MISMATCH', 'La transacción no tiene un pago a la dirección del conductor')
+  }
+
+  const inAsset = toDestination.filter(op => matchesAsset(op, expected.asset, expected.assetIssuer))
+  if (inAsset.length === 0) {
+    return rejection('ASSET_MISMATCH', `El pago debe hacerse en ${expected.asset}`)
+  }
+
+  const payment = inAsset.find(op => toStroops(op.amount || '0') >= toStroops(expected.amount))
+  if (!payment) {
+    return rejection('AMOUNT_MISMATCH', `El monto pagado es menor a ${expected.amount} ${expected.asset}`)
+  }
+
+  return {
+    verified: true,
+    transactionId: transaction.hash.toLowerCase(),
+    sourceAccount: payment.from || payment.source_account || transaction.source_account,
+    amount: payment.amount || expected.amount,
+    ledger: transaction.ledger,
+    ledgerClosedAt,
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Servicio de tarifa dinámica (surge)
+ * Divide el mapa en una grilla de celdas y, para cada celda con viajes pendientes,
+ * calcula un multiplicador según la relación entre demanda (viajes PENDING) y oferta
+ * (conductores disponibles). Los administradores pueden fijar el multiplicador de una celda
+ */
+
+import { PrismaClient, TripStatus, NotificationType, NotificationPriority, SurgeCell } from '@prisma/client'
+import { calculateDistance } from '../utils/tripSecurity'
+import { findAvailableDrivers } from './driverAlertService'
+import { createBulkNotifications } from './notificationService'
+import { normalizeCountryCode } from './pricingService'
+import { shouldHoldScheduledTrip } from './scheduledTripService'
+
+const prisma = new PrismaClient()
+
+// Tamaño de la celda de la grilla (grados, ~2 km)
+const CELL_SIZE_DEGREES = Number(process.env.SURGE_CELL_SIZE_DEGREES) || 0.02
+
+// Viajes pendientes mínimos en una celda para aplicar recargo
+const MIN_DEMAND = Number(process.env.SURGE_MIN_DEMAND) || 2
+
+// Recargo por cada viaje pendiente adicional por conductor disponible (0.5: 2 viajes por conductor = x1.5)
+const SENSITIVITY = Number(process.env.SURGE_SENSITIVITY) || 0.5
+
+// Aviso a conductores libres: multiplicador mínimo, radio (km) y espera entre avisos de una celda (minutos)
+const NOTIFY_MIN_MULTIPLIER = Number(process.env.SURGE_NOTIFY_MIN_MULTIPLIER) || 1.5
+const NOTIFY_RADIUS_KM = Number(process.env.SURGE_NOTIFY_RADIUS_KM) || 10
+const NOTIFY_COOLDOWN_MINUTES = Number(process.env.SURGE_NOTIFY_COOLDOWN_MINUTES) || 30
+
+/**
+ * Identificador de la celda que contiene un punto ("fila:columna")
+ */
+export function getSurgeCellId(latitude: number, longitude: number): string {
+  return `${Math.floor(latitude / CELL_SIZE_DEGREES)}:${Math.floor(longitude / CELL_SIZE_DEGREES)}`
+}
+
+/**
+ * Centro geográfico de una celda
+ */
+function getCellCenter(cellId: string): { latitude: number; longitude: number } | null {
+  const [row, column] = cellId.split(':').map(Number)
+  if (!Number.isInteger(row) || !Number.isInteger(column)) return null
+
+  return {
+    latitude: (row + 0.5) * CELL_SIZE_DEGREES,
+    longitude: (column + 0.5) * CELL_SIZE_DEGREES,
+  }
+}
+
+/**
+ * Multiplicador a partir de demanda y oferta (redondeado a 0.1; el tope lo aplica el cálculo de precio)
+ */
+function computeMultiplier(demand: number, supply: number): number {
+  if (demand < MIN_DEMAND) return 1
+
+  const ratio = demand / Math.max(supply, 1)
+  if (ratio <= 1) return 1
+
+  return Math.round((1 + (ratio - 1) * SENSITIVITY) * 10) / 10
+}
+
+/**
+ * Indica si la celda tiene un multiplicador fijado por un administrador que aún no vence
+ */
+function hasActiveOverride(cell: SurgeCell, now: Date): boolean {
+  return cell.overrideMultiplier !== null && (!cell.overrideUntil || cell.overrideUntil > now)
+}
+
+/**
+ * Multiplicador vigente de una celda: el fijado por un administrador o el calculado
+ */
+function getEffectiveMultiplier(cell: SurgeCell, now: Date = new Date()): number {
+  return hasActiveOverride(cell, now) ? cell.overrideMultiplier! : cell.computedMultiplier
+}
+
+/**
+ * Obtiene el multiplicador de tarifa dinámica para un punto de recogida
+ */
+export async function getSurgeMultiplier(latitude: number, longitude: number): Promise<number> {
+  const cell = await prisma.surgeCell.findUnique({
+    where: { id: getSurgeCellId(latitude, longitude) },
+  })
+
+  return cell ? getEffectiveMultiplier(cell) : 1
+}
+
+/**
+ * Recalcula los multiplicadores de todas las celdas con demanda (job recurrente)
+ * y avisa a los conductores libres cercanos de las zonas con alta demanda
+ */
+export async function recomputeSurgeMultipliers() {
+  const now = new Date()
+
+  // Demanda: viajes pendientes que ya se están despachando (los programados retenidos no cuentan)
+  const pendingTrips = await prisma.trip.findMany({
+    where: { status: TripStatus.PENDING },
+    select: {
+      originLatitude: true,
+      originLongitude: true,
+      scheduledAt: true,
+      originPlace: { select: { country: true } },
+    },
+  })
+
+  const cells = new Map<string, { demand: number; supply: number; country: string | null }>()
+  for (const trip of pendingTrips) {
+    if (shouldHoldScheduledTrip(trip.scheduledAt, now)) continue
+
+    const cellId = getSurgeCellId(trip.originLatitude, trip.originLongitude)
+    const cell = cells.get(cellId) || {
+      demand: 0,
+      supply: 0,
+      country: trip.originPlace?.country ? normalizeCountryCode(trip.originPlace.country) : null,
+    }
+    cell.demand++
+    cells.set(cellId, cell)
+  }
+
+  // Oferta: conductores disponibles ubicados en cada celda con demanda
+  const drivers = (await findAvailableDrivers()).filter(driver => driver.driverLocation)
+  for (const driver of drivers) {
+    const cell = cells.get(getSurgeCellId(driver.driverLocation!.latitude, driver.driverLocation!.longitude))
+    if (cell) cell.supply++
+  }
+
+  const cellIds = Array.from(cells.keys())
+  const updatedCells: SurgeCell[] = []
+
+  for (const [cellId, cell] of cells) {
+    const center = getCellCenter(cellId)!
+    const data = {
+      country: cell.country,
+      demand: cell.demand,
+      supply: cell.supply,
+      computedMultiplier: computeMultiplier(cell.demand, cell.supply),
+      computedAt: now,
+    }
+
+    updatedCells.push(await prisma.surgeCell.upsert({
+      where: { id: cellId },
+      update: data,
+      create: { id: cellId, ...center, ...data },
+    }))
+  }
+
+  // Celdas sin demanda: se eliminan, salvo las que tienen un multiplicador fijado vigente
+  await prisma.surgeCell.deleteMany({
+    where: {
+      id: { notIn: cellIds },
+      OR: [{ overrideMultiplier: null }, { overrideUntil: { lt: now } }],
+    },
+  })
+  await prisma.surgeCell.updateMany({
+    where: { id: { notIn: cellIds } },
+    data: { demand: 0, supply: 0, computedMultiplier: 1, computedAt: now },
+  })
+
+  // Avisar a conductores libres cercanos de las celdas con alta demanda (con espera entre avisos)
+  const cooldownLimit = new Date(now.getTime() - NOTIFY_COOLDOWN_MINUTES * 60 * 1000)
+  let notifiedDrivers = 0
+
+  for (const cell of updatedCells) {
+    const multiplier = getEffectiveMultiplier(cell, now)
+    if (multiplier < NOTIFY_MIN_MULTIPLIER) continue
+    if (cell.notifiedAt && cell.notifiedAt > cooldownLimit) continue
+
+    const nearbyDrivers = drivers.filter(driver =>
+      calculateDistance(
+        driver.driverLocation!.latitude,
+        driver.driverLocation!.longitude,
+        cell.latitude,
+        cell.longitude
+      ) <= NOTIFY_RADIUS_KM * 1000
+    )
+
+    if (nearbyDrivers.length > 0) {
+      await createBulkNotifications(nearbyDrivers.map(driver => ({
+        userId: driver.id,
+        type: NotificationType.HIGH_DEMAND,
+        title: 'Alta demanda cerca de ti',
+        message: `Hay ${cell.demand} viajes esperando conductor en una zona cercana (tarifa x${multiplier.toFixed(1)})`,
+        priority: NotificationPriority.HIGH,
+        data: {
+          cellId: cell.id,
+          multiplier,
+          latitude: cell.latitude,
+          longitude: cell.longitude,
+        },
+        expiresAt: new Date(now.getTime() + NOTIFY_COOLDOWN_MINUTES * 60 * 1000),
+        actionUrl: '/driver/trips/available',
+        actionLabel: 'Ver viajes',
+      })))
+      notifiedDrivers += nearbyDrivers.length
+    }
+
+    await prisma.surgeCell.update({
+      where: { id: cell.id },
+      data: { notifiedAt: now },
+    })
+  }
+
+  return {
+    cells: updatedCells.length,
+    surging: updatedCells.filter(cell => getEffectiveMultiplier(cell, now) > 1).length,
+    notifiedDrivers,
+  }
+}
+
+/**
+ * Lista las celdas con su demanda, oferta y multiplicador vigente (panel de administración)
+ */
+export async function listSurgeCells() {
+  const now = new Date()
+  const cells = await prisma.surgeCell.findMany({
+    orderBy: { demand: 'desc' },
+  })
+
+  return cells
+    .map(cell => ({
+      ...cell,
+      effectiveMultiplier: getEffectiveMultiplier(cell, now),
+      isOverridden: hasActiveOverride(cell, now),
+    }))
+    .sort((a, b) => b.effectiveMultiplier - a.effectiveMultiplier)
+}
+
+/**
+ * Fija el multiplicador de una celda (identificada por su ID o por un punto dentro de ella)
+ * Sin `expiresInMinutes`, el valor se mantiene hasta que se elimine
+ */
+export async function setSurgeOverride(data: {
+  cellId?: string
+  latitude?: number
+  longitude?: number
+  multiplier: number
+  expiresInMinutes?: number
+  adminId: string
+}) {
+  const cellId = data.cellId ||
+    (data.latitude !== undefined && data.longitude !== undefined
+      ? getSurgeCellId(data.latitude, data.longitude)
+      : undefined)
+  const center = cellId ? getCellCenter(cellId) : null
+
+  if (!cellId || !center) {
+    throw new Error('Celda inválida: indica su ID o una ubicación')
+  }
+
+  if (!(data.multiplier >= 1)) {
+    throw new Error('El multiplicador debe ser mayor o igual a 1')
+  }
+
+  const override = {
+    overrideMultiplier: Math.round(data.multiplier * 10) / 10,
+    overrideUntil: data.expiresInMinutes ? new Date(Date.now() + data.expiresInMinutes * 60 * 1000) : null,
+    overriddenBy: data.adminId,
+  }
+
+  return prisma.surgeCell.upsert({
+    where: { id: cellId },
+    update: override,
+    create: { id: cellId, ...center, ...override },
+  })
+}
+
+/**
+ * Elimina el multiplicador fijado de una celda (vuelve al calculado)
+ */
+export async function clearSurgeOverride(cellId: string) {
+  const cell = await prisma.surgeCell.findUnique({ where: { id: cellId } })
+  if (!cell) {
+    throw new Error('Celda no encontrada')
+  }
+
+  return prisma.surgeCell.update({
+    where: { id: cellId },
+    data: { overrideMultiplier: null, overrideUntil: null, overriddenBy: null },
+  })
+}
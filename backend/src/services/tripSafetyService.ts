@@ -0,0 +1,508 @@
+/**
+ * Servicio de monitoreo de seguridad de viajes en curso
+ * Compara las posiciones del conductor con la ruta planificada (Trip.routePolyline) y detecta
+ * desvíos sostenidos, detenciones prolongadas y pérdida de GPS. Ante una alerta se le pregunta
+ * al pasajero si está bien; si no responde a tiempo o pide ayuda, se escala a despacho y soporte
+ * con una instantánea del viaje
+ */
+
+import {
+  PrismaClient,
+  Prisma,
+  SafetyAlertResponse,
+  SafetyAlertStatus,
+  SafetyAlertType,
+  TripStatus,
+  UserRole,
+} from '@prisma/client'
+import { calculateDistance } from '../utils/tripSecurity'
+import { decodePolyline, distanceToPath, LatLng } from '../utils/polyline'
+
+const prisma = new PrismaClient()
+
+// Desvío: todas las posiciones de la ventana a más de esta distancia (metros) de la ruta
+const DEVIATION_METERS = 500
+const DEVIATION_WINDOW_MINUTES = 3
+const DEVIATION_MIN_FIXES = 3
+
+// Detención: el conductor no se movió más de este radio (metros) durante el tiempo indicado
+const LONG_STOP_MINUTES = 20
+const LONG_STOP_RADIUS_METERS = 75
+
+// No se considera detención inesperada cerca del destino o de una parada pendiente (metros)
+const EXPECTED_STOP_RADIUS_METERS = 200
+
+// Pérdida de GPS: sin posiciones del conductor durante este tiempo
+const GPS_LOST_MINUTES = 5
+
+// Posiciones con peor precisión (metros) no se usan para detectar desvíos ni detenciones
+const MAX_ACCURACY_METERS = 100
+
+// Tiempo que tiene el pasajero para responder antes de escalar
+const PASSENGER_RESPONSE_MINUTES = 3
+
+// Tras un "estoy bien" no se repite la misma alerta durante este tiempo
+const PASSENGER_OK_COOLDOWN_MINUTES = 15
+
+// Roles que reciben las alertas escaladas (también los incidentes SOS)
+export const SAFETY_STAFF_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.DISPATCHER, UserRole.SUPPORT]
+
+// Alertas que siguen abiertas (no se crea otra del mismo tipo mientras exista una)
+const OPEN_STATUSES: SafetyAlertStatus[] = [SafetyAlertStatus.AWAITING_PASSENGER, SafetyAlertStatus.ESCALATED]
+
+const ALERT_LABELS: Record<SafetyAlertType, string> = {
+  [SafetyAlertType.ROUTE_DEVIATION]: 'desvío de la ruta',
+  [SafetyAlertType.LONG_STOP]: 'detención prolongada',
+  [SafetyAlertType.GPS_LOST]: 'pérdida de la señal GPS',
+}
+
+type EscalationReason = 'NO_RESPONSE' | 'PASSENGER_HELP'
+
+interface DetectedAlert {
+  type: SafetyAlertType
+  latitude: number | null
+  longitude: number | null
+  details: Prisma.InputJsonObject
+}
+
+const minutesAgo = (now: Date, minutes: number) => new Date(now.getTime() - minutes * 60 * 1000)
+
+/**
+ * Revisa los viajes en curso, crea las alertas nuevas y escala las que el pasajero no respondió
+ * Se ejecuta como tarea recurrente (ver jobs)
+ */
+export async function monitorTripSafety(now: Date = new Date()) {
+  const trips = await prisma.trip.findMany({
+    where: {
+      status: TripStatus.IN_PROGRESS,
+      completedAt: null,
+      startedAt: { not: null },
+    },
+    select: {
+      id: true,
+      tripNumber: true,
+      passengerId: true,
+      startedAt: true,
+      routePolyline: true,
+      destinationLatitude: true,
+      destinationLongitude: true,
+      stops: {
+        where: { reachedAt: null },
+        select: { latitude: true, longitude: true },
+      },
+    },
+  })
+
+  let created = 0
+  for (const trip of trips) {
+    try {
+      const detected = await detectTripAlerts(trip, now)
+
+      for (const alert of detected) {
+        if (await createSafetyAlert(trip, alert, now)) created++
+      }
+    } catch (error) {
+      console.error(`Error monitoreando la seguridad del viaje ${trip.tripNumber}:`, error)
+    }
+  }
+
+  // Escalar las alertas que el pasajero no respondió a tiempo
+  const unanswered = await prisma.tripSafetyAlert.findMany({
+    where: {
+      status: SafetyAlertStatus.AWAITING_PASSENGER,
+      createdAt: { lte: minutesAgo(now, PASSENGER_RESPONSE_MINUTES) },
+    },
+    select: { id: true },
+  })
+
+  for (const alert of unanswered) {
+    await escalateSafetyAlert(alert.id, 'NO_RESPONSE').catch(error =>
+      console.error(`Error escalando la alerta de seguridad ${alert.id}:`, error)
+    )
+  }
+
+  return { tripsChecked: trips.length, created, escalated: unanswered.length }
+}
+
+/**
+ * Detecta desvío, detención prolongada o pérdida de GPS a partir de las posiciones recientes
+ */
+async function detectTripAlerts(
+  trip: {
+    id: string
+    startedAt: Date | null
+    routePolyline: string | null
+    destinationLatitude: number
+    destinationLongitude: number
+    stops: { latitude: number; longitude: number }[]
+  },
+  now: Date
+): Promise<DetectedAlert[]> {
+  const startedAt = trip.startedAt as Date
+  const alerts: DetectedAlert[] = []
+
+  const last = await prisma.tripLocation.findFirst({
+    where: { tripId: trip.id },
+    orderBy: { recordedAt: 'desc' },
+    select: { latitude: true, longitude: true, recordedAt: true },
+  })
+
+  // Sin posiciones recientes: pérdida de GPS (dando margen desde el inicio del viaje)
+  const lastSeenAt = last?.recordedAt ?? startedAt
+  const silentMinutes = (now.getTime() - lastSeenAt.getTime()) / 60000
+  if (silentMinutes >= GPS_LOST_MINUTES) {
+    alerts.push({
+      type: SafetyAlertType.GPS_LOST,
+      latitude: last?.latitude ?? null,
+      longitude: last?.longitude ?? null,
+      details: {
+        minutesWithoutGps: Math.round(silentMinutes),
+        lastFixAt: last?.recordedAt.toISOString() ?? null,
+      },
+    })
+    return alerts
+  }
+
+  const windowStart = minutesAgo(now, Math.max(LONG_STOP_MINUTES, DEVIATION_WINDOW_MINUTES))
+  const fixes = await prisma.tripLocation.findMany({
+    where: {
+      tripId: trip.id,
+      recordedAt: { gte: windowStart > startedAt ? windowStart : startedAt },
+      OR: [{ accuracy: null }, { accuracy: { lte: MAX_ACCURACY_METERS } }],
+    },
+    orderBy: { recordedAt: 'asc' },
+    select: { latitude: true, longitude: true, recordedAt: true },
+  })
+
+  const current = fixes[fixes.length - 1]
+  if (!current) return alerts
+
+  // Desvío sostenido: todas las posiciones de la ventana lejos de la ruta planificada
+  if (trip.routePolyline) {
+    const route = decodePolyline(trip.routePolyline)
+    const recent = fixes.filter(fix => fix.recordedAt >= minutesAgo(now, DEVIATION_WINDOW_MINUTES))
+    const distances = recent.map(fix => distanceToPath({ lat: fix.latitude, lng: fix.longitude }, route))
+
+    if (recent.length >= DEVIATION_MIN_FIXES && distances.every(distance => distance > DEVIATION_METERS)) {
+      alerts.push({
+        type: SafetyAlertType.ROUTE_DEVIATION,
+        latitude: current.latitude,
+        longitude: current.longitude,
+        details: {
+          distanceToRouteMeters: Math.round(distances[distances.length - 1]),
+          minDistanceMeters: Math.round(Math.min(...distances)),
+          fixes: recent.length,
+        },
+      })
+    }
+  }
+
+  // Detención prolongada: posiciones que cubren todo el período sin moverse del mismo punto
+  const stopStart = minutesAgo(now, LONG_STOP_MINUTES)
+  const covered = startedAt <= stopStart && fixes.length > 1 && fixes[0].recordedAt <= minutesAgo(now, LONG_STOP_MINUTES - 1)
+  const stationary = fixes.every(fix =>
+    calculateDistance(fix.latitude, fix.longitude, current.latitude, current.longitude) <= LONG_STOP_RADIUS_METERS
+  )
+  const expectedStops: LatLng[] = [
+    { lat: trip.destinationLatitude, lng: trip.destinationLongitude },
+    ...trip.stops.map(stop => ({ lat: stop.latitude, lng: stop.longitude })),
+  ]
+  const atExpectedStop = expectedStops.some(stop =>
+    calculateDistance(stop.lat, stop.lng, current.latitude, current.longitude) <= EXPECTED_STOP_RADIUS_METERS
+  )
+
+  if (covered && stationary && !atExpectedStop) {
+    alerts.push({
+      type: SafetyAlertType.LONG_STOP,
+      latitude: current.latitude,
+      longitude: current.longitude,
+      details: {
+        stoppedMinutes: Math.round((current.recordedAt.getTime() - fixes[0].recordedAt.getTime()) / 60000),
+        radiusMeters: LONG_STOP_RADIUS_METERS,
+      },
+    })
+  }
+
+  return alerts
+}
+
+/**
+ * Crea la alerta si no hay otra abierta del mismo tipo (ni un "estoy bien" reciente) y pregunta al pasajero
+ * Retorna si se creó
+ */
+async function createSafetyAlert(
+  trip: { id: string; tripNumber: string; passengerId: string | null },
+  detected: DetectedAlert,
+  now: Date
+): Promise<boolean> {
+  const existing = await prisma.tripSafetyAlert.findFirst({
+    where: {
+      tripId: trip.id,
+      type: detected.type,
+      OR: [
+        { status: { in: OPEN_STATUSES } },
+        { status: SafetyAlertStatus.PASSENGER_OK, respondedAt: { gte: minutesAgo(now, PASSENGER_OK_COOLDOWN_MINUTES) } },
+      ],
+    },
+    select: { id: true },
+  })
+
+  if (existing) return false
+
+  const alert = await prisma.tripSafetyAlert.create({
+    data: {
+      tripId: trip.id,
+      type: detected.type,
+      latitude: detected.latitude,
+      longitude: detected.longitude,
+      details: detected.details,
+    },
+  })
+
+  // Sin pasajero registrado (p. ej. viaje por WhatsApp) no hay a quién preguntar: escalar de inmediato
+  if (!trip.passengerId) {
+    await escalateSafetyAlert(alert.id, 'NO_RESPONSE')
+    return true
+  }
+
+  const passengerId = trip.passengerId
+  setImmediate(async () => {
+    try {
+      const { createNotification } = await import('./notificationService')
+      const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+      await createNotification({
+        userId: passengerId,
+        type: NotificationType.SECURITY_ALERT,
+        title: '¿Estás bien?',
+        message: `Detectamos una ${ALERT_LABELS[detected.type]} en tu viaje ${trip.tripNumber}. Confírmanos que estás bien o pide ayuda.`,
+        priority: NotificationPriority.URGENT,
+        data: { tripId: trip.id, alertId: alert.id, type: detected.type },
+        actionUrl: `/passenger/trips/${trip.id}/track`,
+        actionLabel: 'Responder',
+      }).catch(() => null)
+    } catch (error) {
+      console.error('Error notificando alerta de seguridad al pasajero:', error)
+    }
+  })
+
+  return true
+}
+
+/**
+ * Escala una alerta a despacho y soporte con una instantánea del viaje
+ * La condición sobre el estado evita escalar dos veces la misma alerta
+ */
+async function escalateSafetyAlert(alertId: string, reason: EscalationReason) {
+  const alert = await prisma.tripSafetyAlert.findUnique({
+    where: { id: alertId },
+    include: {
+      trip: {
+        include: {
+          passenger: { select: { id: true, name: true, phone: true } },
+          driver: { select: { id: true, name: true, phone: true } },
+          vehicle: { select: { make: true, model: true, color: true, licensePlate: true } },
+          locations: {
+            orderBy: { recordedAt: 'desc' },
+            take: 10,
+            select: { latitude: true, longitude: true, speed: true, recordedAt: true },
+          },
+        },
+      },
+    },
+  })
+
+  if (!alert || !OPEN_STATUSES.includes(alert.status) || alert.escalatedAt) return null
+
+  const { trip } = alert
+  const snapshot = {
+    reason,
+    tripNumber: trip.tripNumber,
+    status: trip.status,
+    startedAt: trip.startedAt,
+    originAddress: trip.originAddress,
+    destinationAddress: trip.destinationAddress,
+    passenger: trip.passenger,
+    driver: trip.driver,
+    vehicle: trip.vehicle,
+    lastLocations: trip.locations,
+  }
+
+  const { count } = await prisma.tripSafetyAlert.updateMany({
+    where: { id: alertId, escalatedAt: null, status: { in: OPEN_STATUSES } },
+    data: {
+      status: SafetyAlertStatus.ESCALATED,
+      escalatedAt: new Date(),
+      snapshot: JSON.parse(JSON.stringify(snapshot)),
+    },
+  })
+
+  if (count === 0) return null
+
+  setImmediate(async () => {
+    try {
+      const { notifyUsersWithRoles } = await import('./notificationService')
+      const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+      const cause = reason === 'PASSENGER_HELP' ? 'El pasajero pidió ayuda' : 'El pasajero no respondió'
+      await notifyUsersWithRoles({
+        type: NotificationType.SECURITY_ALERT,
+        title: `Alerta de seguridad: viaje ${trip.tripNumber}`,
+        message: `${cause} ante una ${ALERT_LABELS[alert.type]}. Conductor: ${trip.driver?.name || 'sin asignar'}.`,
+        priority: NotificationPriority.URGENT,
+        data: { tripId: trip.id, alertId, type: alert.type, reason },
+        actionUrl: '/admin/safety',
+        actionLabel: 'Ver alerta',
+      }, SAFETY_STAFF_ROLES).catch(() => null)
+    } catch (error) {
+      console.error('Error notificando alerta de seguridad escalada:', error)
+    }
+  })
+
+  return alertId
+}
+
+/**
+ * Alertas de seguridad de un viaje del pasajero (más recientes primero)
+ */
+export async function getPassengerSafetyAlerts(tripId: string, passengerId: string) {
+  const trip = await prisma.trip.findFirst({
+    where: { id: tripId, passengerId },
+    select: { id: true },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  return prisma.tripSafetyAlert.findMany({
+    where: { tripId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      passengerResponse: true,
+      respondedAt: true,
+      createdAt: true,
+    },
+  })
+}
+
+/**
+ * Respuesta del pasajero a "¿Estás bien?"
+ * OK cierra la alerta si aún no se escaló; HELP la escala de inmediato
+ */
+export async function respondToSafetyAlert(
+  tripId: string,
+  alertId: string,
+  passengerId: string,
+  response: SafetyAlertResponse
+) {
+  if (!Object.values(SafetyAlertResponse).includes(response)) {
+    throw new Error('Respuesta inválida')
+  }
+
+  const alert = await prisma.tripSafetyAlert.findFirst({
+    where: { id: alertId, tripId, trip: { passengerId } },
+  })
+
+  if (!alert) {
+    throw new Error('Alerta no encontrada')
+  }
+
+  if (alert.passengerResponse || alert.status === SafetyAlertStatus.RESOLVED) {
+    throw new Error('La alerta ya fue respondida')
+  }
+
+  const updated = await prisma.tripSafetyAlert.update({
+    where: { id: alertId },
+    data: {
+      passengerResponse: response,
+      respondedAt: new Date(),
+      ...(response === SafetyAlertResponse.OK && alert.status === SafetyAlertStatus.AWAITING_PASSENGER
+        ? { status: SafetyAlertStatus.PASSENGER_OK }
+        : {}),
+    },
+  })
+
+  if (response === SafetyAlertResponse.HELP) {
+    await escalateSafetyAlert(alertId, 'PASSENGER_HELP')
+    return prisma.tripSafetyAlert.findUniqueOrThrow({ where: { id: alertId } })
+  }
+
+  return updated
+}
+
+/**
+ * Lista las alertas de seguridad para despacho y soporte (más recientes primero)
+ */
+export async function listSafetyAlerts(filters: { status?: SafetyAlertStatus; page?: number; limit?: number } = {}) {
+  const page = filters.page || 1
+  const limit = filters.limit || 20
+  const where: Prisma.TripSafetyAlertWhereInput = filters.status ? { status: filters.status } : {}
+
+  const [alerts, total] = await Promise.all([
+    prisma.tripSafetyAlert.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        trip: {
+          select: {
+            id: true,
+            tripNumber: true,
+            status: true,
+            originAddress: true,
+            destinationAddress: true,
+            passenger: { select: { id: true, name: true, phone: true } },
+            driver: { select: { id: true, name: true, phone: true } },
+          },
+        },
+        resolvedBy: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.tripSafetyAlert.count({ where }),
+  ])
+
+  return {
+    alerts,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  }
+}
+
+/**
+ * Cierra una alerta de seguridad con una nota de lo que se hizo
+ */
+export async function resolveSafetyAlert(alertId: string, staffId: string, note: string) {
+  if (!note?.trim()) {
+    throw new Error('Debes indicar cómo se resolvió la alerta')
+  }
+
+  const alert = await prisma.tripSafetyAlert.findUnique({ where: { id: alertId } })
+
+  if (!alert) {
+    throw new Error('Alerta no encontrada')
+  }
+
+  if (alert.status === SafetyAlertStatus.RESOLVED) {
+    throw new Error('La alerta ya fue resuelta')
+  }
+
+  return prisma.tripSafetyAlert.update({
+    where: { id: alertId },
+    data: {
+      status: SafetyAlertStatus.RESOLVED,
+      resolvedAt: new Date(),
+      resolvedById: staffId,
+      resolutionNote: note.trim(),
+    },
+    include: {
+      resolvedBy: { select: { id: true, name: true } },
+    },
+  })
+}
@@ -3,10 +3,41 @@
  * Funcionalidades para administradores y pasajeros
  */
 
-import { PrismaClient, TripStatus } from '@prisma/client'
+import { PrismaClient, Prisma, TripActorRole, TripStatus, Trip, TripStop, FareReviewStatus } from '@prisma/client'
+import { FareQuote, FareQuoteInput, toReturnLegInput, verifyFareQuote } from './fareQuoteService'
+import { PriceLineItem } from './pricingService'
+import {
+  buildCancellationPayment,
+  getCancellationCharge,
+  hasPendingCancellationFees,
+  CancellationCharge,
+} from './cancellationService'
+import { assertTripTransition, recordTripEvent, SYSTEM_ACTOR } from './tripStateService'
 
 const prisma = new PrismaClient()
 
+// Máximo de paradas intermedias por viaje
+export const MAX_TRIP_STOPS = Number(process.env.TRIP_MAX_STOPS) || 5
+
+// Tiempo que tiene el conductor de la ida para aceptar el viaje de vuelta antes de ofrecerlo a otros (minutos)
+const RETURN_LEG_OFFER_MINUTES = Number(process.env.ROUND_TRIP_RETURN_OFFER_MINUTES) || 30
+
+// Tramo vinculado de un viaje de ida y vuelta
+export const linkedLegSelect = {
+  id: true,
+  tripNumber: true,
+  status: true,
+  scheduledAt: true,
+  driverId: true,
+} as const
+
+export interface TripStopInput {
+  address: string
+  latitude: number
+  longitude: number
+  placeId?: string
+}
+
 export interface CreateTripData {
   originAddress: string
   originLatitude: number
@@ -25,11 +56,9 @@ export interface CreateTripData {
   duration: number
   distanceText: string
   durationText: string
-  basePrice: number
-  distancePrice: number
-  timePrice: number
-  totalPrice: number
-  currency?: string
+  fareQuote: string // Cotización firmada de /api/pricing/calculate: fija el precio del viaje
+  returnFareQuote?: string // Cotización del tramo de vuelta (viajes de ida y vuelta)
+  stops?: TripStopInput[] // Paradas intermedias, en orden de recorrido
   routePolyline?: string
   routeBounds?: any
 }
@@ -43,6 +72,7 @@ export interface ListTripsOptions {
   search?: string
   startDate?: Date
   endDate?: Date
+  fareReviewStatus?: FareReviewStatus // Viajes marcados para revisión de tarifa
 }
 
 export interface ListTripsResult {
@@ -82,6 +112,11 @@ export async function listTrips(options: ListTripsOptions = {}): Promise<ListTri
     where.driverId = options.driverId
   }
 
+  // Filtro por revisión de tarifa
+  if (options.fareReviewStatus) {
+    where.fareReviewStatus = options.fareReviewStatus
+  }
+
   // Filtro por fecha
   if (options.startDate || options.endDate) {
     where.createdAt = {}
@@ -141,6 +176,8 @@ export async function listTrips(options: ListTripsOptions = {}): Promise<ListTri
             type: true,
           },
         },
+        outboundTrip: { select: linkedLegSelect },
+        returnTrip: { select: linkedLegSelect },
       },
     }),
     prisma.trip.count({ where }),
@@ -216,10 +253,16 @@ export async function getTripById(tripId: string) {
           currency: true,
           status: true,
           method: true,
+          type: true,
+          paymentMethodDetails: true,
           createdAt: true,
         },
         orderBy: { createdAt: 'desc' },
       },
+      stops: { orderBy: { sequence: 'asc' } },
+      outboundTrip: { select: linkedLegSelect },
+      returnTrip: { select: linkedLegSelect },
+      pricingVersion: { select: { id: true, version: true, effectiveFrom: true } },
     },
   })
 
@@ -227,42 +270,111 @@ export async function getTripById(tripId: string) {
 }
 
 /**
- * Actualiza el estado de un viaje
+ * Cambia el estado de un viaje (administradores)
+ * Solo permite las transiciones de la máquina de estados; las cancelaciones pasan por cancelTrip
+ * y volver a PENDING libera al conductor asignado
  */
-export async function updateTripStatus(tripId: string, status: TripStatus) {
-  const updateData: any = { status }
+export async function updateTripStatus(tripId: string, status: TripStatus, adminId: string, reason?: string) {
+  const existingTrip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      id: true,
+      status: true,
+      driverId: true,
+      vehicleId: true,
+      completedAt: true,
+    },
+  })
+
+  if (!existingTrip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  assertTripTransition(existingTrip.status, status, TripActorRole.ADMIN)
+
+  if (status === TripStatus.CANCELLED) {
+    return cancelTrip(tripId, adminId, reason, 'ADMIN')
+  }
+
+  if (status === TripStatus.CONFIRMED && !existingTrip.driverId) {
+    throw new Error('No se puede confirmar un viaje sin conductor asignado')
+  }
+
+  const updateData: Prisma.TripUncheckedUpdateInput = { status }
+
+  // Si se confirma, registrar la aceptación en nombre del conductor asignado
+  if (status === TripStatus.CONFIRMED) {
+    updateData.driverAcceptedAt = new Date()
+  }
 
   // Si se completa, establecer fecha de completado
-  if (status === 'COMPLETED') {
+  if (status === TripStatus.COMPLETED && !existingTrip.completedAt) {
     updateData.completedAt = new Date()
   }
 
   // Si se inicia, establecer fecha de inicio
-  if (status === 'IN_PROGRESS') {
+  if (status === TripStatus.IN_PROGRESS) {
     updateData.startedAt = new Date()
   }
 
-  const trip = await prisma.trip.update({
-    where: { id: tripId },
-    data: updateData,
-    include: {
-      passenger: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          phone: true,
+  // Si vuelve a la cola, liberar al conductor y su vehículo
+  if (status === TripStatus.PENDING) {
+    Object.assign(updateData, {
+      driverId: null,
+      vehicleId: null,
+      driverAcceptedAt: null,
+      driverConfirmedAt: null,
+      driverRequestedAt: null,
+      driverArrivedAt: null,
+      noShowEligibleAt: null,
+      acceptanceDeadline: null,
+      startPin: null,
+      startPinExpiresAt: null,
+      startQrCode: null,
+    })
+  }
+
+  const trip = await prisma.$transaction(async (tx) => {
+    // La condición sobre el estado evita pisar un cambio concurrente
+    const updated = await tx.trip.update({
+      where: { id: tripId, status: existingTrip.status },
+      data: updateData,
+      include: {
+        passenger: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+          },
         },
-      },
-      driver: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          phone: true,
+        driver: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+          },
         },
       },
-    },
+    })
+
+    await recordTripEvent(tx, {
+      tripId,
+      fromStatus: existingTrip.status,
+      toStatus: status,
+      actor: { id: adminId, role: TripActorRole.ADMIN },
+      reason,
+    })
+
+    if (status === TripStatus.PENDING && existingTrip.vehicleId) {
+      await tx.vehicle.update({
+        where: { id: existingTrip.vehicleId },
+        data: { isAvailable: true },
+      })
+    }
+
+    return updated
   })
 
   return trip
@@ -271,7 +383,13 @@ export async function updateTripStatus(tripId: string, status: TripStatus) {
 /**
  * Asigna un conductor a un viaje
  */
-export async function assignDriver(tripId: string, driverId: string, vehicleId?: string, allowReassign: boolean = false) {
+export async function assignDriver(
+  tripId: string,
+  driverId: string,
+  vehicleId?: string,
+  allowReassign: boolean = false,
+  adminId: string | null = null
+) {
   // Importar función para calcular deadline
   const { calculateAcceptanceDeadline } = await import('./driverService')
   
@@ -361,8 +479,10 @@ export async function assignDriver(tripId: string, driverId: string, vehicleId?:
   }
 
   // Si el viaje ya estaba confirmado y se está reasignando, volver a PENDING
-  if (allowReassign && trip.status === 'CONFIRMED') {
-    updateData.status = 'PENDING'
+  const isReturnedToQueue = allowReassign && trip.status === TripStatus.CONFIRMED
+  if (isReturnedToQueue) {
+    assertTripTransition(trip.status, TripStatus.PENDING, TripActorRole.ADMIN)
+    updateData.status = TripStatus.PENDING
   }
 
   if (vehicleId) {
@@ -405,6 +525,17 @@ export async function assignDriver(tripId: string, driverId: string, vehicleId?:
     },
   })
 
+  if (isReturnedToQueue) {
+    await recordTripEvent(prisma, {
+      tripId,
+      fromStatus: trip.status,
+      toStatus: TripStatus.PENDING,
+      actor: { id: adminId, role: TripActorRole.ADMIN },
+      reason: 'Conductor reasignado',
+      metadata: { previousDriverId: trip.driverId, driverId },
+    })
+  }
+
   return updatedTrip
 }
 
@@ -412,12 +543,18 @@ export async function assignDriver(tripId: string, driverId: string, vehicleId?:
  * Cancela un viaje
  * Puede ser cancelado por pasajero, conductor o admin
  * Maneja pagos pendientes, liberación de vehículos y notificaciones
+ * Con `cancelLinkedLeg` cancela también el otro tramo de un viaje de ida y vuelta
  */
 export async function cancelTrip(
   tripId: string,
   cancelledBy: string,
   reason?: string,
-  cancelledByRole?: 'PASSENGER' | 'DRIVER' | 'ADMIN'
+  cancelledByRole?: 'PASSENGER' | 'DRIVER' | 'ADMIN',
+  options: {
+    cancelLinkedLeg?: boolean
+    charge?: CancellationCharge // Cargo ya calculado (no presentación del pasajero)
+    noShowEvidence?: Prisma.InputJsonValue
+  } = {}
 ) {
   // Obtener el viaje completo con relaciones
   const existingTrip = await prisma.trip.findUnique({
@@ -450,6 +587,9 @@ export async function cancelTrip(
           },
         },
       },
+      outboundTrip: { select: linkedLegSelect },
+      returnTrip: { select: linkedLegSelect },
+      originPlace: { select: { country: true } },
     },
   })
 
@@ -475,8 +615,24 @@ export async function cancelTrip(
     throw new Error('No tienes permiso para cancelar este viaje')
   }
 
+  // Terminado por el conductor, el viaje solo espera el pago de la tarifa: solo un administrador lo anula
+  const hasPendingFare = existingTrip.payments.some(payment => payment.type === 'TRIP_FARE')
+  if ((existingTrip.completedAt || hasPendingFare) && cancelledByRole !== 'ADMIN') {
+    throw new Error('No se puede cancelar un viaje completado por el conductor: queda pendiente el pago de la tarifa')
+  }
+
+  // Las cancelaciones sin rol las hace el sistema
+  const actor = cancelledByRole
+    ? { id: cancelledBy, role: TripActorRole[cancelledByRole] }
+    : SYSTEM_ACTOR
+  assertTripTransition(existingTrip.status, TripStatus.CANCELLED, actor.role)
+
+  // Cargo según la política de cancelación (las cancelaciones del sistema no tienen cargo)
+  const cancellationCharge = options.charge || await getCancellationCharge(tripId, cancelledByRole || 'ADMIN')
+  const cancellationPayment = await buildCancellationPayment(existingTrip, cancellationCharge)
+
   // Usar transacción para atomicidad
-  return await prisma.$transaction(async (tx) => {
+  const cancelledTrip = await prisma.$transaction(async (tx) => {
     // Actualizar el viaje
     const cancelReason = reason
       ? `Cancelado por ${cancelledByRole || 'sistema'}: ${reason}`
@@ -492,8 +648,14 @@ export async function cancelTrip(
         : cancelReason,
     }
 
+    if (options.noShowEvidence) {
+      updateData.noShowAt = new Date()
+      updateData.noShowEvidence = options.noShowEvidence
+    }
+
+    // La condición sobre el estado evita pisar un cambio concurrente
     const trip = await tx.trip.update({
-      where: { id: tripId },
+      where: { id: tripId, status: existingTrip.status },
       data: updateData,
       include: {
         passenger: {
@@ -521,6 +683,25 @@ export async function cancelTrip(
       },
     })
 
+    const evidence = options.noShowEvidence as { latitude?: number; longitude?: number } | undefined
+    await recordTripEvent(tx, {
+      tripId,
+      fromStatus: existingTrip.status,
+      toStatus: TripStatus.CANCELLED,
+      actor,
+      reason: options.noShowEvidence ? 'El pasajero no se presentó' : reason,
+      latitude: evidence?.latitude,
+      longitude: evidence?.longitude,
+      ...(cancellationCharge.chargedTo && {
+        metadata: {
+          chargedTo: cancellationCharge.chargedTo,
+          amount: cancellationCharge.amount,
+          currency: cancellationCharge.currency,
+          stage: cancellationCharge.stage,
+        },
+      }),
+    })
+
     // Liberar vehículo si estaba asignado
     if (existingTrip.vehicleId && existingTrip.vehicle) {
       await tx.vehicle.update({
@@ -546,6 +727,11 @@ export async function cancelTrip(
       })
     }
 
+    // Registrar el cargo por cancelación o la penalización del conductor
+    if (cancellationPayment) {
+      await tx.payment.create({ data: cancellationPayment })
+    }
+
     // Cancelar alertas de conductores pendientes
     await tx.driverAlert.updateMany({
       where: {
@@ -561,8 +747,12 @@ export async function cancelTrip(
     setImmediate(async () => {
       try {
         const { createNotification } = await import('./notificationService')
+        const { cancelTripJobs } = await import('./scheduledTripService')
         const { NotificationType, NotificationPriority } = await import('@prisma/client')
 
+        // Cancelar despacho programado y recordatorios pendientes
+        await cancelTripJobs(tripId)
+
         const notifications = []
 
         // Notificar al pasajero (si no fue él quien canceló)
@@ -571,7 +761,12 @@ export async function cancelTrip(
             userId: existingTrip.passengerId,
             type: NotificationType.TRIP_CANCELLED,
             title: 'Viaje cancelado',
-            message: cancelledByRole === 'DRIVER'
+            message: options.noShowEvidence
+              ? `Tu viaje ${existingTrip.tripNumber} fue cancelado porque no te presentaste` +
+                (cancellationCharge.chargedTo === 'PASSENGER'
+                  ? `. Se generó un cargo de ${cancellationCharge.amount} ${cancellationCharge.currency}`
+                  : '')
+              : cancelledByRole === 'DRIVER'
               ? `El conductor ha cancelado tu viaje ${existingTrip.tripNumber}${reason ? `: ${reason}` : ''}`
               : `Tu viaje ${existingTrip.tripNumber} ha sido cancelado${reason ? `: ${reason}` : ''}`,
             priority: NotificationPriority.HIGH,
@@ -593,7 +788,10 @@ export async function cancelTrip(
             type: NotificationType.TRIP_CANCELLED,
             title: 'Viaje cancelado',
             message: cancelledByRole === 'PASSENGER'
-              ? `El pasajero ha cancelado el viaje ${existingTrip.tripNumber}${reason ? `: ${reason}` : ''}`
+              ? `El pasajero ha cancelado el viaje ${existingTrip.tripNumber}${reason ? `: ${reason}` : ''}` +
+                (cancellationCharge.chargedTo === 'PASSENGER'
+                  ? `. Se le cobró un cargo por cancelación de ${cancellationCharge.amount} ${cancellationCharge.currency}`
+                  : '')
               : `El viaje ${existingTrip.tripNumber} ha sido cancelado${reason ? `: ${reason}` : ''}`,
             priority: NotificationPriority.HIGH,
             data: {
@@ -618,6 +816,26 @@ export async function cancelTrip(
 
     return trip
   })
+
+  // Otro tramo del viaje de ida y vuelta (un conductor solo cancela los tramos que tiene asignados)
+  const linkedLeg = existingTrip.outboundTrip || existingTrip.returnTrip
+  if (
+    options.cancelLinkedLeg &&
+    linkedLeg &&
+    (linkedLeg.status === TripStatus.PENDING || linkedLeg.status === TripStatus.CONFIRMED) &&
+    (cancelledByRole !== 'DRIVER' || linkedLeg.driverId === cancelledBy)
+  ) {
+    await cancelTrip(linkedLeg.id, cancelledBy, reason, cancelledByRole)
+  }
+
+  return { ...cancelledTrip, cancellationCharge }
+}
+
+/**
+ * Desglose del precio listo para guardarse como JSON en el viaje
+ */
+function toJsonLineItems(lineItems: PriceLineItem[]): Prisma.InputJsonValue {
+  return lineItems.map(({ code, label, amount }) => ({ code, label, amount }))
 }
 
 /**
@@ -649,8 +867,37 @@ export async function createTrip(
   passengerId: string,
   data: CreateTripData
 ) {
+  const stops = data.stops || []
+
+  // Los cargos por cancelación deben pagarse antes de pedir otro viaje
+  if (await hasPendingCancellationFees(passengerId)) {
+    throw new Error('Tienes cargos por cancelación pendientes de pago')
+  }
+
+  // El precio lo fija la cotización firmada; los viajes de ida y vuelta se cotizan por tramo
+  const quoteInput: FareQuoteInput = {
+    distance: data.distance,
+    vehicleType: data.preferredVehicleType,
+    stops: stops.map(stop => ({ lat: stop.latitude, lng: stop.longitude })),
+    duration: data.duration,
+    scheduledAt: data.scheduledAt,
+    origin: { lat: data.originLatitude, lng: data.originLongitude },
+    destination: { lat: data.destinationLatitude, lng: data.destinationLongitude },
+    routePolyline: data.routePolyline,
+  }
+  const quote = verifyFareQuote(data.fareQuote, quoteInput)
+
+  let returnQuote: FareQuote | null = null
+  if (data.isRoundTrip && data.returnScheduledAt) {
+    if (!data.returnFareQuote) {
+      throw new Error('La cotización del viaje de vuelta es requerida')
+    }
+    returnQuote = verifyFareQuote(data.returnFareQuote, toReturnLegInput(quoteInput, data.returnScheduledAt))
+  }
+
   // Generar número de viaje único
   const tripNumber = await generateTripNumber()
+  const returnTripNumber = returnQuote ? await generateTripNumber() : null
 
   // Buscar o crear lugares (Place) si se proporcionan placeIds
   let originPlaceId: string | undefined
@@ -688,96 +935,122 @@ export async function createTrip(
     destinationPlaceId = destinationPlace.id
   }
 
-  // Crear el viaje
-  const trip = await prisma.trip.create({
-    data: {
-      tripNumber,
-      passengerId,
-      originAddress: data.originAddress,
-      originLatitude: data.originLatitude,
-      originLongitude: data.originLongitude,
-      destinationAddress: data.destinationAddress,
-      destinationLatitude: data.destinationLatitude,
-      destinationLongitude: data.destinationLongitude,
-      originPlaceId,
-      destinationPlaceId,
-      passengers: data.passengers || 1,
-      isRoundTrip: data.isRoundTrip || false,
-      returnScheduledAt: data.returnScheduledAt,
-      preferredVehicleType: data.preferredVehicleType as any,
-      scheduledAt: data.scheduledAt,
-      distance: data.distance,
-      duration: data.duration,
-      distanceText: data.distanceText,
-      durationText: data.durationText,
-      basePrice: data.basePrice,
-      distancePrice: data.distancePrice,
-      timePrice: data.timePrice,
-      totalPrice: data.totalPrice,
-      currency: data.currency || 'CLP',
-      routePolyline: data.routePolyline,
-      routeBounds: data.routeBounds,
-      status: 'PENDING',
-    },
-    include: {
-      passenger: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          phone: true,
-          preferredCurrency: true,
+  // Crear el viaje y su vuelta juntos
+  const { trip, returnTrip } = await prisma.$transaction(async tx => {
+    const trip = await tx.trip.create({
+      data: {
+        tripNumber,
+        passengerId,
+        originAddress: data.originAddress,
+        originLatitude: data.originLatitude,
+        originLongitude: data.originLongitude,
+        destinationAddress: data.destinationAddress,
+        destinationLatitude: data.destinationLatitude,
+        destinationLongitude: data.destinationLongitude,
+        originPlaceId,
+        destinationPlaceId,
+        passengers: data.passengers || 1,
+        isRoundTrip: data.isRoundTrip || false,
+        returnScheduledAt: data.returnScheduledAt,
+        preferredVehicleType: data.preferredVehicleType as any,
+        scheduledAt: data.scheduledAt,
+        distance: data.distance,
+        duration: data.duration,
+        distanceText: data.distanceText,
+        durationText: data.durationText,
+        basePrice: quote.basePrice,
+        distancePrice: quote.distancePrice,
+        timePrice: quote.timePrice,
+        stopsPrice: quote.stopsPrice,
+        totalPrice: quote.totalPrice,
+        priceLineItems: toJsonLineItems(quote.lineItems),
+        currency: quote.currency,
+        fareQuoteId: quote.quoteId,
+        pricingVersionId: quote.pricingVersionId,
+        routePolyline: data.routePolyline,
+        routeBounds: data.routeBounds,
+        status: 'PENDING',
+        events: {
+          create: { toStatus: TripStatus.PENDING, actorId: passengerId, actorRole: TripActorRole.PASSENGER },
+        },
+        stops: {
+          create: stops.map((stop, index) => ({
+            sequence: index + 1,
+            address: stop.address,
+            latitude: stop.latitude,
+            longitude: stop.longitude,
+            placeId: stop.placeId,
+          })),
         },
       },
-    },
+      include: {
+        passenger: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+            preferredCurrency: true,
+          },
+        },
+        stops: { orderBy: { sequence: 'asc' } },
+      },
+    })
+
+    // La vuelta se crea como un viaje propio, con origen y destino invertidos
+    const returnTrip = returnQuote && returnTripNumber
+      ? await createReturnLeg(tx, trip, returnQuote, returnTripNumber)
+      : null
+
+    return { trip, returnTrip }
+  }).catch(error => {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('La cotización ya fue usada, vuelve a calcular el precio')
+    }
+    throw error
   })
 
   // Enviar alertas a conductores disponibles (en background, no bloquea la respuesta)
   setImmediate(async () => {
     try {
-      const { getAvailableDriversForTrip, broadcastTripToDrivers } = await import('./driverAlertService')
+      const { dispatchTripToNearbyDrivers } = await import('./driverAlertService')
+      const { shouldHoldScheduledTrip, scheduleTripJobs } = await import('./scheduledTripService')
       const { createNotification } = await import('./notificationService')
       const { NotificationType, NotificationPriority } = await import('@prisma/client')
 
-      // Obtener conductores disponibles
-      const availableDrivers = await getAvailableDriversForTrip(trip.id, {
-        preferredVehicleType: data.preferredVehicleType,
-      })
+      // Los viajes programados se retienen y se despachan con anticipación (job);
+      // los inmediatos se envían a los conductores cercanos según la estrategia del país
+      const isHeld = shouldHoldScheduledTrip(trip.scheduledAt)
+      if (!isHeld) {
+        await dispatchTripToNearbyDrivers(trip.id)
+      }
 
-      if (availableDrivers.length > 0) {
-        const driverIds = availableDrivers.map(d => d.id)
-        
-        // Crear alertas para conductores (timeout de 1 minuto)
-        await broadcastTripToDrivers(trip.id, driverIds)
-
-        // Crear notificaciones para los conductores
-        const notifications = driverIds.map(driverId => ({
-          userId: driverId,
-          type: NotificationType.TRIP_AVAILABLE,
-          title: 'Nuevo viaje disponible',
-          message: `Viaje ${trip.tripNumber}: ${data.originAddress} → ${data.destinationAddress}`,
-          priority: NotificationPriority.HIGH,
-          data: {
-            tripId: trip.id,
-            tripNumber: trip.tripNumber,
-          },
-          actionUrl: `/driver/trips/available`,
-          actionLabel: 'Ver viaje',
-        }))
+      // Recordatorios y control de confirmación del conductor
+      await scheduleTripJobs(trip)
 
-        await Promise.all(notifications.map(n => createNotification(n).catch(() => null)))
+      // La vuelta no se despacha todavía: se reserva para el conductor que acepte la ida
+      // (ver offerReturnLegToDriver y sweepExpiredAcceptanceDeadlines)
+      if (returnTrip) {
+        await scheduleTripJobs(returnTrip)
       }
 
       // Crear notificación para el pasajero
+      const message = isHeld
+        ? `Tu viaje ${trip.tripNumber} ha sido programado. Buscaremos conductor antes de la hora de recogida`
+        : `Tu viaje ${trip.tripNumber} ha sido creado y está buscando conductor`
+
       await createNotification({
         userId: passengerId,
         type: NotificationType.TRIP_CREATED,
         title: 'Viaje creado exitosamente',
-        message: `Tu viaje ${trip.tripNumber} ha sido creado y está buscando conductor`,
+        message: returnTrip
+          ? `${message}. Tu viaje de vuelta es el ${returnTrip.tripNumber}`
+          : message,
         priority: NotificationPriority.NORMAL,
         data: {
           tripId: trip.id,
           tripNumber: trip.tripNumber,
+          ...(returnTrip && { returnTripId: returnTrip.id }),
         },
         actionUrl: `/passenger/trips/${trip.id}`,
         actionLabel: 'Ver viaje',
@@ -788,5 +1061,250 @@ export async function createTrip(
     }
   })
 
-  return trip
+  return {
+    ...trip,
+    returnTrip: returnTrip && {
+      id: returnTrip.id,
+      tripNumber: returnTrip.tripNumber,
+      status: returnTrip.status,
+      scheduledAt: returnTrip.scheduledAt,
+      driverId: returnTrip.driverId,
+    },
+  }
+}
+
+/**
+ * Crea el tramo de vuelta de un viaje de ida y vuelta
+ * Invierte origen, destino y paradas y se programa a la fecha de vuelta (la ruta de vuelta
+ * se calcula al navegar). El precio es el de su propia cotización, a la hora de la vuelta
+ */
+async function createReturnLeg(
+  tx: Prisma.TransactionClient,
+  outbound: Trip & { stops: TripStop[] },
+  quote: FareQuote,
+  tripNumber: string
+) {
+  return tx.trip.create({
+    data: {
+      tripNumber,
+      passengerId: outbound.passengerId,
+      outboundTripId: outbound.id,
+      originAddress: outbound.destinationAddress,
+      originLatitude: outbound.destinationLatitude,
+      originLongitude: outbound.destinationLongitude,
+      destinationAddress: outbound.originAddress,
+      destinationLatitude: outbound.originLatitude,
+      destinationLongitude: outbound.originLongitude,
+      originPlaceId: outbound.destinationPlaceId,
+      destinationPlaceId: outbound.originPlaceId,
+      passengers: outbound.passengers,
+      isRoundTrip: true,
+      preferredVehicleType: outbound.preferredVehicleType,
+      scheduledAt: outbound.returnScheduledAt,
+      distance: outbound.distance,
+      duration: outbound.duration,
+      distanceText: outbound.distanceText,
+      durationText: outbound.durationText,
+      basePrice: quote.basePrice,
+      distancePrice: quote.distancePrice,
+      timePrice: quote.timePrice,
+      stopsPrice: quote.stopsPrice,
+      totalPrice: quote.totalPrice,
+      priceLineItems: toJsonLineItems(quote.lineItems),
+      currency: quote.currency,
+      fareQuoteId: quote.quoteId,
+      pricingVersionId: quote.pricingVersionId,
+      status: 'PENDING',
+      events: {
+        create: {
+          toStatus: TripStatus.PENDING,
+          actorId: outbound.passengerId,
+          actorRole: TripActorRole.PASSENGER,
+          reason: `Viaje de vuelta de ${outbound.tripNumber}`,
+        },
+      },
+      stops: {
+        create: [...outbound.stops].reverse().map((stop, index) => ({
+          sequence: index + 1,
+          address: stop.address,
+          latitude: stop.latitude,
+          longitude: stop.longitude,
+          placeId: stop.placeId,
+        })),
+      },
+    },
+  })
+}
+
+/**
+ * Ofrece el viaje de vuelta al conductor que aceptó la ida (primera opción)
+ * Solo si la vuelta sigue sin conductor y aún no se ofreció a otros conductores;
+ * si no la acepta a tiempo, el barrido de plazos la libera y la despacha
+ */
+export async function offerReturnLegToDriver(outboundTripId: string, driverId: string) {
+  const returnTrip = await prisma.trip.findUnique({
+    where: { outboundTripId },
+    select: {
+      id: true,
+      tripNumber: true,
+      status: true,
+      driverId: true,
+      scheduledAt: true,
+      _count: {
+        select: {
+          driverAlerts: { where: { status: 'PENDING' } },
+        },
+      },
+    },
+  })
+
+  if (!returnTrip || returnTrip.status !== TripStatus.PENDING || returnTrip.driverId || returnTrip._count.driverAlerts > 0) {
+    return null
+  }
+
+  const { calculateAcceptanceDeadline } = await import('./driverService')
+  const deadline = calculateAcceptanceDeadline(RETURN_LEG_OFFER_MINUTES)
+  const acceptanceDeadline = returnTrip.scheduledAt && returnTrip.scheduledAt < deadline
+    ? returnTrip.scheduledAt
+    : deadline
+
+  // Condición sobre el conductor para no pisar una asignación concurrente
+  const result = await prisma.trip.updateMany({
+    where: {
+      id: returnTrip.id,
+      status: TripStatus.PENDING,
+      driverId: null,
+    },
+    data: {
+      driverId,
+      driverRequestedAt: new Date(),
+      acceptanceDeadline,
+      driverRejectedAt: null,
+    },
+  })
+
+  if (result.count === 0) return null
+
+  const { createNotification } = await import('./notificationService')
+  const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+  await createNotification({
+    userId: driverId,
+    type: NotificationType.TRIP_ASSIGNED,
+    title: 'Viaje de vuelta disponible',
+    message: `Tienes prioridad para el viaje de vuelta ${returnTrip.tripNumber}. Acéptalo en los próximos ${RETURN_LEG_OFFER_MINUTES} minutos`,
+    priority: NotificationPriority.HIGH,
+    data: {
+      tripId: returnTrip.id,
+      tripNumber: returnTrip.tripNumber,
+      outboundTripId,
+    },
+    actionUrl: '/driver/trips/available',
+    actionLabel: 'Ver viaje',
+  }).catch(() => null)
+
+  return returnTrip.id
+}
+
+/**
+ * Libera los viajes asignados cuyo conductor no aceptó antes del tiempo límite
+ * Devuelve el viaje a la cola y lo vuelve a despachar a conductores cercanos.
+ * También despacha las vueltas que ya no están reservadas (la ida tiene conductor o se canceló)
+ * y que nunca se despacharon
+ * Se ejecuta periódicamente desde el scheduler de jobs
+ */
+export async function sweepExpiredAcceptanceDeadlines() {
+  const now = new Date()
+
+  const expiredTrips = await prisma.trip.findMany({
+    where: {
+      status: TripStatus.PENDING,
+      driverId: { not: null },
+      driverAcceptedAt: null,
+      acceptanceDeadline: { lt: now },
+    },
+    select: {
+      id: true,
+      tripNumber: true,
+      driverId: true,
+      vehicleId: true,
+      scheduledAt: true,
+    },
+  })
+
+  const { createNotification } = await import('./notificationService')
+  const { dispatchTripToNearbyDrivers } = await import('./driverAlertService')
+  const { shouldHoldScheduledTrip } = await import('./scheduledTripService')
+  const { NotificationType, NotificationPriority } = await import('@prisma/client')
+
+  let released = 0
+  for (const trip of expiredTrips) {
+    // Condición sobre el conductor para no pisar una aceptación concurrente
+    const result = await prisma.trip.updateMany({
+      where: {
+        id: trip.id,
+        status: TripStatus.PENDING,
+        driverId: trip.driverId,
+        driverAcceptedAt: null,
+      },
+      data: {
+        driverId: null,
+        vehicleId: null,
+        driverRequestedAt: null,
+        acceptanceDeadline: null,
+      },
+    })
+
+    if (result.count === 0) continue
+    released++
+
+    if (trip.vehicleId) {
+      await prisma.vehicle.update({
+        where: { id: trip.vehicleId },
+        data: { isAvailable: true },
+      }).catch(() => null)
+    }
+
+    if (trip.driverId) {
+      await createNotification({
+        userId: trip.driverId,
+        type: NotificationType.TRIP_UNASSIGNED,
+        title: 'Asignación expirada',
+        message: `No aceptaste el viaje ${trip.tripNumber} a tiempo y fue liberado para otros conductores`,
+        priority: NotificationPriority.NORMAL,
+        data: {
+          tripId: trip.id,
+          tripNumber: trip.tripNumber,
+        },
+      }).catch(() => null)
+    }
+
+    // Los viajes programados a futuro esperan a su despacho anticipado
+    if (shouldHoldScheduledTrip(trip.scheduledAt)) continue
+
+    await dispatchTripToNearbyDrivers(trip.id).catch(error => {
+      console.error(`Error redespachando viaje ${trip.tripNumber}:`, error)
+    })
+  }
+
+  // Vueltas liberadas de la reserva sin ofrecimiento pendiente (sin conductor) ni despacho previo
+  const releasedReturnLegs = await prisma.trip.findMany({
+    where: {
+      status: TripStatus.PENDING,
+      driverId: null,
+      dispatchStrategy: null,
+      outboundTrip: { status: { not: TripStatus.PENDING } },
+    },
+    select: { id: true, tripNumber: true, scheduledAt: true },
+  })
+
+  for (const trip of releasedReturnLegs) {
+    if (shouldHoldScheduledTrip(trip.scheduledAt)) continue
+
+    await dispatchTripToNearbyDrivers(trip.id).catch(error => {
+      console.error(`Error despachando vuelta ${trip.tripNumber}:`, error)
+    })
+  }
+
+  return { count: released }
 }
@@ -0,0 +1,189 @@
+/**
+ * Servicio de enlaces públicos para seguir un viaje ("compartir mi viaje")
+ * El pasajero crea un enlace con vencimiento que puede revocar; quien lo abre ve, sin iniciar sesión,
+ * el nombre del conductor, la patente, la posición en vivo y el ETA. El enlace deja de funcionar
+ * automáticamente cuando el viaje se completa o se cancela
+ */
+
+import { randomBytes } from 'crypto'
+import { PrismaClient, TripStatus } from '@prisma/client'
+import { getTripTracking, TripLocationUpdate } from './locationService'
+
+const prisma = new PrismaClient()
+
+// Duración por defecto y máxima de un enlace (minutos)
+const DEFAULT_SHARE_MINUTES = Number(process.env.TRIP_SHARE_LINK_MINUTES) || 4 * 60
+const MAX_SHARE_MINUTES = 24 * 60
+
+// Enlaces vigentes por viaje
+const MAX_ACTIVE_LINKS = 5
+
+// Estados en los que el viaje se puede compartir y seguir
+const SHAREABLE_STATUSES: TripStatus[] = [TripStatus.PENDING, TripStatus.CONFIRMED, TripStatus.IN_PROGRESS]
+
+type ShareableTrip = { status: TripStatus; completedAt: Date | null }
+
+const isTripShareable = (trip: ShareableTrip) => SHAREABLE_STATUSES.includes(trip.status) && !trip.completedAt
+
+// Solo el nombre de pila del conductor
+const firstName = (name: string) => name.trim().split(/\s+/)[0]
+
+/**
+ * Posición pública del conductor (sin identificadores internos)
+ */
+export function toSharedLocation(update: TripLocationUpdate) {
+  return {
+    latitude: update.latitude,
+    longitude: update.longitude,
+    heading: update.heading,
+    recordedAt: update.recordedAt,
+    status: update.status,
+    eta: update.eta,
+  }
+}
+
+/**
+ * Crea un enlace para compartir un viaje del pasajero
+ */
+export async function createTripShareLink(tripId: string, passengerId: string, expiresInMinutes?: number) {
+  const trip = await prisma.trip.findFirst({
+    where: { id: tripId, passengerId },
+    select: { id: true, status: true, completedAt: true },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  if (!isTripShareable(trip)) {
+    throw new Error('Solo puedes compartir un viaje activo')
+  }
+
+  const minutes = expiresInMinutes ?? DEFAULT_SHARE_MINUTES
+  if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_SHARE_MINUTES) {
+    throw new Error(`La duración del enlace debe ser de 1 a ${MAX_SHARE_MINUTES} minutos`)
+  }
+
+  const active = await prisma.tripShareLink.count({
+    where: { tripId, revokedAt: null, expiresAt: { gt: new Date() } },
+  })
+
+  if (active >= MAX_ACTIVE_LINKS) {
+    throw new Error(`El viaje ya tiene ${MAX_ACTIVE_LINKS} enlaces activos. Revoca alguno para crear otro`)
+  }
+
+  return prisma.tripShareLink.create({
+    data: {
+      tripId,
+      createdById: passengerId,
+      token: randomBytes(24).toString('base64url'),
+      expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+    },
+  })
+}
+
+/**
+ * Enlaces vigentes de un viaje del pasajero
+ */
+export async function listTripShareLinks(tripId: string, passengerId: string) {
+  const trip = await prisma.trip.findFirst({
+    where: { id: tripId, passengerId },
+    select: { id: true },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  return prisma.tripShareLink.findMany({
+    where: { tripId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * Revoca un enlace del pasajero
+ */
+export async function revokeTripShareLink(tripId: string, linkId: string, passengerId: string) {
+  const { count } = await prisma.tripShareLink.updateMany({
+    where: { id: linkId, tripId, createdById: passengerId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+
+  if (count === 0) {
+    throw new Error('Enlace no encontrado')
+  }
+}
+
+/**
+ * Valida un enlace y retorna el viaje al que apunta
+ * Lanza un error si no existe, fue revocado, expiró o el viaje terminó
+ */
+export async function resolveShareToken(token: string) {
+  const link = await prisma.tripShareLink.findUnique({
+    where: { token },
+    include: { trip: { select: { id: true, status: true, completedAt: true } } },
+  })
+
+  if (!link || link.revokedAt) {
+    throw new Error('Enlace no válido')
+  }
+
+  if (link.expiresAt <= new Date()) {
+    throw new Error('El enlace expiró')
+  }
+
+  if (!isTripShareable(link.trip)) {
+    throw new Error('El viaje ya terminó')
+  }
+
+  return link
+}
+
+/**
+ * Vista pública de un viaje compartido: conductor (nombre de pila), vehículo, ruta y posición en vivo
+ */
+export async function getSharedTrip(token: string) {
+  const link = await resolveShareToken(token)
+
+  const [trip, tracking] = await Promise.all([
+    prisma.trip.findUniqueOrThrow({
+      where: { id: link.tripId },
+      select: {
+        status: true,
+        originAddress: true,
+        originLatitude: true,
+        originLongitude: true,
+        destinationAddress: true,
+        destinationLatitude: true,
+        destinationLongitude: true,
+        routePolyline: true,
+        startedAt: true,
+        driver: { select: { name: true } },
+        vehicle: { select: { make: true, model: true, color: true, licensePlate: true } },
+        stops: {
+          orderBy: { sequence: 'asc' },
+          select: { id: true, tripId: true, sequence: true, address: true, latitude: true, longitude: true, reachedAt: true },
+        },
+      },
+    }),
+    getTripTracking(link.tripId, { breadcrumbLimit: 200 }),
+  ])
+
+  await prisma.tripShareLink.update({
+    where: { id: link.id },
+    data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+  })
+
+  const { driver, ...sharedTrip } = trip
+
+  return {
+    trip: {
+      ...sharedTrip,
+      driverFirstName: driver ? firstName(driver.name) : null,
+    },
+    lastLocation: tracking.lastLocation ? toSharedLocation(tracking.lastLocation) : null,
+    breadcrumbs: tracking.breadcrumbs,
+    expiresAt: link.expiresAt,
+  }
+}
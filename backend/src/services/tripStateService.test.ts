@@ -0,0 +1,42 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { TripActorRole, TripStatus } from '@prisma/client'
+import { assertTripTransition } from './tripStateService'
+
+test('assertTripTransition permite las transiciones legales para el rol', () => {
+  assert.doesNotThrow(() => assertTripTransition(TripStatus.PENDING, TripStatus.CONFIRMED, TripActorRole.DRIVER))
+  assert.doesNotThrow(() => assertTripTransition(TripStatus.CONFIRMED, TripStatus.IN_PROGRESS, TripActorRole.DRIVER))
+  assert.doesNotThrow(() => assertTripTransition(TripStatus.IN_PROGRESS, TripStatus.COMPLETED, TripActorRole.PASSENGER))
+  assert.doesNotThrow(() => assertTripTransition(TripStatus.CONFIRMED, TripStatus.PENDING, TripActorRole.SYSTEM))
+})
+
+test('assertTripTransition rechaza transiciones que no existen', () => {
+  assert.throws(
+    () => assertTripTransition(TripStatus.PENDING, TripStatus.COMPLETED, TripActorRole.ADMIN),
+    /No se puede cambiar un viaje de PENDING a COMPLETED/
+  )
+  assert.throws(
+    () => assertTripTransition(TripStatus.COMPLETED, TripStatus.CANCELLED, TripActorRole.ADMIN),
+    /No se puede cambiar/
+  )
+  assert.throws(
+    () => assertTripTransition(TripStatus.CANCELLED, TripStatus.PENDING, TripActorRole.SYSTEM),
+    /No se puede cambiar/
+  )
+})
+
+test('assertTripTransition rechaza roles sin permiso', () => {
+  assert.throws(
+    () => assertTripTransition(TripStatus.PENDING, TripStatus.CONFIRMED, TripActorRole.PASSENGER),
+    /No tienes permiso/
+  )
+  // El pasajero no cancela un viaje en curso
+  assert.throws(
+    () => assertTripTransition(TripStatus.IN_PROGRESS, TripStatus.CANCELLED, TripActorRole.PASSENGER),
+    /No tienes permiso/
+  )
+  assert.throws(
+    () => assertTripTransition(TripStatus.IN_PROGRESS, TripStatus.COMPLETED, TripActorRole.DRIVER),
+    /No tienes permiso/
+  )
+})
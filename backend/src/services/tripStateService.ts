@@ -0,0 +1,154 @@
+/**
+ * Máquina de estados de los viajes
+ * Define las transiciones de estado permitidas y quién puede hacer cada una, y registra cada
+ * cambio en el historial del viaje (TripEvent). Todo cambio de estado de un viaje debe pasar por
+ * assertTripTransition y recordTripEvent
+ */
+
+import { PrismaClient, Prisma, TripActorRole, TripStatus } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+export interface TripActor {
+  id: string | null // null: el sistema (jobs, vencimientos)
+  role: TripActorRole
+}
+
+export const SYSTEM_ACTOR: TripActor = { id: null, role: TripActorRole.SYSTEM }
+
+const { PASSENGER, DRIVER, ADMIN, SYSTEM } = TripActorRole
+
+// Transiciones permitidas: estado actual → nuevo estado → roles que pueden hacerla
+// COMPLETED y CANCELLED son estados finales
+const TRIP_TRANSITIONS: Record<TripStatus, Partial<Record<TripStatus, TripActorRole[]>>> = {
+  [TripStatus.PENDING]: {
+    [TripStatus.CONFIRMED]: [DRIVER, ADMIN], // El conductor acepta (o el admin confirma al conductor asignado)
+    [TripStatus.CANCELLED]: [PASSENGER, DRIVER, ADMIN, SYSTEM],
+  },
+  [TripStatus.CONFIRMED]: {
+    [TripStatus.PENDING]: [ADMIN, SYSTEM], // Reasignación o conductor que no confirmó un programado
+    [TripStatus.IN_PROGRESS]: [DRIVER, ADMIN], // Inicio con PIN o QR del pasajero
+    [TripStatus.CANCELLED]: [PASSENGER, DRIVER, ADMIN, SYSTEM],
+  },
+  [TripStatus.IN_PROGRESS]: {
+    [TripStatus.COMPLETED]: [PASSENGER, ADMIN, SYSTEM], // Se cierra al verificarse el pago del pasajero
+    // El pasajero no cancela un viaje en curso: seguiría en curso hasta pagar y podría cancelar al llegar
+    [TripStatus.CANCELLED]: [DRIVER, ADMIN, SYSTEM],
+  },
+  [TripStatus.COMPLETED]: {},
+  [TripStatus.CANCELLED]: {},
+}
+
+/**
+ * Indica si un rol puede cambiar un viaje de un estado a otro
+ */
+export function canTransitionTrip(from: TripStatus, to: TripStatus, role: TripActorRole): boolean {
+  return TRIP_TRANSITIONS[from][to]?.includes(role) ?? false
+}
+
+/**
+ * Estados a los que un rol puede llevar un viaje desde su estado actual
+ */
+export function getAllowedTripTransitions(from: TripStatus, role: TripActorRole): TripStatus[] {
+  return (Object.keys(TRIP_TRANSITIONS[from]) as TripStatus[]).filter(to => canTransitionTrip(from, to, role))
+}
+
+/**
+ * Verifica que la transición sea legal para el rol; lanza un error si no lo es
+ */
+export function assertTripTransition(from: TripStatus, to: TripStatus, role: TripActorRole) {
+  const roles = TRIP_TRANSITIONS[from][to]
+
+  if (!roles) {
+    throw new Error(`No se puede cambiar un viaje de ${from} a ${to}`)
+  }
+
+  if (!roles.includes(role)) {
+    throw new Error(`No tienes permiso para cambiar un viaje de ${from} a ${to}`)
+  }
+}
+
+/**
+ * Registra un cambio de estado en el historial del viaje
+ * Acepta el cliente de una transacción para guardarlo junto con el cambio de estado
+ */
+export function recordTripEvent(
+  client: Prisma.TransactionClient | PrismaClient,
+  event: {
+    tripId: string
+    fromStatus: TripStatus | null
+    toStatus: TripStatus
+    actor: TripActor
+    reason?: string | null
+    latitude?: number | null
+    longitude?: number | null
+    metadata?: Prisma.InputJsonValue
+  }
+) {
+  return client.tripEvent.create({
+    data: {
+      tripId: event.tripId,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      actorId: event.actor.id,
+      actorRole: event.actor.role,
+      reason: event.reason || null,
+      latitude: event.latitude ?? null,
+      longitude: event.longitude ?? null,
+      metadata: event.metadata,
+    },
+  })
+}
+
+/**
+ * Obtiene el historial de estados de un viaje, en orden cronológico
+ * Solo lo ven el pasajero, el conductor asignado y los administradores
+ * Incluye los estados a los que quien consulta puede llevar el viaje
+ */
+export async function getTripTimeline(tripId: string, viewerId: string, isAdmin: boolean = false) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      id: true,
+      tripNumber: true,
+      status: true,
+      passengerId: true,
+      driverId: true,
+    },
+  })
+
+  if (!trip) {
+    throw new Error('Viaje no encontrado')
+  }
+
+  // El rol de quien consulta se deduce de su relación con el viaje
+  const viewerRole = isAdmin ? ADMIN
+    : trip.passengerId === viewerId ? PASSENGER
+    : trip.driverId === viewerId ? DRIVER
+    : null
+
+  if (!viewerRole) {
+    throw new Error('No tienes permiso para ver este viaje')
+  }
+
+  const events = await prisma.tripEvent.findMany({
+    where: { tripId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      actor: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  })
+
+  return {
+    tripId: trip.id,
+    tripNumber: trip.tripNumber,
+    status: trip.status,
+    events,
+    allowedTransitions: getAllowedTripTransitions(trip.status, viewerRole),
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Utilidades para polylines codificadas de Google (Encoded Polyline Algorithm)
+ */
+
+import { calculateDistance } from './tripSecurity'
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+/**
+ * Decodifica una polyline codificada en una lista de coordenadas
+ */
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = []
+  let index = 0
+  let lat = 0
+  let lng = 0
+
+  while (index < encoded.length) {
+    let shift = 0
+    let result = 0
+    let byte: number
+
+    do {
+      byte = encoded.charCodeAt(index++) - 63
+      result |= (byte & 0x1f) << shift
+      shift += 5
+    } while (byte >= 0x20 && index < encoded.length)
+    lat += result & 1 ? ~(result >> 1) : result >> 1
+
+    shift = 0
+    result = 0
+    do {
+      byte = encoded.charCodeAt(index++) - 63
+      result |= (byte & 0x1f) << shift
+      shift += 5
+    } while (byte >= 0x20 && index < encoded.length)
+    lng += result & 1 ? ~(result >> 1) : result >> 1
+
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 })
+  }
+
+  return points
+}
+
+/**
+ * Distancia mínima (en metros) de un punto a una ruta
+ * Aproxima cada tramo en un plano local, suficiente para distancias urbanas
+ */
+export function distanceToPath(point: LatLng, path: LatLng[]): number {
+  if (path.length === 0) return Infinity
+  if (path.length === 1) return calculateDistance(point.lat, point.lng, path[0].lat, path[0].lng)
+
+  // Metros por grado en la latitud del punto
+  const metersPerDegLat = 111320
+  const metersPerDegLng = 111320 * Math.cos((point.lat * Math.PI) / 180)
+
+  let minDistance = Infinity
+  for (let i = 0; i < path.length - 1; i++) {
+    const ax = (path[i].lng - point.lng) * metersPerDegLng
+    const ay = (path[i].lat - point.lat) * metersPerDegLat
+    const bx = (path[i + 1].lng - point.lng) * metersPerDegLng
+    const by = (path[i + 1].lat - point.lat) * metersPerDegLat
+
+    // Proyección del punto (origen del plano) sobre el segmento AB
+    const dx = bx - ax
+    const dy = by - ay
+    const lengthSq = dx * dx + dy * dy
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0
+    const px = ax + t * dx
+    const py = ay + t * dy
+
+    minDistance = Math.min(minDistance, Math.sqrt(px * px + py * py))
+  }
+
+  return minDistance
+}
@@ -18,6 +18,10 @@ import AdminDashboard from '@/pages/admin/Dashboard'
 import AdminUsers from '@/pages/admin/Users'
 import AdminTrips from '@/pages/admin/Trips'
 import AdminVehicles from '@/pages/admin/Vehicles'
+import AdminSurge from '@/pages/admin/Surge'
+import AdminSafetyAlerts from '@/pages/admin/SafetyAlerts'
+import AdminPricing from '@/pages/admin/Pricing'
+import AdminCountrySettings from '@/pages/admin/CountrySettings'
 import AdminOnboarding from '@/pages/admin/Onboarding'
 import AdminProfile from '@/pages/admin/Profile'
 import DriverDashboard from '@/pages/driver/Dashboard'
@@ -35,6 +39,7 @@ import Settings from '@/pages/Settings'
 import MobileWalletConnect from '@/pages/MobileWalletConnect'
 import Terms from '@/pages/Terms'
 import Privacy from '@/pages/Privacy'
+import SharedTripPage from '@/pages/SharedTrip'
 import { DriverAlertManager } from '@/components/alerts/DriverAlertManager'
 import { usePushNotifications } from '@/hooks/usePushNotifications'
 import { InstallPWAButton } from '@/components/pwa/InstallPWAButton'
@@ -120,6 +125,8 @@ function AppRoutes() {
         {/* Rutas públicas legales */}
         <Route path="terms" element={<Terms />} />
         <Route path="privacy" element={<Privacy />} />
+        {/* Seguimiento público de un viaje compartido */}
+        <Route path="share/:token" element={<SharedTripPage />} />
         <Route path="wallet/connect-mobile" element={<MobileWalletConnect />} />
         {/* Rutas de Pasajero */}
         <Route path="passenger">
@@ -314,6 +321,38 @@ function AppRoutes() {
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="surge" 
+            element={
+              <ProtectedRoute requiredRole="ADMIN">
+                <AdminSurge />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="safety" 
+            element={
+              <ProtectedRoute requiredRole="ADMIN">
+                <AdminSafetyAlerts />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="pricing" 
+            element={
+              <ProtectedRoute requiredRole="ADMIN">
+                <AdminPricing />
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="country-settings" 
+            element={
+              <ProtectedRoute requiredRole="ADMIN">
+                <AdminCountrySettings />
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="onboarding" 
             element={
@@ -0,0 +1,131 @@
+/**
+ * Campo de búsqueda de lugares con sugerencias de Google Places
+ * Al elegir una sugerencia obtiene sus detalles y limpia el campo
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { useTranslation } from 'react-i18next'
+import { MapPin } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { searchPlaces, getPlaceDetails, type PlacePrediction } from '@/services/googleMaps'
+
+export interface SelectedPlace {
+  address: string
+  latitude: number
+  longitude: number
+  placeId?: string
+  country?: string
+}
+
+interface PlaceSearchInputProps {
+  id: string
+  placeholder: string
+  countryCode: string
+  onSelect: (place: SelectedPlace) => void
+  disabled?: boolean
+}
+
+export default function PlaceSearchInput({
+  id,
+  placeholder,
+  countryCode,
+  onSelect,
+  disabled,
+}: PlaceSearchInputProps) {
+  const { t } = useTranslation()
+  const [search, setSearch] = useState('')
+  const [predictions, setPredictions] = useState<PlacePrediction[]>([])
+  const [showPredictions, setShowPredictions] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const dropdownRef = useRef<HTMLDivElement>(null)
+
+  // Cerrar sugerencias al hacer click fuera
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node) &&
+          inputRef.current && !inputRef.current.contains(event.target as Node)) {
+        setShowPredictions(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [])
+
+  // Buscar lugares cuando el usuario escribe
+  useEffect(() => {
+    if (search.length <= 2) return
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        setPredictions(await searchPlaces(search, countryCode))
+        setShowPredictions(true)
+      } catch (error) {
+        console.error('Error buscando lugares:', error)
+      }
+    }, 300)
+    return () => clearTimeout(timeoutId)
+  }, [search, countryCode])
+
+  const handleSelect = async (prediction: PlacePrediction) => {
+    try {
+      const details = await getPlaceDetails(prediction.placeId)
+      if (details) {
+        onSelect({
+          placeId: details.placeId,
+          address: details.formattedAddress,
+          latitude: details.location.lat,
+          longitude: details.location.lng,
+          country: details.country,
+        })
+        setSearch('')
+        setPredictions([])
+        setShowPredictions(false)
+      }
+    } catch (error) {
+      console.error('Error obteniendo detalles del lugar:', error)
+      toast.error(t('passenger.placeError') || 'Error al obtener detalles del lugar')
+    }
+  }
+
+  const visiblePredictions = search.length > 2 ? predictions : []
+
+  return (
+    <div className="relative">
+      <div className="relative flex-1">
+        <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground z-10" />
+        <Input
+          ref={inputRef}
+          id={id}
+          placeholder={placeholder}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onFocus={() => search.length > 2 && setShowPredictions(true)}
+          className="pl-10"
+          disabled={disabled}
+        />
+      </div>
+      {showPredictions && visiblePredictions.length > 0 && (
+        <div ref={dropdownRef} className="absolute z-50 w-full mt-1 bg-white border rounded-md shadow-lg max-h-60 overflow-y-auto">
+          {visiblePredictions.map((prediction) => (
+            <button
+              key={prediction.placeId}
+              type="button"
+              className="w-full text-left px-4 py-2 hover:bg-gray-100 flex items-start gap-2"
+              onClick={() => handleSelect(prediction)}
+            >
+              <MapPin className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-sm truncate">{prediction.mainText}</p>
+                <p className="text-xs text-muted-foreground truncate">{prediction.secondaryText}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { useEffect, useRef } from 'react'
 interface RouteMapProps {
   origin: { lat: number; lng: number; address: string }
   destination: { lat: number; lng: number; address: string }
+  waypoints?: Array<{ lat: number; lng: number; address: string }> // Paradas intermedias, en orden
   polyline?: string
   bounds?: {
     northeast: { lat: number; lng: number }
@@ -14,6 +15,7 @@ interface RouteMapProps {
 export default function RouteMap({
   origin,
   destination,
+  waypoints,
   polyline,
   bounds,
   height = '400px',
@@ -23,6 +25,7 @@ export default function RouteMap({
   const polylineRef = useRef<any>(null)
   const originMarkerRef = useRef<any>(null)
   const destinationMarkerRef = useRef<any>(null)
+  const waypointMarkersRef = useRef<Array<{ setMap: (map: unknown) => void }>>([])
   const directionsRendererRef = useRef<any>(null)
 
   // Función auxiliar para dibujar ruta con DirectionsService
@@ -30,6 +33,7 @@ export default function RouteMap({
     map: any,
     origin: { lat: number; lng: number },
     destination: { lat: number; lng: number },
+    stops: Array<{ lat: number; lng: number }>,
     bounds?: { northeast: { lat: number; lng: number }; southwest: { lat: number; lng: number } }
   ) => {
     // Limpiar renderer anterior
@@ -54,6 +58,10 @@ export default function RouteMap({
       {
         origin: { lat: origin.lat, lng: origin.lng },
         destination: { lat: destination.lat, lng: destination.lng },
+        waypoints: stops.map(stop => ({
+          location: { lat: stop.lat, lng: stop.lng },
+          stopover: true,
+        })),
         travelMode: window.google.maps.TravelMode.DRIVING,
       },
       (result: any, status: any) => {
@@ -78,6 +86,7 @@ export default function RouteMap({
           const boundsObj = new window.google.maps.LatLngBounds()
           boundsObj.extend({ lat: origin.lat, lng: origin.lng })
           boundsObj.extend({ lat: destination.lat, lng: destination.lng })
+          stops.forEach(stop => boundsObj.extend({ lat: stop.lat, lng: stop.lng }))
           map.fitBounds(boundsObj)
         }
       }
@@ -100,6 +109,7 @@ export default function RouteMap({
     }
 
     const map = mapInstanceRef.current
+    const stops = waypoints || []
 
     // Limpiar marcadores y polyline anteriores
     if (originMarkerRef.current) {
@@ -111,6 +121,7 @@ export default function RouteMap({
     if (polylineRef.current) {
       polylineRef.current.setMap(null)
     }
+    waypointMarkersRef.current.forEach(marker => marker.setMap(null))
 
     // Crear marcador de origen
     originMarkerRef.current = new window.google.maps.Marker({
@@ -154,6 +165,29 @@ export default function RouteMap({
       },
     })
 
+    // Crear marcadores de paradas intermedias, numerados en orden de recorrido
+    waypointMarkersRef.current = stops.map((stop, index) =>
+      new window.google.maps.Marker({
+        position: { lat: stop.lat, lng: stop.lng },
+        map: map,
+        icon: {
+          path: window.google.maps.SymbolPath.CIRCLE,
+          scale: 9,
+          fillColor: '#f59e0b',
+          fillOpacity: 1,
+          strokeColor: '#ffffff',
+          strokeWeight: 3,
+        },
+        title: stop.address,
+        label: {
+          text: String(index + 1),
+          color: '#ffffff',
+          fontSize: '11px',
+          fontWeight: 'bold',
+        },
+      })
+    )
+
     // Dibujar ruta usando polyline si está disponible
     if (polyline && window.google.maps.geometry?.encoding) {
       try {
@@ -175,22 +209,23 @@ export default function RouteMap({
           })
           routeBounds.extend({ lat: origin.lat, lng: origin.lng })
           routeBounds.extend({ lat: destination.lat, lng: destination.lng })
+          stops.forEach(stop => routeBounds.extend({ lat: stop.lat, lng: stop.lng }))
           map.fitBounds(routeBounds)
         } else {
           // Si no se puede decodificar, usar DirectionsService
-          drawRouteWithDirectionsService(map, origin, destination, bounds)
+          drawRouteWithDirectionsService(map, origin, destination, stops, bounds)
         }
       } catch (error) {
         console.error('Error decodificando polyline:', error)
         // Fallback a DirectionsService
-        drawRouteWithDirectionsService(map, origin, destination, bounds)
+        drawRouteWithDirectionsService(map, origin, destination, stops, bounds)
       }
     } else if (polyline) {
       // Si hay polyline pero no está la librería de geometría, usar DirectionsService
-      drawRouteWithDirectionsService(map, origin, destination, bounds)
+      drawRouteWithDirectionsService(map, origin, destination, stops, bounds)
     } else {
       // Si no hay polyline, usar DirectionsService como fallback
-      drawRouteWithDirectionsService(map, origin, destination, bounds)
+      drawRouteWithDirectionsService(map, origin, destination, stops, bounds)
     }
 
     return () => {
@@ -204,11 +239,12 @@ export default function RouteMap({
       if (polylineRef.current) {
         polylineRef.current.setMap(null)
       }
+      waypointMarkersRef.current.forEach(marker => marker.setMap(null))
       if (directionsRendererRef.current) {
         directionsRendererRef.current.setMap(null)
       }
     }
-  }, [origin, destination, polyline, bounds])
+  }, [origin, destination, waypoints, polyline, bounds])
 
   return (
     <div
@@ -6,26 +6,61 @@
 import { useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { initializeGoogleMaps } from '@/services/googleMaps'
-import type { Trip } from '@/types'
+import type { Trip, TripBreadcrumb } from '@/types'
+
+// Datos del viaje que usa el mapa (también disponibles en la vista pública de un viaje compartido)
+type TrackingMapTrip = Pick<
+  Trip,
+  | 'originAddress'
+  | 'originLatitude'
+  | 'originLongitude'
+  | 'destinationAddress'
+  | 'destinationLatitude'
+  | 'destinationLongitude'
+  | 'routePolyline'
+  | 'stops'
+>
 
 interface TripTrackingMapProps {
-  trip: Trip
+  trip: TrackingMapTrip
   showCurrentLocation?: boolean
   currentLatitude?: number
   currentLongitude?: number
+  driverLatitude?: number
+  driverLongitude?: number
+  driverHeading?: number | null
+  breadcrumbs?: TripBreadcrumb[]
   height?: string
 }
 
+// Overlays del conductor que se mantienen entre renders del mapa
+interface DriverMarker {
+  setMap(map: unknown): void
+  setPosition(position: unknown): void
+  setIcon(icon: unknown): void
+}
+
+interface TrailPolyline {
+  setMap(map: unknown): void
+  setPath(path: unknown): void
+}
+
 export function TripTrackingMap({
   trip,
   showCurrentLocation = false,
   currentLatitude,
   currentLongitude,
+  driverLatitude,
+  driverLongitude,
+  driverHeading,
+  breadcrumbs,
   height = '400px',
 }: TripTrackingMapProps) {
   const { t } = useTranslation()
   const mapRef = useRef<HTMLDivElement>(null)
   const mapInstanceRef = useRef<any>(null)
+  const driverMarkerRef = useRef<DriverMarker | null>(null)
+  const trailRef = useRef<TrailPolyline | null>(null)
   const [mapLoaded, setMapLoaded] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -34,6 +69,7 @@ export function TripTrackingMap({
     let polyline: any = null
     let originMarker: any = null
     let destinationMarker: any = null
+    let stopMarkers: Array<{ setMap: (map: unknown) => void }> = []
     let currentLocationMarker: any = null
 
     const initMap = async () => {
@@ -62,6 +98,10 @@ export function TripTrackingMap({
         mapInstanceRef.current = googleMap
         setMapLoaded(true)
 
+        // Reubicar la posición del conductor en el mapa recreado
+        if (driverMarkerRef.current) driverMarkerRef.current.setMap(googleMap)
+        if (trailRef.current) trailRef.current.setMap(googleMap)
+
         // Crear marcador de origen
         originMarker = new window.google.maps.Marker({
           position: {
@@ -108,6 +148,37 @@ export function TripTrackingMap({
           title: trip.destinationAddress,
         })
 
+        // Marcadores de paradas intermedias (las ya alcanzadas en gris)
+        const stops = [...(trip.stops || [])].sort((a, b) => a.sequence - b.sequence)
+        stopMarkers = stops.map(stop => new window.google.maps.Marker({
+          position: {
+            lat: stop.latitude,
+            lng: stop.longitude,
+          },
+          map: googleMap,
+          label: {
+            text: String(stop.sequence),
+            color: '#ffffff',
+            fontWeight: 'bold',
+          },
+          icon: {
+            path: window.google.maps.SymbolPath.CIRCLE,
+            scale: 8,
+            fillColor: stop.reachedAt ? '#9ca3af' : '#f59e0b',
+            fillOpacity: 1,
+            strokeColor: '#ffffff',
+            strokeWeight: 2,
+          },
+          title: stop.address,
+        }))
+
+        // Recorrido en línea recta pasando por las paradas (si no hay polyline)
+        const straightPath = [
+          { lat: trip.originLatitude, lng: trip.originLongitude },
+          ...stops.map(stop => ({ lat: stop.latitude, lng: stop.longitude })),
+          { lat: trip.destinationLatitude, lng: trip.destinationLongitude },
+        ]
+
         // Dibujar ruta si hay polyline
         if (trip.routePolyline) {
           try {
@@ -131,10 +202,7 @@ export function TripTrackingMap({
             console.error('Error decoding polyline:', err)
             // Fallback: dibujar línea recta
             polyline = new window.google.maps.Polyline({
-              path: [
-                { lat: trip.originLatitude, lng: trip.originLongitude },
-                { lat: trip.destinationLatitude, lng: trip.destinationLongitude },
-              ],
+              path: straightPath,
               geodesic: true,
               strokeColor: '#3b82f6',
               strokeOpacity: 0.5,
@@ -145,10 +213,7 @@ export function TripTrackingMap({
         } else {
           // Sin polyline, dibujar línea recta
           polyline = new window.google.maps.Polyline({
-            path: [
-              { lat: trip.originLatitude, lng: trip.originLongitude },
-              { lat: trip.destinationLatitude, lng: trip.destinationLongitude },
-            ],
+            path: straightPath,
             geodesic: true,
             strokeColor: '#3b82f6',
             strokeOpacity: 0.5,
@@ -195,6 +260,7 @@ export function TripTrackingMap({
       if (polyline) polyline.setMap(null)
       if (originMarker) originMarker.setMap(null)
       if (destinationMarker) destinationMarker.setMap(null)
+      stopMarkers.forEach(marker => marker.setMap(null))
       if (currentLocationMarker) currentLocationMarker.setMap(null)
     }
   }, [trip, showCurrentLocation, currentLatitude, currentLongitude, t])
@@ -214,6 +280,64 @@ export function TripTrackingMap({
     }
   }, [currentLatitude, currentLongitude, mapLoaded, trip, showCurrentLocation])
 
+  // Posición del conductor en tiempo real (se actualiza sin recrear el mapa)
+  useEffect(() => {
+    if (!mapLoaded || !mapInstanceRef.current || !window.google?.maps) return
+    if (driverLatitude === undefined || driverLongitude === undefined) return
+
+    const position = { lat: driverLatitude, lng: driverLongitude }
+    const icon = {
+      path: window.google.maps.SymbolPath.FORWARD_CLOSED_ARROW,
+      scale: 6,
+      rotation: driverHeading ?? 0,
+      fillColor: '#6366f1',
+      fillOpacity: 1,
+      strokeColor: '#ffffff',
+      strokeWeight: 2,
+    }
+
+    if (driverMarkerRef.current) {
+      driverMarkerRef.current.setPosition(position)
+      driverMarkerRef.current.setIcon(icon)
+    } else {
+      driverMarkerRef.current = new window.google.maps.Marker({
+        position,
+        map: mapInstanceRef.current,
+        icon,
+        title: t('trip.driverLocation') || 'Ubicación del conductor',
+        zIndex: 10,
+      })
+    }
+  }, [driverLatitude, driverLongitude, driverHeading, mapLoaded, t])
+
+  // Traza recorrida por el conductor
+  useEffect(() => {
+    if (!mapLoaded || !mapInstanceRef.current || !window.google?.maps || !breadcrumbs) return
+
+    const path = breadcrumbs.map(b => ({ lat: b.latitude, lng: b.longitude }))
+
+    if (trailRef.current) {
+      trailRef.current.setPath(path)
+    } else {
+      trailRef.current = new window.google.maps.Polyline({
+        path,
+        geodesic: true,
+        strokeColor: '#6366f1',
+        strokeOpacity: 0.8,
+        strokeWeight: 3,
+        map: mapInstanceRef.current,
+      })
+    }
+  }, [breadcrumbs, mapLoaded])
+
+  // Limpiar marcador y traza del conductor al desmontar
+  useEffect(() => {
+    return () => {
+      if (driverMarkerRef.current) driverMarkerRef.current.setMap(null)
+      if (trailRef.current) trailRef.current.setMap(null)
+    }
+  }, [])
+
   if (error) {
     return (
       <div className="flex items-center justify-center h-64 bg-muted rounded-lg">
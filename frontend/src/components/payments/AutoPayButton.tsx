@@ -1,6 +1,8 @@
 /**
  * Componente para pago automático con Freighter
  * Muestra un botón "PAGAR VIAJE" que procesa el pago automáticamente
+ * Si la billetera tiene otros assets, permite pagar con ellos mediante un path payment:
+ * el conductor recibe el monto exacto y se muestra el máximo a gastar con el margen de deslizamiento
  */
 
 import { useState, useEffect } from 'react'
@@ -8,6 +10,8 @@ import { useTranslation } from 'react-i18next'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Wallet, Loader2, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react'
 import StellarLogo from '@/components/layout/StellarLogo'
 import { toast } from 'sonner'
@@ -19,6 +23,9 @@ import {
   getNetwork 
 } from '@/services/freighterService'
 import { useCurrency } from '@/hooks/useCurrency'
+import type { StellarAssetRef, StellarPathOptions } from '@/types'
+
+const getAssetKey = (asset: StellarAssetRef) => `${asset.code}:${asset.issuer ?? ''}`
 
 interface AutoPayButtonProps {
   tripId: string
@@ -27,6 +34,8 @@ interface AutoPayButtonProps {
   driverAddress: string
   amount: number
   currency: string
+  assetAmount?: string // Monto en el asset Stellar con que se cobra
+  asset?: string // Código del asset (XLM si no viene)
   onPaymentSuccess?: () => void
 }
 
@@ -37,6 +46,8 @@ export function AutoPayButton({
   driverAddress,
   amount,
   currency,
+  assetAmount,
+  asset = 'XLM',
   onPaymentSuccess,
 }: AutoPayButtonProps) {
   const { t } = useTranslation()
@@ -51,6 +62,37 @@ export function AutoPayButton({
   } | null>(null)
   const [formattedAmount, setFormattedAmount] = useState('')
   const [error, setError] = useState<string | null>(null)
+  const [pathOptions, setPathOptions] = useState<StellarPathOptions | null>(null)
+  const [sourceAssetKey, setSourceAssetKey] = useState('')
+
+  const publicKey = connectionStatus?.isConnected ? connectionStatus.publicKey : null
+
+  // Assets de la billetera con que se puede pagar el cobro
+  useEffect(() => {
+    if (!publicKey || paymentId === 'pending') return
+    let cancelled = false
+
+    api.getStellarPaymentPaths(paymentId, publicKey)
+      .then((data) => {
+        if (cancelled) return
+        setPathOptions(data)
+        // Por defecto se paga con el mismo asset del cobro si la billetera lo tiene
+        const direct = data.options.find(option => getAssetKey(option.sourceAsset) === getAssetKey(data.destinationAsset))
+        const initial = direct || data.options[0]
+        setSourceAssetKey(initial ? getAssetKey(initial.sourceAsset) : '')
+      })
+      .catch((error) => {
+        console.error('Error loading payment paths:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [paymentId, publicKey])
+
+  const selectedOption = pathOptions?.options.find(option => getAssetKey(option.sourceAsset) === sourceAssetKey) || null
+  const isPathPayment = !!pathOptions && !!selectedOption &&
+    getAssetKey(selectedOption.sourceAsset) !== getAssetKey(pathOptions.destinationAsset)
 
   useEffect(() => {
     checkConnection()
@@ -79,7 +121,7 @@ export function AutoPayButton({
       return
     }
 
-    if (!transactionXdr) {
+    if (!transactionXdr && !selectedOption) {
       toast.error(t('payment.transactionNotAvailable') || 'Transacción no disponible')
       setError(t('payment.transactionNotAvailable') || 'Transacción no disponible')
       return
@@ -89,11 +131,25 @@ export function AutoPayButton({
       setIsPaying(true)
       setError(null)
 
+      // Transacción desde la billetera conectada con el asset elegido (path payment si no es el del cobro)
+      let xdr = transactionXdr
+      if (selectedOption && connectionStatus.publicKey) {
+        const built = await api.buildStellarPathPayment(paymentId, {
+          sourceAccount: connectionStatus.publicKey,
+          sourceAsset: selectedOption.sourceAsset,
+        })
+        xdr = built.transactionXdr
+      }
+
+      if (!xdr) {
+        throw new Error(t('payment.transactionNotAvailable') || 'Transacción no disponible')
+      }
+
       // Obtener la red actual
       const network = await getNetwork()
 
       // Firmar y enviar la transacción
-      const result = await signAndSubmitTransaction(transactionXdr, network)
+      const result = await signAndSubmitTransaction(xdr, network)
 
       if (result.success) {
         // Verificar el pago en el backend
@@ -195,6 +251,16 @@ export function AutoPayButton({
               {formattedAmount || `${amount} ${currency}`}
             </span>
           </div>
+          {assetAmount && (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-sm text-muted-foreground">
+                {t('payment.assetAmount') || 'A enviar por Stellar'}
+              </span>
+              <span className="font-mono font-semibold">
+                {assetAmount} {asset}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Estado de conexión */}
@@ -232,6 +298,38 @@ export function AutoPayButton({
           </div>
         )}
 
+        {/* Asset con que se paga */}
+        {pathOptions && pathOptions.options.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="source-asset">{t('payment.payWithAsset') || 'Pagar con'}</Label>
+            <Select value={sourceAssetKey} onValueChange={setSourceAssetKey} disabled={isPaying}>
+              <SelectTrigger id="source-asset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pathOptions.options.map(option => (
+                  <SelectItem key={getAssetKey(option.sourceAsset)} value={getAssetKey(option.sourceAsset)}>
+                    {option.sourceAsset.code}
+                    {option.sourceAsset.issuer ? ` · ${option.sourceAsset.issuer.slice(0, 4)}…${option.sourceAsset.issuer.slice(-4)}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isPathPayment && selectedOption && (
+              <p className="text-xs text-muted-foreground">
+                {t('payment.pathPaymentSummary', {
+                  sendMax: selectedOption.sendMax,
+                  asset: selectedOption.sourceAsset.code,
+                  slippage: pathOptions.slippagePercent,
+                  amount: pathOptions.destinationAmount,
+                  destinationAsset: pathOptions.destinationAsset.code,
+                }) ||
+                  `Gastarás como máximo ${selectedOption.sendMax} ${selectedOption.sourceAsset.code} (incluye ${pathOptions.slippagePercent}% de margen por variación del precio). El conductor recibe exactamente ${pathOptions.destinationAmount} ${pathOptions.destinationAsset.code}.`}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Error */}
         {error && (
           <Alert variant="destructive">
@@ -244,7 +342,7 @@ export function AutoPayButton({
         {/* Botón de pago */}
         <Button
           onClick={handlePay}
-          disabled={isPaying || !transactionXdr || (connectionStatus && !connectionStatus.isConnected)}
+          disabled={isPaying || (!transactionXdr && !selectedOption) || (connectionStatus && !connectionStatus.isConnected)}
           className="w-full"
           size="lg"
         >
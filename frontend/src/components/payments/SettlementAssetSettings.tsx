@@ -0,0 +1,154 @@
+/**
+ * Asset de cobro del conductor
+ * El conductor elige con qué asset Stellar aceptado en su país recibe los pagos (XLM o una stablecoin
+ * como USDC). Se avisa cuando su cuenta no tiene la trustline: mientras tanto los cobros se hacen en XLM
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { AlertCircle, CheckCircle, Coins, Save } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { api } from '@/services/api'
+import type { DriverSettlementOptions, TrustlineStatus } from '@/types'
+
+const getAssetKey = (asset: { code: string; issuer: string | null }) => `${asset.code}:${asset.issuer ?? ''}`
+
+const shortIssuer = (issuer: string) => `${issuer.slice(0, 4)}…${issuer.slice(-4)}`
+
+export function SettlementAssetSettings() {
+  const { t } = useTranslation()
+  const [options, setOptions] = useState<DriverSettlementOptions | null>(null)
+  const [selectedKey, setSelectedKey] = useState('')
+  const [warning, setWarning] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const data = await api.getDriverSettlementAsset()
+      setOptions(data)
+      setSelectedKey(getAssetKey(data.selected))
+    } catch (error) {
+      console.error('Error loading settlement asset:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(loadOptions, 0)
+    return () => clearTimeout(timeoutId)
+  }, [loadOptions])
+
+  const getTrustlineLabel = (status: TrustlineStatus | null) => {
+    switch (status) {
+      case 'OK':
+        return t('settlementAsset.trustlineOk') || 'Puede recibir'
+      case 'ACCOUNT_NOT_FOUND':
+        return t('settlementAsset.accountNotFound') || 'Cuenta sin activar'
+      case 'NO_TRUSTLINE':
+        return t('settlementAsset.noTrustline') || 'Sin trustline'
+      case 'NOT_AUTHORIZED':
+        return t('settlementAsset.notAuthorized') || 'Trustline sin autorizar'
+      case 'UNKNOWN':
+        return t('settlementAsset.unknown') || 'Sin verificar'
+      default:
+        return t('settlementAsset.noWallet') || 'Sin billetera'
+    }
+  }
+
+  const handleSave = async () => {
+    const asset = options?.assets.find(option => getAssetKey(option) === selectedKey)
+    if (!asset) return
+
+    try {
+      setIsSaving(true)
+      const result = await api.updateDriverSettlementAsset({ code: asset.code, issuer: asset.issuer })
+      setWarning(result.warning)
+      if (result.warning) {
+        toast.warning(result.warning)
+      } else {
+        toast.success(t('settlementAsset.saved', { asset: asset.code }) || `Cobrarás en ${asset.code}`)
+      }
+      await loadOptions()
+    } catch (error) {
+      console.error('Error saving settlement asset:', error)
+      toast.error((error instanceof Error && error.message) || t('settlementAsset.saveError') || 'Error al guardar el asset de cobro')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!options) return null
+
+  const isUnchanged = selectedKey === getAssetKey(options.selected)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          {t('settlementAsset.title') || 'Asset de cobro'}
+        </CardTitle>
+        <CardDescription>
+          {t('settlementAsset.description') ||
+            'Elige en qué asset Stellar recibes los pagos de tus viajes. Para cobrar en un asset distinto de XLM tu cuenta necesita la trustline de ese asset'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {options.assets.map(asset => (
+            <div key={getAssetKey(asset)} className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+              <div>
+                <span className="font-medium">{asset.code}</span>
+                {asset.issuer && (
+                  <span className="ml-2 font-mono text-xs text-muted-foreground">{shortIssuer(asset.issuer)}</span>
+                )}
+                {asset.peggedTo && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {t('settlementAsset.peggedTo', { currency: asset.peggedTo }) || `1:1 ${asset.peggedTo}`}
+                  </span>
+                )}
+              </div>
+              <Badge variant={asset.trustline === 'OK' ? 'default' : 'secondary'} className="flex items-center gap-1">
+                {asset.trustline === 'OK' ? <CheckCircle className="h-3 w-3" /> : <AlertCircle className="h-3 w-3" />}
+                {getTrustlineLabel(asset.trustline)}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="settlement-asset">{t('settlementAsset.select') || 'Cobrar en'}</Label>
+            <Select value={selectedKey} onValueChange={setSelectedKey}>
+              <SelectTrigger id="settlement-asset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {options.assets.map(asset => (
+                  <SelectItem key={getAssetKey(asset)} value={getAssetKey(asset)}>
+                    {asset.code}{asset.issuer ? ` · ${shortIssuer(asset.issuer)}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleSave} disabled={isSaving || isUnchanged}>
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? t('common.saving') || 'Guardando...' : t('common.save') || 'Guardar'}
+          </Button>
+        </div>
+
+        {warning && (
+          <div className="flex items-start gap-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-yellow-600" />
+            <span>{warning}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -25,6 +25,8 @@ interface StellarPaymentQRProps {
   paymentAddress: string
   amount: number
   currency: string
+  assetAmount?: string // Monto en el asset Stellar con que se cobra
+  asset?: string // Código del asset (XLM si no viene)
   paymentId: string
   transactionXdr?: string // XDR de la transacción para Freighter
   onPaymentVerified?: () => void
@@ -35,6 +37,8 @@ export function StellarPaymentQR({
   paymentAddress,
   amount,
   currency,
+  assetAmount,
+  asset = 'XLM',
   paymentId,
   transactionXdr,
   onPaymentVerified,
@@ -257,6 +261,16 @@ export function StellarPaymentQR({
               {formattedAmount || `${amount} ${currency}`}
             </span>
           </div>
+          {assetAmount && (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-sm text-muted-foreground">
+                {t('payment.assetAmount') || 'A enviar por Stellar'}
+              </span>
+              <span className="font-mono font-semibold">
+                {assetAmount} {asset}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Código QR */}
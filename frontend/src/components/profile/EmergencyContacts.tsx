@@ -0,0 +1,188 @@
+/**
+ * Contactos de emergencia del perfil
+ * Se les avisa por SMS, email o WhatsApp cuando el usuario activa el SOS durante un viaje
+ */
+
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { ShieldAlert, Trash2, Plus, Pencil } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { api } from '@/services/api'
+import type { EmergencyContact, EmergencyContactInput } from '@/types'
+
+// Debe coincidir con el máximo del backend
+const MAX_EMERGENCY_CONTACTS = 5
+
+const EMPTY_CONTACT: EmergencyContactInput = { name: '', phone: '', email: '', relationship: '' }
+
+export function EmergencyContacts() {
+  const { t } = useTranslation()
+  const [contacts, setContacts] = useState<EmergencyContact[]>([])
+  const [form, setForm] = useState<EmergencyContactInput>(EMPTY_CONTACT)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    api.getEmergencyContacts()
+      .then((data) => {
+        if (!cancelled) setContacts(data.contacts)
+      })
+      .catch((error) => {
+        console.error('Error loading emergency contacts:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [reloadKey])
+
+  const openForm = (contact: EmergencyContact | null) => {
+    setEditingId(contact?.id ?? null)
+    setForm(contact
+      ? { name: contact.name, phone: contact.phone || '', email: contact.email || '', relationship: contact.relationship || '' }
+      : EMPTY_CONTACT)
+    setIsFormOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim() || (!form.phone?.trim() && !form.email?.trim())) {
+      toast.error(t('profile.emergencyContacts.required') || 'Indica un nombre y un teléfono o email')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      if (editingId) {
+        await api.updateEmergencyContact(editingId, form)
+      } else {
+        await api.createEmergencyContact(form)
+      }
+      toast.success(t('profile.emergencyContacts.saved') || 'Contacto guardado')
+      setIsFormOpen(false)
+      setReloadKey(key => key + 1)
+    } catch (error) {
+      console.error('Error saving emergency contact:', error)
+      toast.error((error instanceof Error && error.message) || t('profile.emergencyContacts.saveError') || 'Error al guardar el contacto')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (contact: EmergencyContact) => {
+    try {
+      await api.deleteEmergencyContact(contact.id)
+      toast.success(t('profile.emergencyContacts.deleted') || 'Contacto eliminado')
+      setReloadKey(key => key + 1)
+    } catch (error) {
+      console.error('Error deleting emergency contact:', error)
+      toast.error((error instanceof Error && error.message) || t('profile.emergencyContacts.deleteError') || 'Error al eliminar el contacto')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          {t('profile.emergencyContacts.title') || 'Contactos de Emergencia'}
+        </CardTitle>
+        <CardDescription>
+          {t('profile.emergencyContacts.description') || 'Les avisaremos con tu ubicación y los datos del viaje si activas el SOS'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {contacts.length === 0 && !isFormOpen && (
+          <p className="text-sm text-muted-foreground">
+            {t('profile.emergencyContacts.empty') || 'Aún no tienes contactos de emergencia'}
+          </p>
+        )}
+
+        {contacts.map(contact => (
+          <div key={contact.id} className="flex items-center justify-between gap-2 text-sm">
+            <div>
+              <p className="font-medium">
+                {contact.name}
+                {contact.relationship && <span className="text-muted-foreground"> · {contact.relationship}</span>}
+              </p>
+              <p className="text-muted-foreground">
+                {[contact.phone, contact.email].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              <Button type="button" size="sm" variant="ghost" onClick={() => openForm(contact)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => handleDelete(contact)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {isFormOpen ? (
+          <div className="space-y-3 border rounded-md p-3">
+            <div className="grid gap-3 md:grid-cols-2">
+              <div>
+                <Label htmlFor="emergencyName">{t('profile.emergencyContacts.name') || 'Nombre'}</Label>
+                <Input
+                  id="emergencyName"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="emergencyRelationship">{t('profile.emergencyContacts.relationship') || 'Relación'}</Label>
+                <Input
+                  id="emergencyRelationship"
+                  value={form.relationship || ''}
+                  onChange={(e) => setForm({ ...form, relationship: e.target.value })}
+                  placeholder={t('profile.emergencyContacts.relationshipPlaceholder') || 'p. ej. Madre, pareja'}
+                />
+              </div>
+              <div>
+                <Label htmlFor="emergencyPhone">{t('admin.phone') || 'Teléfono'}</Label>
+                <Input
+                  id="emergencyPhone"
+                  type="tel"
+                  value={form.phone || ''}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  placeholder="+56912345678"
+                />
+              </div>
+              <div>
+                <Label htmlFor="emergencyEmail">{t('auth.email') || 'Email'}</Label>
+                <Input
+                  id="emergencyEmail"
+                  type="email"
+                  value={form.email || ''}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsFormOpen(false)}>
+                {t('common.cancel') || 'Cancelar'}
+              </Button>
+              <Button type="button" size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? (t('common.saving') || 'Guardando...') : (t('common.save') || 'Guardar')}
+              </Button>
+            </div>
+          </div>
+        ) : contacts.length < MAX_EMERGENCY_CONTACTS && (
+          <Button type="button" variant="outline" size="sm" onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t('profile.emergencyContacts.add') || 'Agregar contacto'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
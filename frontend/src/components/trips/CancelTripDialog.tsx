@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import {
   Dialog,
@@ -12,13 +12,20 @@ import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { AlertTriangle } from 'lucide-react'
+import { api } from '@/services/api'
+import { useCurrency } from '@/hooks/useCurrency'
+import type { CancellationCharge, LinkedTripLeg } from '@/types'
 
 interface CancelTripDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onConfirm: (reason?: string) => Promise<void>
+  onConfirm: (reason?: string, cancelLinkedLeg?: boolean) => Promise<void>
   tripNumber?: string
   isLoading?: boolean
+  linkedLeg?: LinkedTripLeg | null // Otro tramo de un viaje de ida y vuelta
+  linkedLegIsReturn?: boolean
+  tripId?: string // Para mostrar el cargo por cancelación antes de confirmar
+  asDriver?: boolean // El conductor ve la penalización en lugar del cargo al pasajero
 }
 
 export function CancelTripDialog({
@@ -27,17 +34,52 @@ export function CancelTripDialog({
   onConfirm,
   tripNumber,
   isLoading = false,
+  linkedLeg,
+  linkedLegIsReturn = false,
+  tripId,
+  asDriver = false,
 }: CancelTripDialogProps) {
   const { t } = useTranslation()
+  const { formatAmount } = useCurrency()
   const [reason, setReason] = useState('')
+  const [cancelLinkedLeg, setCancelLinkedLeg] = useState(false)
+  const [loadedCharge, setLoadedCharge] = useState<{ tripId: string; charge: CancellationCharge } | null>(null)
+
+  // Cargo vigente al abrir el diálogo (solo se muestra el del viaje actual)
+  const charge = loadedCharge && loadedCharge.tripId === tripId ? loadedCharge.charge : null
+
+  useEffect(() => {
+    if (!open || !tripId) return
+    let active = true
+
+    const loadCharge = async () => {
+      try {
+        const result = await api.getCancellationFee(tripId, asDriver)
+        if (active) setLoadedCharge({ tripId, charge: result })
+      } catch (error) {
+        console.error('Error loading cancellation fee:', error)
+      }
+    }
+
+    const timeoutId = setTimeout(loadCharge, 0)
+    return () => {
+      active = false
+      clearTimeout(timeoutId)
+    }
+  }, [open, tripId, asDriver])
+
+  // Solo se ofrece cancelar el otro tramo si aún no empezó
+  const canCancelLinkedLeg = !!linkedLeg && (linkedLeg.status === 'PENDING' || linkedLeg.status === 'CONFIRMED')
 
   const handleConfirm = async () => {
-    await onConfirm(reason.trim() || undefined)
+    await onConfirm(reason.trim() || undefined, canCancelLinkedLeg && cancelLinkedLeg)
     setReason('')
+    setCancelLinkedLeg(false)
   }
 
   const handleCancel = () => {
     setReason('')
+    setCancelLinkedLeg(false)
     onOpenChange(false)
   }
 
@@ -69,6 +111,43 @@ export function CancelTripDialog({
               disabled={isLoading}
             />
           </div>
+          {canCancelLinkedLeg && linkedLeg && (
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="cancelLinkedLeg"
+                checked={cancelLinkedLeg}
+                onChange={(e) => setCancelLinkedLeg(e.target.checked)}
+                disabled={isLoading}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <Label htmlFor="cancelLinkedLeg" className="cursor-pointer">
+                {linkedLegIsReturn
+                  ? t('trip.cancelLinkedReturn') || 'Cancelar también el viaje de vuelta'
+                  : t('trip.cancelLinkedOutbound') || 'Cancelar también el viaje de ida'}{' '}
+                ({linkedLeg.tripNumber})
+              </Label>
+            </div>
+          )}
+          {charge && (charge.chargedTo ? (
+            <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm">
+              <p className="font-medium text-destructive">
+                {charge.chargedTo === 'DRIVER'
+                  ? t('trip.cancelPenalty', { amount: formatAmount(charge.amount, charge.currency) }) ||
+                    `Se te aplicará una penalización de ${formatAmount(charge.amount, charge.currency)}`
+                  : t('trip.cancelFee', { amount: formatAmount(charge.amount, charge.currency) }) ||
+                    `Se cobrará un cargo por cancelación de ${formatAmount(charge.amount, charge.currency)}`}
+              </p>
+              <p className="text-muted-foreground">{charge.description}</p>
+            </div>
+          ) : (
+            <div className="rounded-lg border border-green-500/50 bg-green-50 p-3 text-sm text-green-700">
+              {charge.freeUntil
+                ? t('trip.cancelFreeUntil', { time: new Date(charge.freeUntil).toLocaleString() }) ||
+                  `Cancelación sin cargo hasta ${new Date(charge.freeUntil).toLocaleString()}`
+                : t('trip.cancelFree') || 'Cancelación sin cargo'}
+            </div>
+          ))}
           <div className="rounded-lg bg-muted p-3 text-sm text-muted-foreground">
             {t('trip.cancelWarning') || 'Al cancelar este viaje, se liberará el vehículo asignado y se cancelarán los pagos pendientes.'}
           </div>
@@ -0,0 +1,31 @@
+/**
+ * Desglose de la tarifa de un viaje
+ * Muestra cada regla de precio aplicada (tarifa base, distancia, tiempo, recargos, cargos fijos...)
+ */
+
+import { useCurrency } from '@/hooks/useCurrency'
+import type { PriceLineItem } from '@/types'
+
+interface FareBreakdownProps {
+  lineItems: PriceLineItem[]
+  currency: string
+}
+
+export function FareBreakdown({ lineItems, currency }: FareBreakdownProps) {
+  const { formatAmount } = useCurrency()
+
+  if (lineItems.length === 0) return null
+
+  return (
+    <div className="space-y-1 text-sm">
+      {lineItems.map((item, index) => (
+        <div key={`${item.code}-${index}`} className="flex items-center justify-between gap-4">
+          <span className="text-muted-foreground">{item.label}</span>
+          <span className={item.amount < 0 ? 'text-green-600' : undefined}>
+            {formatAmount(item.amount, currency)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
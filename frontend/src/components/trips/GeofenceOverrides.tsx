@@ -0,0 +1,114 @@
+/**
+ * Autorizaciones de geocerca de un viaje (vista de administración y despacho)
+ * Permite autorizar al conductor a iniciar o completar fuera de la zona, con un motivo que queda registrado
+ */
+
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { api } from '@/services/api'
+import type { GeofenceOverride, GeofenceStage, Trip } from '@/types'
+import { TripStatus } from '@/types'
+
+interface GeofenceOverridesProps {
+  trip: Pick<Trip, 'id' | 'status' | 'completedAt'>
+}
+
+export function GeofenceOverrides({ trip }: GeofenceOverridesProps) {
+  const { t } = useTranslation()
+  const [overrides, setOverrides] = useState<GeofenceOverride[]>([])
+  const [reason, setReason] = useState('')
+  const [isGranting, setIsGranting] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    api.getGeofenceOverrides(trip.id)
+      .then((data) => {
+        if (!cancelled) setOverrides(data.overrides)
+      })
+      .catch((error) => {
+        console.error('Error loading geofence overrides:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [trip.id, reloadKey])
+
+  // Etapa que se puede autorizar según el estado del viaje
+  const stage: GeofenceStage | null = trip.status === TripStatus.CONFIRMED ? 'START'
+    : trip.status === TripStatus.IN_PROGRESS && !trip.completedAt ? 'COMPLETION'
+    : null
+
+  const getStageLabel = (value: GeofenceStage) =>
+    value === 'START'
+      ? t('admin.geofence.start') || 'Inicio fuera del origen'
+      : t('admin.geofence.completion') || 'Fin fuera del destino'
+
+  const handleGrant = async () => {
+    if (!stage || !reason.trim()) return
+
+    try {
+      setIsGranting(true)
+      await api.grantGeofenceOverride(trip.id, stage, reason.trim())
+      toast.success(t('admin.geofence.granted') || 'Autorización registrada')
+      setReason('')
+      setReloadKey(key => key + 1)
+    } catch (error) {
+      console.error('Error granting geofence override:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.geofence.grantError') || 'Error al autorizar')
+    } finally {
+      setIsGranting(false)
+    }
+  }
+
+  if (!stage && overrides.length === 0) return null
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">{t('admin.geofence.title') || 'Autorizaciones de geocerca'}</h3>
+      {overrides.length > 0 && (
+        <ul className="space-y-2 mb-2">
+          {overrides.map(override => (
+            <li key={override.id} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{getStageLabel(override.stage)}</span>
+                <Badge variant={override.usedAt ? 'secondary' : 'outline'}>
+                  {override.usedAt
+                    ? t('admin.geofence.used') || 'Usada'
+                    : t('admin.geofence.pending') || 'Pendiente'}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">
+                {override.grantedBy.name} · {new Date(override.createdAt).toLocaleString()} · {override.reason}
+              </p>
+              {override.distanceMeters !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {t('admin.geofence.usedAtDistance', { distance: Math.round(override.distanceMeters) })
+                    || `Usada a ${Math.round(override.distanceMeters)}m del punto`}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {stage && (
+        <div className="flex gap-2">
+          <Input
+            placeholder={t('admin.geofence.reason') || 'Motivo (p. ej. calle cerrada, GPS sin señal)'}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={handleGrant} disabled={isGranting || !reason.trim()}>
+            {getStageLabel(stage)}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
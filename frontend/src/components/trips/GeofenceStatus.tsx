@@ -0,0 +1,58 @@
+/**
+ * Distancia en vivo del conductor a la geocerca de inicio (origen) o fin (destino) del viaje
+ * Avisa antes de enviar si el conductor está fuera del radio o si la precisión del GPS no alcanza
+ */
+
+import { useTranslation } from 'react-i18next'
+import { MapPin } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { distanceToGeofence } from '@/hooks/useTripGeofence'
+import type { TripGeofence } from '@/types'
+
+interface GeofenceStatusProps {
+  geofence: TripGeofence
+  position: { lat: number; lon: number; accuracy?: number } | null
+  overridden?: boolean // Despacho autorizó esta etapa fuera de la geocerca
+}
+
+export function GeofenceStatus({ geofence, position, overridden = false }: GeofenceStatusProps) {
+  const { t } = useTranslation()
+
+  const distance = position ? Math.round(distanceToGeofence(geofence, position)) : null
+  const isInside = distance !== null && distance <= geofence.radiusMeters
+  const isAccurate = !position?.accuracy || position.accuracy <= geofence.maxAccuracyMeters
+  const isReady = overridden || (isInside && isAccurate) || (!position && !geofence.requireGps)
+
+  const pointLabel = geofence.stage === 'START'
+    ? t('driver.geofence.origin') || 'origen'
+    : t('driver.geofence.destination') || 'destino'
+
+  let message: string
+  if (overridden) {
+    message = t('driver.geofence.overridden') || 'Despacho autorizó continuar fuera de la zona'
+  } else if (distance === null) {
+    message = geofence.requireGps
+      ? t('driver.geofence.gpsRequired') || 'Se requiere tu ubicación GPS para continuar'
+      : t('driver.geofence.noGps') || 'Sin ubicación GPS'
+  } else if (!isAccurate) {
+    message = (t('driver.geofence.lowAccuracy', { accuracy: Math.round(position?.accuracy ?? 0), max: geofence.maxAccuracyMeters })
+      || `Precisión del GPS insuficiente (${Math.round(position?.accuracy ?? 0)}m, máximo ${geofence.maxAccuracyMeters}m)`)
+  } else {
+    message = (t('driver.geofence.distance', { distance, radius: geofence.radiusMeters, point: pointLabel })
+      || `A ${distance}m del ${pointLabel} (máximo ${geofence.radiusMeters}m)`)
+  }
+
+  return (
+    <Alert variant={isReady ? 'default' : 'destructive'}>
+      <MapPin className="h-4 w-4" />
+      <AlertDescription>
+        <div className="font-semibold">{message}</div>
+        {geofence.zone && (
+          <div className="text-xs mt-1">
+            {t('driver.geofence.zone', { zone: geofence.zone }) || `Zona: ${geofence.zone}`}
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
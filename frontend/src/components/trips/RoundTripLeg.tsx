@@ -0,0 +1,52 @@
+/**
+ * Tramo de un viaje de ida y vuelta
+ * Indica si el viaje es la ida o la vuelta y enlaza con el otro tramo
+ */
+
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeftRight } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import type { Trip } from '@/types'
+
+interface RoundTripLegProps {
+  trip: Trip
+  basePath: string // Ruta de detalle de viajes (ej: /passenger/trips)
+  driverId?: string // Si se indica, solo enlaza el otro tramo cuando es de este conductor
+}
+
+export function RoundTripLeg({ trip, basePath, driverId }: RoundTripLegProps) {
+  const { t } = useTranslation()
+  const linkedLeg = trip.outboundTrip || trip.returnTrip
+
+  if (!linkedLeg) return null
+
+  const isReturn = !!trip.outboundTrip
+  const canOpen = !driverId || linkedLeg.driverId === driverId
+  const outboundLabel = t('trip.outboundLeg') || 'Ida'
+  const returnLabel = t('trip.returnLeg') || 'Vuelta'
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs md:text-sm">
+      <Badge variant="outline" className="gap-1">
+        <ArrowLeftRight className="h-3 w-3" />
+        {isReturn ? returnLabel : outboundLabel}
+      </Badge>
+      <span className="text-muted-foreground">{isReturn ? outboundLabel : returnLabel}:</span>
+      {canOpen ? (
+        <Link
+          to={`${basePath}/${linkedLeg.id}`}
+          className="font-medium hover:underline"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {linkedLeg.tripNumber}
+        </Link>
+      ) : (
+        <span className="font-medium">{linkedLeg.tripNumber}</span>
+      )}
+      {linkedLeg.scheduledAt && (
+        <span className="text-muted-foreground">· {new Date(linkedLeg.scheduledAt).toLocaleString()}</span>
+      )}
+    </div>
+  )
+}
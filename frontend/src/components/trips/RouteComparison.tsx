@@ -0,0 +1,59 @@
+/**
+ * Recorrido planificado vs. real de un viaje completado
+ * Muestra distancia, duración y precio cotizado frente a lo medido con la traza GPS
+ */
+
+import { useTranslation } from 'react-i18next'
+import { useCurrency } from '@/hooks/useCurrency'
+import type { Trip } from '@/types'
+
+interface RouteComparisonProps {
+  trip: Trip
+}
+
+export function RouteComparison({ trip }: RouteComparisonProps) {
+  const { t } = useTranslation()
+  const { formatAmount } = useCurrency()
+
+  if (trip.actualDuration == null) return null
+
+  const rows = [
+    {
+      label: t('trip.routeComparison.distance') || 'Distancia',
+      planned: `${trip.distance.toFixed(1)} km`,
+      actual: trip.actualDistance != null ? `${trip.actualDistance.toFixed(1)} km` : '—',
+    },
+    {
+      label: t('trip.routeComparison.duration') || 'Duración',
+      planned: `${Math.round(trip.duration)} min`,
+      actual: `${Math.round(trip.actualDuration)} min`,
+    },
+    {
+      label: t('trip.routeComparison.price') || 'Precio',
+      planned: formatAmount(trip.quotedPrice ?? trip.totalPrice, trip.currency),
+      actual: formatAmount(trip.totalPrice, trip.currency),
+    },
+  ]
+
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="grid grid-cols-3 gap-4 text-xs text-muted-foreground">
+        <span />
+        <span className="text-right">{t('trip.routeComparison.planned') || 'Planificado'}</span>
+        <span className="text-right">{t('trip.routeComparison.actual') || 'Real'}</span>
+      </div>
+      {rows.map(row => (
+        <div key={row.label} className="grid grid-cols-3 gap-4">
+          <span className="text-muted-foreground">{row.label}</span>
+          <span className="text-right">{row.planned}</span>
+          <span className="text-right font-medium">{row.actual}</span>
+        </div>
+      ))}
+      {trip.actualDistance == null && (
+        <p className="text-xs text-muted-foreground">
+          {t('trip.routeComparison.noTrace') || 'Sin traza GPS suficiente: se cobra el precio cotizado'}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+/**
+ * "¿Estás bien?" para el pasajero durante el viaje
+ * Aparece cuando el monitoreo detecta un desvío, una detención prolongada o pérdida de GPS;
+ * si el pasajero no responde a tiempo o pide ayuda, despacho y soporte reciben la alerta
+ */
+
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { ShieldAlert } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { api } from '@/services/api'
+import type { SafetyAlertResponse, SafetyAlertType, TripSafetyAlert } from '@/types'
+
+// Frecuencia de consulta de alertas mientras el viaje está en curso
+const POLL_INTERVAL_MS = 20000
+
+interface SafetyCheckProps {
+  tripId: string
+  enabled: boolean
+}
+
+export function SafetyCheck({ tripId, enabled }: SafetyCheckProps) {
+  const { t } = useTranslation()
+  const [alerts, setAlerts] = useState<TripSafetyAlert[]>([])
+  const [isResponding, setIsResponding] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let cancelled = false
+    const load = () => {
+      api.getTripSafetyAlerts(tripId)
+        .then((data) => {
+          if (!cancelled) setAlerts(data.alerts)
+        })
+        .catch((error) => {
+          console.error('Error loading safety alerts:', error)
+        })
+    }
+
+    load()
+    const interval = setInterval(load, POLL_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [tripId, enabled, reloadKey])
+
+  const pending = alerts.find(alert =>
+    !alert.passengerResponse && (alert.status === 'AWAITING_PASSENGER' || alert.status === 'ESCALATED')
+  )
+  const helpRequested = alerts.some(alert => alert.passengerResponse === 'HELP' && alert.status !== 'RESOLVED')
+
+  const getReason = (type: SafetyAlertType) => {
+    switch (type) {
+      case 'ROUTE_DEVIATION':
+        return t('passenger.safety.routeDeviation') || 'El vehículo se desvió de la ruta planificada'
+      case 'LONG_STOP':
+        return t('passenger.safety.longStop') || 'El vehículo lleva un buen rato detenido'
+      case 'GPS_LOST':
+        return t('passenger.safety.gpsLost') || 'Perdimos la ubicación del vehículo'
+    }
+  }
+
+  const handleRespond = async (alertId: string, response: SafetyAlertResponse) => {
+    try {
+      setIsResponding(true)
+      await api.respondToSafetyAlert(tripId, alertId, response)
+      toast.success(response === 'OK'
+        ? t('passenger.safety.okSent') || 'Gracias por confirmar'
+        : t('passenger.safety.helpSent') || 'Avisamos a nuestro equipo de soporte')
+      setReloadKey(key => key + 1)
+    } catch (error) {
+      console.error('Error responding to safety alert:', error)
+      toast.error((error instanceof Error && error.message) || t('passenger.safety.respondError') || 'Error al enviar la respuesta')
+    } finally {
+      setIsResponding(false)
+    }
+  }
+
+  if (!pending && !helpRequested) return null
+
+  return (
+    <Card className="border-destructive/50 bg-destructive/5">
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center gap-3">
+          <ShieldAlert className="h-8 w-8 text-destructive" />
+          <div>
+            <p className="font-semibold">
+              {pending
+                ? t('passenger.safety.title') || '¿Estás bien?'
+                : t('passenger.safety.helpOnTheWay') || 'Nuestro equipo de soporte ya fue avisado'}
+            </p>
+            {pending && <p className="text-sm text-muted-foreground">{getReason(pending.type)}</p>}
+          </div>
+        </div>
+        {pending && (
+          <div className="flex gap-2">
+            <Button className="flex-1" variant="outline" onClick={() => handleRespond(pending.id, 'OK')} disabled={isResponding}>
+              {t('passenger.safety.ok') || 'Estoy bien'}
+            </Button>
+            <Button className="flex-1" variant="destructive" onClick={() => handleRespond(pending.id, 'HELP')} disabled={isResponding}>
+              {t('passenger.safety.help') || 'Necesito ayuda'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,178 @@
+/**
+ * Compartir el viaje en vivo (pasajero)
+ * Crea un enlace público con vencimiento para que un familiar o amigo siga el viaje sin iniciar sesión,
+ * lo comparte por WhatsApp o copiándolo, y permite revocar los enlaces vigentes
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Copy, Eye, Link2, MessageCircle, Share2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { api } from '@/services/api'
+import { generateTripShareMessage, openWhatsAppShare } from '@/utils/whatsapp'
+import type { Trip, TripShareLink } from '@/types'
+
+// Duraciones ofrecidas para el enlace (minutos)
+const DURATION_OPTIONS = [60, 240, 720, 1440]
+
+interface ShareTripButtonProps {
+  trip: Trip
+}
+
+const getShareUrl = (link: TripShareLink) => `${window.location.origin}/share/${link.token}`
+
+export function ShareTripButton({ trip }: ShareTripButtonProps) {
+  const { t } = useTranslation()
+  const [isOpen, setIsOpen] = useState(false)
+  const [links, setLinks] = useState<TripShareLink[]>([])
+  const [duration, setDuration] = useState('240')
+  const [isCreating, setIsCreating] = useState(false)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const data = await api.getTripShareLinks(trip.id)
+      setLinks(data.links)
+    } catch (error) {
+      console.error('Error loading share links:', error)
+    }
+  }, [trip.id])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const timeoutId = setTimeout(loadLinks, 0)
+    return () => clearTimeout(timeoutId)
+  }, [isOpen, loadLinks])
+
+  const getMessage = (link: TripShareLink) =>
+    generateTripShareMessage({
+      url: getShareUrl(link),
+      driverName: trip.driver?.name.split(' ')[0],
+      vehicleInfo: trip.vehicle ? `${trip.vehicle.make} ${trip.vehicle.model} · ${trip.vehicle.licensePlate}` : undefined,
+    })
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true)
+      const link = await api.createTripShareLink(trip.id, Number(duration))
+      setLinks(current => [link, ...current])
+      toast.success(t('shareTrip.created') || 'Enlace creado')
+    } catch (error) {
+      console.error('Error creating share link:', error)
+      toast.error((error instanceof Error && error.message) || t('shareTrip.createError') || 'Error al crear el enlace')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleCopy = async (link: TripShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link))
+      toast.success(t('shareTrip.copied') || 'Enlace copiado al portapapeles')
+    } catch (error) {
+      console.error('Error copying share link:', error)
+      toast.error(t('passenger.copyError') || 'Error al copiar')
+    }
+  }
+
+  const handleRevoke = async (link: TripShareLink) => {
+    try {
+      setRevokingId(link.id)
+      await api.revokeTripShareLink(trip.id, link.id)
+      setLinks(current => current.filter(item => item.id !== link.id))
+      toast.success(t('shareTrip.revoked') || 'Enlace revocado')
+    } catch (error) {
+      console.error('Error revoking share link:', error)
+      toast.error((error instanceof Error && error.message) || t('shareTrip.revokeError') || 'Error al revocar el enlace')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const getDurationLabel = (minutes: number) =>
+    minutes < 60 * 24
+      ? t('shareTrip.hours', { count: minutes / 60 }) || `${minutes / 60} h`
+      : t('shareTrip.oneDay') || '24 h'
+
+  return (
+    <>
+      <Button variant="outline" className="w-full" onClick={() => setIsOpen(true)}>
+        <Share2 className="h-4 w-4 mr-2" />
+        {t('shareTrip.button') || 'Compartir mi viaje'}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('shareTrip.title') || 'Compartir mi viaje'}</DialogTitle>
+            <DialogDescription>
+              {t('shareTrip.description') ||
+                'Quien tenga el enlace verá el nombre del conductor, la patente, la posición en vivo y la hora estimada de llegada. El enlace deja de funcionar cuando el viaje termina.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATION_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {getDurationLabel(minutes)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button className="flex-1" onClick={handleCreate} disabled={isCreating}>
+              <Link2 className="h-4 w-4 mr-2" />
+              {isCreating ? t('shareTrip.creating') || 'Creando...' : t('shareTrip.create') || 'Crear enlace'}
+            </Button>
+          </div>
+
+          {links.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-sm font-medium">{t('shareTrip.activeLinks') || 'Enlaces activos'}</p>
+              {links.map(link => (
+                <div key={link.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>
+                      {t('shareTrip.expiresAt', { time: new Date(link.expiresAt).toLocaleString() }) ||
+                        `Vence ${new Date(link.expiresAt).toLocaleString()}`}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Eye className="h-3 w-3" />
+                      {link.viewCount}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openWhatsAppShare(getMessage(link))}>
+                      <MessageCircle className="h-4 w-4 mr-2" />
+                      WhatsApp
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleCopy(link)}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      {t('shareTrip.copy') || 'Copiar'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRevoke(link)}
+                      disabled={revokingId === link.id}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      {t('shareTrip.revoke') || 'Revocar'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
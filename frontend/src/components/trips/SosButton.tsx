@@ -0,0 +1,143 @@
+/**
+ * Botón SOS del seguimiento del viaje (pasajero y conductor)
+ * Pide confirmación, envía la posición actual y muestra los enlaces de WhatsApp
+ * para avisar a los contactos de emergencia desde el teléfono
+ */
+
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Siren, MessageCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { api } from '@/services/api'
+import type { SosDelivery } from '@/types'
+
+// Espera máxima por la posición GPS antes de enviar sin ella (el backend usa el último breadcrumb)
+const POSITION_TIMEOUT_MS = 5000
+
+interface SosButtonProps {
+  tripId: string
+}
+
+const getCurrentPosition = () =>
+  new Promise<GeolocationPosition | null>((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null)
+      return
+    }
+    navigator.geolocation.getCurrentPosition(resolve, () => resolve(null), {
+      enableHighAccuracy: true,
+      timeout: POSITION_TIMEOUT_MS,
+      maximumAge: 30000,
+    })
+  })
+
+export function SosButton({ tripId }: SosButtonProps) {
+  const { t } = useTranslation()
+  const [isOpen, setIsOpen] = useState(false)
+  const [message, setMessage] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const [deliveries, setDeliveries] = useState<SosDelivery[] | null>(null)
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open)
+    if (!open) {
+      setDeliveries(null)
+      setMessage('')
+    }
+  }
+
+  const handleSend = async () => {
+    try {
+      setIsSending(true)
+      const position = await getCurrentPosition()
+      const result = await api.triggerSos(tripId, {
+        latitude: position?.coords.latitude,
+        longitude: position?.coords.longitude,
+        accuracy: position?.coords.accuracy,
+        message: message.trim() || undefined,
+      })
+      setDeliveries(result.deliveries)
+      toast.success(t('sos.sent') || 'Alerta enviada: nuestro equipo de soporte fue avisado')
+    } catch (error) {
+      console.error('Error triggering SOS:', error)
+      toast.error((error instanceof Error && error.message) || t('sos.error') || 'Error al enviar la alerta')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const whatsappLinks = deliveries?.filter(delivery => delivery.channel === 'WHATSAPP' && delivery.link) || []
+  const sentCount = deliveries?.filter(delivery => delivery.status === 'SENT').length || 0
+
+  return (
+    <>
+      <Button variant="destructive" className="w-full" onClick={() => setIsOpen(true)}>
+        <Siren className="h-4 w-4 mr-2" />
+        {t('sos.button') || 'SOS'}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('sos.title') || 'Emergencia'}</DialogTitle>
+            <DialogDescription>
+              {deliveries
+                ? t('sos.sentDescription') || 'Soporte y despacho recibieron tu alerta con tu ubicación y los datos del viaje.'
+                : t('sos.description') || 'Avisaremos a soporte, despacho y a tus contactos de emergencia con tu ubicación y los datos del viaje.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {deliveries ? (
+            <div className="space-y-3 text-sm">
+              {deliveries.length === 0 ? (
+                <p className="text-muted-foreground">
+                  {t('sos.noContacts') || 'No tienes contactos de emergencia. Puedes agregarlos en tu perfil.'}
+                </p>
+              ) : (
+                <p className="text-muted-foreground">
+                  {t('sos.contactsNotified', { count: sentCount }) || `Mensajes enviados a tus contactos: ${sentCount}`}
+                </p>
+              )}
+              {whatsappLinks.map(delivery => (
+                <Button key={delivery.to} variant="outline" className="w-full" asChild>
+                  <a href={delivery.link} target="_blank" rel="noopener noreferrer">
+                    <MessageCircle className="h-4 w-4 mr-2" />
+                    {t('sos.whatsapp', { phone: delivery.to }) || `Avisar por WhatsApp a ${delivery.to}`}
+                  </a>
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <Textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={t('sos.messagePlaceholder') || '¿Qué está pasando? (opcional)'}
+              rows={3}
+              maxLength={500}
+            />
+          )}
+
+          <DialogFooter>
+            {deliveries ? (
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                {t('common.close') || 'Cerrar'}
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSending}>
+                  {t('common.cancel') || 'Cancelar'}
+                </Button>
+                <Button variant="destructive" onClick={handleSend} disabled={isSending}>
+                  {isSending ? t('sos.sending') || 'Enviando...' : t('sos.confirm') || 'Enviar alerta'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
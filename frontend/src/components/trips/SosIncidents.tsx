@@ -0,0 +1,169 @@
+/**
+ * Incidentes SOS abiertos o en atención (vista de administración y despacho)
+ * Muestra quién lo activó, la posición, el vehículo y la contraparte, y permite atenderlo y cerrarlo
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Siren } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { api } from '@/services/api'
+import type { SosIncident } from '@/types'
+
+// Frecuencia de actualización (los SOS requieren atención inmediata)
+const REFRESH_INTERVAL_MS = 15000
+
+export function SosIncidents() {
+  const { t } = useTranslation()
+  const [incidents, setIncidents] = useState<SosIncident[]>([])
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadIncidents = useCallback(async () => {
+    try {
+      const [open, acknowledged] = await Promise.all([
+        api.getSosIncidents({ status: 'OPEN', limit: 50 }),
+        api.getSosIncidents({ status: 'ACKNOWLEDGED', limit: 50 }),
+      ])
+      setIncidents([...open.incidents, ...acknowledged.incidents])
+    } catch (error) {
+      console.error('Error loading SOS incidents:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(loadIncidents, 0)
+    const interval = setInterval(loadIncidents, REFRESH_INTERVAL_MS)
+    return () => {
+      clearTimeout(timeoutId)
+      clearInterval(interval)
+    }
+  }, [loadIncidents])
+
+  const handleAcknowledge = async (incident: SosIncident) => {
+    try {
+      setBusyId(incident.id)
+      await api.acknowledgeSosIncident(incident.id)
+      await loadIncidents()
+    } catch (error) {
+      console.error('Error acknowledging SOS incident:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.sos.acknowledgeError') || 'Error al atender el incidente')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleResolve = async (incident: SosIncident) => {
+    const note = notes[incident.id]?.trim()
+    if (!note) return
+
+    try {
+      setBusyId(incident.id)
+      await api.resolveSosIncident(incident.id, note)
+      toast.success(t('admin.sos.resolved') || 'Incidente cerrado')
+      await loadIncidents()
+    } catch (error) {
+      console.error('Error resolving SOS incident:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.sos.resolveError') || 'Error al cerrar el incidente')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (incidents.length === 0) return null
+
+  return (
+    <div className="space-y-4 mb-8">
+      <h2 className="text-xl font-semibold flex items-center gap-2">
+        <Siren className="h-5 w-5 text-destructive" />
+        {t('admin.sos.title') || 'SOS activos'}
+      </h2>
+      {incidents.map(incident => (
+        <Card key={incident.id} className="border-destructive">
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <CardTitle className="text-lg">
+                  {incident.trip.tripNumber} · {incident.reporter.name}{' '}
+                  ({incident.reporterRole === 'PASSENGER'
+                    ? t('admin.sos.passenger') || 'pasajero'
+                    : t('admin.sos.driver') || 'conductor'})
+                </CardTitle>
+                <CardDescription>
+                  {new Date(incident.createdAt).toLocaleString()}
+                  {incident.reporter.phone && ` · ${incident.reporter.phone}`}
+                </CardDescription>
+              </div>
+              <Badge variant={incident.status === 'OPEN' ? 'destructive' : 'outline'}>
+                {incident.status === 'OPEN'
+                  ? t('admin.sos.open') || 'Sin atender'
+                  : t('admin.sos.acknowledged', { name: incident.handledBy?.name }) || `Atendido por ${incident.handledBy?.name}`}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {incident.message && <p className="font-medium">"{incident.message}"</p>}
+            <div className="grid gap-2 md:grid-cols-2">
+              {incident.snapshot.counterpart && (
+                <p>
+                  <span className="text-muted-foreground">
+                    {incident.snapshot.counterpart.role === 'DRIVER'
+                      ? t('admin.safety.driver') || 'Conductor'
+                      : t('admin.safety.passenger') || 'Pasajero'}:{' '}
+                  </span>
+                  {incident.snapshot.counterpart.name} {incident.snapshot.counterpart.phone || ''}
+                </p>
+              )}
+              {incident.snapshot.vehicle && (
+                <p>
+                  <span className="text-muted-foreground">{t('admin.safety.vehicle') || 'Vehículo'}: </span>
+                  {incident.snapshot.vehicle.make} {incident.snapshot.vehicle.model} · {incident.snapshot.vehicle.licensePlate}
+                </p>
+              )}
+              {incident.latitude !== null && incident.longitude !== null && (
+                <p>
+                  <span className="text-muted-foreground">{t('admin.safety.lastPosition') || 'Última posición'}: </span>
+                  <a
+                    className="underline"
+                    href={`https://www.google.com/maps?q=${incident.latitude},${incident.longitude}`}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    {incident.latitude.toFixed(5)}, {incident.longitude.toFixed(5)}
+                  </a>
+                </p>
+              )}
+              <p className="md:col-span-2 text-muted-foreground">
+                {incident.snapshot.originAddress} → {incident.snapshot.destinationAddress}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {incident.status === 'OPEN' && (
+                <Button size="sm" onClick={() => handleAcknowledge(incident)} disabled={busyId === incident.id}>
+                  {t('admin.sos.acknowledge') || 'Atender'}
+                </Button>
+              )}
+              <Input
+                placeholder={t('admin.safety.resolutionNote') || 'Qué se hizo (p. ej. se contactó al conductor)'}
+                value={notes[incident.id] || ''}
+                onChange={(e) => setNotes(current => ({ ...current, [incident.id]: e.target.value }))}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleResolve(incident)}
+                disabled={busyId === incident.id || !notes[incident.id]?.trim()}
+              >
+                {t('admin.safety.resolve') || 'Resolver'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
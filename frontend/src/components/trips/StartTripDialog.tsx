@@ -1,6 +1,6 @@
 /**
  * Diálogo para iniciar un viaje
- * Permite ingresar PIN o escanear QR code
+ * Permite ingresar PIN o escanear QR code y muestra en vivo la distancia a la geocerca del origen
  */
 
 import { useState, useEffect } from 'react'
@@ -22,6 +22,8 @@ import { Key, QrCode, MapPin, AlertCircle } from 'lucide-react'
 import { toast } from 'sonner'
 import type { Trip } from '@/types'
 import { QrScanner } from '@/components/qr/QrScanner'
+import { GeofenceStatus } from '@/components/trips/GeofenceStatus'
+import { useTripGeofence } from '@/hooks/useTripGeofence'
 
 interface StartTripDialogProps {
   trip: Trip
@@ -36,37 +38,34 @@ export function StartTripDialog({ trip, onStart, trigger }: StartTripDialogProps
   const [qrCode, setQrCode] = useState('')
   const [method, setMethod] = useState<'pin' | 'qr'>('pin')
   const [isStarting, setIsStarting] = useState(false)
-  const [driverLocation, setDriverLocation] = useState<{ lat: number; lon: number } | null>(null)
+  const [driverLocation, setDriverLocation] = useState<{ lat: number; lon: number; accuracy: number } | null>(null)
   const [locationError, setLocationError] = useState<string | null>(null)
   const [useGps, setUseGps] = useState(true)
   const [showQrScanner, setShowQrScanner] = useState(false)
+  const geofences = useTripGeofence(trip.id, open)
+  const canSkipGps = geofences ? !geofences.start.requireGps || geofences.overriddenStages.includes('START') : false
 
-  // Obtener ubicación GPS del conductor
+  // Seguir la ubicación GPS del conductor mientras el diálogo está abierto
   useEffect(() => {
-    if (open && useGps) {
-      getDriverLocation()
-    }
-  }, [open, useGps])
+    if (!open || !useGps) return
 
-  const getDriverLocation = () => {
     if (!navigator.geolocation) {
       setLocationError('Geolocalización no disponible en este navegador')
-      setUseGps(false)
       return
     }
 
-    navigator.geolocation.getCurrentPosition(
+    const watchId = navigator.geolocation.watchPosition(
       (position) => {
         setDriverLocation({
           lat: position.coords.latitude,
           lon: position.coords.longitude,
+          accuracy: position.coords.accuracy,
         })
         setLocationError(null)
       },
       (error) => {
         console.error('Error getting location:', error)
-        setLocationError('No se pudo obtener tu ubicación. Puedes continuar sin GPS.')
-        setUseGps(false)
+        setLocationError('No se pudo obtener tu ubicación.')
       },
       {
         enableHighAccuracy: true,
@@ -74,7 +73,9 @@ export function StartTripDialog({ trip, onStart, trigger }: StartTripDialogProps
         maximumAge: 0,
       }
     )
-  }
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [open, useGps])
 
   const handleStartTrip = async () => {
     if (method === 'pin' && !pin.trim()) {
@@ -101,6 +102,7 @@ export function StartTripDialog({ trip, onStart, trigger }: StartTripDialogProps
       if (useGps && driverLocation) {
         options.driverLatitude = driverLocation.lat
         options.driverLongitude = driverLocation.lon
+        options.driverAccuracy = driverLocation.accuracy
       }
 
       const { api } = await import('@/services/api')
@@ -160,6 +162,15 @@ export function StartTripDialog({ trip, onStart, trigger }: StartTripDialogProps
             <div className="text-xs text-muted-foreground line-clamp-1">{trip.originAddress}</div>
           </div>
 
+          {/* Distancia a la geocerca del origen */}
+          {geofences && useGps && (
+            <GeofenceStatus
+              geofence={geofences.start}
+              position={driverLocation}
+              overridden={geofences.overriddenStages.includes('START')}
+            />
+          )}
+
           {/* Estado de GPS */}
           {useGps && (
             <Alert variant={locationError ? 'destructive' : 'default'}>
@@ -168,14 +179,16 @@ export function StartTripDialog({ trip, onStart, trigger }: StartTripDialogProps
                 {locationError ? (
                   <div>
                     <div className="font-semibold mb-1">{locationError}</div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setUseGps(false)}
-                      className="mt-2"
-                    >
-                      {t('driver.continueWithoutGps') || 'Continuar sin GPS'}
-                    </Button>
+                    {canSkipGps && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setUseGps(false)}
+                        className="mt-2"
+                      >
+                        {t('driver.continueWithoutGps') || 'Continuar sin GPS'}
+                      </Button>
+                    )}
                   </div>
                 ) : driverLocation ? (
                   t('driver.locationReady') || 'Ubicación obtenida correctamente'
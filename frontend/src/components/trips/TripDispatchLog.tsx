@@ -0,0 +1,114 @@
+/**
+ * Registro de despacho de un viaje (vista de administración)
+ * Muestra la estrategia usada y a qué conductores se ofreció el viaje, en orden
+ */
+
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Badge } from '@/components/ui/badge'
+import { api } from '@/services/api'
+import type { TripDispatchLog as TripDispatchLogData, TripDispatchOffer } from '@/types'
+
+interface TripDispatchLogProps {
+  tripId: string
+}
+
+export function TripDispatchLog({ tripId }: TripDispatchLogProps) {
+  const { t } = useTranslation()
+  const [log, setLog] = useState<TripDispatchLogData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    api.getTripDispatchLog(tripId)
+      .then((data) => {
+        if (cancelled) return
+        // Una alerta pendiente cuyo plazo ya pasó se muestra como expirada
+        const now = Date.now()
+        setLog({
+          ...data,
+          offers: data.offers.map(offer =>
+            offer.status === 'PENDING' && new Date(offer.expiresAt).getTime() < now
+              ? { ...offer, status: 'EXPIRED' }
+              : offer
+          ),
+        })
+      })
+      .catch((error) => {
+        console.error('Error loading dispatch log:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [tripId])
+
+  const getStrategyLabel = (strategy: string | null) => {
+    const labels: Record<string, string> = {
+      BROADCAST: t('admin.dispatch.broadcast') || 'Todos a la vez',
+      WATERFALL: t('admin.dispatch.waterfall') || 'Secuencial',
+      BATCHED: t('admin.dispatch.batched') || 'Por olas',
+    }
+    return strategy ? labels[strategy] || strategy : '-'
+  }
+
+  const getOfferBadge = (status: TripDispatchOffer['status']) => {
+    const statusMap: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+      PENDING: { label: t('admin.dispatch.offerPending') || 'Pendiente', variant: 'outline' },
+      ACCEPTED: { label: t('admin.dispatch.offerAccepted') || 'Aceptado', variant: 'default' },
+      REJECTED: { label: t('admin.dispatch.offerRejected') || 'Rechazado', variant: 'destructive' },
+      EXPIRED: { label: t('admin.dispatch.offerExpired') || 'Expirado', variant: 'secondary' },
+      CANCELLED: { label: t('admin.dispatch.offerCancelled') || 'Cancelado', variant: 'secondary' },
+    }
+    const info = statusMap[status] || { label: status, variant: 'outline' as const }
+    return <Badge variant={info.variant}>{info.label}</Badge>
+  }
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">{t('admin.dispatch.title') || 'Despacho'}</h3>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">{t('common.loading') || 'Cargando...'}</p>
+      ) : !log || log.offers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t('admin.dispatch.noOffers') || 'El viaje aún no se ha ofrecido a ningún conductor'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+            <span>{t('admin.dispatch.strategy') || 'Estrategia'}: {getStrategyLabel(log.strategy)}</span>
+            <span>{t('admin.dispatch.waves') || 'Olas'}: {log.waves}</span>
+            {log.radiusKm !== null && (
+              <span>{t('admin.dispatch.radius') || 'Radio'}: {log.radiusKm} km</span>
+            )}
+          </div>
+          <div className="divide-y rounded-md border">
+            {log.offers.map((offer, index) => (
+              <div key={offer.alertId} className="flex items-center justify-between gap-4 p-3 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {offer.rank ?? index + 1}. {offer.driver.name}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {offer.wave !== null && `${t('admin.dispatch.wave') || 'Ola'} ${offer.wave} · `}
+                    {offer.distanceKm !== null && `${offer.distanceKm.toFixed(1)} km · `}
+                    {offer.pickupEtaMinutes !== null && `${offer.pickupEtaMinutes} min · `}
+                    {new Date(offer.offeredAt).toLocaleTimeString()}
+                  </p>
+                  {offer.rejectionReason && (
+                    <p className="text-muted-foreground italic">{offer.rejectionReason}</p>
+                  )}
+                </div>
+                {getOfferBadge(offer.status)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
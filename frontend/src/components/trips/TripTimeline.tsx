@@ -0,0 +1,101 @@
+/**
+ * Historial de cambios de estado de un viaje
+ * Muestra cada transición con quién la hizo, el motivo y la posición GPS (si se registró)
+ */
+
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { MapPin } from 'lucide-react'
+import { api } from '@/services/api'
+import type { TripActorRole, TripEvent, TripTimeline as TripTimelineData } from '@/types'
+
+interface TripTimelineProps {
+  tripId: string
+  onLoad?: (timeline: TripTimelineData) => void // Debe ser estable (p. ej. un setter de estado)
+}
+
+export function TripTimeline({ tripId, onLoad }: TripTimelineProps) {
+  const { t } = useTranslation()
+  const [events, setEvents] = useState<TripEvent[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    api.getTripTimeline(tripId)
+      .then((data) => {
+        if (cancelled) return
+        setEvents(data.events)
+        onLoad?.(data)
+      })
+      .catch((error) => {
+        console.error('Error loading trip timeline:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [tripId, onLoad])
+
+  const getStatusLabel = (status: string) => {
+    const labels: Record<string, string> = {
+      PENDING: t('trip.status.pending') || 'Pendiente',
+      CONFIRMED: t('trip.status.confirmed') || 'Confirmado',
+      IN_PROGRESS: t('trip.status.inProgress') || 'En Progreso',
+      COMPLETED: t('trip.status.completed') || 'Completado',
+      CANCELLED: t('trip.status.cancelled') || 'Cancelado',
+    }
+    return labels[status] || status
+  }
+
+  const getActorLabel = (event: TripEvent) => {
+    const roles: Record<TripActorRole, string> = {
+      PASSENGER: t('trip.timeline.passenger') || 'Pasajero',
+      DRIVER: t('trip.timeline.driver') || 'Conductor',
+      ADMIN: t('trip.timeline.admin') || 'Administrador',
+      SYSTEM: t('trip.timeline.system') || 'Sistema',
+    }
+    const role = roles[event.actorRole] || event.actorRole
+    return event.actor?.name ? `${role}: ${event.actor.name}` : role
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">{t('common.loading') || 'Cargando...'}</p>
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t('trip.timeline.empty') || 'No hay cambios de estado registrados'}
+      </p>
+    )
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-4">
+      {events.map(event => (
+        <li key={event.id} className="text-sm">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+          <p className="font-medium">
+            {event.fromStatus
+              ? `${getStatusLabel(event.fromStatus)} → ${getStatusLabel(event.toStatus)}`
+              : t('trip.timeline.created') || 'Viaje creado'}
+          </p>
+          <p className="text-muted-foreground">
+            {getActorLabel(event)} · {new Date(event.createdAt).toLocaleString()}
+          </p>
+          {event.reason && <p className="text-muted-foreground italic">{event.reason}</p>}
+          {event.latitude !== null && event.longitude !== null && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {event.latitude.toFixed(5)}, {event.longitude.toFixed(5)}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { api } from '@/services/api'
+import type { TripGeofence, TripGeofences } from '@/types'
+
+const EARTH_RADIUS_METERS = 6371e3
+
+/**
+ * Distancia en metros entre una posición y el punto de la geocerca (fórmula de Haversine)
+ */
+export function distanceToGeofence(geofence: TripGeofence, position: { lat: number; lon: number }): number {
+  const φ1 = (position.lat * Math.PI) / 180
+  const φ2 = (geofence.latitude * Math.PI) / 180
+  const Δφ = ((geofence.latitude - position.lat) * Math.PI) / 180
+  const Δλ = ((geofence.longitude - position.lon) * Math.PI) / 180
+
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Hook para obtener las geocercas de inicio y fin de un viaje del conductor
+ * Solo consulta mientras `enabled` sea verdadero (p. ej. con el diálogo abierto)
+ */
+export function useTripGeofence(tripId: string | undefined, enabled: boolean = true): TripGeofences | null {
+  const [geofences, setGeofences] = useState<TripGeofences | null>(null)
+
+  useEffect(() => {
+    if (!tripId || !enabled) return
+
+    let cancelled = false
+
+    api.getTripGeofences(tripId)
+      .then((data) => {
+        if (!cancelled) setGeofences(data)
+      })
+      .catch((error) => {
+        console.error('Error loading trip geofence:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [tripId, enabled])
+
+  return geofences
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react'
+import { api } from '@/services/api'
+import type { TripBreadcrumb, TripLocationUpdate } from '@/types'
+
+// Tiempo de espera antes de reconectar el stream (ms)
+const RECONNECT_DELAY = 5000
+
+interface UseTripTrackingReturn {
+  lastLocation: TripLocationUpdate | null
+  breadcrumbs: TripBreadcrumb[]
+  isLive: boolean
+}
+
+/**
+ * Hook para seguir la posición del conductor de un viaje en tiempo real
+ * Se suscribe al stream SSE del backend y reconecta automáticamente si se corta
+ */
+export function useTripTracking(tripId: string | undefined, enabled: boolean = true): UseTripTrackingReturn {
+  const [lastLocation, setLastLocation] = useState<TripLocationUpdate | null>(null)
+  const [breadcrumbs, setBreadcrumbs] = useState<TripBreadcrumb[]>([])
+  const [isLive, setIsLive] = useState(false)
+
+  useEffect(() => {
+    if (!tripId || !enabled) return
+
+    let unsubscribe: (() => void) | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+
+    const connect = () => {
+      unsubscribe = api.subscribeToTripTracking(tripId, {
+        onSnapshot: (tracking) => {
+          setIsLive(true)
+          setBreadcrumbs(tracking.breadcrumbs)
+          setLastLocation(tracking.lastLocation)
+        },
+        onLocation: (update) => {
+          setLastLocation(update)
+          setBreadcrumbs(prev => [
+            ...prev,
+            {
+              latitude: update.latitude,
+              longitude: update.longitude,
+              heading: update.heading,
+              speed: update.speed,
+              recordedAt: update.recordedAt,
+            },
+          ])
+        },
+        onError: (error) => {
+          console.error('Error en stream de seguimiento:', error)
+          setIsLive(false)
+          if (!cancelled) {
+            reconnectTimer = setTimeout(connect, RECONNECT_DELAY)
+          }
+        },
+      })
+    }
+
+    connect()
+
+    return () => {
+      cancelled = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      if (unsubscribe) unsubscribe()
+      setIsLive(false)
+    }
+  }, [tripId, enabled])
+
+  return { lastLocation, breadcrumbs, isLive: isLive && enabled }
+}
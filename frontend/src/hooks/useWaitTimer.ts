@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+
+interface UseWaitTimerReturn {
+  elapsedSeconds: number // Segundos desde la llegada del conductor
+  remainingSeconds: number // Segundos hasta que se puede marcar la no presentación (0: ya se puede)
+}
+
+/**
+ * Hook para el temporizador de espera del conductor en el origen
+ * Se actualiza cada segundo mientras haya una llegada registrada
+ */
+export function useWaitTimer(
+  arrivedAt: string | null | undefined,
+  noShowEligibleAt: string | null | undefined
+): UseWaitTimerReturn {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!arrivedAt) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [arrivedAt])
+
+  if (!arrivedAt) {
+    return { elapsedSeconds: 0, remainingSeconds: 0 }
+  }
+
+  const elapsedSeconds = Math.max(0, Math.floor((now - new Date(arrivedAt).getTime()) / 1000))
+  const remainingSeconds = noShowEligibleAt
+    ? Math.max(0, Math.ceil((new Date(noShowEligibleAt).getTime() - now) / 1000))
+    : 0
+
+  return { elapsedSeconds, remainingSeconds }
+}
+
+/**
+ * Formatea segundos como mm:ss
+ */
+export function formatWaitTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const rest = seconds % 60
+  return `${String(minutes).padStart(2, '0')}:${String(rest).padStart(2, '0')}`
+}
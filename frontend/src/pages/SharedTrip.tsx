@@ -0,0 +1,268 @@
+/**
+ * Página pública de un viaje compartido ("compartir mi viaje")
+ * Quien recibe el enlace ve, sin iniciar sesión, el conductor, la patente, la posición en vivo y el ETA.
+ * Deja de actualizarse cuando el viaje termina o el enlace vence o es revocado
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useParams } from 'react-router-dom'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Car, Clock, MapPin, Navigation, ShieldCheck, User } from 'lucide-react'
+import { TripTrackingMap } from '@/components/maps/TripTrackingMap'
+import { api } from '@/services/api'
+import type { SharedTrip, SharedTripLocation, TripBreadcrumb } from '@/types'
+import { TripStatus } from '@/types'
+
+// Tiempo de espera antes de reconectar el stream (ms)
+const RECONNECT_DELAY = 5000
+
+export default function SharedTripPage() {
+  const { t } = useTranslation()
+  const { token } = useParams<{ token: string }>()
+  const [shared, setShared] = useState<SharedTrip | null>(null)
+  const [lastLocation, setLastLocation] = useState<SharedTripLocation | null>(null)
+  const [breadcrumbs, setBreadcrumbs] = useState<TripBreadcrumb[]>([])
+  const [endedMessage, setEndedMessage] = useState<string | null>(null)
+  const [isLive, setIsLive] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadSharedTrip = useCallback(async () => {
+    if (!token) return
+
+    try {
+      const data = await api.getSharedTrip(token)
+      setShared(data)
+      setLastLocation(data.lastLocation)
+      setBreadcrumbs(data.breadcrumbs)
+    } catch (error) {
+      console.error('Error loading shared trip:', error)
+      setEndedMessage((error instanceof Error && error.message) || t('sharedTrip.unavailable') || 'Este enlace ya no está disponible')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [token, t])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(loadSharedTrip, 0)
+    return () => clearTimeout(timeoutId)
+  }, [loadSharedTrip])
+
+  const isFollowing = !!shared && !endedMessage
+
+  // Posición en vivo del conductor; el servidor cierra el stream al terminar el viaje o vencer el enlace
+  useEffect(() => {
+    if (!token || !isFollowing) return
+
+    let unsubscribe: (() => void) | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+
+    const connect = () => {
+      unsubscribe = api.subscribeToSharedTrip(token, {
+        onLocation: (update) => {
+          setIsLive(true)
+          setLastLocation(update)
+          setBreadcrumbs(prev => [
+            ...prev,
+            {
+              latitude: update.latitude,
+              longitude: update.longitude,
+              heading: update.heading,
+              recordedAt: update.recordedAt,
+            },
+          ])
+        },
+        onEnded: (message) => {
+          cancelled = true
+          setIsLive(false)
+          setEndedMessage(message)
+        },
+        onError: (error) => {
+          console.error('Error en stream del viaje compartido:', error)
+          setIsLive(false)
+          if (!cancelled) {
+            reconnectTimer = setTimeout(connect, RECONNECT_DELAY)
+          }
+        },
+      })
+    }
+
+    connect()
+
+    return () => {
+      cancelled = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      if (unsubscribe) unsubscribe()
+    }
+  }, [token, isFollowing])
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>{t('common.loading') || 'Cargando...'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!shared) {
+    return (
+      <div className="container mx-auto px-4 py-12 max-w-xl">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center py-8">
+              <ShieldCheck className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+              <h1 className="text-xl font-semibold mb-2">{t('sharedTrip.unavailableTitle') || 'Seguimiento no disponible'}</h1>
+              <p className="text-muted-foreground">{endedMessage}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const { trip } = shared
+  const eta = lastLocation?.eta
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <div className="mb-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">{t('sharedTrip.title') || 'Viaje en vivo'}</h1>
+            <p className="text-muted-foreground">
+              {t('sharedTrip.description') || 'Alguien compartió contigo el seguimiento de su viaje'}
+            </p>
+          </div>
+          {endedMessage ? (
+            <Badge variant="secondary">{t('sharedTrip.ended') || 'Finalizado'}</Badge>
+          ) : (
+            <Badge variant="default">
+              {trip.status === TripStatus.IN_PROGRESS
+                ? t('trip.status.inProgress') || 'En Progreso'
+                : t('sharedTrip.waitingStart') || 'Por comenzar'}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {endedMessage && (
+        <Card className="mb-6 border-primary/50 bg-primary/5">
+          <CardContent className="pt-6 flex items-center gap-3">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+            <p className="text-sm">{endedMessage}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('passenger.route') || 'Ruta'}</CardTitle>
+              <CardDescription>
+                {t('sharedTrip.expiresAt', { time: new Date(shared.expiresAt).toLocaleString() }) ||
+                  `El enlace vence ${new Date(shared.expiresAt).toLocaleString()}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TripTrackingMap
+                trip={trip}
+                showCurrentLocation={false}
+                driverLatitude={lastLocation?.latitude}
+                driverLongitude={lastLocation?.longitude}
+                driverHeading={lastLocation?.heading}
+                breadcrumbs={breadcrumbs}
+                height="500px"
+              />
+              {!endedMessage && (
+                <div className="mt-4 flex items-center gap-2 text-sm text-muted-foreground">
+                  <Navigation className={`h-4 w-4 ${isLive ? 'text-green-600' : ''}`} />
+                  <span>
+                    {lastLocation
+                      ? t('passenger.driverLocationUpdated', { time: new Date(lastLocation.recordedAt).toLocaleTimeString() }) || `Ubicación del conductor actualizada a las ${new Date(lastLocation.recordedAt).toLocaleTimeString()}`
+                      : t('passenger.waitingDriverLocation') || 'Esperando la ubicación del conductor...'}
+                  </span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* ETA en tiempo real */}
+          {!endedMessage && eta && (
+            <Card className="border-primary/50 bg-primary/5">
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <Clock className="h-8 w-8 text-primary" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">
+                      {eta.target === 'ORIGIN'
+                        ? t('sharedTrip.driverArrivingIn') || 'El conductor llega a buscarle en'
+                        : t('passenger.arrivingAtDestinationIn') || 'Llegada al destino en'}
+                    </p>
+                    <p className="text-2xl font-bold">
+                      {eta.etaMinutes <= 1
+                        ? t('passenger.etaLessThanMinute') || 'menos de 1 min'
+                        : t('passenger.etaMinutes', { minutes: eta.etaMinutes }) || `${eta.etaMinutes} min`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(eta.estimatedArrivalAt).toLocaleTimeString()} · {(eta.distanceMeters / 1000).toFixed(1)} km
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Conductor y vehículo */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('sharedTrip.driverAndVehicle') || 'Conductor y vehículo'}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex items-center gap-2">
+                <User className="h-4 w-4 text-muted-foreground" />
+                <span>{trip.driverFirstName || t('sharedTrip.noDriver') || 'Conductor por asignar'}</span>
+              </div>
+              {trip.vehicle && (
+                <div className="flex items-center gap-2">
+                  <Car className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    {trip.vehicle.make} {trip.vehicle.model}{trip.vehicle.color ? ` · ${trip.vehicle.color}` : ''}
+                  </span>
+                  <Badge variant="outline" className="font-mono">{trip.vehicle.licensePlate}</Badge>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Origen y destino */}
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <MapPin className="h-4 w-4 text-green-600" />
+                  <span className="text-sm font-medium">{t('passenger.origin') || 'Origen'}</span>
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-2">{trip.originAddress}</p>
+              </div>
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <MapPin className="h-4 w-4 text-red-600" />
+                  <span className="text-sm font-medium">{t('passenger.destination') || 'Destino'}</span>
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-2">{trip.destinationAddress}</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,459 @@
+/**
+ * Página de configuración por país para administradores
+ * Estrategia de despacho, zonas de servicio, geocercas de inicio y fin de viaje (con los roles que autorizan
+ * excepciones) y assets Stellar aceptados. Se versiona aparte de las tarifas: cada cambio guarda una versión nueva que rige de inmediato
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { api } from '@/services/api'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowLeft, Plus, Trash2, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import type { CountrySettings, CountrySettingsSummary, CountrySettingsVersion, DispatchStrategy, GeofenceRule, ServiceArea, StellarAssetOption } from '@/types'
+import { UserRole } from '@/types'
+
+export default function AdminCountrySettings() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [countries, setCountries] = useState<CountrySettingsSummary[]>([])
+  const [country, setCountry] = useState('CL')
+  const [versions, setVersions] = useState<CountrySettingsVersion[]>([])
+  const [liveVersionId, setLiveVersionId] = useState<string | null>(null)
+  const [settings, setSettings] = useState<CountrySettings | null>(null)
+  const [notes, setNotes] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const loadSettings = useCallback(async (countryCode: string) => {
+    try {
+      const data = await api.getCountrySettings(countryCode)
+      setVersions(data.versions)
+      setLiveVersionId(data.liveVersionId)
+      setSettings(data.settings)
+      setNotes('')
+    } catch (error) {
+      console.error('Error loading country settings:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.countrySettings.loadError') || 'Error al cargar la configuración del país')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    const loadCountries = async () => {
+      try {
+        setCountries(await api.listCountrySettings())
+      } catch (error) {
+        console.error('Error loading countries:', error)
+      }
+    }
+    loadCountries()
+  }, [])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => loadSettings(country), 0)
+    return () => clearTimeout(timeoutId)
+  }, [country, loadSettings])
+
+  const updateSettings = (changes: Partial<CountrySettings>) => {
+    setSettings(prev => (prev ? { ...prev, ...changes } : prev))
+  }
+
+  const updateServiceArea = (index: number, changes: Partial<ServiceArea>) => {
+    if (!settings) return
+    updateSettings({
+      serviceAreas: settings.serviceAreas.map((area, i) => (i === index ? { ...area, ...changes } : area)),
+    })
+  }
+
+  const handleAddServiceArea = () => {
+    if (!settings) return
+    updateSettings({ serviceAreas: [...settings.serviceAreas, { name: '', latitude: 0, longitude: 0, radiusKm: 50 }] })
+  }
+
+  const handleRemoveServiceArea = (index: number) => {
+    if (!settings) return
+    updateSettings({ serviceAreas: settings.serviceAreas.filter((_, i) => i !== index) })
+  }
+
+  const updateStellarAsset = (index: number, changes: Partial<StellarAssetOption>) => {
+    if (!settings) return
+    updateSettings({
+      stellarAssets: settings.stellarAssets.map((asset, i) => {
+        if (i !== index) return asset
+        const updated = { ...asset, ...changes }
+        // XLM es el asset nativo: sin emisor ni paridad
+        return updated.code === 'XLM' ? { code: 'XLM', issuer: null } : updated
+      }),
+    })
+  }
+
+  const handleAddStellarAsset = () => {
+    if (!settings) return
+    updateSettings({ stellarAssets: [...settings.stellarAssets, { code: '', issuer: '', peggedTo: 'USD' }] })
+  }
+
+  const handleRemoveStellarAsset = (index: number) => {
+    if (!settings) return
+    updateSettings({ stellarAssets: settings.stellarAssets.filter((_, i) => i !== index) })
+  }
+
+  const handleSave = async () => {
+    if (!settings || isSubmitting) return
+
+    try {
+      setIsSubmitting(true)
+      const saved = await api.updateCountrySettings(country, { config: settings, notes })
+      toast.success(t('admin.countrySettings.saveSuccess', { version: saved.version }) || `Configuración v${saved.version} guardada`)
+      await loadSettings(country)
+    } catch (error) {
+      console.error('Error saving country settings:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.countrySettings.saveError') || 'Error al guardar la configuración')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>{t('common.loading') || 'Cargando...'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <Button
+        variant="ghost"
+        onClick={() => navigate('/admin/dashboard')}
+        className="mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        {t('common.back') || 'Volver'}
+      </Button>
+
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{t('admin.countrySettings.title') || 'Configuración del país'}</h1>
+          <p className="text-muted-foreground">
+            {t('admin.countrySettings.description') || 'Despacho, zonas de servicio, geocercas y assets Stellar de cada país. Se versionan aparte de las tarifas y cada cambio rige de inmediato.'}
+          </p>
+        </div>
+        <Select value={country} onValueChange={(value) => { setIsLoading(true); setCountry(value) }}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder={t('admin.countrySettings.country') || 'País'} />
+          </SelectTrigger>
+          <SelectContent>
+            {countries.map((c) => (
+              <SelectItem key={c.country} value={c.country}>
+                {c.country}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Historial de versiones */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>{t('admin.countrySettings.versions') || 'Historial'}</CardTitle>
+            {!liveVersionId && (
+              <CardDescription>
+                {t('admin.countrySettings.usingDefaults') || 'Sin versiones guardadas: rige la configuración por defecto'}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {versions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                {t('admin.countrySettings.noVersions') || 'Aún no hay cambios guardados'}
+              </p>
+            )}
+            {versions.map((version) => (
+              <div key={version.id} className="p-3 rounded-lg border">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">v{version.version}</span>
+                  {version.id === liveVersionId && (
+                    <Badge>{t('admin.countrySettings.live') || 'Vigente'}</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {new Date(version.createdAt).toLocaleString()}
+                </p>
+                {version.notes && <p className="text-xs mt-1">{version.notes}</p>}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {settings && (
+          <Card className="lg:col-span-2">
+            <CardContent className="space-y-6 pt-6">
+              {/* Despacho de viajes a los conductores */}
+              <div className="space-y-2">
+                <Label>{t('admin.countrySettings.dispatch') || 'Despacho'}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t('admin.countrySettings.dispatchDescription') || 'Cómo se ofrecen los viajes a los conductores cercanos. Si nadie acepta, se pasa a los siguientes y se amplía el radio'}
+                </p>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="dispatch-strategy">{t('admin.countrySettings.dispatchStrategy') || 'Estrategia'}</Label>
+                    <Select
+                      value={settings.dispatch.strategy}
+                      onValueChange={(value) => updateSettings({ dispatch: { ...settings.dispatch, strategy: value as DispatchStrategy } })}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger id="dispatch-strategy">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="BROADCAST">{t('admin.dispatch.broadcast') || 'Todos a la vez'}</SelectItem>
+                        <SelectItem value="WATERFALL">{t('admin.dispatch.waterfall') || 'Secuencial'}</SelectItem>
+                        <SelectItem value="BATCHED">{t('admin.dispatch.batched') || 'Por olas'}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dispatch-batch-size">{t('admin.countrySettings.dispatchBatchSize') || 'Conductores por ola'}</Label>
+                    <Input
+                      id="dispatch-batch-size"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={settings.dispatch.batchSize}
+                      onChange={(e) => updateSettings({ dispatch: { ...settings.dispatch, batchSize: Number(e.target.value) } })}
+                      disabled={isSubmitting || settings.dispatch.strategy !== 'BATCHED'}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Zonas de servicio: el país de un viaje es el de la zona de su origen */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{t('admin.countrySettings.serviceAreas') || 'Zonas de servicio'}</Label>
+                  <Button variant="outline" size="sm" onClick={handleAddServiceArea} disabled={isSubmitting}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    {t('admin.countrySettings.addServiceArea') || 'Agregar zona'}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t('admin.countrySettings.serviceAreasDescription') || 'Los viajes que salen de estas zonas se cotizan con las tarifas del país. Fuera de todas las zonas no se puede pedir un viaje'}
+                </p>
+                {settings.serviceAreas.length > 0 && (
+                  <div className="grid grid-cols-[1fr_6rem_6rem_5rem_2.5rem] gap-2 text-xs text-muted-foreground">
+                    <span>{t('admin.countrySettings.serviceAreaName') || 'Nombre'}</span>
+                    <span>{t('admin.countrySettings.serviceAreaLatitude') || 'Latitud'}</span>
+                    <span>{t('admin.countrySettings.serviceAreaLongitude') || 'Longitud'}</span>
+                    <span>{t('admin.countrySettings.serviceAreaRadius') || 'Radio (km)'}</span>
+                    <span />
+                  </div>
+                )}
+                {settings.serviceAreas.map((area, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_6rem_6rem_5rem_2.5rem] items-center gap-2">
+                    <Input
+                      value={area.name}
+                      onChange={(e) => updateServiceArea(index, { name: e.target.value })}
+                      disabled={isSubmitting}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={area.latitude}
+                      onChange={(e) => updateServiceArea(index, { latitude: Number(e.target.value) })}
+                      disabled={isSubmitting}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={area.longitude}
+                      onChange={(e) => updateServiceArea(index, { longitude: Number(e.target.value) })}
+                      disabled={isSubmitting}
+                    />
+                    <Input
+                      type="number"
+                      min="1"
+                      value={area.radiusKm}
+                      onChange={(e) => updateServiceArea(index, { radiusKm: Number(e.target.value) })}
+                      disabled={isSubmitting}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleRemoveServiceArea(index)} disabled={isSubmitting}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {/* Geocercas de inicio y fin del viaje */}
+              <div className="space-y-2">
+                <Label>{t('admin.countrySettings.geofence') || 'Geocercas de inicio y fin'}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t('admin.countrySettings.geofenceDescription') || 'Distancia máxima al origen para iniciar y al destino para completar, si el GPS es obligatorio y la precisión mínima aceptada'}
+                </p>
+                <div className="grid grid-cols-[8rem_1fr_1fr_8rem] gap-2 text-xs text-muted-foreground">
+                  <span />
+                  <span>{t('admin.countrySettings.geofenceRadius') || 'Radio (m)'}</span>
+                  <span>{t('admin.countrySettings.geofenceAccuracy') || 'Precisión máxima (m)'}</span>
+                  <span>{t('admin.countrySettings.geofenceRequireGps') || 'GPS obligatorio'}</span>
+                </div>
+                {([
+                  ['start', t('admin.countrySettings.geofenceStart') || 'Inicio'],
+                  ['completion', t('admin.countrySettings.geofenceCompletion') || 'Fin'],
+                ] as const).map(([stage, label]) => {
+                  const rule = settings.geofence[stage]
+                  const updateRule = (changes: Partial<GeofenceRule>) => {
+                    updateSettings({ geofence: { ...settings.geofence, [stage]: { ...rule, ...changes } } })
+                  }
+                  return (
+                    <div key={stage} className="grid grid-cols-[8rem_1fr_1fr_8rem] items-center gap-2">
+                      <span className="text-sm">{label}</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={rule.radiusMeters}
+                        onChange={(e) => updateRule({ radiusMeters: Number(e.target.value) })}
+                        disabled={isSubmitting}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        value={rule.maxAccuracyMeters}
+                        onChange={(e) => updateRule({ maxAccuracyMeters: Number(e.target.value) })}
+                        disabled={isSubmitting}
+                      />
+                      <input
+                        type="checkbox"
+                        checked={rule.requireGps}
+                        onChange={(e) => updateRule({ requireGps: e.target.checked })}
+                        disabled={isSubmitting}
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                    </div>
+                  )
+                })}
+                <p className="text-xs text-muted-foreground pt-2">
+                  {t('admin.countrySettings.geofenceOverrideRoles') || 'Pueden autorizar excepciones'}
+                </p>
+                <div className="flex flex-wrap gap-4">
+                  {([
+                    [UserRole.ADMIN, t('admin.countrySettings.geofenceRoleAdmin') || 'Administradores'],
+                    [UserRole.DISPATCHER, t('admin.countrySettings.geofenceRoleDispatcher') || 'Despacho'],
+                    [UserRole.SUPPORT, t('admin.countrySettings.geofenceRoleSupport') || 'Soporte'],
+                    [UserRole.OPERATOR, t('admin.countrySettings.geofenceRoleOperator') || 'Operadores'],
+                  ] as const).map(([role, label]) => (
+                    <label key={role} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={settings.geofence.overrideRoles.includes(role)}
+                        onChange={(e) => updateSettings({
+                          geofence: {
+                            ...settings.geofence,
+                            overrideRoles: e.target.checked
+                              ? [...settings.geofence.overrideRoles, role]
+                              : settings.geofence.overrideRoles.filter(r => r !== role),
+                          },
+                        })}
+                        disabled={isSubmitting}
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Assets Stellar aceptados para cobrar */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{t('admin.countrySettings.stellarAssets') || 'Assets Stellar aceptados'}</Label>
+                  <Button variant="outline" size="sm" onClick={handleAddStellarAsset} disabled={isSubmitting}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    {t('admin.countrySettings.addStellarAsset') || 'Agregar asset'}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t('admin.countrySettings.stellarAssetsDescription') || 'Assets con que los conductores pueden cobrar. XLM no lleva emisor; las stablecoins (p. ej. USDC) requieren la cuenta emisora y la moneda a la par con que se cotizan'}
+                </p>
+                {!liveVersionId && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('admin.countrySettings.stellarAssetsDefault') || 'Sin assets configurados: se aceptan los por defecto (XLM y USDC)'}
+                  </p>
+                )}
+                {settings.stellarAssets.length > 0 && (
+                  <div className="grid grid-cols-[6rem_1fr_5rem_2.5rem] gap-2 text-xs text-muted-foreground">
+                    <span>{t('admin.countrySettings.stellarAssetCode') || 'Código'}</span>
+                    <span>{t('admin.countrySettings.stellarAssetIssuer') || 'Emisor'}</span>
+                    <span>{t('admin.countrySettings.stellarAssetPeggedTo') || 'Paridad'}</span>
+                    <span />
+                  </div>
+                )}
+                {settings.stellarAssets.map((asset, index) => {
+                  const isNative = asset.code === 'XLM'
+                  return (
+                    <div key={index} className="grid grid-cols-[6rem_1fr_5rem_2.5rem] items-center gap-2">
+                      <Input
+                        value={asset.code}
+                        onChange={(e) => updateStellarAsset(index, { code: e.target.value.trim() })}
+                        disabled={isSubmitting}
+                        placeholder="USDC"
+                      />
+                      <Input
+                        value={asset.issuer ?? ''}
+                        onChange={(e) => updateStellarAsset(index, { issuer: e.target.value.trim() })}
+                        disabled={isSubmitting || isNative}
+                        placeholder={isNative ? t('admin.countrySettings.nativeAsset') || 'Asset nativo' : 'G...'}
+                        className="font-mono text-xs"
+                      />
+                      <Input
+                        value={asset.peggedTo ?? ''}
+                        onChange={(e) => updateStellarAsset(index, { peggedTo: e.target.value.trim().toUpperCase() })}
+                        disabled={isSubmitting || isNative}
+                        placeholder={isNative ? '—' : 'USD'}
+                      />
+                      {settings.stellarAssets.length > 1 ? (
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveStellarAsset(index)} disabled={isSubmitting}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      ) : <span />}
+                    </div>
+                  )
+                })}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="country-settings-notes">{t('admin.countrySettings.notes') || 'Notas'}</Label>
+                <Textarea
+                  id="country-settings-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  disabled={isSubmitting}
+                  placeholder={t('admin.countrySettings.notesPlaceholder') || 'Motivo del cambio'}
+                />
+              </div>
+
+              <div className="flex justify-end pt-2 border-t">
+                <Button onClick={handleSave} disabled={isSubmitting}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {t('admin.countrySettings.save') || 'Guardar nueva versión'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -14,7 +14,11 @@ import {
   XCircle,
   Settings,
   FileText,
-  Car
+  Car,
+  Zap,
+  Tags,
+  ShieldAlert,
+  MapPinned
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { api } from '@/services/api'
@@ -313,6 +317,90 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Zap className="h-5 w-5" />
+              {t('admin.manageSurge') || 'Tarifa Dinámica'}
+            </CardTitle>
+            <CardDescription>
+              {t('admin.surgeDescription') || 'Ver zonas con alta demanda y ajustar multiplicadores'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button 
+              variant="outline" 
+              className="w-full"
+              onClick={() => navigate('/admin/surge')}
+            >
+              {t('admin.viewSurge') || 'Ver Zonas'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              {t('admin.manageSafety') || 'Alertas de Seguridad'}
+            </CardTitle>
+            <CardDescription>
+              {t('admin.safetyDescription') || 'SOS, desvíos, detenciones y pérdidas de GPS en viajes en curso'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button 
+              variant="outline" 
+              className="w-full"
+              onClick={() => navigate('/admin/safety')}
+            >
+              {t('admin.viewSafety') || 'Ver Alertas'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tags className="h-5 w-5" />
+              {t('admin.managePricing') || 'Tarifas'}
+            </CardTitle>
+            <CardDescription>
+              {t('admin.pricingDescription') || 'Editar y publicar versiones de tarifas por país'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button 
+              variant="outline" 
+              className="w-full"
+              onClick={() => navigate('/admin/pricing')}
+            >
+              {t('admin.viewPricing') || 'Ver Tarifas'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPinned className="h-5 w-5" />
+              {t('admin.manageCountrySettings') || 'Configuración por país'}
+            </CardTitle>
+            <CardDescription>
+              {t('admin.countrySettingsDescription') || 'Despacho, zonas de servicio, geocercas y assets Stellar de cada país'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button 
+              variant="outline" 
+              className="w-full"
+              onClick={() => navigate('/admin/country-settings')}
+            >
+              {t('admin.viewCountrySettings') || 'Ver configuración'}
+            </Button>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
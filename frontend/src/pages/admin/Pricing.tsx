@@ -0,0 +1,751 @@
+/**
+ * Página de tarifas para administradores
+ * Historial de versiones por país, edición de borradores (tarifa base, tramos de distancia
+ * tarifas por clase de vehículo y política de cancelación), publicación con fecha de vigencia y comparación con la versión vigente
+ * Las geocercas y los assets Stellar se editan aparte, en la configuración del país
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { api } from '@/services/api'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowLeft, Plus, Trash2, Save, Send, Copy, Calculator, Settings } from 'lucide-react'
+import { toast } from 'sonner'
+import { FareBreakdown } from '@/components/trips/FareBreakdown'
+import { useCurrency } from '@/hooks/useCurrency'
+import type { FareAdjustmentMode, PriceBreakdown, PricingConfig, PricingCountry, PricingVersion, VehicleClassPricing } from '@/types'
+import { VehicleType } from '@/types'
+
+const VEHICLE_TYPES: VehicleType[] = [
+  VehicleType.SEDAN,
+  VehicleType.SUV,
+  VehicleType.VAN,
+  VehicleType.PICKUP,
+  VehicleType.OFF_ROAD,
+  VehicleType.LUXURY,
+  VehicleType.MOTORCYCLE,
+  VehicleType.OTHER,
+]
+
+export default function AdminPricing() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { formatAmount } = useCurrency()
+  const [countries, setCountries] = useState<PricingCountry[]>([])
+  const [country, setCountry] = useState('CL')
+  const [versions, setVersions] = useState<PricingVersion[]>([])
+  const [liveVersionId, setLiveVersionId] = useState<string | null>(null)
+  const [selectedVersion, setSelectedVersion] = useState<PricingVersion | null>(null)
+  const [config, setConfig] = useState<PricingConfig | null>(null)
+  const [notes, setNotes] = useState('')
+  const [effectiveFrom, setEffectiveFrom] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [sample, setSample] = useState({ distance: '10', duration: '20', vehicleType: 'ANY', stops: '0', scheduledAt: '' })
+  const [preview, setPreview] = useState<{ live: PriceBreakdown; draft: PriceBreakdown; liveVersion: number | null } | null>(null)
+
+  const isDraft = selectedVersion?.status !== 'PUBLISHED'
+
+  const selectVersion = (version: PricingVersion) => {
+    setSelectedVersion(version)
+    setConfig(version.config)
+    setNotes(version.notes || '')
+    setEffectiveFrom('')
+    setPreview(null)
+  }
+
+  const loadVersions = useCallback(async (countryCode: string, selectId?: string) => {
+    try {
+      const data = await api.getPricingVersions(countryCode)
+      setVersions(data.versions)
+      setLiveVersionId(data.liveVersionId)
+
+      // Seleccionar la versión pedida, la vigente o (sin versiones) las tarifas por defecto
+      const selected = data.versions.find(v => v.id === (selectId || data.liveVersionId)) || data.versions[0] || null
+      setSelectedVersion(selected)
+      setConfig(selected ? selected.config : data.defaults)
+      setNotes(selected?.notes || '')
+      setEffectiveFrom('')
+      setPreview(null)
+    } catch (error) {
+      console.error('Error loading pricing versions:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.pricing.loadError') || 'Error al cargar las tarifas')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    const loadCountries = async () => {
+      try {
+        setCountries(await api.getPricingCountries())
+      } catch (error) {
+        console.error('Error loading pricing countries:', error)
+      }
+    }
+    loadCountries()
+  }, [])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => loadVersions(country), 0)
+    return () => clearTimeout(timeoutId)
+  }, [country, loadVersions])
+
+  const updateConfig = (changes: Partial<PricingConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...changes } : prev))
+    setPreview(null)
+  }
+
+  const updateTier = (index: number, changes: { maxKm?: number | null; pricePerKm?: number }) => {
+    if (!config) return
+    updateConfig({ tiers: config.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)) })
+  }
+
+  const handleAddTier = () => {
+    if (!config) return
+    // El nuevo tramo se inserta antes del último (que no tiene límite)
+    const tiers = [...config.tiers]
+    const last = tiers.pop()
+    updateConfig({ tiers: [...tiers, { maxKm: 10, pricePerKm: last?.pricePerKm || 0 }, ...(last ? [last] : [])] })
+  }
+
+  const handleRemoveTier = (index: number) => {
+    if (!config || config.tiers.length <= 1) return
+    const tiers = config.tiers.filter((_, i) => i !== index)
+    tiers[tiers.length - 1] = { ...tiers[tiers.length - 1], maxKm: null }
+    updateConfig({ tiers })
+  }
+
+  const handleToggleVehicleClass = (type: VehicleType, offered: boolean) => {
+    if (!config) return
+    const vehicleClasses = { ...config.vehicleClasses }
+    if (offered) {
+      // Una clase nueva parte con la tarifa general del país
+      vehicleClasses[type] = { baseFare: config.basePrice, perKmMultiplier: 1, minimumFare: config.minimumFare }
+    } else {
+      delete vehicleClasses[type]
+    }
+    updateConfig({ vehicleClasses })
+  }
+
+  const updateVehicleClass = (type: VehicleType, changes: Partial<VehicleClassPricing>) => {
+    const current = config?.vehicleClasses[type]
+    if (!config || !current) return
+    updateConfig({ vehicleClasses: { ...config.vehicleClasses, [type]: { ...current, ...changes } } })
+  }
+
+  const handleCreateDraft = async (copyFromId?: string) => {
+    if (isSubmitting) return
+
+    try {
+      setIsSubmitting(true)
+      const draft = await api.createPricingDraft({ country, copyFromId })
+      toast.success(t('admin.pricing.draftCreated', { version: draft.version }) || `Borrador v${draft.version} creado`)
+      await loadVersions(country, draft.id)
+    } catch (error) {
+      console.error('Error creating pricing draft:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.pricing.createError') || 'Error al crear el borrador')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!selectedVersion || !config || isSubmitting) return
+
+    try {
+      setIsSubmitting(true)
+      const saved = await api.updatePricingDraft(selectedVersion.id, { config, notes })
+      toast.success(t('admin.pricing.saveSuccess') || 'Borrador guardado')
+      await loadVersions(country, saved.id)
+    } catch (error) {
+      console.error('Error saving pricing draft:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.pricing.saveError') || 'Error al guardar el borrador')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handlePublish = async () => {
+    if (!selectedVersion || !config || isSubmitting) return
+
+    const confirmMessage = effectiveFrom
+      ? t('admin.pricing.confirmPublishAt', { date: new Date(effectiveFrom).toLocaleString() }) ||
+        `¿Publicar esta versión? Regirá desde ${new Date(effectiveFrom).toLocaleString()}`
+      : t('admin.pricing.confirmPublish') || '¿Publicar esta versión? Regirá de inmediato para las nuevas cotizaciones'
+    if (!window.confirm(confirmMessage)) return
+
+    try {
+      setIsSubmitting(true)
+      // Guardar los cambios pendientes antes de publicar
+      await api.updatePricingDraft(selectedVersion.id, { config, notes })
+      const published = await api.publishPricingVersion(
+        selectedVersion.id,
+        effectiveFrom ? new Date(effectiveFrom).toISOString() : undefined
+      )
+      toast.success(t('admin.pricing.publishSuccess') || 'Versión publicada')
+      await loadVersions(country, published.id)
+    } catch (error) {
+      console.error('Error publishing pricing version:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.pricing.publishError') || 'Error al publicar la versión')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selectedVersion || isSubmitting) return
+    if (!window.confirm(t('admin.pricing.confirmDelete') || '¿Eliminar este borrador?')) return
+
+    try {
+      setIsSubmitting(true)
+      await api.deletePricingDraft(selectedVersion.id)
+      toast.success(t('admin.pricing.deleteSuccess') || 'Borrador eliminado')
+      await loadVersions(country)
+    } catch (error) {
+      console.error('Error deleting pricing draft:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.pricing.deleteError') || 'Error al eliminar el borrador')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!config || isSubmitting) return
+
+    const distance = parseFloat(sample.distance)
+    if (isNaN(distance) || distance < 0) {
+      toast.error(t('admin.pricing.invalidDistance') || 'Ingresa una distancia válida')
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      const result = await api.previewPricing({
+        country,
+        draftId: selectedVersion?.id,
+        config,
+        distance,
+        duration: parseFloat(sample.duration) || 0,
+        vehicleType: sample.vehicleType !== 'ANY' ? sample.vehicleType : undefined,
+        stops: parseInt(sample.stops) || 0,
+        scheduledAt: sample.scheduledAt ? new Date(sample.scheduledAt).toISOString() : undefined,
+      })
+      setPreview({ live: result.live, draft: result.draft, liveVersion: result.liveVersion })
+    } catch (error) {
+      console.error('Error previewing pricing:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.pricing.previewError') || 'Error al comparar las tarifas')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const getVehicleTypeLabel = (type: VehicleType): string => {
+    const labels: Record<VehicleType, string> = {
+      SEDAN: t('vehicle.sedan') || 'Sedán',
+      SUV: t('vehicle.suv') || 'SUV',
+      VAN: t('vehicle.van') || 'Van',
+      PICKUP: t('vehicle.pickup') || 'Pickup',
+      OFF_ROAD: t('vehicle.offRoad') || 'Todo Terreno',
+      LUXURY: t('vehicle.luxury') || 'Lujo',
+      MOTORCYCLE: t('vehicle.motorcycle') || 'Motocicleta',
+      OTHER: t('vehicle.other') || 'Otro',
+    }
+    return labels[type] || type
+  }
+
+  const getVersionBadge = (version: PricingVersion) => {
+    if (version.id === liveVersionId) {
+      return <Badge className="bg-green-500">{t('admin.pricing.live') || 'Vigente'}</Badge>
+    }
+    if (version.status === 'DRAFT') {
+      return <Badge variant="secondary">{t('admin.pricing.draft') || 'Borrador'}</Badge>
+    }
+    if (version.effectiveFrom && new Date(version.effectiveFrom) > new Date()) {
+      return <Badge variant="outline">{t('admin.pricing.scheduled') || 'Programada'}</Badge>
+    }
+    return <Badge variant="outline">{t('admin.pricing.archived') || 'Anterior'}</Badge>
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>{t('common.loading') || 'Cargando...'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const isEditable = !!selectedVersion && isDraft && !isSubmitting
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <Button
+        variant="ghost"
+        onClick={() => navigate('/admin/dashboard')}
+        className="mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        {t('common.back') || 'Volver'}
+      </Button>
+
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{t('admin.pricing.title') || 'Tarifas'}</h1>
+          <p className="text-muted-foreground">
+            {t('admin.pricing.description') || 'Edita borradores y publícalos con fecha de vigencia. Las versiones publicadas no se modifican.'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" onClick={() => navigate('/admin/country-settings')}>
+            <Settings className="h-4 w-4 mr-2" />
+            {t('admin.pricing.countrySettings') || 'Geocercas y assets Stellar'}
+          </Button>
+          <Select value={country} onValueChange={(value) => { setIsLoading(true); setCountry(value) }}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder={t('admin.pricing.country') || 'País'} />
+            </SelectTrigger>
+            <SelectContent>
+              {countries.map((c) => (
+                <SelectItem key={c.country} value={c.country}>
+                  {c.country} ({c.currency}) {c.liveVersion ? `· v${c.liveVersion}` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Historial de versiones */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>{t('admin.pricing.versions') || 'Versiones'}</CardTitle>
+            <CardDescription>
+              {liveVersionId
+                ? t('admin.pricing.versionsDescription') || 'La vigente es la última publicada cuya fecha ya comenzó'
+                : t('admin.pricing.usingDefaults') || 'Sin versiones publicadas: rigen las tarifas por defecto'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Button className="w-full mb-2" onClick={() => handleCreateDraft()} disabled={isSubmitting}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t('admin.pricing.newDraft') || 'Nuevo borrador'}
+            </Button>
+            {versions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                {t('admin.pricing.noVersions') || 'Aún no hay versiones para este país'}
+              </p>
+            )}
+            {versions.map((version) => (
+              <button
+                key={version.id}
+                type="button"
+                onClick={() => selectVersion(version)}
+                className={`w-full text-left p-3 rounded-md border ${selectedVersion?.id === version.id ? 'border-primary bg-primary/5' : 'hover:bg-muted'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">v{version.version}</span>
+                  {getVersionBadge(version)}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {version.effectiveFrom
+                    ? `${t('admin.pricing.effectiveFrom') || 'Vigente desde'}: ${new Date(version.effectiveFrom).toLocaleString()}`
+                    : `${t('admin.pricing.updatedAt') || 'Editado'}: ${new Date(version.updatedAt).toLocaleString()}`}
+                </p>
+                {version.notes && <p className="text-xs mt-1 truncate">{version.notes}</p>}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Editor */}
+          {config && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>
+                      {selectedVersion
+                        ? `${t('admin.pricing.version') || 'Versión'} ${selectedVersion.version}`
+                        : t('admin.pricing.defaults') || 'Tarifas por defecto'}
+                    </CardTitle>
+                    <CardDescription>
+                      {!selectedVersion
+                        ? t('admin.pricing.defaultsDescription') || 'Crea un borrador para modificarlas'
+                        : isDraft
+                          ? t('admin.pricing.draftDescription') || 'Borrador: los cambios no afectan las cotizaciones hasta publicarlo'
+                          : t('admin.pricing.publishedDescription') || 'Versión publicada: cópiala como borrador para modificarla'}
+                      {` · ${config.currency}`}
+                    </CardDescription>
+                  </div>
+                  {selectedVersion && !isDraft && (
+                    <Button variant="outline" size="sm" onClick={() => handleCreateDraft(selectedVersion.id)} disabled={isSubmitting}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      {t('admin.pricing.copyAsDraft') || 'Copiar como borrador'}
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* Tarifas fijas */}
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {([
+                    ['basePrice', t('admin.pricing.basePrice') || 'Tarifa base'],
+                    ['perMinute', t('admin.pricing.perMinute') || 'Por minuto'],
+                    ['stopFee', t('admin.pricing.stopFee') || 'Por parada'],
+                    ['minimumFare', t('admin.pricing.minimumFare') || 'Tarifa mínima'],
+                  ] as const).map(([field, label]) => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={`pricing-${field}`}>{label}</Label>
+                      <Input
+                        id={`pricing-${field}`}
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={config[field]}
+                        onChange={(e) => updateConfig({ [field]: Number(e.target.value) })}
+                        disabled={!isEditable}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {/* Tramos de distancia */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('admin.pricing.tiers') || 'Tramos de distancia'}</Label>
+                    {isEditable && (
+                      <Button variant="outline" size="sm" onClick={handleAddTier}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        {t('admin.pricing.addTier') || 'Agregar tramo'}
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t('admin.pricing.tiersDescription') || 'Cada tramo cubre los km indicados; el último no tiene límite'}
+                  </p>
+                  {config.tiers.map((tier, index) => {
+                    const isLast = index === config.tiers.length - 1
+                    return (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          placeholder={isLast ? t('admin.pricing.unlimited') || 'Sin límite' : 'km'}
+                          value={isLast || tier.maxKm === null ? '' : tier.maxKm}
+                          onChange={(e) => updateTier(index, { maxKm: Number(e.target.value) })}
+                          disabled={!isEditable || isLast}
+                          aria-label={t('admin.pricing.tierKm') || 'Km del tramo'}
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={tier.pricePerKm}
+                          onChange={(e) => updateTier(index, { pricePerKm: Number(e.target.value) })}
+                          disabled={!isEditable}
+                          aria-label={t('admin.pricing.pricePerKm') || 'Precio por km'}
+                        />
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">/ km</span>
+                        {isEditable && config.tiers.length > 1 && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRemoveTier(index)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+
+                {/* Tarifas por clase de vehículo */}
+                <div className="space-y-2">
+                  <Label>{t('admin.pricing.vehicleClasses') || 'Clases de vehículo'}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t('admin.pricing.vehicleClassesDescription') || 'Solo las clases marcadas se ofrecen en el país. El multiplicador se aplica al precio por distancia'}
+                  </p>
+                  <div className="grid grid-cols-[8rem_1fr_1fr_1fr] gap-2 text-xs text-muted-foreground">
+                    <span />
+                    <span>{t('admin.pricing.classBaseFare') || 'Tarifa base'}</span>
+                    <span>{t('admin.pricing.classPerKmMultiplier') || 'Multiplicador km'}</span>
+                    <span>{t('admin.pricing.classMinimumFare') || 'Tarifa mínima'}</span>
+                  </div>
+                  {VEHICLE_TYPES.map((type) => {
+                    const vehicleClass = config.vehicleClasses[type]
+                    return (
+                      <div key={type} className="grid grid-cols-[8rem_1fr_1fr_1fr] items-center gap-2">
+                        <label className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={!!vehicleClass}
+                            onChange={(e) => handleToggleVehicleClass(type, e.target.checked)}
+                            disabled={!isEditable}
+                            className="h-4 w-4 rounded border-gray-300"
+                          />
+                          {getVehicleTypeLabel(type)}
+                        </label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={vehicleClass?.baseFare ?? ''}
+                          onChange={(e) => updateVehicleClass(type, { baseFare: parseFloat(e.target.value) || 0 })}
+                          disabled={!isEditable || !vehicleClass}
+                        />
+                        <Input
+                          type="number"
+                          step="0.05"
+                          min="0.05"
+                          value={vehicleClass?.perKmMultiplier ?? ''}
+                          onChange={(e) => updateVehicleClass(type, { perKmMultiplier: parseFloat(e.target.value) || 0 })}
+                          disabled={!isEditable || !vehicleClass}
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          value={vehicleClass?.minimumFare ?? ''}
+                          onChange={(e) => updateVehicleClass(type, { minimumFare: parseFloat(e.target.value) || 0 })}
+                          disabled={!isEditable || !vehicleClass}
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+
+                {/* Política de cancelación */}
+                <div className="space-y-2">
+                  <Label>{t('admin.pricing.cancellation') || 'Política de cancelación'}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t('admin.pricing.cancellationDescription') || 'Cargos al pasajero según la etapa del viaje y penalización al conductor que cancela un viaje aceptado o cargo al pasajero que no se presenta'}
+                  </p>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    {([
+                      ['freeWindowMinutes', t('admin.pricing.cancellationFreeWindow') || 'Minutos gratis tras la aceptación'],
+                      ['scheduledFreeMinutes', t('admin.pricing.cancellationScheduledFree') || 'Programados: gratis hasta (min antes)'],
+                      ['enRouteFee', t('admin.pricing.cancellationEnRouteFee') || 'Cargo con conductor en camino'],
+                      ['arrivedFee', t('admin.pricing.cancellationArrivedFee') || 'Cargo con conductor en el origen'],
+                      ['arrivalRadiusMeters', t('admin.pricing.cancellationArrivalRadius') || 'Radio de llegada (m)'],
+                      ['driverPenalty', t('admin.pricing.cancellationDriverPenalty') || 'Penalización al conductor'],
+                      ['noShowGraceMinutes', t('admin.pricing.cancellationNoShowGrace') || 'Espera antes de no presentación (min)'],
+                      ['noShowFee', t('admin.pricing.cancellationNoShowFee') || 'Cargo por no presentación'],
+                    ] as const).map(([field, label]) => (
+                      <div key={field} className="space-y-2">
+                        <Label htmlFor={`cancellation-${field}`}>{label}</Label>
+                        <Input
+                          id={`cancellation-${field}`}
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={config.cancellation[field]}
+                          onChange={(e) => updateConfig({ cancellation: { ...config.cancellation, [field]: Number(e.target.value) } })}
+                          disabled={!isEditable}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Ajuste de la tarifa al recorrido real */}
+                <div className="space-y-2">
+                  <Label>{t('admin.pricing.fareAdjustment') || 'Ajuste por recorrido real'}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t('admin.pricing.fareAdjustmentDescription') || 'Cómo cambia el precio cotizado al completar el viaje según la distancia y duración reales. Los viajes con diferencias sobre el umbral se marcan para revisión'}
+                  </p>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="fare-adjustment-mode">{t('admin.pricing.fareAdjustmentMode') || 'Política'}</Label>
+                      <Select
+                        value={config.fareAdjustment?.mode ?? 'CAPPED'}
+                        onValueChange={(mode) => updateConfig({ fareAdjustment: { ...config.fareAdjustment, mode: mode as FareAdjustmentMode } })}
+                        disabled={!isEditable}
+                      >
+                        <SelectTrigger id="fare-adjustment-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="QUOTED">{t('admin.pricing.fareAdjustmentQuoted') || 'Mantener lo cotizado'}</SelectItem>
+                          <SelectItem value="ACTUAL">{t('admin.pricing.fareAdjustmentActual') || 'Recalcular con el recorrido real'}</SelectItem>
+                          <SelectItem value="CAPPED">{t('admin.pricing.fareAdjustmentCapped') || 'Recalcular con tope'}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {([
+                      ['maxIncreasePercent', t('admin.pricing.fareAdjustmentMaxIncrease') || 'Alza máxima (%)'],
+                      ['maxDecreasePercent', t('admin.pricing.fareAdjustmentMaxDecrease') || 'Baja máxima (%)'],
+                      ['reviewThresholdPercent', t('admin.pricing.fareAdjustmentReviewThreshold') || 'Umbral de revisión (%)'],
+                    ] as const).map(([field, label]) => (
+                      <div key={field} className="space-y-2">
+                        <Label htmlFor={`fare-adjustment-${field}`}>{label}</Label>
+                        <Input
+                          id={`fare-adjustment-${field}`}
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={config.fareAdjustment?.[field] ?? ''}
+                          onChange={(e) => updateConfig({ fareAdjustment: { ...config.fareAdjustment, [field]: Number(e.target.value) } })}
+                          disabled={!isEditable || (field !== 'reviewThresholdPercent' && config.fareAdjustment?.mode !== 'CAPPED')}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {selectedVersion && (
+                  <div className="space-y-2">
+                    <Label htmlFor="pricing-notes">{t('admin.pricing.notes') || 'Notas'}</Label>
+                    <Textarea
+                      id="pricing-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      disabled={!isEditable}
+                      placeholder={t('admin.pricing.notesPlaceholder') || 'Motivo del cambio'}
+                    />
+                  </div>
+                )}
+
+                {selectedVersion && isDraft && (
+                  <div className="flex flex-wrap items-end gap-2 pt-2 border-t">
+                    <div className="space-y-2">
+                      <Label htmlFor="pricing-effective-from">{t('admin.pricing.effectiveFrom') || 'Vigente desde'}</Label>
+                      <Input
+                        id="pricing-effective-from"
+                        type="datetime-local"
+                        value={effectiveFrom}
+                        onChange={(e) => setEffectiveFrom(e.target.value)}
+                        disabled={isSubmitting}
+                      />
+                    </div>
+                    <Button variant="outline" onClick={handleSave} disabled={isSubmitting}>
+                      <Save className="h-4 w-4 mr-1" />
+                      {t('common.save') || 'Guardar'}
+                    </Button>
+                    <Button onClick={handlePublish} disabled={isSubmitting}>
+                      <Send className="h-4 w-4 mr-1" />
+                      {t('admin.pricing.publish') || 'Publicar'}
+                    </Button>
+                    <Button variant="destructive" onClick={handleDelete} disabled={isSubmitting}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      {t('common.delete') || 'Eliminar'}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Comparación con la versión vigente */}
+          {selectedVersion && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Calculator className="h-5 w-5" />
+                  {t('admin.pricing.preview') || 'Comparar con la versión vigente'}
+                </CardTitle>
+                <CardDescription>
+                  {t('admin.pricing.previewDescription') || 'Calcula un viaje de ejemplo con esta versión (incluye cambios sin guardar) y con la vigente'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-distance">{t('admin.pricing.sampleDistance') || 'Distancia (km)'}</Label>
+                    <Input
+                      id="sample-distance"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={sample.distance}
+                      onChange={(e) => setSample(prev => ({ ...prev, distance: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-duration">{t('admin.pricing.sampleDuration') || 'Duración (min)'}</Label>
+                    <Input
+                      id="sample-duration"
+                      type="number"
+                      min="0"
+                      value={sample.duration}
+                      onChange={(e) => setSample(prev => ({ ...prev, duration: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-stops">{t('admin.pricing.sampleStops') || 'Paradas'}</Label>
+                    <Input
+                      id="sample-stops"
+                      type="number"
+                      min="0"
+                      value={sample.stops}
+                      onChange={(e) => setSample(prev => ({ ...prev, stops: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t('admin.pricing.sampleVehicle') || 'Vehículo'}</Label>
+                    <Select value={sample.vehicleType} onValueChange={(value) => setSample(prev => ({ ...prev, vehicleType: value }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ANY">{t('admin.pricing.anyVehicle') || 'Cualquiera'}</SelectItem>
+                        {VEHICLE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{getVehicleTypeLabel(type)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="sample-scheduled-at">{t('admin.pricing.samplePickup') || 'Hora de recogida (vacío = ahora)'}</Label>
+                    <Input
+                      id="sample-scheduled-at"
+                      type="datetime-local"
+                      value={sample.scheduledAt}
+                      onChange={(e) => setSample(prev => ({ ...prev, scheduledAt: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <Button onClick={handlePreview} disabled={isSubmitting}>
+                  <Calculator className="h-4 w-4 mr-2" />
+                  {t('admin.pricing.runPreview') || 'Comparar'}
+                </Button>
+
+                {preview && (
+                  <div className="grid gap-4 md:grid-cols-2 pt-2 border-t">
+                    {([
+                      [`v${selectedVersion.version}`, preview.draft],
+                      [
+                        `${t('admin.pricing.live') || 'Vigente'} (${preview.liveVersion ? `v${preview.liveVersion}` : t('admin.pricing.defaults') || 'Tarifas por defecto'})`,
+                        preview.live,
+                      ],
+                    ] as const).map(([title, breakdown]) => (
+                      <div key={title} className="space-y-2">
+                        <p className="font-medium">{title}</p>
+                        <FareBreakdown lineItems={breakdown.lineItems} currency={breakdown.currency} />
+                        <div className="flex justify-between pt-2 border-t font-semibold">
+                          <span>{t('admin.pricing.total') || 'Total'}</span>
+                          <span>{formatAmount(breakdown.totalPrice, breakdown.currency)}</span>
+                        </div>
+                      </div>
+                    ))}
+                    <p className="md:col-span-2 text-sm text-muted-foreground">
+                      {t('admin.pricing.difference') || 'Diferencia'}:{' '}
+                      {formatAmount(preview.draft.totalPrice - preview.live.totalPrice, preview.draft.currency)}
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,266 @@
+/**
+ * Página de alertas de seguridad de viajes para administradores
+ * Muestra primero los SOS activos; luego los desvíos, detenciones prolongadas y pérdidas de GPS
+ * detectados durante los viajes, con la respuesta del pasajero, la instantánea del viaje al escalar y la resolución
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { api } from '@/services/api'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowLeft, RefreshCw, ShieldAlert, ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { SosIncidents } from '@/components/trips/SosIncidents'
+import type { SafetyAlertStatus, SafetyAlertType, StaffSafetyAlert } from '@/types'
+
+// Frecuencia de actualización de la lista (las alertas llegan desde el monitoreo cada minuto)
+const REFRESH_INTERVAL_MS = 30000
+
+export default function AdminSafetyAlerts() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [alerts, setAlerts] = useState<StaffSafetyAlert[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<SafetyAlertStatus | 'all'>('ESCALATED')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const data = await api.getSafetyAlerts({
+        limit: 50,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+      })
+      setAlerts(data.alerts)
+    } catch (error) {
+      console.error('Error loading safety alerts:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.safety.loadError') || 'Error al cargar las alertas')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [statusFilter, t])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(loadAlerts, 0)
+    const interval = setInterval(loadAlerts, REFRESH_INTERVAL_MS)
+    return () => {
+      clearTimeout(timeoutId)
+      clearInterval(interval)
+    }
+  }, [loadAlerts])
+
+  const handleResolve = async (alert: StaffSafetyAlert) => {
+    const note = notes[alert.id]?.trim()
+    if (!note || resolvingId) return
+
+    try {
+      setResolvingId(alert.id)
+      await api.resolveSafetyAlert(alert.id, note)
+      toast.success(t('admin.safety.resolved') || 'Alerta resuelta')
+      setNotes(current => ({ ...current, [alert.id]: '' }))
+      await loadAlerts()
+    } catch (error) {
+      console.error('Error resolving safety alert:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.safety.resolveError') || 'Error al resolver la alerta')
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  const getTypeLabel = (type: SafetyAlertType) => {
+    switch (type) {
+      case 'ROUTE_DEVIATION':
+        return t('admin.safety.type.routeDeviation') || 'Desvío de ruta'
+      case 'LONG_STOP':
+        return t('admin.safety.type.longStop') || 'Detención prolongada'
+      case 'GPS_LOST':
+        return t('admin.safety.type.gpsLost') || 'Sin GPS'
+    }
+  }
+
+  const getStatusBadge = (status: SafetyAlertStatus) => {
+    const statusMap: Record<SafetyAlertStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+      AWAITING_PASSENGER: { label: t('admin.safety.status.awaiting') || 'Esperando al pasajero', variant: 'outline' },
+      PASSENGER_OK: { label: t('admin.safety.status.passengerOk') || 'Pasajero bien', variant: 'secondary' },
+      ESCALATED: { label: t('admin.safety.status.escalated') || 'Escalada', variant: 'destructive' },
+      RESOLVED: { label: t('admin.safety.status.resolved') || 'Resuelta', variant: 'secondary' },
+    }
+    const statusInfo = statusMap[status]
+    return <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>
+  }
+
+  const getDetails = (alert: StaffSafetyAlert) => {
+    const { details } = alert
+    switch (alert.type) {
+      case 'ROUTE_DEVIATION':
+        return t('admin.safety.details.routeDeviation', { distance: details.distanceToRouteMeters })
+          || `A ${details.distanceToRouteMeters}m de la ruta planificada`
+      case 'LONG_STOP':
+        return t('admin.safety.details.longStop', { minutes: details.stoppedMinutes })
+          || `Detenido ${details.stoppedMinutes} min`
+      case 'GPS_LOST':
+        return t('admin.safety.details.gpsLost', { minutes: details.minutesWithoutGps })
+          || `${details.minutesWithoutGps} min sin posiciones del conductor`
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>{t('common.loading') || 'Cargando...'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <Button
+        variant="ghost"
+        onClick={() => navigate('/admin/dashboard')}
+        className="mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        {t('common.back') || 'Volver'}
+      </Button>
+
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{t('admin.safety.title') || 'Alertas de Seguridad'}</h1>
+          <p className="text-muted-foreground">
+            {t('admin.safety.description') || 'Desvíos, detenciones prolongadas y pérdidas de GPS durante los viajes.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <div className="w-[200px]">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SafetyAlertStatus | 'all')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('admin.allStatuses') || 'Todos'}</SelectItem>
+                <SelectItem value="ESCALATED">{t('admin.safety.status.escalated') || 'Escalada'}</SelectItem>
+                <SelectItem value="AWAITING_PASSENGER">{t('admin.safety.status.awaiting') || 'Esperando al pasajero'}</SelectItem>
+                <SelectItem value="PASSENGER_OK">{t('admin.safety.status.passengerOk') || 'Pasajero bien'}</SelectItem>
+                <SelectItem value="RESOLVED">{t('admin.safety.status.resolved') || 'Resuelta'}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={loadAlerts}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {t('admin.safety.refresh') || 'Actualizar'}
+          </Button>
+        </div>
+      </div>
+
+      <SosIncidents />
+
+      {alerts.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center py-12">
+              <ShieldCheck className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">{t('admin.safety.noAlerts') || 'No hay alertas'}</h3>
+              <p className="text-muted-foreground">
+                {t('admin.safety.noAlertsDescription') || 'Los viajes en curso se revisan cada minuto.'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {alerts.map((alert) => (
+            <Card key={alert.id} className={alert.status === 'ESCALATED' ? 'border-destructive/50' : undefined}>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <ShieldAlert className="h-5 w-5" />
+                      {getTypeLabel(alert.type)} · {alert.trip.tripNumber}
+                    </CardTitle>
+                    <CardDescription>
+                      {new Date(alert.createdAt).toLocaleString()} · {getDetails(alert)}
+                    </CardDescription>
+                  </div>
+                  {getStatusBadge(alert.status)}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="grid gap-2 md:grid-cols-2">
+                  <p>
+                    <span className="text-muted-foreground">{t('admin.safety.passenger') || 'Pasajero'}: </span>
+                    {alert.trip.passenger ? `${alert.trip.passenger.name} ${alert.trip.passenger.phone || ''}` : '—'}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">{t('admin.safety.driver') || 'Conductor'}: </span>
+                    {alert.trip.driver ? `${alert.trip.driver.name} ${alert.trip.driver.phone || ''}` : '—'}
+                  </p>
+                  <p className="md:col-span-2 text-muted-foreground">
+                    {alert.trip.originAddress} → {alert.trip.destinationAddress}
+                  </p>
+                  {alert.snapshot?.vehicle && (
+                    <p>
+                      <span className="text-muted-foreground">{t('admin.safety.vehicle') || 'Vehículo'}: </span>
+                      {alert.snapshot.vehicle.make} {alert.snapshot.vehicle.model} · {alert.snapshot.vehicle.licensePlate}
+                    </p>
+                  )}
+                  {alert.latitude !== null && alert.longitude !== null && (
+                    <p>
+                      <span className="text-muted-foreground">{t('admin.safety.lastPosition') || 'Última posición'}: </span>
+                      <a
+                        className="underline"
+                        href={`https://www.google.com/maps?q=${alert.latitude},${alert.longitude}`}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        {alert.latitude.toFixed(5)}, {alert.longitude.toFixed(5)}
+                      </a>
+                    </p>
+                  )}
+                </div>
+
+                <p>
+                  <span className="text-muted-foreground">{t('admin.safety.passengerResponse') || 'Respuesta del pasajero'}: </span>
+                  {alert.passengerResponse === 'OK'
+                    ? t('admin.safety.responseOk') || 'Está bien'
+                    : alert.passengerResponse === 'HELP'
+                      ? t('admin.safety.responseHelp') || 'Pidió ayuda'
+                      : t('admin.safety.noResponse') || 'Sin respuesta'}
+                </p>
+
+                {alert.status === 'RESOLVED' ? (
+                  <p className="text-muted-foreground">
+                    {alert.resolvedBy?.name} · {alert.resolvedAt && new Date(alert.resolvedAt).toLocaleString()} · {alert.resolutionNote}
+                  </p>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={t('admin.safety.resolutionNote') || 'Qué se hizo (p. ej. se contactó al conductor)'}
+                      value={notes[alert.id] || ''}
+                      onChange={(e) => setNotes(current => ({ ...current, [alert.id]: e.target.value }))}
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResolve(alert)}
+                      disabled={resolvingId === alert.id || !notes[alert.id]?.trim()}
+                    >
+                      {t('admin.safety.resolve') || 'Resolver'}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+/**
+ * Página de tarifa dinámica para administradores
+ * Muestra la demanda y oferta de cada zona y permite fijar o quitar multiplicadores
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { api } from '@/services/api'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ArrowLeft, RefreshCw, Zap, Plus, X } from 'lucide-react'
+import { toast } from 'sonner'
+import type { SurgeCell } from '@/types'
+
+export default function AdminSurge() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [cells, setCells] = useState<SurgeCell[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isOverrideDialogOpen, setIsOverrideDialogOpen] = useState(false)
+  const [selectedCell, setSelectedCell] = useState<SurgeCell | null>(null)
+  const [latitude, setLatitude] = useState('')
+  const [longitude, setLongitude] = useState('')
+  const [multiplier, setMultiplier] = useState('1.5')
+  const [expiresInMinutes, setExpiresInMinutes] = useState('60')
+
+  const loadCells = useCallback(async () => {
+    try {
+      setCells(await api.getSurgeCells())
+    } catch (error) {
+      console.error('Error loading surge cells:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.surge.loadError') || 'Error al cargar las zonas')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(loadCells, 0)
+    return () => clearTimeout(timeoutId)
+  }, [loadCells])
+
+  const handleRecompute = async () => {
+    if (isSubmitting) return
+
+    try {
+      setIsSubmitting(true)
+      const result = await api.recomputeSurge()
+      toast.success(t('admin.surge.recomputeSuccess', { surging: result.surging }) || `Zonas con recargo: ${result.surging}`)
+      await loadCells()
+    } catch (error) {
+      console.error('Error recomputing surge:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.surge.recomputeError') || 'Error al recalcular')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenOverrideDialog = (cell: SurgeCell | null) => {
+    setSelectedCell(cell)
+    setLatitude('')
+    setLongitude('')
+    setMultiplier(cell ? cell.effectiveMultiplier.toFixed(1) : '1.5')
+    setExpiresInMinutes('60')
+    setIsOverrideDialogOpen(true)
+  }
+
+  const handleSetOverride = async () => {
+    if (isSubmitting) return
+
+    const value = parseFloat(multiplier)
+    if (isNaN(value) || value < 1) {
+      toast.error(t('admin.surge.invalidMultiplier') || 'El multiplicador debe ser mayor o igual a 1')
+      return
+    }
+
+    const lat = parseFloat(latitude)
+    const lng = parseFloat(longitude)
+    if (!selectedCell && (isNaN(lat) || isNaN(lng))) {
+      toast.error(t('admin.surge.invalidLocation') || 'Indica la latitud y longitud de la zona')
+      return
+    }
+
+    const minutes = parseInt(expiresInMinutes)
+
+    try {
+      setIsSubmitting(true)
+      await api.setSurgeOverride({
+        cellId: selectedCell?.id,
+        latitude: selectedCell ? undefined : lat,
+        longitude: selectedCell ? undefined : lng,
+        multiplier: value,
+        expiresInMinutes: minutes > 0 ? minutes : undefined,
+      })
+      toast.success(t('admin.surge.overrideSuccess') || 'Multiplicador fijado')
+      setIsOverrideDialogOpen(false)
+      await loadCells()
+    } catch (error) {
+      console.error('Error setting surge override:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.surge.overrideError') || 'Error al fijar el multiplicador')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleClearOverride = async (cell: SurgeCell) => {
+    if (isSubmitting) return
+
+    try {
+      setIsSubmitting(true)
+      await api.clearSurgeOverride(cell.id)
+      toast.success(t('admin.surge.clearSuccess') || 'Multiplicador eliminado')
+      await loadCells()
+    } catch (error) {
+      console.error('Error clearing surge override:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.surge.clearError') || 'Error al quitar el multiplicador')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>{t('common.loading') || 'Cargando...'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <Button
+        variant="ghost"
+        onClick={() => navigate('/admin/dashboard')}
+        className="mb-6"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        {t('common.back') || 'Volver'}
+      </Button>
+
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{t('admin.surge.title') || 'Tarifa Dinámica'}</h1>
+          <p className="text-muted-foreground">
+            {t('admin.surge.description') || 'Demanda y oferta por zona. El multiplicador se recalcula cada minuto.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRecompute} disabled={isSubmitting}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {t('admin.surge.recompute') || 'Recalcular'}
+          </Button>
+          <Button onClick={() => handleOpenOverrideDialog(null)} disabled={isSubmitting}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t('admin.surge.newOverride') || 'Fijar zona'}
+          </Button>
+        </div>
+      </div>
+
+      {cells.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center py-12">
+              <Zap className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">{t('admin.surge.noCells') || 'No hay zonas con demanda'}</h3>
+              <p className="text-muted-foreground">
+                {t('admin.surge.noCellsDescription') || 'Las zonas aparecen cuando hay viajes esperando conductor.'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {cells.map((cell) => (
+            <Card key={cell.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="text-lg">x{cell.effectiveMultiplier.toFixed(1)}</CardTitle>
+                    <CardDescription>
+                      {cell.latitude.toFixed(3)}, {cell.longitude.toFixed(3)}
+                      {cell.country && ` • ${cell.country}`}
+                    </CardDescription>
+                  </div>
+                  {cell.isOverridden ? (
+                    <Badge variant="secondary">{t('admin.surge.overridden') || 'Fijado'}</Badge>
+                  ) : cell.effectiveMultiplier > 1 ? (
+                    <Badge variant="default" className="bg-amber-500">
+                      <Zap className="h-3 w-3 mr-1" />
+                      {t('admin.surge.surging') || 'Alta demanda'}
+                    </Badge>
+                  ) : null}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 mb-4 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{t('admin.surge.demand') || 'Viajes esperando'}</span>
+                    <span>{cell.demand}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{t('admin.surge.supply') || 'Conductores disponibles'}</span>
+                    <span>{cell.supply}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{t('admin.surge.computed') || 'Multiplicador calculado'}</span>
+                    <span>x{cell.computedMultiplier.toFixed(1)}</span>
+                  </div>
+                  {cell.isOverridden && (
+                    <div className="text-xs text-muted-foreground">
+                      {cell.overrideUntil
+                        ? `${t('admin.surge.overrideUntil') || 'Fijado hasta:'} ${new Date(cell.overrideUntil).toLocaleString()}`
+                        : t('admin.surge.overrideIndefinite') || 'Fijado sin vencimiento'}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => handleOpenOverrideDialog(cell)}
+                    disabled={isSubmitting}
+                  >
+                    {t('admin.surge.setOverride') || 'Fijar'}
+                  </Button>
+                  {cell.isOverridden && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      className="flex-1"
+                      onClick={() => handleClearOverride(cell)}
+                      disabled={isSubmitting}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      {t('admin.surge.clearOverride') || 'Quitar'}
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Dialog para fijar el multiplicador de una zona */}
+      <Dialog open={isOverrideDialogOpen} onOpenChange={setIsOverrideDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('admin.surge.overrideTitle') || 'Fijar multiplicador'}</DialogTitle>
+            <DialogDescription>
+              {t('admin.surge.overrideDescription') || 'Reemplaza el multiplicador calculado de la zona. Usa 1 para desactivar el recargo.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {!selectedCell && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="surge-latitude">{t('admin.surge.latitude') || 'Latitud'}</Label>
+                  <Input
+                    id="surge-latitude"
+                    type="number"
+                    step="any"
+                    value={latitude}
+                    onChange={(e) => setLatitude(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="surge-longitude">{t('admin.surge.longitude') || 'Longitud'}</Label>
+                  <Input
+                    id="surge-longitude"
+                    type="number"
+                    step="any"
+                    value={longitude}
+                    onChange={(e) => setLongitude(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="surge-multiplier">{t('admin.surge.multiplier') || 'Multiplicador'}</Label>
+              <Input
+                id="surge-multiplier"
+                type="number"
+                step="0.1"
+                min="1"
+                value={multiplier}
+                onChange={(e) => setMultiplier(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="surge-expires">{t('admin.surge.expiresInMinutes') || 'Duración (minutos, vacío = sin vencimiento)'}</Label>
+              <Input
+                id="surge-expires"
+                type="number"
+                min="1"
+                value={expiresInMinutes}
+                onChange={(e) => setExpiresInMinutes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOverrideDialogOpen(false)} disabled={isSubmitting}>
+              {t('common.cancel') || 'Cancelar'}
+            </Button>
+            <Button onClick={handleSetOverride} disabled={isSubmitting}>
+              {t('admin.surge.setOverride') || 'Fijar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
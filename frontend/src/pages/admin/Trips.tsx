@@ -25,11 +25,16 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { toast } from 'sonner'
-import { Search, MapPin, DollarSign, User, Phone, ArrowRight, Eye, Car } from 'lucide-react'
+import { Search, MapPin, DollarSign, User, Phone, ArrowRight, Eye, Car, AlertTriangle } from 'lucide-react'
 import type { Trip } from '@/types'
 import { TripStatus } from '@/types'
 import { api } from '@/services/api'
 import { useCurrency } from '@/hooks/useCurrency'
+import { TripDispatchLog } from '@/components/trips/TripDispatchLog'
+import { TripTimeline } from '@/components/trips/TripTimeline'
+import { RouteComparison } from '@/components/trips/RouteComparison'
+import { GeofenceOverrides } from '@/components/trips/GeofenceOverrides'
+import type { TripTimeline as TripTimelineData } from '@/types'
 
 interface TripsListResponse {
   trips: Trip[]
@@ -51,8 +56,12 @@ export default function AdminTrips() {
   const [totalPages, setTotalPages] = useState(1)
   const [search, setSearch] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>(searchParams.get('status') || 'all')
+  const [fareReviewFilter, setFareReviewFilter] = useState<string>('all')
+  const [fareReviewNote, setFareReviewNote] = useState('')
+  const [isResolvingFareReview, setIsResolvingFareReview] = useState(false)
   const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null)
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false)
+  const [timeline, setTimeline] = useState<TripTimelineData | null>(null)
   const [isAssignDriverDialogOpen, setIsAssignDriverDialogOpen] = useState(false)
   const [convertedPrices, setConvertedPrices] = useState<Record<string, string>>({})
   const [availableDrivers, setAvailableDrivers] = useState<Array<{
@@ -82,6 +91,9 @@ export default function AdminTrips() {
       if (statusFilter !== 'all') {
         options.status = statusFilter
       }
+      if (fareReviewFilter !== 'all') {
+        options.fareReviewStatus = fareReviewFilter
+      }
       if (search) {
         options.search = search
       }
@@ -103,7 +115,7 @@ export default function AdminTrips() {
     } finally {
       setIsLoading(false)
     }
-  }, [page, statusFilter, search, formatConvertedAmount])
+  }, [page, statusFilter, fareReviewFilter, search, formatConvertedAmount])
 
   useEffect(() => {
     const currentRole = user?.activeRole || user?.role
@@ -133,6 +145,7 @@ export default function AdminTrips() {
   const handleViewDetails = async (trip: Trip) => {
     try {
       const fullTrip = await api.getAdminTrip(trip.id)
+      setFareReviewNote('')
       setSelectedTrip(fullTrip)
       setIsDetailsDialogOpen(true)
     } catch (error) {
@@ -224,6 +237,28 @@ export default function AdminTrips() {
     }
   }
 
+  const handleFareReviewFilterChange = (value: string) => {
+    setFareReviewFilter(value)
+    setPage(1)
+  }
+
+  const handleResolveFareReview = async (tripId: string) => {
+    try {
+      setIsResolvingFareReview(true)
+      await api.resolveFareReview(tripId, fareReviewNote.trim() || undefined)
+      toast.success(t('admin.fareReviewResolved') || 'Revisión de tarifa cerrada')
+      setFareReviewNote('')
+      loadTrips()
+      const updated = await api.getAdminTrip(tripId)
+      setSelectedTrip(updated)
+    } catch (error) {
+      console.error('Error resolving fare review:', error)
+      toast.error((error instanceof Error && error.message) || t('admin.fareReviewResolveError') || 'Error al cerrar la revisión')
+    } finally {
+      setIsResolvingFareReview(false)
+    }
+  }
+
   const handleStatusUpdate = async (tripId: string, newStatus: TripStatus) => {
     try {
       await api.updateTripStatus(tripId, newStatus)
@@ -251,6 +286,12 @@ export default function AdminTrips() {
     return <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>
   }
 
+  // Transiciones del viaje abierto (se ignora un historial de otro viaje o de un estado anterior)
+  const allowedTransitions = timeline && selectedTrip &&
+    timeline.tripId === selectedTrip.id && timeline.status === selectedTrip.status
+    ? timeline.allowedTransitions
+    : []
+
   const formatDate = (dateString?: string | null) => {
     if (!dateString) return '-'
     return new Date(dateString).toLocaleString()
@@ -291,6 +332,18 @@ export default function AdminTrips() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="w-[200px]">
+              <Select value={fareReviewFilter} onValueChange={handleFareReviewFilterChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('admin.allFareReviews') || 'Todas las tarifas'}</SelectItem>
+                  <SelectItem value="PENDING">{t('admin.fareReviewPending') || 'Tarifa por revisar'}</SelectItem>
+                  <SelectItem value="RESOLVED">{t('admin.fareReviewResolvedFilter') || 'Tarifa revisada'}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <Button type="submit">
               <Search className="h-4 w-4 mr-2" />
               {t('common.search') || 'Buscar'}
@@ -358,7 +411,14 @@ export default function AdminTrips() {
                             </span>
                           </div>
                         </TableCell>
-                        <TableCell>{getStatusBadge(trip.status)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-col items-start gap-1">
+                            {getStatusBadge(trip.status)}
+                            {trip.fareReviewStatus === 'PENDING' && (
+                              <Badge variant="destructive">{t('admin.fareReviewPending') || 'Tarifa por revisar'}</Badge>
+                            )}
+                          </div>
+                        </TableCell>
                         <TableCell className="text-sm text-muted-foreground">
                           {formatDate(trip.createdAt)}
                         </TableCell>
@@ -496,8 +556,58 @@ export default function AdminTrips() {
                     {convertedPrices[selectedTrip.id] || formatAmount(selectedTrip.totalPrice, selectedTrip.currency)}
                   </span>
                 </div>
+                {selectedTrip.fareQuoteId && (
+                  <p className="text-xs text-muted-foreground mt-1 font-mono">
+                    {t('admin.fareQuote') || 'Cotización'}: {selectedTrip.fareQuoteId}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {t('admin.pricingVersion') || 'Tarifas'}:{' '}
+                  {selectedTrip.pricingVersion
+                    ? `v${selectedTrip.pricingVersion.version}`
+                    : t('admin.pricingDefaults') || 'por defecto'}
+                </p>
+                {selectedTrip.actualDuration != null && (
+                  <div className="mt-3">
+                    <RouteComparison trip={selectedTrip} />
+                  </div>
+                )}
               </div>
 
+              {/* Revisión de la tarifa (diferencias grandes con el recorrido real) */}
+              {selectedTrip.fareReviewStatus && (
+                <div>
+                  <h3 className="font-semibold mb-2 flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-destructive" />
+                    {t('admin.fareReview') || 'Revisión de tarifa'}
+                  </h3>
+                  {selectedTrip.fareAdjustment?.reviewReasons.map(reason => (
+                    <p key={reason} className="text-sm text-muted-foreground">{reason}</p>
+                  ))}
+                  {selectedTrip.fareReviewStatus === 'PENDING' ? (
+                    <div className="flex gap-2 mt-2">
+                      <Input
+                        placeholder={t('admin.fareReviewNote') || 'Nota de la revisión (opcional)'}
+                        value={fareReviewNote}
+                        onChange={(e) => setFareReviewNote(e.target.value)}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleResolveFareReview(selectedTrip.id)}
+                        disabled={isResolvingFareReview}
+                      >
+                        {t('admin.resolveFareReview') || 'Marcar como revisada'}
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm mt-2">
+                      {t('admin.fareReviewedAt') || 'Revisada'}: {formatDate(selectedTrip.fareReviewedAt)}
+                      {selectedTrip.fareReviewNote && ` · ${selectedTrip.fareReviewNote}`}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Estado y fechas */}
               <div className="grid md:grid-cols-2 gap-4">
                 <div>
@@ -510,6 +620,12 @@ export default function AdminTrips() {
                 </div>
               </div>
 
+              {/* Registro de despacho */}
+              <TripDispatchLog key={selectedTrip.id} tripId={selectedTrip.id} />
+
+              {/* Autorizaciones para iniciar o completar fuera de la geocerca */}
+              <GeofenceOverrides key={`${selectedTrip.id}-${selectedTrip.status}`} trip={selectedTrip} />
+
               {/* Asignar conductor */}
               {!selectedTrip.driver && selectedTrip.status === 'PENDING' && (
                 <div>
@@ -541,12 +657,22 @@ export default function AdminTrips() {
                 </div>
               )}
 
-              {/* Acciones de estado */}
-              {selectedTrip.status !== 'COMPLETED' && selectedTrip.status !== 'CANCELLED' && (
+              {/* Historial de estados */}
+              <div>
+                <h3 className="font-semibold mb-2">{t('admin.tripTimeline') || 'Historial de estados'}</h3>
+                <TripTimeline
+                  key={`${selectedTrip.id}-${selectedTrip.status}`}
+                  tripId={selectedTrip.id}
+                  onLoad={setTimeline}
+                />
+              </div>
+
+              {/* Acciones de estado (solo las transiciones permitidas desde el estado actual) */}
+              {allowedTransitions.length > 0 && (
                 <div>
                   <h3 className="font-semibold mb-2">{t('admin.changeStatus') || 'Cambiar Estado'}</h3>
                   <div className="flex gap-2 flex-wrap">
-                    {selectedTrip.status === 'PENDING' && selectedTrip.driver && (
+                    {allowedTransitions.includes(TripStatus.CONFIRMED) && selectedTrip.driver && (
                       <Button
                         size="sm"
                         onClick={() => handleStatusUpdate(selectedTrip.id, TripStatus.CONFIRMED)}
@@ -554,7 +680,7 @@ export default function AdminTrips() {
                         {t('admin.confirmTrip') || 'Confirmar'}
                       </Button>
                     )}
-                    {selectedTrip.status === 'CONFIRMED' && (
+                    {allowedTransitions.includes(TripStatus.IN_PROGRESS) && (
                       <Button
                         size="sm"
                         onClick={() => handleStatusUpdate(selectedTrip.id, TripStatus.IN_PROGRESS)}
@@ -562,7 +688,16 @@ export default function AdminTrips() {
                         {t('admin.startTrip') || 'Iniciar Viaje'}
                       </Button>
                     )}
-                    {selectedTrip.status === 'IN_PROGRESS' && (
+                    {allowedTransitions.includes(TripStatus.PENDING) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleStatusUpdate(selectedTrip.id, TripStatus.PENDING)}
+                      >
+                        {t('admin.returnTripToPending') || 'Liberar conductor'}
+                      </Button>
+                    )}
+                    {allowedTransitions.includes(TripStatus.COMPLETED) && (
                       <Button
                         size="sm"
                         variant="secondary"
@@ -571,13 +706,15 @@ export default function AdminTrips() {
                         {t('admin.completeTrip') || 'Completar'}
                       </Button>
                     )}
-                    <Button
-                      size="sm"
-                      variant="destructive"
-                      onClick={() => handleStatusUpdate(selectedTrip.id, TripStatus.CANCELLED)}
-                    >
-                      {t('admin.cancelTrip') || 'Cancelar'}
-                    </Button>
+                    {allowedTransitions.includes(TripStatus.CANCELLED) && (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleStatusUpdate(selectedTrip.id, TripStatus.CANCELLED)}
+                      >
+                        {t('admin.cancelTrip') || 'Cancelar'}
+                      </Button>
+                    )}
                   </div>
                 </div>
               )}
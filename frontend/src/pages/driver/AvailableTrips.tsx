@@ -7,11 +7,23 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
 import { MapPin, Clock, Users, ArrowLeft, AlertCircle, CheckCircle, XCircle, Navigation, Calendar } from 'lucide-react'
 import { toast } from 'sonner'
 import { useCurrency } from '@/hooks/useCurrency'
 import type { Trip } from '@/types'
 import { VehicleType } from '@/types'
+import { RoundTripLeg } from '@/components/trips/RoundTripLeg'
+
+// Intervalo mínimo entre reportes de ubicación mientras se buscan viajes (ms)
+const LOCATION_REPORT_INTERVAL = 60000
 
 export default function AvailableTrips() {
   const { t } = useTranslation()
@@ -24,6 +36,7 @@ export default function AvailableTrips() {
   const [totalPages, setTotalPages] = useState(1)
   const [vehicleTypeFilter, setVehicleTypeFilter] = useState<string>('ANY')
   const [isAccepting, setIsAccepting] = useState(false)
+  const [preAcceptTrip, setPreAcceptTrip] = useState<Trip | null>(null)
   const [formattedPrices, setFormattedPrices] = useState<Record<string, string>>({})
   const [timeRemaining, setTimeRemaining] = useState<Record<string, string | null>>({})
 
@@ -77,6 +90,38 @@ export default function AvailableTrips() {
     return () => clearInterval(interval)
   }, [user, navigate, page, vehicleTypeFilter])
 
+  // Reportar la posición del conductor mientras busca viajes
+  // para que reciba alertas de viajes cercanos a su ubicación
+  useEffect(() => {
+    if (!user || !navigator.geolocation) return
+
+    let lastSentAt = 0
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const now = Date.now()
+        if (now - lastSentAt < LOCATION_REPORT_INTERVAL) return
+        lastSentAt = now
+
+        api.updateDriverLocation({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          heading: position.coords.heading,
+          speed: position.coords.speed,
+          recordedAt: new Date(position.timestamp).toISOString(),
+        }).catch((error) => {
+          console.error('Error reportando ubicación:', error)
+        })
+      },
+      (error) => {
+        console.error('Error obteniendo ubicación:', error)
+      },
+      { enableHighAccuracy: false, maximumAge: 30000, timeout: 20000 }
+    )
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [user])
+
   // Actualizar contador de tiempo cada segundo
   useEffect(() => {
     if (trips.length === 0) return
@@ -149,6 +194,22 @@ export default function AvailableTrips() {
     }
   }
 
+  // Los viajes programados se pre-aceptan con un paso de confirmación
+  const handleAcceptClick = (trip: Trip) => {
+    if (isImmediateTrip(trip)) {
+      handleAcceptTrip(trip)
+    } else {
+      setPreAcceptTrip(trip)
+    }
+  }
+
+  const handleConfirmPreAccept = async () => {
+    if (!preAcceptTrip) return
+    const trip = preAcceptTrip
+    setPreAcceptTrip(null)
+    await handleAcceptTrip(trip)
+  }
+
   const handleRejectTrip = async (trip: Trip) => {
     try {
       await api.rejectTrip(trip.id)
@@ -358,6 +419,9 @@ export default function AvailableTrips() {
                       </div>
                     </div>
 
+                    {/* Tramo de ida y vuelta */}
+                    <RoundTripLeg trip={trip} basePath="/driver/trips" driverId={user?.id} />
+
                     {/* Ruta */}
                     <div className="space-y-2">
                       <div className="flex items-start gap-2 md:gap-3">
@@ -431,12 +495,14 @@ export default function AvailableTrips() {
                     {!expired && (
                       <div className="flex gap-2 pt-3 md:pt-4 border-t">
                         <Button
-                          onClick={() => handleAcceptTrip(trip)}
+                          onClick={() => handleAcceptClick(trip)}
                           disabled={isAccepting || expired}
                           className="flex-1 text-xs md:text-sm h-9 md:h-10"
                         >
                           <CheckCircle className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
-                          {t('driver.accept') || 'Aceptar'}
+                          {isImmediateTrip(trip)
+                            ? t('driver.accept') || 'Aceptar'
+                            : t('driver.preAccept') || 'Pre-aceptar'}
                         </Button>
                         <Button
                           onClick={() => handleRejectTrip(trip)}
@@ -486,6 +552,37 @@ export default function AvailableTrips() {
           </Button>
         </div>
       )}
+
+      {/* Confirmación de pre-aceptación de viaje programado */}
+      <Dialog open={!!preAcceptTrip} onOpenChange={(open) => !open && setPreAcceptTrip(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('driver.preAcceptTitle') || 'Pre-aceptar viaje programado'}</DialogTitle>
+            <DialogDescription>
+              {preAcceptTrip && `${preAcceptTrip.tripNumber} · ${formatDate(preAcceptTrip.scheduledAt)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 text-sm">
+            <p>
+              {t('driver.preAcceptDescription') ||
+                'Te reservaremos este viaje. Deberás confirmarlo durante las 2 horas previas a la recogida.'}
+            </p>
+            <p className="text-muted-foreground">
+              {t('driver.preAcceptWarning') ||
+                'Si no lo confirmas 30 minutos antes de la recogida, el viaje se asignará a otro conductor.'}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreAcceptTrip(null)}>
+              {t('common.cancel') || 'Cancelar'}
+            </Button>
+            <Button onClick={handleConfirmPreAccept} disabled={isAccepting}>
+              <Calendar className="h-4 w-4 mr-2" />
+              {t('driver.preAccept') || 'Pre-aceptar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
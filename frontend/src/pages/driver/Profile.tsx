@@ -13,6 +13,8 @@ import { toast } from 'sonner'
 import { UserCircle, Save, ArrowLeft, Mail, Phone, MapPin, Car, Award, FileText, Upload, X } from 'lucide-react'
 import { api } from '@/services/api'
 import { getCountryName } from '@/services/locationService'
+import { EmergencyContacts } from '@/components/profile/EmergencyContacts'
+import { SettlementAssetSettings } from '@/components/payments/SettlementAssetSettings'
 import type { DriverOnboarding, DriverDocumentType } from '@/types'
 import { DriverDocumentType as DriverDocumentTypeEnum } from '@/types'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
@@ -496,6 +498,16 @@ export default function DriverProfile() {
         </div>
       </form>
 
+      {/* Asset de cobro Stellar (fuera del formulario: se guarda por separado) */}
+      <div className="mt-6">
+        <SettlementAssetSettings />
+      </div>
+
+      {/* Contactos de emergencia (fuera del formulario: se guardan por separado) */}
+      <div className="mt-6">
+        <EmergencyContacts />
+      </div>
+
       {/* Modal para actualizar documentos */}
       <Dialog open={isUpdateModalOpen} onOpenChange={setIsUpdateModalOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
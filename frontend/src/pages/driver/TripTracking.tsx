@@ -1,9 +1,10 @@
 /**
  * Página de seguimiento de viaje para el conductor
- * Muestra el mapa con la ruta y permite completar el viaje
+ * Muestra el mapa con la ruta, permite marcar la llegada al origen (con la espera del pasajero)
+ * y completar el viaje
  */
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
@@ -11,15 +12,22 @@ import { api } from '@/services/api'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, MapPin, Clock, CheckCircle, Navigation, AlertCircle, Map as MapIcon, MessageCircle } from 'lucide-react'
+import { ArrowLeft, MapPin, Clock, CheckCircle, Navigation, AlertCircle, Map as MapIcon, MessageCircle, Timer, UserX } from 'lucide-react'
 import { toast } from 'sonner'
 import { TripTrackingMap } from '@/components/maps/TripTrackingMap'
 import { useCurrency } from '@/hooks/useCurrency'
+import { useWaitTimer, formatWaitTime } from '@/hooks/useWaitTimer'
+import { useTripGeofence } from '@/hooks/useTripGeofence'
+import { GeofenceStatus } from '@/components/trips/GeofenceStatus'
+import { SosButton } from '@/components/trips/SosButton'
 import { generateTripSummaryMessage, openWhatsApp } from '@/utils/whatsapp'
 import { StellarPaymentQR } from '@/components/payments/StellarPaymentQR'
 import type { Trip } from '@/types'
 import { TripStatus } from '@/types'
 
+// Intervalo mínimo entre envíos de posición al backend (ms)
+const LOCATION_PUSH_INTERVAL = 5000
+
 export default function DriverTripTracking() {
   const { t } = useTranslation()
   const { id } = useParams<{ id: string }>()
@@ -29,7 +37,18 @@ export default function DriverTripTracking() {
   const [trip, setTrip] = useState<Trip | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isCompleting, setIsCompleting] = useState(false)
-  const [currentLocation, setCurrentLocation] = useState<{ lat: number; lon: number } | null>(null)
+  const [markingStopId, setMarkingStopId] = useState<string | null>(null)
+  const [isMarkingArrival, setIsMarkingArrival] = useState(false)
+  const [isMarkingNoShow, setIsMarkingNoShow] = useState(false)
+  const [currentLocation, setCurrentLocation] = useState<{
+    lat: number
+    lon: number
+    accuracy?: number
+    heading?: number | null
+    speed?: number | null
+    timestamp?: number
+  } | null>(null)
+  const lastPushRef = useRef<number>(0)
   const [locationError, setLocationError] = useState<string | null>(null)
   const [formattedPrice, setFormattedPrice] = useState<string>('')
   const [paymentInfo, setPaymentInfo] = useState<{
@@ -37,7 +56,16 @@ export default function DriverTripTracking() {
     paymentQR: string
     paymentAddress: string
     transactionXdr?: string
+    assetAmount?: string
+    asset?: string
   } | null>(null)
+  const waitTimer = useWaitTimer(
+    trip?.status === TripStatus.CONFIRMED ? trip.driverArrivedAt : null,
+    trip?.noShowEligibleAt
+  )
+
+  // Geocerca del destino: distancia en vivo antes de completar
+  const geofences = useTripGeofence(id, trip?.status === TripStatus.IN_PROGRESS)
 
   useEffect(() => {
     if (!user || !id) {
@@ -46,12 +74,7 @@ export default function DriverTripTracking() {
     }
 
     loadTrip()
-    getCurrentLocation()
-
-    // Actualizar ubicación cada 10 segundos
-    const locationInterval = setInterval(() => {
-      getCurrentLocation()
-    }, 10000)
+    const stopWatching = watchCurrentLocation()
 
     // Actualizar viaje cada 30 segundos
     const tripInterval = setInterval(() => {
@@ -59,11 +82,33 @@ export default function DriverTripTracking() {
     }, 30000)
 
     return () => {
-      clearInterval(locationInterval)
+      stopWatching()
       clearInterval(tripInterval)
     }
   }, [user, id, navigate])
 
+  // Enviar la posición al backend mientras el viaje está activo
+  useEffect(() => {
+    if (!currentLocation || !trip || !id) return
+    if (trip.status !== TripStatus.CONFIRMED && trip.status !== TripStatus.IN_PROGRESS) return
+
+    const now = Date.now()
+    if (now - lastPushRef.current < LOCATION_PUSH_INTERVAL) return
+    lastPushRef.current = now
+
+    api.updateDriverLocation({
+      latitude: currentLocation.lat,
+      longitude: currentLocation.lon,
+      accuracy: currentLocation.accuracy,
+      heading: currentLocation.heading,
+      speed: currentLocation.speed,
+      recordedAt: currentLocation.timestamp ? new Date(currentLocation.timestamp).toISOString() : undefined,
+      tripId: id,
+    }).catch((error) => {
+      console.error('Error sending driver location:', error)
+    })
+  }, [currentLocation, trip, id])
+
   const loadTrip = async () => {
     if (!id) return
 
@@ -85,6 +130,8 @@ export default function DriverTripTracking() {
                 paymentQR: data.paymentQrCode || '',
                 paymentAddress: data.paymentAddress || '',
                 transactionXdr: paymentData.trip.transactionXdr,
+                assetAmount: paymentData.payment.paymentMethodDetails?.assetAmount,
+                asset: paymentData.payment.paymentMethodDetails?.asset,
               })
             } else {
               setPaymentInfo({
@@ -117,17 +164,21 @@ export default function DriverTripTracking() {
     }
   }
 
-  const getCurrentLocation = () => {
+  const watchCurrentLocation = () => {
     if (!navigator.geolocation) {
       setLocationError('Geolocalización no disponible')
-      return
+      return () => {}
     }
 
-    navigator.geolocation.getCurrentPosition(
+    const watchId = navigator.geolocation.watchPosition(
       (position) => {
         setCurrentLocation({
           lat: position.coords.latitude,
           lon: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          heading: position.coords.heading,
+          speed: position.coords.speed,
+          timestamp: position.timestamp,
         })
         setLocationError(null)
       },
@@ -148,6 +199,8 @@ export default function DriverTripTracking() {
         maximumAge: 5000,
       }
     )
+
+    return () => navigator.geolocation.clearWatch(watchId)
   }
 
   const handleCompleteTrip = async () => {
@@ -160,6 +213,7 @@ export default function DriverTripTracking() {
       if (currentLocation) {
         options.driverLatitude = currentLocation.lat
         options.driverLongitude = currentLocation.lon
+        options.driverAccuracy = currentLocation.accuracy
       }
 
       const completedTrip = await api.completeTrip(id, options)
@@ -179,6 +233,8 @@ export default function DriverTripTracking() {
                 paymentQR: completedTrip.paymentQrCode || '',
                 paymentAddress: completedTrip.paymentAddress || '',
                 transactionXdr: paymentData.trip.transactionXdr,
+                assetAmount: paymentData.payment.paymentMethodDetails?.assetAmount,
+                asset: paymentData.payment.paymentMethodDetails?.asset,
               })
             } else {
               setPaymentInfo({
@@ -209,6 +265,72 @@ export default function DriverTripTracking() {
     }
   }
 
+  const handleMarkStopReached = async (stopId: string) => {
+    if (!id) return
+
+    try {
+      setMarkingStopId(stopId)
+      await api.markStopReached(id, stopId)
+      toast.success(t('driver.stopReached') || 'Parada marcada como alcanzada')
+      await loadTrip()
+    } catch (error) {
+      console.error('Error marking stop as reached:', error)
+      toast.error((error instanceof Error && error.message) || t('driver.stopError') || 'Error al marcar la parada')
+    } finally {
+      setMarkingStopId(null)
+    }
+  }
+
+  const handleMarkArrived = async () => {
+    if (!id) return
+
+    if (!currentLocation) {
+      toast.error(t('driver.arrivalNeedsLocation') || 'Necesitas la ubicación GPS activa para marcar la llegada')
+      return
+    }
+
+    try {
+      setIsMarkingArrival(true)
+      await api.markDriverArrived(id, {
+        latitude: currentLocation.lat,
+        longitude: currentLocation.lon,
+        accuracy: currentLocation.accuracy,
+      })
+      toast.success(t('driver.arrivalMarked') || 'Llegada marcada. Avisamos al pasajero')
+      await loadTrip()
+    } catch (error) {
+      console.error('Error marking arrival:', error)
+      toast.error((error instanceof Error && error.message) || t('driver.arrivalError') || 'Error al marcar la llegada')
+    } finally {
+      setIsMarkingArrival(false)
+    }
+  }
+
+  const handleMarkNoShow = async () => {
+    if (!id) return
+
+    if (!currentLocation) {
+      toast.error(t('driver.noShowNeedsLocation') || 'Necesitas la ubicación GPS activa para marcar la no presentación')
+      return
+    }
+
+    try {
+      setIsMarkingNoShow(true)
+      await api.markPassengerNoShow(id, {
+        latitude: currentLocation.lat,
+        longitude: currentLocation.lon,
+        accuracy: currentLocation.accuracy,
+      })
+      toast.success(t('driver.noShowMarked') || 'Viaje cancelado por no presentación del pasajero')
+      navigate('/driver/trips')
+    } catch (error) {
+      console.error('Error marking no-show:', error)
+      toast.error((error instanceof Error && error.message) || t('driver.noShowError') || 'Error al marcar la no presentación')
+    } finally {
+      setIsMarkingNoShow(false)
+    }
+  }
+
   if (isLoading || !trip) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -221,6 +343,9 @@ export default function DriverTripTracking() {
   }
 
   const canComplete = trip.status === TripStatus.IN_PROGRESS
+  const stops = [...(trip.stops || [])].sort((a, b) => a.sequence - b.sequence)
+  // Las paradas se marcan en orden: solo la primera pendiente es accionable
+  const nextStop = stops.find(stop => !stop.reachedAt)
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
@@ -279,6 +404,11 @@ export default function DriverTripTracking() {
 
         {/* Información del viaje */}
         <div className="space-y-6">
+          {/* Botón de emergencia */}
+          {(trip.status === TripStatus.CONFIRMED || trip.status === TripStatus.IN_PROGRESS) && (
+            <SosButton tripId={trip.id} />
+          )}
+
           {/* Detalles del viaje */}
           <Card>
             <CardHeader>
@@ -318,6 +448,109 @@ export default function DriverTripTracking() {
             </CardContent>
           </Card>
 
+          {/* Llegada al origen y espera del pasajero */}
+          {trip.status === TripStatus.CONFIRMED && (
+            <Card className={trip.driverArrivedAt ? 'border-amber-500/50 bg-amber-500/5' : undefined}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Timer className="h-5 w-5" />
+                  {trip.driverArrivedAt
+                    ? t('driver.waitingPassenger') || 'Esperando al pasajero'
+                    : t('driver.arrival') || 'Llegada al origen'}
+                </CardTitle>
+                <CardDescription>
+                  {trip.driverArrivedAt
+                    ? t('driver.waitingPassengerDescription') || 'El pasajero ya fue avisado de tu llegada'
+                    : t('driver.arrivalDescription') || 'Marca tu llegada cuando estés en el punto de recogida'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {trip.driverArrivedAt ? (
+                  <>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">{t('driver.waitTime') || 'Tiempo de espera'}</span>
+                      <span className="font-mono text-lg font-semibold">{formatWaitTime(waitTimer.elapsedSeconds)}</span>
+                    </div>
+                    {waitTimer.remainingSeconds > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('driver.noShowAvailableIn', { time: formatWaitTime(waitTimer.remainingSeconds) }) ||
+                          `Podrás marcar al pasajero como no presentado en ${formatWaitTime(waitTimer.remainingSeconds)}`}
+                      </p>
+                    )}
+                    <Button
+                      variant="destructive"
+                      className="w-full"
+                      onClick={handleMarkNoShow}
+                      disabled={isMarkingNoShow || waitTimer.remainingSeconds > 0}
+                    >
+                      <UserX className="h-4 w-4 mr-2" />
+                      {isMarkingNoShow
+                        ? t('common.loading') || 'Cargando...'
+                        : t('driver.markNoShow') || 'Pasajero no se presentó'}
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    className="w-full"
+                    onClick={handleMarkArrived}
+                    disabled={isMarkingArrival}
+                  >
+                    <MapPin className="h-4 w-4 mr-2" />
+                    {isMarkingArrival
+                      ? t('common.loading') || 'Cargando...'
+                      : t('driver.markArrived') || 'Llegué al origen'}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Paradas intermedias */}
+          {stops.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('trip.stops') || 'Paradas'}</CardTitle>
+                <CardDescription>
+                  {t('driver.stopsDescription') || 'Marca cada parada al llegar, en orden'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {stops.map(stop => (
+                  <div key={stop.id} className="flex items-start gap-3">
+                    <span
+                      className={`flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full text-xs font-bold text-white ${
+                        stop.reachedAt ? 'bg-gray-400' : 'bg-amber-500'
+                      }`}
+                    >
+                      {stop.sequence}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm line-clamp-2">{stop.address}</p>
+                      {stop.reachedAt ? (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                          <CheckCircle className="h-3 w-3 text-green-600" />
+                          {t('trip.stopReachedAt') || 'Alcanzada a las'} {new Date(stop.reachedAt).toLocaleTimeString()}
+                        </p>
+                      ) : canComplete && nextStop?.id === stop.id && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="mt-2"
+                          onClick={() => handleMarkStopReached(stop.id)}
+                          disabled={markingStopId !== null}
+                        >
+                          {markingStopId === stop.id
+                            ? t('common.loading') || 'Cargando...'
+                            : t('driver.markStopReached') || 'Marcar como alcanzada'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Información del pasajero */}
           {trip.passenger && (
             <Card>
@@ -345,7 +578,14 @@ export default function DriverTripTracking() {
                   {t('driver.completeTripDescription') || 'Marca el viaje como completado cuando llegues al destino'}
                 </CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-2">
+                {geofences && (
+                  <GeofenceStatus
+                    geofence={geofences.completion}
+                    position={currentLocation}
+                    overridden={geofences.overriddenStages.includes('COMPLETION')}
+                  />
+                )}
                 <Button
                   onClick={handleCompleteTrip}
                   disabled={isCompleting}
@@ -365,6 +605,16 @@ export default function DriverTripTracking() {
             </Card>
           )}
 
+          {/* Viaje completado sin cobro aún (sin tasa de cambio vigente): se genera en unos minutos */}
+          {trip.completedAt && !trip.paymentQrCode && trip.status !== 'COMPLETED' && (
+            <Card>
+              <CardContent className="pt-6 text-sm text-muted-foreground">
+                {t('driver.awaitingPaymentQuote') ||
+                  'Viaje completado. El código de pago se generará en cuanto haya una tasa de cambio vigente.'}
+              </CardContent>
+            </Card>
+          )}
+
           {/* QR de Pago Stellar - Mostrar al conductor después de completar el viaje */}
           {trip.completedAt && trip.paymentQrCode && trip.status !== 'COMPLETED' && paymentInfo && (
             <Card className="border-primary bg-primary/5">
@@ -385,6 +635,8 @@ export default function DriverTripTracking() {
                   currency={trip.currency}
                   paymentId={paymentInfo.paymentId}
                   transactionXdr={paymentInfo.transactionXdr}
+                  assetAmount={paymentInfo.assetAmount}
+                  asset={paymentInfo.asset}
                   onPaymentVerified={() => {
                     // Recargar el viaje después del pago
                     loadTrip()
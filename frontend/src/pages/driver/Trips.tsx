@@ -16,6 +16,7 @@ import { TripStatus } from '@/types'
 import { StartTripDialog } from '@/components/trips/StartTripDialog'
 import { generateArrivalMessage, openWhatsApp } from '@/utils/whatsapp'
 import { CancelTripDialog } from '@/components/trips/CancelTripDialog'
+import { RoundTripLeg } from '@/components/trips/RoundTripLeg'
 
 export default function DriverTrips() {
   const { t } = useTranslation()
@@ -32,6 +33,7 @@ export default function DriverTrips() {
   const [search, setSearch] = useState('')
   const [formattedPrices, setFormattedPrices] = useState<Record<string, string>>({})
   const [selectedTripPrice, setSelectedTripPrice] = useState<string>('')
+  const [isConfirming, setIsConfirming] = useState(false)
   const [showCancelDialog, setShowCancelDialog] = useState(false)
   const [isCancelling, setIsCancelling] = useState(false)
 
@@ -93,6 +95,21 @@ export default function DriverTrips() {
     }
   }
 
+  // Confirmación del conductor en las horas previas a un viaje programado
+  const handleConfirmScheduledTrip = async (tripId: string) => {
+    try {
+      setIsConfirming(true)
+      await api.confirmScheduledTrip(tripId)
+      toast.success(t('driver.tripConfirmed') || 'Viaje confirmado')
+      loadTripDetails(tripId)
+    } catch (error) {
+      console.error('Error confirming trip:', error)
+      toast.error((error instanceof Error && error.message) || t('driver.confirmError') || 'Error al confirmar viaje')
+    } finally {
+      setIsConfirming(false)
+    }
+  }
+
   const getStatusBadge = (status: string) => {
     const statusMap: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
       PENDING: { label: t('trip.status.pending') || 'Pendiente', variant: 'outline' },
@@ -213,6 +230,7 @@ export default function DriverTrips() {
               </div>
               {getStatusBadge(selectedTrip.status)}
             </div>
+            <RoundTripLeg trip={selectedTrip} basePath="/driver/trips" driverId={user?.id} />
           </CardHeader>
           <CardContent className="space-y-6">
             {/* Información del pasajero */}
@@ -350,6 +368,16 @@ export default function DriverTrips() {
 
             {/* Acciones */}
             <div className="pt-4 border-t space-y-2">
+              {selectedTrip.status === TripStatus.CONFIRMED && selectedTrip.scheduledAt && !selectedTrip.driverConfirmedAt && (
+                <Button
+                  className="w-full"
+                  onClick={() => handleConfirmScheduledTrip(selectedTrip.id)}
+                  disabled={isConfirming}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  {t('driver.confirmTrip') || 'Confirmar viaje'}
+                </Button>
+              )}
               {(selectedTrip.status === TripStatus.CONFIRMED || selectedTrip.status === TripStatus.IN_PROGRESS) && (
                 <Button
                   variant="outline"
@@ -422,11 +450,11 @@ export default function DriverTrips() {
         <CancelTripDialog
           open={showCancelDialog}
           onOpenChange={setShowCancelDialog}
-          onConfirm={async (reason) => {
+          onConfirm={async (reason, cancelLinkedLeg) => {
             if (!selectedTrip) return
             try {
               setIsCancelling(true)
-              await api.cancelDriverTrip(selectedTrip.id, reason)
+              await api.cancelDriverTrip(selectedTrip.id, reason, cancelLinkedLeg)
               toast.success(t('driver.tripCancelled') || 'Viaje cancelado exitosamente')
               setSelectedTrip(null)
               navigate('/driver/trips')
@@ -439,6 +467,10 @@ export default function DriverTrips() {
           }}
           tripNumber={selectedTrip.tripNumber}
           isLoading={isCancelling}
+          linkedLeg={[selectedTrip.outboundTrip, selectedTrip.returnTrip].find(leg => leg?.driverId === user?.id)}
+          linkedLegIsReturn={!!selectedTrip.returnTrip}
+          tripId={selectedTrip.id}
+          asDriver
         />
       </div>
     )
@@ -543,6 +575,9 @@ export default function DriverTrips() {
                         </div>
                       )}
                     </div>
+                    <div className="mt-2">
+                      <RoundTripLeg trip={trip} basePath="/driver/trips" driverId={user?.id} />
+                    </div>
                   </div>
                   <div className="text-right">
                     <div className="font-semibold">
@@ -12,6 +12,7 @@ import { toast } from 'sonner'
 import { UserCircle, Save, ArrowLeft, Mail, Phone, MapPin } from 'lucide-react'
 import { api } from '@/services/api'
 import { getCountryName } from '@/services/locationService'
+import { EmergencyContacts } from '@/components/profile/EmergencyContacts'
 
 export default function PassengerProfile() {
   const { t } = useTranslation()
@@ -232,6 +233,11 @@ export default function PassengerProfile() {
           </div>
         </div>
       </form>
+
+      {/* Contactos de emergencia (fuera del formulario: se guardan por separado) */}
+      <div className="mt-6">
+        <EmergencyContacts />
+      </div>
     </div>
   )
 }
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
 import { api } from '@/services/api'
@@ -16,7 +16,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { MapPin, Calendar, Users, Route, DollarSign, Loader2, ArrowLeftRight, Car } from 'lucide-react'
+import { MapPin, Calendar, Users, Route, DollarSign, Loader2, ArrowLeftRight, Car, Plus, X, Zap } from 'lucide-react'
 import {
   initializeGoogleMaps,
   searchPlaces,
@@ -26,7 +26,10 @@ import {
 } from '@/services/googleMaps'
 import { useCurrency } from '@/hooks/useCurrency'
 import RouteMap from '@/components/maps/RouteMap'
+import PlaceSearchInput from '@/components/maps/PlaceSearchInput'
+import { FareBreakdown } from '@/components/trips/FareBreakdown'
 import { VehicleType } from '@/types'
+import type { PriceLineItem, VehiclePrice } from '@/types'
 
 interface Location {
   address: string
@@ -36,13 +39,18 @@ interface Location {
   country?: string // Código de país (ej: 'MX', 'CL')
 }
 
+// Máximo de paradas intermedias (debe coincidir con TRIP_MAX_STOPS del backend)
+const MAX_TRIP_STOPS = 5
+
 export default function RequestTrip() {
   const { t } = useTranslation()
   const navigate = useNavigate()
-  const { formatConverted } = useCurrency()
+  const { formatConverted, formatAmount } = useCurrency()
   const { user } = useAuth()
   const [origin, setOrigin] = useState<Location | null>(null)
   const [destination, setDestination] = useState<Location | null>(null)
+  const [stops, setStops] = useState<Location[]>([])
+  const [isAddingStop, setIsAddingStop] = useState(false)
   const [originSearch, setOriginSearch] = useState('')
   const [destinationSearch, setDestinationSearch] = useState('')
   const [originPredictions, setOriginPredictions] = useState<PlacePrediction[]>([])
@@ -71,6 +79,12 @@ export default function RequestTrip() {
     }
   } | null>(null)
   const [formattedPrice, setFormattedPrice] = useState<string>('')
+  const [fareBreakdown, setFareBreakdown] = useState<{ lineItems: PriceLineItem[]; currency: string; surgeMultiplier: number } | null>(null)
+  // Ida y vuelta: desglose de la vuelta, que se cotiza aparte a su hora
+  const [returnFareBreakdown, setReturnFareBreakdown] = useState<{ lineItems: PriceLineItem[]; currency: string } | null>(null)
+  const [vehiclePrices, setVehiclePrices] = useState<VehiclePrice[]>([]) // Precio del viaje por tipo de vehículo
+  // Tarifa dinámica aceptada por el pasajero (si sube al cotizar de nuevo, debe aceptarla otra vez)
+  const [acceptedSurge, setAcceptedSurge] = useState(1)
   const originInputRef = useRef<HTMLInputElement>(null)
   const destinationInputRef = useRef<HTMLInputElement>(null)
   const originDropdownRef = useRef<HTMLDivElement>(null)
@@ -173,7 +187,72 @@ export default function RequestTrip() {
       setRouteInfo(null)
       setFormattedPrice('')
     }
-  }, [origin, destination, isRoundTrip, preferredVehicleType])
+  }, [origin, destination, stops, isRoundTrip, returnScheduledAt, preferredVehicleType, scheduledAt])
+
+  // Paradas en el formato del mapa (memoizadas para no redibujar en cada render)
+  const routeWaypoints = useMemo(
+    () => stops.map(stop => ({ lat: stop.latitude, lng: stop.longitude, address: stop.address })),
+    [stops]
+  )
+
+  // Fecha programada en ISO (vacía o inválida: viaje inmediato)
+  const getScheduledAtIso = (): string | undefined => {
+    if (!scheduledAt || scheduledAt.trim() === '') return undefined
+    const date = new Date(scheduledAt)
+    if (isNaN(date.getTime())) {
+      console.warn('Fecha programada inválida:', scheduledAt)
+      return undefined
+    }
+    return date.toISOString()
+  }
+
+  // Fecha de vuelta en ISO (solo ida y vuelta; vacía o inválida: la vuelta todavía no se cotiza)
+  const getReturnScheduledAtIso = (): string | undefined => {
+    if (!isRoundTrip || !returnScheduledAt || returnScheduledAt.trim() === '') return undefined
+    const date = new Date(returnScheduledAt)
+    if (isNaN(date.getTime())) {
+      console.warn('Fecha de vuelta inválida:', returnScheduledAt)
+      return undefined
+    }
+    return date.toISOString()
+  }
+
+  // Cotiza el viaje con todos los datos que usan las reglas de precio (tiempo, horario, aeropuertos, peajes);
+  // si es de ida y vuelta, también la vuelta, con su propia cotización a la hora de regreso
+  const quoteFare = (route: { distance: number; duration: number; polyline?: string }) => {
+    if (!origin || !destination) {
+      throw new Error(t('passenger.selectBothLocations') || 'Debes seleccionar origen y destino')
+    }
+
+    return api.calculatePrice({
+      distance: route.distance,
+      duration: Math.round(route.duration),
+      originLatitude: origin.latitude,
+      originLongitude: origin.longitude,
+      destinationLatitude: destination.latitude,
+      destinationLongitude: destination.longitude,
+      stops: stops.map(stop => ({ latitude: stop.latitude, longitude: stop.longitude })),
+      vehicleType: preferredVehicleType !== 'ANY' ? preferredVehicleType : undefined,
+      scheduledAt: getScheduledAtIso(),
+      returnScheduledAt: getReturnScheduledAtIso(),
+      routePolyline: route.polyline,
+    })
+  }
+
+  const getVehicleTypeLabel = (type: VehicleType | null): string => {
+    if (!type) return t('passenger.anyVehicle') || 'Cualquier vehículo'
+    const labels: Record<VehicleType, string> = {
+      SEDAN: t('vehicle.sedan') || 'Sedán',
+      SUV: t('vehicle.suv') || 'SUV',
+      VAN: t('vehicle.van') || 'Van',
+      PICKUP: t('vehicle.pickup') || 'Pickup',
+      OFF_ROAD: t('vehicle.offRoad') || 'Todo Terreno',
+      LUXURY: t('vehicle.luxury') || 'Lujo',
+      MOTORCYCLE: t('vehicle.motorcycle') || 'Motocicleta',
+      OTHER: t('vehicle.other') || 'Otro',
+    }
+    return labels[type] || type
+  }
 
   const calculateRouteAndPrice = async () => {
     if (!origin || !destination) {
@@ -184,13 +263,9 @@ export default function RequestTrip() {
 
     setIsCalculatingRoute(true)
     try {
-      // Obtener país del origen o destino (prioridad: origen)
-      const tripCountry = origin.country || destination.country || user?.country || 'CL'
-      
       console.log('🔄 Calculando ruta...', {
         origen: origin.address,
         destino: destination.address,
-        país: tripCountry
       })
       
       const route = await calculateRoute(
@@ -198,7 +273,7 @@ export default function RequestTrip() {
         { lat: destination.latitude, lng: destination.longitude },
         'DRIVING',
         preferredVehicleType !== 'ANY' ? String(preferredVehicleType) : undefined,
-        tripCountry
+        stops.map(stop => ({ lat: stop.latitude, lng: stop.longitude }))
       )
 
       if (route) {
@@ -208,8 +283,23 @@ export default function RequestTrip() {
           precio: route.price
         })
         
-        const oneWayPrice = route.price
-        const finalPrice = isRoundTrip ? oneWayPrice * 2 : oneWayPrice
+        // Desglose del backend; si falla, se usa el precio estimado de la ruta
+        let finalPrice = route.price
+        let currency = 'CLP'
+        try {
+          const pricing = await quoteFare(route)
+          currency = pricing.currency
+          // Ida y vuelta: el total es la suma de las dos cotizaciones
+          finalPrice = pricing.totalPrice + (pricing.returnQuote?.totalPrice || 0)
+          setFareBreakdown({ lineItems: pricing.lineItems, currency, surgeMultiplier: pricing.surgeMultiplier })
+          setReturnFareBreakdown(pricing.returnQuote && { lineItems: pricing.returnQuote.lineItems, currency: pricing.returnQuote.currency })
+          setVehiclePrices(pricing.priceList)
+        } catch (error) {
+          console.error('Error obteniendo desglose de tarifa:', error)
+          setFareBreakdown(null)
+          setReturnFareBreakdown(null)
+          setVehiclePrices([])
+        }
         
         setRouteInfo({
           distance: route.distance,
@@ -222,7 +312,7 @@ export default function RequestTrip() {
         })
 
         // Formatear precio en la moneda del usuario
-        const formatted = await formatConverted(finalPrice, 'CLP')
+        const formatted = await formatConverted(finalPrice, currency)
         setFormattedPrice(formatted)
       } else {
         console.error('❌ calculateRoute devolvió null')
@@ -279,6 +369,15 @@ export default function RequestTrip() {
     }
   }
 
+  const handleAddStop = (place: Location) => {
+    setStops(prev => [...prev, place].slice(0, MAX_TRIP_STOPS))
+    setIsAddingStop(false)
+  }
+
+  const handleRemoveStop = (index: number) => {
+    setStops(prev => prev.filter((_, i) => i !== index))
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -302,54 +401,42 @@ export default function RequestTrip() {
         return
       }
 
-      // Obtener país del viaje (prioridad: origen > destino > usuario)
-      const tripCountry = origin.country || destination.country || user?.country || 'CL'
-      
-      // Calcular precios usando el servicio de pricing del backend
-      const oneWayDistance = routeInfo.distance
-      const oneWayPricing = await api.calculatePrice(
-        oneWayDistance,
-        tripCountry,
-        preferredVehicleType !== 'ANY' ? preferredVehicleType : undefined
-      )
-      
-      // Si es ida y vuelta, duplicar precios
-      const basePrice = isRoundTrip ? oneWayPricing.basePrice * 2 : oneWayPricing.basePrice
-      const distancePrice = isRoundTrip ? oneWayPricing.distancePrice * 2 : oneWayPricing.distancePrice
-      const timePrice = isRoundTrip ? oneWayPricing.timePrice * 2 : oneWayPricing.timePrice
-      const totalPrice = isRoundTrip ? oneWayPricing.totalPrice * 2 : oneWayPricing.totalPrice
-      const currency = oneWayPricing.currency
-
-      // Validar y formatear fecha programada
-      let formattedScheduledAt: string | undefined = undefined
-      if (scheduledAt && scheduledAt.trim() !== '') {
-        try {
-          const date = new Date(scheduledAt)
-          if (!isNaN(date.getTime())) {
-            formattedScheduledAt = date.toISOString()
-          } else {
-            console.warn('Fecha programada inválida:', scheduledAt)
-          }
-        } catch (error) {
-          console.error('Error formateando fecha programada:', error)
-        }
+      // Cotización firmada del backend: fija el precio (si es ida y vuelta, cada tramo tiene la suya)
+      const pricing = await quoteFare(routeInfo)
+      const returnQuote = pricing.returnQuote
+      if (isRoundTrip && !returnQuote) {
+        toast.error(t('passenger.returnDateRequired') || 'Debes especificar la fecha y hora de vuelta')
+        setIsLoading(false)
+        return
       }
 
-      // Validar y formatear fecha de vuelta
-      let formattedReturnScheduledAt: string | undefined = undefined
-      if (isRoundTrip && returnScheduledAt && returnScheduledAt.trim() !== '') {
-        try {
-          const date = new Date(returnScheduledAt)
-          if (!isNaN(date.getTime())) {
-            formattedReturnScheduledAt = date.toISOString()
-          } else {
-            console.warn('Fecha de vuelta inválida:', returnScheduledAt)
-          }
-        } catch (error) {
-          console.error('Error formateando fecha de vuelta:', error)
-        }
+      setFareBreakdown({
+        lineItems: pricing.lineItems,
+        currency: pricing.currency,
+        surgeMultiplier: pricing.surgeMultiplier,
+      })
+      setReturnFareBreakdown(returnQuote && { lineItems: returnQuote.lineItems, currency: returnQuote.currency })
+
+      // La tarifa dinámica subió desde que el pasajero la aceptó: mostrar el nuevo desglose y pedir confirmación
+      if (Math.max(pricing.surgeMultiplier, returnQuote?.surgeMultiplier || 1) > acceptedSurge) {
+        toast.error(t('passenger.surgeConfirmRequired') || 'Hay alta demanda: confirma la tarifa dinámica para continuar')
+        setIsLoading(false)
+        return
+      }
+
+      // El precio de los tramos cambió desde que el pasajero lo vio: mostrar el nuevo total y pedir confirmación
+      const totalPrice = pricing.totalPrice + (returnQuote?.totalPrice || 0)
+      if (totalPrice !== routeInfo.price) {
+        setRouteInfo({ ...routeInfo, price: totalPrice })
+        setFormattedPrice(await formatConverted(totalPrice, pricing.currency))
+        toast.error(t('passenger.priceChangedConfirm') || 'El precio cambió: revísalo y confirma de nuevo')
+        setIsLoading(false)
+        return
       }
 
+      const formattedScheduledAt = getScheduledAtIso()
+      const formattedReturnScheduledAt = returnQuote ? getReturnScheduledAtIso() : undefined
+
       const tripData = {
         originAddress: origin.address,
         originLatitude: origin.latitude,
@@ -368,11 +455,14 @@ export default function RequestTrip() {
         duration: Math.round(routeInfo.duration),
         distanceText: routeInfo.distanceText,
         durationText: routeInfo.durationText,
-        basePrice,
-        distancePrice,
-        timePrice,
-        totalPrice,
-        currency,
+        fareQuote: pricing.quote,
+        returnFareQuote: returnQuote?.quote,
+        stops: stops.map(stop => ({
+          address: stop.address,
+          latitude: stop.latitude,
+          longitude: stop.longitude,
+          placeId: stop.placeId,
+        })),
         routePolyline: routeInfo.polyline,
         routeBounds: routeInfo.bounds,
       }
@@ -451,6 +541,56 @@ export default function RequestTrip() {
                 )}
               </div>
 
+              {/* Paradas intermedias */}
+              <div className="space-y-2">
+                <Label htmlFor="newStop">{t('passenger.stops') || 'Paradas'}</Label>
+                {stops.length > 0 && (
+                  <ol className="space-y-1">
+                    {stops.map((stop, index) => (
+                      <li key={`${stop.placeId || stop.address}-${index}`} className="flex items-center gap-2 text-sm">
+                        <span className="flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full bg-amber-500 text-xs font-bold text-white">
+                          {index + 1}
+                        </span>
+                        <span className="flex-1 truncate">{stop.address}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveStop(index)}
+                          aria-label={t('passenger.removeStop') || 'Quitar parada'}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {isAddingStop ? (
+                  <PlaceSearchInput
+                    id="newStop"
+                    placeholder={t('passenger.stopPlaceholder') || '¿Dónde quieres parar?'}
+                    countryCode={userCountryCode}
+                    onSelect={handleAddStop}
+                  />
+                ) : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsAddingStop(true)}
+                    disabled={stops.length >= MAX_TRIP_STOPS}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    {t('passenger.addStop') || 'Agregar parada'}
+                  </Button>
+                )}
+                {stops.length >= MAX_TRIP_STOPS && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('passenger.maxStopsReached', { max: MAX_TRIP_STOPS }) || `Máximo ${MAX_TRIP_STOPS} paradas por viaje`}
+                  </p>
+                )}
+              </div>
+
               {/* Destino */}
               <div className="space-y-2">
                 <Label htmlFor="destination">{t('passenger.destination') || 'Destino'}</Label>
@@ -531,6 +671,7 @@ export default function RequestTrip() {
                         lng: destination.longitude,
                         address: destination.address,
                       }}
+                      waypoints={routeWaypoints}
                       polyline={routeInfo.polyline}
                       bounds={routeInfo.bounds}
                       height="300px"
@@ -553,6 +694,45 @@ export default function RequestTrip() {
                         <span className="font-medium">{routeInfo.durationText}</span>
                       </div>
                     </div>
+                    {fareBreakdown && (
+                      <div className="pt-2 border-t">
+                        <p className="text-xs text-muted-foreground mb-1">
+                          {isRoundTrip
+                            ? t('passenger.fareBreakdownOutbound') || 'Desglose de la ida'
+                            : t('passenger.fareBreakdown') || 'Desglose de la tarifa'}
+                        </p>
+                        <FareBreakdown lineItems={fareBreakdown.lineItems} currency={fareBreakdown.currency} />
+                      </div>
+                    )}
+                    {isRoundTrip && returnFareBreakdown && (
+                      <div className="pt-2 border-t">
+                        <p className="text-xs text-muted-foreground mb-1">
+                          {t('passenger.fareBreakdownReturn') || 'Desglose de la vuelta'}
+                        </p>
+                        <FareBreakdown lineItems={returnFareBreakdown.lineItems} currency={returnFareBreakdown.currency} />
+                      </div>
+                    )}
+                    {fareBreakdown && fareBreakdown.surgeMultiplier > 1 && (
+                      <div className="p-3 rounded-md border border-amber-300 bg-amber-50 text-amber-900 space-y-2">
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          <Zap className="h-4 w-4" />
+                          {t('passenger.surgeActive', { multiplier: fareBreakdown.surgeMultiplier.toFixed(1) }) ||
+                            `Alta demanda en tu zona: tarifa x${fareBreakdown.surgeMultiplier.toFixed(1)}`}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            id="acceptSurge"
+                            checked={acceptedSurge >= fareBreakdown.surgeMultiplier}
+                            onChange={(e) => setAcceptedSurge(e.target.checked ? fareBreakdown.surgeMultiplier : 1)}
+                            className="h-4 w-4 rounded border-gray-300"
+                          />
+                          <Label htmlFor="acceptSurge" className="text-sm cursor-pointer">
+                            {t('passenger.surgeAccept') || 'Acepto la tarifa dinámica'}
+                          </Label>
+                        </div>
+                      </div>
+                    )}
                     <div className="flex items-center justify-between pt-2 border-t">
                       <div>
                         <div className="flex items-center gap-2">
@@ -561,7 +741,9 @@ export default function RequestTrip() {
                         </div>
                         {isRoundTrip && (
                           <p className="text-xs text-muted-foreground mt-1">
-                            {t('passenger.roundTripPrice') || 'Precio incluye ida y vuelta'}
+                            {returnFareBreakdown
+                              ? t('passenger.roundTripPrice') || 'Precio incluye ida y vuelta'
+                              : t('passenger.returnNotQuoted') || 'Precio de la ida: indica la fecha de vuelta para cotizar la vuelta'}
                           </p>
                         )}
                       </div>
@@ -576,32 +758,49 @@ export default function RequestTrip() {
                   <Car className="h-4 w-4" />
                   {t('passenger.vehicleType') || 'Tipo de Vehículo'} (opcional)
                 </Label>
-                <Select
-                  value={preferredVehicleType}
-                  onValueChange={(value) => setPreferredVehicleType(value as VehicleType | 'ANY')}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder={t('passenger.selectVehicleType') || 'Selecciona un tipo de vehículo'} />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="ANY">{t('passenger.anyVehicle') || 'Cualquier vehículo'}</SelectItem>
-                    <SelectItem value={VehicleType.SEDAN}>
-                      {t('passenger.vehicleTypeSedan') || 'Sedan'} - {t('passenger.sedanDiscount') || '35% descuento'}
-                    </SelectItem>
-                    <SelectItem value={VehicleType.LUXURY}>
-                      {t('passenger.vehicleTypeLuxury') || 'Camioneta de Lujo'} (7 pasajeros)
-                    </SelectItem>
-                    <SelectItem value={VehicleType.SUV}>
-                      {t('passenger.vehicleTypeSUV') || 'SUV'}
-                    </SelectItem>
-                    <SelectItem value={VehicleType.VAN}>
-                      {t('passenger.vehicleTypeVAN') || 'Van'}
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
-                {preferredVehicleType === VehicleType.SEDAN && (
-                  <p className="text-xs text-green-600 font-medium">
-                    {t('passenger.sedanDiscountApplied') || '✓ Se aplicará un 35% de descuento en el precio por kilómetro'}
+                {vehiclePrices.length > 0 ? (
+                  // Selector con el precio de cada tipo de vehículo disponible en el país
+                  <div className="grid grid-cols-2 gap-2">
+                    {vehiclePrices.map((option) => {
+                      const value = option.vehicleType || 'ANY'
+                      return (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => setPreferredVehicleType(value)}
+                          className={`rounded-lg border p-3 text-left transition-colors ${
+                            preferredVehicleType === value ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                          }`}
+                        >
+                          <div className="text-sm font-medium">{getVehicleTypeLabel(option.vehicleType)}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {formatAmount(option.totalPrice, option.currency)}
+                            {isRoundTrip && ` ${t('passenger.perLeg') || 'por tramo'}`}
+                          </div>
+                        </button>
+                      )
+                    })}
+                  </div>
+                ) : (
+                  <Select
+                    value={preferredVehicleType}
+                    onValueChange={(value) => setPreferredVehicleType(value as VehicleType | 'ANY')}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('passenger.selectVehicleType') || 'Selecciona un tipo de vehículo'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ANY">{t('passenger.anyVehicle') || 'Cualquier vehículo'}</SelectItem>
+                      <SelectItem value={VehicleType.SEDAN}>{getVehicleTypeLabel(VehicleType.SEDAN)}</SelectItem>
+                      <SelectItem value={VehicleType.SUV}>{getVehicleTypeLabel(VehicleType.SUV)}</SelectItem>
+                      <SelectItem value={VehicleType.VAN}>{getVehicleTypeLabel(VehicleType.VAN)}</SelectItem>
+                      <SelectItem value={VehicleType.LUXURY}>{getVehicleTypeLabel(VehicleType.LUXURY)}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {vehiclePrices.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('passenger.vehiclePricesHint') || 'Indica origen y destino para ver el precio de cada vehículo'}
                   </p>
                 )}
               </div>
@@ -646,7 +845,7 @@ export default function RequestTrip() {
                 </div>
                 {isRoundTrip && (
                   <p className="text-sm text-muted-foreground ml-6">
-                    {t('passenger.roundTripDescription') || 'El precio se duplicará para incluir el viaje de vuelta'}
+                    {t('passenger.roundTripDescription') || 'La vuelta se reservará como un segundo viaje, con origen y destino invertidos. El precio incluye ambos tramos'}
                   </p>
                 )}
               </div>
@@ -726,7 +925,10 @@ export default function RequestTrip() {
                 </Button>
                 <Button
                   type="submit"
-                  disabled={isLoading || !origin || !destination || !routeInfo}
+                  disabled={
+                    isLoading || !origin || !destination || !routeInfo ||
+                    (!!fareBreakdown && fareBreakdown.surgeMultiplier > acceptedSurge)
+                  }
                   className="flex-1"
                   onClick={() => {
                     // Debug: mostrar qué falta
@@ -12,6 +12,10 @@ import type { Trip } from '@/types'
 import { useCurrency } from '@/hooks/useCurrency'
 import { useAuth } from '@/contexts/AuthContext'
 import { CancelTripDialog } from '@/components/trips/CancelTripDialog'
+import { RoundTripLeg } from '@/components/trips/RoundTripLeg'
+import { FareBreakdown } from '@/components/trips/FareBreakdown'
+import { RouteComparison } from '@/components/trips/RouteComparison'
+import { TripTimeline } from '@/components/trips/TripTimeline'
 import { AutoPayButton } from '@/components/payments/AutoPayButton'
 
 export default function TripDetails() {
@@ -28,6 +32,8 @@ export default function TripDetails() {
   const [paymentInfo, setPaymentInfo] = useState<{
     paymentId: string
     transactionXdr?: string
+    assetAmount?: string
+    asset?: string
   } | null>(null)
 
   useEffect(() => {
@@ -56,6 +62,8 @@ export default function TripDetails() {
             setPaymentInfo({
               paymentId: paymentData.payment.id,
               transactionXdr: paymentData.trip.transactionXdr,
+              assetAmount: paymentData.payment.paymentMethodDetails?.assetAmount,
+              asset: paymentData.payment.paymentMethodDetails?.asset,
             })
           } else {
             setPaymentInfo({
@@ -108,6 +116,8 @@ export default function TripDetails() {
     return null
   }
 
+  const cancellationFee = trip.payments?.find(payment => payment.type === 'CANCELLATION_FEE' && payment.status === 'PENDING')
+
   return (
     <div className="container mx-auto px-4 py-8">
       <Button
@@ -129,6 +139,9 @@ export default function TripDetails() {
           </div>
           {getStatusBadge(trip.status)}
         </div>
+        <div className="mt-2">
+          <RoundTripLeg trip={trip} basePath="/passenger/trips" />
+        </div>
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
@@ -147,6 +160,21 @@ export default function TripDetails() {
                 </div>
               </div>
             </div>
+            {trip.stops && trip.stops.length > 0 && (
+              <div className="space-y-2 pl-7">
+                <p className="text-sm font-medium">{t('trip.stops') || 'Paradas'}</p>
+                {[...trip.stops].sort((x, y) => x.sequence - y.sequence).map(stop => (
+                  <div key={stop.id} className="text-sm">
+                    <p className="text-muted-foreground">{stop.sequence}. {stop.address}</p>
+                    {stop.reachedAt && (
+                      <p className="text-xs text-green-600">
+                        {t('trip.stopReachedAt') || 'Alcanzada a las'} {new Date(stop.reachedAt).toLocaleTimeString()}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="space-y-2">
               <div className="flex items-start gap-2">
                 <MapPin className="h-5 w-5 mt-1 text-red-600" />
@@ -286,6 +314,8 @@ export default function TripDetails() {
               driverAddress={trip.paymentAddress || trip.driver?.stellarAddress || ''}
               amount={trip.totalPrice}
               currency={trip.currency}
+              assetAmount={paymentInfo.assetAmount}
+              asset={paymentInfo.asset}
               onPaymentSuccess={() => {
                 loadTrip(trip.id)
               }}
@@ -293,6 +323,50 @@ export default function TripDetails() {
           </div>
         )}
 
+        {/* Viaje completado sin cobro aún (sin tasa de cambio vigente): se genera en unos minutos */}
+        {trip.completedAt && !trip.paymentQrCode && trip.status !== 'COMPLETED' && (
+          <Card className="md:col-span-2">
+            <CardContent className="pt-6 text-sm text-muted-foreground">
+              {t('payment.awaitingQuote') ||
+                'El viaje terminó. Estamos generando el código de pago; te avisaremos cuando esté disponible.'}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Cargo por cancelación pendiente */}
+        {cancellationFee && (
+          <div className="md:col-span-2">
+            {cancellationFee.method === 'STELLAR' && cancellationFee.paymentMethodDetails?.transactionXdr ? (
+              <AutoPayButton
+                tripId={trip.id}
+                paymentId={cancellationFee.id}
+                transactionXdr={cancellationFee.paymentMethodDetails.transactionXdr}
+                driverAddress={cancellationFee.paymentMethodDetails.stellarAddress || ''}
+                amount={cancellationFee.amount}
+                currency={cancellationFee.currency}
+                assetAmount={cancellationFee.paymentMethodDetails.assetAmount}
+                asset={cancellationFee.paymentMethodDetails.asset}
+                onPaymentSuccess={() => {
+                  loadTrip(trip.id)
+                }}
+              />
+            ) : (
+              <Card className="border-destructive/50">
+                <CardHeader>
+                  <CardTitle>{t('passenger.cancellationFeePending') || 'Cargo por cancelación pendiente'}</CardTitle>
+                  <CardDescription>{cancellationFee.paymentMethodDetails?.description}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-2xl font-bold">{formatAmount(cancellationFee.amount, cancellationFee.currency)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {t('passenger.cancellationFeeContact') || 'Contacta a soporte para pagar este cargo antes de pedir otro viaje'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
         {/* Precio y pagos */}
         <Card>
           <CardHeader>
@@ -321,6 +395,16 @@ export default function TripDetails() {
                 </div>
               )}
             </div>
+            {trip.priceLineItems && trip.priceLineItems.length > 0 && (
+              <div className="mt-4 pt-4 border-t">
+                <FareBreakdown lineItems={trip.priceLineItems} currency={trip.currency} />
+              </div>
+            )}
+            {trip.actualDuration != null && (
+              <div className="mt-4 pt-4 border-t">
+                <RouteComparison trip={trip} />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -348,6 +432,9 @@ export default function TripDetails() {
                 <span>{formatDate(trip.completedAt)}</span>
               </div>
             )}
+            <div className="pt-3 border-t">
+              <TripTimeline key={trip.status} tripId={trip.id} />
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -363,16 +450,9 @@ export default function TripDetails() {
               <MapIcon className="h-4 w-4 mr-2" />
               {t('passenger.trackTrip') || 'Ver Ruta'}
             </Button>
-            <Button
-              variant="destructive"
-              onClick={() => setShowCancelDialog(true)}
-            >
-              <X className="h-4 w-4 mr-2" />
-              {t('common.cancel') || 'Cancelar Viaje'}
-            </Button>
           </>
         )}
-        {(trip.status === 'PENDING') && (
+        {(trip.status === 'PENDING' || trip.status === 'CONFIRMED') && (
           <Button
             variant="destructive"
             onClick={() => setShowCancelDialog(true)}
@@ -386,11 +466,11 @@ export default function TripDetails() {
       <CancelTripDialog
         open={showCancelDialog}
         onOpenChange={setShowCancelDialog}
-        onConfirm={async (reason) => {
+        onConfirm={async (reason, cancelLinkedLeg) => {
           if (!trip) return
           try {
             setIsCancelling(true)
-            await api.cancelTrip(trip.id, reason)
+            await api.cancelTrip(trip.id, reason, cancelLinkedLeg)
             toast.success(t('passenger.tripCancelled') || 'Viaje cancelado exitosamente')
             navigate('/passenger/trips')
           } catch (error: any) {
@@ -401,6 +481,9 @@ export default function TripDetails() {
         }}
         tripNumber={trip.tripNumber}
         isLoading={isCancelling}
+        linkedLeg={trip.outboundTrip || trip.returnTrip}
+        linkedLegIsReturn={!!trip.returnTrip}
+        tripId={trip.id}
       />
     </div>
   )
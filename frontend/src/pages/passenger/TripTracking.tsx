@@ -1,6 +1,6 @@
 /**
  * Página de seguimiento de viaje para el pasajero
- * Muestra el mapa con la ruta del viaje
+ * Muestra el mapa con la ruta del viaje y, cuando el conductor llega al origen, el tiempo de espera
  */
 
 import { useEffect, useState } from 'react'
@@ -11,11 +11,17 @@ import { api } from '@/services/api'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, MapPin, Clock, Navigation, User, Phone, Map as MapIcon } from 'lucide-react'
+import { ArrowLeft, MapPin, Clock, Navigation, User, Phone, Map as MapIcon, Timer } from 'lucide-react'
 import { toast } from 'sonner'
 import { TripTrackingMap } from '@/components/maps/TripTrackingMap'
 import { useCurrency } from '@/hooks/useCurrency'
+import { useTripTracking } from '@/hooks/useTripTracking'
+import { useWaitTimer, formatWaitTime } from '@/hooks/useWaitTimer'
+import { SafetyCheck } from '@/components/trips/SafetyCheck'
+import { SosButton } from '@/components/trips/SosButton'
+import { ShareTripButton } from '@/components/trips/ShareTripButton'
 import type { Trip } from '@/types'
+import { TripStatus } from '@/types'
 
 export default function PassengerTripTracking() {
   const { t } = useTranslation()
@@ -26,6 +32,11 @@ export default function PassengerTripTracking() {
   const [trip, setTrip] = useState<Trip | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [formattedPrice, setFormattedPrice] = useState<string>('')
+  const isTrackable = trip?.status === TripStatus.CONFIRMED || trip?.status === TripStatus.IN_PROGRESS
+  const { lastLocation, breadcrumbs, isLive } = useTripTracking(id, isTrackable)
+  const eta = lastLocation?.eta
+  const isDriverWaiting = trip?.status === TripStatus.CONFIRMED && !!trip.driverArrivedAt
+  const waitTimer = useWaitTimer(isDriverWaiting ? trip?.driverArrivedAt : null, trip?.noShowEligibleAt)
 
   useEffect(() => {
     if (!user || !id) {
@@ -124,14 +135,87 @@ export default function PassengerTripTracking() {
               <TripTrackingMap
                 trip={trip}
                 showCurrentLocation={false}
+                driverLatitude={lastLocation?.latitude}
+                driverLongitude={lastLocation?.longitude}
+                driverHeading={lastLocation?.heading}
+                breadcrumbs={breadcrumbs}
                 height="500px"
               />
+              {isTrackable && (
+                <div className="mt-4 flex items-center gap-2 text-sm text-muted-foreground">
+                  <Navigation className={`h-4 w-4 ${isLive ? 'text-green-600' : ''}`} />
+                  <span>
+                    {lastLocation
+                      ? t('passenger.driverLocationUpdated', { time: new Date(lastLocation.recordedAt).toLocaleTimeString() }) || `Ubicación del conductor actualizada a las ${new Date(lastLocation.recordedAt).toLocaleTimeString()}`
+                      : t('passenger.waitingDriverLocation') || 'Esperando la ubicación del conductor...'}
+                  </span>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
 
         {/* Información del viaje */}
         <div className="space-y-6">
+          {/* Verificación de seguridad durante el viaje */}
+          <SafetyCheck tripId={trip.id} enabled={trip.status === TripStatus.IN_PROGRESS} />
+
+          {/* Botón de emergencia */}
+          {isTrackable && <SosButton tripId={trip.id} />}
+
+          {/* Compartir el seguimiento en vivo */}
+          {(isTrackable || trip.status === TripStatus.PENDING) && <ShareTripButton trip={trip} />}
+
+          {/* Conductor esperando en el origen */}
+          {isDriverWaiting && (
+            <Card className="border-amber-500/50 bg-amber-500/5">
+              <CardContent className="pt-6 space-y-2">
+                <div className="flex items-center gap-3">
+                  <Timer className="h-8 w-8 text-amber-600" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">
+                      {t('passenger.driverArrived') || 'Tu conductor llegó y te está esperando'}
+                    </p>
+                    <p className="text-2xl font-bold font-mono">{formatWaitTime(waitTimer.elapsedSeconds)}</p>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {waitTimer.remainingSeconds > 0
+                    ? t('passenger.noShowWarning', { time: formatWaitTime(waitTimer.remainingSeconds) }) ||
+                      `Si no te presentas en ${formatWaitTime(waitTimer.remainingSeconds)}, el conductor podrá cancelar el viaje con cargo por no presentación`
+                    : t('passenger.noShowWarningExpired') ||
+                      'El tiempo de espera terminó: el conductor puede cancelar el viaje con cargo por no presentación'}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* ETA en tiempo real */}
+          {isTrackable && !isDriverWaiting && eta && (
+            <Card className="border-primary/50 bg-primary/5">
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <Clock className="h-8 w-8 text-primary" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">
+                      {eta.target === 'ORIGIN'
+                        ? t('passenger.driverArrivingIn') || 'Tu conductor llega en'
+                        : t('passenger.arrivingAtDestinationIn') || 'Llegada al destino en'}
+                    </p>
+                    <p className="text-2xl font-bold">
+                      {eta.etaMinutes <= 1
+                        ? t('passenger.etaLessThanMinute') || 'menos de 1 min'
+                        : t('passenger.etaMinutes', { minutes: eta.etaMinutes }) || `${eta.etaMinutes} min`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {(eta.distanceMeters / 1000).toFixed(1)} km
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Detalles del viaje */}
           <Card>
             <CardHeader>
@@ -11,6 +11,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { MapPin, Clock, DollarSign, ArrowRight, AlertCircle } from 'lucide-react'
 import type { Trip } from '@/types'
 import { useCurrency } from '@/hooks/useCurrency'
+import { CancelTripDialog } from '@/components/trips/CancelTripDialog'
+import { RoundTripLeg } from '@/components/trips/RoundTripLeg'
 
 export default function PassengerTrips() {
   const { t } = useTranslation()
@@ -21,6 +23,8 @@ export default function PassengerTrips() {
   const [isLoading, setIsLoading] = useState(true)
   const [activeTab, setActiveTab] = useState('active')
   const [convertedPrices, setConvertedPrices] = useState<Record<string, string>>({})
+  const [tripToCancel, setTripToCancel] = useState<Trip | null>(null)
+  const [isCancelling, setIsCancelling] = useState(false)
 
   useEffect(() => {
     loadTrips()
@@ -223,6 +227,9 @@ export default function PassengerTrips() {
                         </div>
                       )}
 
+                      {/* Tramo de ida y vuelta */}
+                      <RoundTripLeg trip={trip} basePath="/passenger/trips" />
+
                       {/* Conductor */}
                       {trip.driver && (
                         <div className="flex flex-col md:flex-row md:items-center gap-1 md:gap-2 text-xs md:text-sm">
@@ -262,6 +269,11 @@ export default function PassengerTrips() {
                               variant="destructive"
                               size="sm"
                               onClick={async () => {
+                                // En un viaje de ida y vuelta se ofrece cancelar también el otro tramo
+                                if (trip.outboundTrip || trip.returnTrip) {
+                                  setTripToCancel(trip)
+                                  return
+                                }
                                 try {
                                   await api.cancelTrip(trip.id)
                                   toast.success(t('passenger.tripCancelled') || 'Viaje cancelado')
@@ -285,6 +297,30 @@ export default function PassengerTrips() {
           )}
         </TabsContent>
       </Tabs>
+
+      <CancelTripDialog
+        open={!!tripToCancel}
+        onOpenChange={(open) => !open && setTripToCancel(null)}
+        onConfirm={async (reason, cancelLinkedLeg) => {
+          if (!tripToCancel) return
+          try {
+            setIsCancelling(true)
+            await api.cancelTrip(tripToCancel.id, reason, cancelLinkedLeg)
+            toast.success(t('passenger.tripCancelled') || 'Viaje cancelado')
+            setTripToCancel(null)
+            loadTrips()
+          } catch (error) {
+            toast.error((error instanceof Error && error.message) || t('passenger.cancelError') || 'Error al cancelar')
+          } finally {
+            setIsCancelling(false)
+          }
+        }}
+        tripNumber={tripToCancel?.tripNumber}
+        isLoading={isCancelling}
+        linkedLeg={tripToCancel?.outboundTrip || tripToCancel?.returnTrip}
+        linkedLegIsReturn={!!tripToCancel?.returnTrip}
+        tripId={tripToCancel?.id}
+      />
     </div>
   )
 }
@@ -1,5 +1,5 @@
 // Cliente API para comunicarse con el backend
-import type { User, Trip, Reservation, Experience, Location } from '@/types'
+import type { User, Trip, Reservation, Experience, Location, TripTracking, TripLocationUpdate, TripEta, TripDispatchLog, TripStop, VehiclePrice, FareQuoteLeg, CancellationCharge, TripTimeline, TripGeofences, GeofenceOverride, GeofenceStage, TripSafetyAlert, StaffSafetyAlert, SafetyAlertResponse, SafetyAlertStatus, EmergencyContact, EmergencyContactInput, SosDelivery, SosIncident, SosIncidentStatus, TripShareLink, SharedTrip, SharedTripLocation, DriverSettlementOptions, StellarAssetOption, TrustlineStatus, TripPayment, StellarAssetRef, StellarPathOptions } from '@/types'
 
 // Obtener API URL de las variables de entorno
 // Detecta automáticamente si está en localhost o en la red
@@ -95,16 +95,26 @@ class ApiClient {
 
   // Trips (Pasajeros)
   // Pricing
-  async calculatePrice(distance: number, country: string, vehicleType?: string): Promise<{
-    basePrice: number
-    distancePrice: number
-    timePrice: number
-    totalPrice: number
-    currency: string
+  // El país lo determina el backend a partir del origen
+  async calculatePrice(route: {
+    distance: number
+    duration: number // Minutos
+    originLatitude: number
+    originLongitude: number
+    destinationLatitude: number
+    destinationLongitude: number
+    stops?: Array<{ latitude: number; longitude: number }> // Paradas intermedias, en orden
+    vehicleType?: string
+    scheduledAt?: string
+    returnScheduledAt?: string // Ida y vuelta: cotiza también la vuelta (returnQuote)
+    routePolyline?: string
+  }): Promise<FareQuoteLeg & {
+    priceList: VehiclePrice[] // Precio para cada tipo de vehículo del país
+    returnQuote: FareQuoteLeg | null
   }> {
     return this.request('/pricing/calculate', {
       method: 'POST',
-      body: JSON.stringify({ distance, country, vehicleType }),
+      body: JSON.stringify(route),
     })
   }
 
@@ -130,11 +140,14 @@ class ApiClient {
     duration: number
     distanceText: string
     durationText: string
-    basePrice: number
-    distancePrice: number
-    timePrice: number
-    totalPrice: number
-    currency?: string
+    fareQuote: string
+    returnFareQuote?: string // Cotización de la vuelta (ida y vuelta)
+    stops?: Array<{
+      address: string
+      latitude: number
+      longitude: number
+      placeId?: string
+    }>
     routePolyline?: string
     routeBounds?: any
   }) {
@@ -159,20 +172,30 @@ class ApiClient {
     })
   }
 
-  async cancelTrip(id: string, reason?: string) {
+  async cancelTrip(id: string, reason?: string, cancelLinkedLeg?: boolean) {
     return this.request<Trip>(`/trips/${id}/cancel`, {
       method: 'PATCH',
-      body: JSON.stringify({ reason }),
+      body: JSON.stringify({ reason, cancelLinkedLeg }),
     })
   }
 
-  async cancelDriverTrip(id: string, reason?: string) {
+  async cancelDriverTrip(id: string, reason?: string, cancelLinkedLeg?: boolean) {
     return this.request<Trip>(`/driver/trips/${id}/cancel`, {
       method: 'PATCH',
-      body: JSON.stringify({ reason }),
+      body: JSON.stringify({ reason, cancelLinkedLeg }),
     })
   }
 
+  // Cargo que tendría cancelar ahora el viaje (pasajero) o penalización (conductor)
+  async getCancellationFee(id: string, asDriver = false) {
+    return this.request<CancellationCharge>(asDriver ? `/driver/trips/${id}/cancellation-fee` : `/trips/${id}/cancellation-fee`)
+  }
+
+  // Historial de cambios de estado del viaje
+  async getTripTimeline(id: string) {
+    return this.request<TripTimeline>(`/trips/${id}/timeline`)
+  }
+
   // Experiences (Experiencias)
   async getExperiences(filters?: { status?: string; hostId?: string }) {
     const params = new URLSearchParams()
@@ -394,6 +417,7 @@ class ApiClient {
     search?: string
     startDate?: string
     endDate?: string
+    fareReviewStatus?: string
   }) {
     const params = new URLSearchParams()
     if (options?.page) params.append('page', options.page.toString())
@@ -404,6 +428,7 @@ class ApiClient {
     if (options?.search) params.append('search', options.search)
     if (options?.startDate) params.append('startDate', options.startDate)
     if (options?.endDate) params.append('endDate', options.endDate)
+    if (options?.fareReviewStatus) params.append('fareReviewStatus', options.fareReviewStatus)
 
     const queryString = params.toString()
     return this.request<{
@@ -419,10 +444,153 @@ class ApiClient {
     return this.request<Trip>(`/admin/trips/${id}`)
   }
 
-  async updateTripStatus(id: string, status: string) {
+  async getTripDispatchLog(id: string) {
+    return this.request<TripDispatchLog>(`/admin/trips/${id}/dispatch-log`)
+  }
+
+  async updateTripStatus(id: string, status: string, reason?: string) {
     return this.request<Trip>(`/admin/trips/${id}/status`, {
       method: 'PATCH',
-      body: JSON.stringify({ status }),
+      body: JSON.stringify({ status, reason }),
+    })
+  }
+
+  async getGeofenceOverrides(tripId: string) {
+    return this.request<{ overrides: GeofenceOverride[] }>(`/trips/${tripId}/geofence-overrides`)
+  }
+
+  // Autoriza al conductor a iniciar o completar el viaje fuera de la geocerca (queda registrado)
+  async grantGeofenceOverride(tripId: string, stage: GeofenceStage, reason: string) {
+    return this.request<GeofenceOverride>(`/trips/${tripId}/geofence-overrides`, {
+      method: 'POST',
+      body: JSON.stringify({ stage, reason }),
+    })
+  }
+
+  // Alertas de seguridad del viaje del pasajero ("¿Estás bien?")
+  async getTripSafetyAlerts(tripId: string) {
+    return this.request<{ alerts: TripSafetyAlert[] }>(`/trips/${tripId}/safety-alerts`)
+  }
+
+  async respondToSafetyAlert(tripId: string, alertId: string, response: SafetyAlertResponse) {
+    return this.request<TripSafetyAlert>(`/trips/${tripId}/safety-alerts/${alertId}/respond`, {
+      method: 'POST',
+      body: JSON.stringify({ response }),
+    })
+  }
+
+  async getSafetyAlerts(options?: { page?: number; limit?: number; status?: SafetyAlertStatus }) {
+    const params = new URLSearchParams()
+    if (options?.page) params.append('page', options.page.toString())
+    if (options?.limit) params.append('limit', options.limit.toString())
+    if (options?.status) params.append('status', options.status)
+
+    const queryString = params.toString()
+    return this.request<{
+      alerts: StaffSafetyAlert[]
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }>(`/safety/alerts${queryString ? `?${queryString}` : ''}`)
+  }
+
+  async resolveSafetyAlert(id: string, note: string) {
+    return this.request<StaffSafetyAlert>(`/safety/alerts/${id}/resolve`, {
+      method: 'PATCH',
+      body: JSON.stringify({ note }),
+    })
+  }
+
+  // Contactos de emergencia del usuario (se les avisa al activar el SOS)
+  async getEmergencyContacts() {
+    return this.request<{ contacts: EmergencyContact[] }>('/auth/me/emergency-contacts')
+  }
+
+  async createEmergencyContact(contact: EmergencyContactInput) {
+    return this.request<EmergencyContact>('/auth/me/emergency-contacts', {
+      method: 'POST',
+      body: JSON.stringify(contact),
+    })
+  }
+
+  async updateEmergencyContact(id: string, contact: EmergencyContactInput) {
+    return this.request<EmergencyContact>(`/auth/me/emergency-contacts/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(contact),
+    })
+  }
+
+  async deleteEmergencyContact(id: string) {
+    return this.request<{ success: boolean }>(`/auth/me/emergency-contacts/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Activa el SOS del viaje (pasajero o conductor)
+  async triggerSos(tripId: string, data: { latitude?: number; longitude?: number; accuracy?: number; message?: string }) {
+    return this.request<{ incident: SosIncident; deliveries: SosDelivery[] }>(`/trips/${tripId}/sos`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async getSosIncidents(options?: { page?: number; limit?: number; status?: SosIncidentStatus }) {
+    const params = new URLSearchParams()
+    if (options?.page) params.append('page', options.page.toString())
+    if (options?.limit) params.append('limit', options.limit.toString())
+    if (options?.status) params.append('status', options.status)
+
+    const queryString = params.toString()
+    return this.request<{
+      incidents: SosIncident[]
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }>(`/safety/sos${queryString ? `?${queryString}` : ''}`)
+  }
+
+  async acknowledgeSosIncident(id: string) {
+    return this.request<SosIncident>(`/safety/sos/${id}/acknowledge`, {
+      method: 'PATCH',
+    })
+  }
+
+  async resolveSosIncident(id: string, note: string) {
+    return this.request<SosIncident>(`/safety/sos/${id}/resolve`, {
+      method: 'PATCH',
+      body: JSON.stringify({ note }),
+    })
+  }
+
+  // Enlaces públicos para seguir el viaje (pasajero)
+  async getTripShareLinks(tripId: string) {
+    return this.request<{ links: TripShareLink[] }>(`/trips/${tripId}/share`)
+  }
+
+  async createTripShareLink(tripId: string, expiresInMinutes?: number) {
+    return this.request<TripShareLink>(`/trips/${tripId}/share`, {
+      method: 'POST',
+      body: JSON.stringify({ expiresInMinutes }),
+    })
+  }
+
+  async revokeTripShareLink(tripId: string, linkId: string) {
+    return this.request<{ success: boolean }>(`/trips/${tripId}/share/${linkId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Vista pública de un viaje compartido (no requiere sesión)
+  async getSharedTrip(token: string) {
+    return this.request<SharedTrip>(`/share/${token}`)
+  }
+
+  async resolveFareReview(id: string, note?: string) {
+    return this.request<Trip>(`/admin/trips/${id}/fare-review`, {
+      method: 'PATCH',
+      body: JSON.stringify({ note }),
     })
   }
 
@@ -434,10 +602,10 @@ class ApiClient {
     })
   }
 
-  async cancelAdminTrip(id: string, reason?: string) {
+  async cancelAdminTrip(id: string, reason?: string, cancelLinkedLeg?: boolean) {
     return this.request<Trip>(`/admin/trips/${id}/cancel`, {
       method: 'PATCH',
-      body: JSON.stringify({ reason }),
+      body: JSON.stringify({ reason, cancelLinkedLeg }),
     })
   }
 
@@ -522,6 +690,18 @@ class ApiClient {
     return this.request<Trip>(`/driver/trips/${tripId}`)
   }
 
+  // Asset Stellar con que cobra el conductor
+  async getDriverSettlementAsset() {
+    return this.request<DriverSettlementOptions>('/driver/settlement-asset')
+  }
+
+  async updateDriverSettlementAsset(asset: { code: string; issuer: string | null }) {
+    return this.request<{ asset: StellarAssetOption; trustline: TrustlineStatus | null; warning: string | null }>('/driver/settlement-asset', {
+      method: 'PUT',
+      body: JSON.stringify(asset),
+    })
+  }
+
   async acceptTrip(tripId: string, vehicleId?: string) {
     return this.request<Trip>(`/driver/trips/${tripId}/accept`, {
       method: 'POST',
@@ -536,11 +716,45 @@ class ApiClient {
     })
   }
 
+  async markStopReached(tripId: string, stopId: string) {
+    return this.request<TripStop>(`/driver/trips/${tripId}/stops/${stopId}/reached`, {
+      method: 'POST',
+    })
+  }
+
+  // Marca la llegada del conductor al origen (el backend verifica que esté dentro del radio de llegada)
+  async markDriverArrived(tripId: string, position: { latitude: number; longitude: number; accuracy?: number | null }) {
+    return this.request<Trip>(`/driver/trips/${tripId}/arrived`, {
+      method: 'POST',
+      body: JSON.stringify(position),
+    })
+  }
+
+  // Marca al pasajero como no presentado tras la espera; cancela el viaje con el cargo correspondiente
+  async markPassengerNoShow(tripId: string, position: { latitude: number; longitude: number; accuracy?: number | null }) {
+    return this.request<Trip>(`/driver/trips/${tripId}/no-show`, {
+      method: 'POST',
+      body: JSON.stringify(position),
+    })
+  }
+
+  // Geocercas de inicio y fin del viaje (para mostrar la distancia en vivo)
+  async getTripGeofences(tripId: string) {
+    return this.request<TripGeofences>(`/driver/trips/${tripId}/geofence`)
+  }
+
+  async confirmScheduledTrip(tripId: string) {
+    return this.request<Trip>(`/driver/trips/${tripId}/confirm`, {
+      method: 'POST',
+    })
+  }
+
   async startTrip(tripId: string, options: {
     pin?: string
     qrCode?: string
     driverLatitude?: number
     driverLongitude?: number
+    driverAccuracy?: number
   }) {
     return this.request<Trip>(`/driver/trips/${tripId}/start`, {
       method: 'POST',
@@ -551,6 +765,7 @@ class ApiClient {
   async completeTrip(tripId: string, options?: {
     driverLatitude?: number
     driverLongitude?: number
+    driverAccuracy?: number
   }) {
     return this.request<Trip>(`/driver/trips/${tripId}/complete`, {
       method: 'POST',
@@ -558,6 +773,133 @@ class ApiClient {
     })
   }
 
+  // Ubicación en tiempo real
+  async updateDriverLocation(location: {
+    latitude: number
+    longitude: number
+    accuracy?: number
+    heading?: number | null
+    speed?: number | null
+    recordedAt?: string
+    tripId?: string
+  }) {
+    return this.request<{ success: boolean; tripId: string | null; eta: TripEta | null }>('/driver/location', {
+      method: 'POST',
+      body: JSON.stringify(location),
+    })
+  }
+
+  async getTripTracking(tripId: string) {
+    return this.request<TripTracking>(`/trips/${tripId}/tracking`)
+  }
+
+  /**
+   * Se suscribe al stream SSE de seguimiento de un viaje
+   * Usa fetch (en lugar de EventSource) para poder enviar el token en el header
+   * Retorna una función para cerrar la suscripción
+   */
+  subscribeToTripTracking(
+    tripId: string,
+    handlers: {
+      onSnapshot?: (tracking: TripTracking) => void
+      onLocation?: (update: TripLocationUpdate) => void
+      onError?: (error: Error) => void
+    }
+  ): () => void {
+    return this.openEventStream(`/trips/${tripId}/tracking/stream`, (event, data) => {
+      if (event === 'snapshot') handlers.onSnapshot?.(data as TripTracking)
+      if (event === 'location') handlers.onLocation?.(data as TripLocationUpdate)
+    }, handlers.onError)
+  }
+
+  /**
+   * Se suscribe a la posición del conductor de un viaje compartido
+   * `onEnded` se llama cuando el enlace deja de ser válido (revocado, vencido o viaje terminado)
+   * Retorna una función para cerrar la conexión
+   */
+  subscribeToSharedTrip(
+    token: string,
+    handlers: {
+      onLocation?: (update: SharedTripLocation) => void
+      onEnded?: (message: string) => void
+      onError?: (error: Error) => void
+    }
+  ): () => void {
+    return this.openEventStream(`/share/${token}/stream`, (event, data) => {
+      if (event === 'location') handlers.onLocation?.(data as SharedTripLocation)
+      if (event === 'ended') handlers.onEnded?.((data as { message: string }).message)
+    }, handlers.onError)
+  }
+
+  /**
+   * Abre un stream Server-Sent Events autenticado
+   */
+  private openEventStream(
+    endpoint: string,
+    onEvent: (event: string, data: unknown) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    this.loadToken()
+    const controller = new AbortController()
+
+    const headers: Record<string, string> = { Accept: 'text/event-stream' }
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`
+    }
+
+    const run = async () => {
+      const response = await fetch(`${this.baseURL}${endpoint}`, {
+        headers,
+        signal: controller.signal,
+      })
+
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => ({ message: 'Error desconocido' }))
+        throw new Error(error.message || `HTTP error! status: ${response.status}`)
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const messages = buffer.split('\n\n')
+        buffer = messages.pop() || ''
+
+        for (const message of messages) {
+          let event = 'message'
+          let data = ''
+          for (const line of message.split('\n')) {
+            if (line.startsWith('event: ')) event = line.slice(7)
+            else if (line.startsWith('data: ')) data += line.slice(6)
+          }
+          if (data) {
+            try {
+              onEvent(event, JSON.parse(data))
+            } catch (error) {
+              console.error('Error parsing stream event:', error)
+            }
+          }
+        }
+      }
+
+      // El servidor cerró la conexión: notificar para permitir reconectar
+      throw new Error('Conexión de seguimiento cerrada')
+    }
+
+    run().catch((error) => {
+      if (!controller.signal.aborted) {
+        onError?.(error instanceof Error ? error : new Error(String(error)))
+      }
+    })
+
+    return () => controller.abort()
+  }
+
   // Pagos Stellar
   async getTripPaymentInfo(tripId: string) {
     return this.request<{
@@ -578,7 +920,7 @@ class ApiClient {
         amount: number
         currency: string
         status: string
-        paymentMethodDetails?: any
+        paymentMethodDetails?: TripPayment['paymentMethodDetails']
       } | null
     }>(`/payments/trip/${tripId}`)
   }
@@ -594,6 +936,27 @@ class ApiClient {
     })
   }
 
+  // Pagar un cobro con otro asset de la billetera (path payment)
+  async getStellarPaymentPaths(paymentId: string, sourceAccount: string) {
+    return this.request<StellarPathOptions>(`/payments/${paymentId}/paths?sourceAccount=${encodeURIComponent(sourceAccount)}`)
+  }
+
+  async buildStellarPathPayment(paymentId: string, data: { sourceAccount: string; sourceAsset: StellarAssetRef }) {
+    return this.request<{
+      transactionXdr: string
+      networkPassphrase: string
+      sourceAsset: StellarAssetRef
+      sourceAmount: string
+      sendMax: string
+      slippagePercent: number
+      destinationAsset: StellarAssetRef
+      destinationAmount: string
+    }>(`/payments/${paymentId}/path-payment`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
   // Notificaciones
   async getNotifications(options?: {
     page?: number
@@ -784,6 +1147,126 @@ class ApiClient {
     })
   }
 
+  // Configuración por país para administradores
+  async listCountrySettings() {
+    return this.request<Array<import('@/types').CountrySettingsSummary>>('/admin/country-settings')
+  }
+
+  async getCountrySettings(country: string) {
+    return this.request<{
+      country: string
+      liveVersionId: string | null
+      settings: import('@/types').CountrySettings
+      defaults: import('@/types').CountrySettings
+      versions: Array<import('@/types').CountrySettingsVersion>
+    }>(`/admin/country-settings/${encodeURIComponent(country)}`)
+  }
+
+  async updateCountrySettings(country: string, data: { config: import('@/types').CountrySettings; notes?: string }) {
+    return this.request<import('@/types').CountrySettingsVersion>(`/admin/country-settings/${encodeURIComponent(country)}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // Versiones de tarifas para administradores
+  async getPricingCountries() {
+    return this.request<Array<import('@/types').PricingCountry>>('/admin/pricing')
+  }
+
+  async getPricingVersions(country: string) {
+    return this.request<{
+      country: string
+      liveVersionId: string | null
+      defaults: import('@/types').PricingConfig
+      versions: Array<import('@/types').PricingVersion>
+    }>(`/admin/pricing/${encodeURIComponent(country)}/versions`)
+  }
+
+  async createPricingDraft(data: {
+    country: string
+    config?: import('@/types').PricingConfig
+    copyFromId?: string
+    notes?: string
+  }) {
+    return this.request<import('@/types').PricingVersion>('/admin/pricing/versions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updatePricingDraft(id: string, data: { config?: import('@/types').PricingConfig; notes?: string }) {
+    return this.request<import('@/types').PricingVersion>(`/admin/pricing/versions/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async publishPricingVersion(id: string, effectiveFrom?: string) {
+    return this.request<import('@/types').PricingVersion>(`/admin/pricing/versions/${id}/publish`, {
+      method: 'POST',
+      body: JSON.stringify({ effectiveFrom }),
+    })
+  }
+
+  async deletePricingDraft(id: string) {
+    return this.request(`/admin/pricing/versions/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async previewPricing(data: {
+    country: string
+    draftId?: string
+    config?: import('@/types').PricingConfig
+    distance: number
+    duration?: number
+    vehicleType?: string
+    stops?: number
+    scheduledAt?: string
+  }) {
+    return this.request<{
+      country: string
+      liveVersionId: string | null
+      liveVersion: number | null
+      live: import('@/types').PriceBreakdown
+      draft: import('@/types').PriceBreakdown
+    }>('/admin/pricing/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // Tarifa dinámica para administradores
+  async getSurgeCells() {
+    return this.request<Array<import('@/types').SurgeCell>>('/admin/surge')
+  }
+
+  async recomputeSurge() {
+    return this.request<{ cells: number; surging: number; notifiedDrivers: number }>('/admin/surge/recompute', {
+      method: 'POST',
+    })
+  }
+
+  async setSurgeOverride(data: {
+    cellId?: string
+    latitude?: number
+    longitude?: number
+    multiplier: number
+    expiresInMinutes?: number
+  }) {
+    return this.request('/admin/surge/overrides', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async clearSurgeOverride(cellId: string) {
+    return this.request(`/admin/surge/overrides/${encodeURIComponent(cellId)}`, {
+      method: 'DELETE',
+    })
+  }
+
   // Onboarding de conductores
   async getOnboardingStatus() {
     return this.request<import('@/types').DriverOnboarding>('/onboarding')
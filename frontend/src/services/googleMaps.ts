@@ -125,28 +125,35 @@ function loadGoogleMapsScript(apiKey: string, language = 'es', region = 'CL'): P
 }
 
 /**
- * Calcula el precio basado en la distancia, país y tipo de vehículo
- * Usa el servicio de pricing del backend para obtener tarifas por país
- * @param distance Distancia en kilómetros
- * @param country Código de país (ej: 'MX', 'CL', 'US')
- * @param vehicleType Tipo de vehículo (opcional). Si es SEDAN, aplica descuento
+ * Calcula el precio de una ruta y tipo de vehículo
+ * Usa el servicio de pricing del backend, que aplica las tarifas del país del origen
+ * @param route Distancia (km), duración (minutos), origen, destino y paradas intermedias
+ * @param vehicleType Tipo de vehículo (opcional). Usa las tarifas de su clase
  */
-async function calculatePrice(distance: number, country?: string, vehicleType?: string): Promise<number> {
-  if (distance <= 0) {
-    // Obtener precio base del país
-    try {
-      const { api } = await import('./api')
-      const pricing = await api.calculatePrice(0, country || 'CL', vehicleType)
-      return pricing.totalPrice
-    } catch (error) {
-      console.error('Error calculando precio base:', error)
-      return 0
-    }
-  }
+async function calculatePrice(
+  route: {
+    distance: number
+    duration: number
+    origin: { lat: number; lng: number }
+    destination: { lat: number; lng: number }
+    stops: Array<{ lat: number; lng: number }>
+  },
+  vehicleType?: string
+): Promise<number> {
+  const { distance } = route
 
   try {
     const { api } = await import('./api')
-    const pricing = await api.calculatePrice(distance, country || 'CL', vehicleType)
+    const pricing = await api.calculatePrice({
+      distance,
+      duration: Math.round(route.duration),
+      originLatitude: route.origin.lat,
+      originLongitude: route.origin.lng,
+      destinationLatitude: route.destination.lat,
+      destinationLongitude: route.destination.lng,
+      stops: route.stops.map(stop => ({ latitude: stop.lat, longitude: stop.lng })),
+      vehicleType,
+    })
     return pricing.totalPrice
   } catch (error) {
     console.error('Error calculando precio:', error)
@@ -192,16 +199,43 @@ function calculatePriceFallback(distance: number, vehicleType?: string): number
   return Math.round(totalPrice)
 }
 
+// Tramo de una ruta de Google Directions (solo los campos usados)
+interface RouteLeg {
+  distance?: { value: number; text: string }
+  duration?: { value: number; text: string }
+  start_location?: { lat(): number; lng(): number }
+  end_location?: { lat(): number; lng(): number }
+}
+
+/**
+ * Texto de distancia para rutas con varios tramos (Google solo lo entrega por tramo)
+ */
+function formatDistanceText(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`
+}
+
+/**
+ * Texto de duración para rutas con varios tramos
+ */
+function formatDurationText(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  if (hours === 0) return `${minutes} min`
+  return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`
+}
+
 /**
- * Calcula una ruta entre dos puntos
- * @param country Código de país (ej: 'MX', 'CL') para calcular precio con tarifas locales
+ * Calcula una ruta entre dos puntos, opcionalmente pasando por paradas intermedias
+ * El precio usa las tarifas del país del origen
+ * @param waypoints Paradas intermedias en orden de recorrido (distancia, duración y precio son del total)
  */
 export async function calculateRoute(
   origin: string | { lat: number; lng: number },
   destination: string | { lat: number; lng: number },
   travelMode: TravelMode = 'DRIVING',
   vehicleType?: string,
-  country?: string
+  waypoints: Array<{ lat: number; lng: number }> = []
 ): Promise<RouteInfo | null> {
   if (!window.google?.maps) {
     if (!googleMapsApiKey) {
@@ -226,6 +260,10 @@ export async function calculateRoute(
         ? destination
         : new window.google.maps.LatLng(destination.lat, destination.lng),
       travelMode: window.google.maps.TravelMode[travelMode],
+      waypoints: waypoints.map(point => ({
+        location: new window.google.maps.LatLng(point.lat, point.lng),
+        stopover: true,
+      })),
     }
 
     return new Promise<RouteInfo | null>(async (resolve) => {
@@ -236,18 +274,36 @@ export async function calculateRoute(
         if (status === window.google.maps.DirectionsStatus.OK && result) {
           const route = result.routes[0]
           if (route.legs && route.legs.length > 0) {
-            const leg = route.legs[0]
-
-            if (leg.distance && leg.duration) {
-              const distance = leg.distance.value / 1000 // convertir a km
-              const duration = leg.duration.value / 60 // convertir a minutos
-              const price = await calculatePrice(distance, country, vehicleType)
+            const legs: RouteLeg[] = route.legs
+            const leg = legs[0]
+
+            if (leg.distance && leg.duration && legs.every(l => l.distance && l.duration)) {
+              // Con paradas, la ruta tiene un tramo por parada: sumar todos
+              const totalMeters = legs.reduce((sum, l) => sum + (l.distance?.value || 0), 0)
+              const totalSeconds = legs.reduce((sum, l) => sum + (l.duration?.value || 0), 0)
+              const distance = totalMeters / 1000 // convertir a km
+              const duration = totalSeconds / 60 // convertir a minutos
+              // Con direcciones de texto, las coordenadas salen de la ruta geocodificada por Google
+              const lastLeg = legs[legs.length - 1]
+              const start = leg.start_location
+              const end = lastLeg.end_location
+              const price = await calculatePrice({
+                distance,
+                duration,
+                origin: typeof origin === 'string'
+                  ? { lat: start?.lat() ?? 0, lng: start?.lng() ?? 0 }
+                  : origin,
+                destination: typeof destination === 'string'
+                  ? { lat: end?.lat() ?? 0, lng: end?.lng() ?? 0 }
+                  : destination,
+                stops: waypoints,
+              }, vehicleType)
 
               resolve({
                 distance,
                 duration,
-                distanceText: leg.distance.text,
-                durationText: leg.duration.text,
+                distanceText: legs.length > 1 ? formatDistanceText(totalMeters) : leg.distance.text,
+                durationText: legs.length > 1 ? formatDurationText(totalSeconds) : leg.duration.text,
                 price,
                 polyline: (route.overview_polyline as any)?.points || route.overview_polyline,
                 bounds: result.routes[0].bounds ? {
@@ -210,13 +210,34 @@ export interface Trip {
   passengers: number
   isRoundTrip?: boolean
   returnScheduledAt?: string | null
+  outboundTripId?: string | null
   preferredVehicleType?: VehicleType | null
   routePolyline?: string | null
   routeBounds?: any
   driverRequestedAt?: string | null
   acceptanceDeadline?: string | null
   driverAcceptedAt?: string | null
+  driverConfirmedAt?: string | null
   driverRejectedAt?: string | null
+  driverArrivedAt?: string | null // Llegada del conductor al origen (empieza la espera)
+  noShowEligibleAt?: string | null // Desde cuándo puede marcar al pasajero como no presentado
+  noShowAt?: string | null
+  noShowEvidence?: {
+    latitude: number
+    longitude: number
+    accuracy: number | null
+    distanceMeters: number
+    recordedAt: string
+    driverArrivedAt: string
+    waitedMinutes: number
+  } | null
+  quotedPrice?: number | null // Precio cotizado antes del ajuste por recorrido real
+  actualDistance?: number | null // km según la traza GPS
+  actualDuration?: number | null // minutos
+  fareAdjustment?: TripFareAdjustment | null
+  fareReviewStatus?: FareReviewStatus | null
+  fareReviewedAt?: string | null
+  fareReviewNote?: string | null
   startPin?: string | null
   startPinExpiresAt?: string | null
   startQrCode?: string | null
@@ -227,8 +248,13 @@ export interface Trip {
   basePrice: number
   distancePrice: number
   timePrice: number
+  stopsPrice?: number
   totalPrice: number
+  priceLineItems?: PriceLineItem[] | null // Desglose de las reglas de precio aplicadas
   currency: string
+  fareQuoteId?: string | null // Cotización firmada con la que se creó el viaje
+  pricingVersionId?: string | null // Versión de tarifas con la que se cotizó (null: tarifas por defecto)
+  pricingVersion?: { id: string; version: number; effectiveFrom: string | null } | null
   scheduledAt?: string | null
   startedAt?: string | null
   completedAt?: string | null
@@ -249,6 +275,545 @@ export interface Trip {
     country?: string | null
     formattedAddress?: string | null
   } | null
+  // Tramos vinculados de un viaje de ida y vuelta
+  outboundTrip?: LinkedTripLeg | null
+  returnTrip?: LinkedTripLeg | null
+  stops?: TripStop[]
+  payments?: TripPayment[]
+}
+
+export type PaymentType = 'TRIP_FARE' | 'CANCELLATION_FEE' | 'DRIVER_PENALTY'
+
+export interface TripPayment {
+  id: string
+  amount: number
+  currency: string
+  status: string
+  method: string
+  type: PaymentType
+  paymentMethodDetails?: {
+    description?: string
+    stellarAddress?: string
+    transactionXdr?: string | null
+    assetAmount?: string // Monto a pagar en el asset Stellar (7 decimales)
+    asset?: string // Código del asset (XLM si no viene)
+    assetIssuer?: string | null
+  } | null
+  createdAt: string
+}
+
+// Cargo por cancelar un viaje según la política de cancelación del país
+export type CancellationStage = 'NO_DRIVER' | 'FREE_WINDOW' | 'SCHEDULED_AHEAD' | 'EN_ROUTE' | 'ARRIVED' | 'NO_SHOW'
+
+export interface CancellationCharge {
+  stage: CancellationStage
+  chargedTo: 'PASSENGER' | 'DRIVER' | null // null: sin cargo
+  amount: number
+  currency: string
+  freeUntil: string | null
+  description: string
+}
+
+// Línea del desglose de precio: cada regla aplicada (tarifa base, distancia, recargos, cargos fijos...)
+export interface PriceLineItem {
+  code: string
+  label: string
+  amount: number
+}
+
+export interface TripStop {
+  id: string
+  tripId: string
+  sequence: number
+  address: string
+  latitude: number
+  longitude: number
+  placeId?: string | null
+  reachedAt?: string | null
+}
+
+export interface LinkedTripLeg {
+  id: string
+  tripNumber: string
+  status: TripStatus
+  scheduledAt?: string | null
+  driverId?: string | null
+}
+
+export interface TripEta {
+  target: 'ORIGIN' | 'DESTINATION'
+  distanceMeters: number
+  etaMinutes: number
+  estimatedArrivalAt: string
+}
+
+export interface TripLocationUpdate {
+  tripId: string
+  driverId: string
+  latitude: number
+  longitude: number
+  accuracy?: number | null
+  heading?: number | null
+  speed?: number | null
+  recordedAt: string
+  status: TripStatus
+  eta: TripEta | null
+}
+
+export interface TripBreadcrumb {
+  latitude: number
+  longitude: number
+  heading?: number | null
+  speed?: number | null
+  recordedAt: string
+}
+
+// Enlace público para seguir un viaje en vivo
+export interface TripShareLink {
+  id: string
+  tripId: string
+  token: string
+  expiresAt: string
+  viewCount: number
+  lastViewedAt: string | null
+  createdAt: string
+}
+
+// Posición pública del conductor en un viaje compartido (sin identificadores internos)
+export type SharedTripLocation = Pick<TripLocationUpdate, 'latitude' | 'longitude' | 'heading' | 'recordedAt' | 'status' | 'eta'>
+
+// Vista pública de un viaje compartido
+export interface SharedTrip {
+  trip: Pick<
+    Trip,
+    | 'status'
+    | 'originAddress'
+    | 'originLatitude'
+    | 'originLongitude'
+    | 'destinationAddress'
+    | 'destinationLatitude'
+    | 'destinationLongitude'
+    | 'routePolyline'
+    | 'startedAt'
+    | 'stops'
+  > & {
+    driverFirstName: string | null
+    vehicle: { make: string; model: string; color: string | null; licensePlate: string } | null
+  }
+  lastLocation: SharedTripLocation | null
+  breadcrumbs: TripBreadcrumb[]
+  expiresAt: string
+}
+
+export interface TripTracking {
+  tripId: string
+  status: TripStatus
+  lastLocation: TripLocationUpdate | null
+  breadcrumbs: TripBreadcrumb[]
+}
+
+// Quién hizo un cambio de estado del viaje (SYSTEM: jobs y vencimientos)
+export type TripActorRole = 'PASSENGER' | 'DRIVER' | 'ADMIN' | 'SYSTEM'
+
+// Cambio de estado registrado en el historial del viaje
+export interface TripEvent {
+  id: string
+  tripId: string
+  fromStatus: TripStatus | null // null: creación del viaje
+  toStatus: TripStatus
+  actorId: string | null
+  actorRole: TripActorRole
+  actor?: { id: string; name: string } | null
+  reason: string | null
+  latitude: number | null
+  longitude: number | null
+  metadata?: Record<string, unknown> | null
+  createdAt: string
+}
+
+export interface TripTimeline {
+  tripId: string
+  tripNumber: string
+  status: TripStatus
+  events: TripEvent[]
+  allowedTransitions: TripStatus[] // Estados a los que quien consulta puede llevar el viaje
+}
+
+export type DispatchStrategy = 'BROADCAST' | 'WATERFALL' | 'BATCHED'
+
+export interface TripDispatchOffer {
+  alertId: string
+  driver: {
+    id: string
+    name: string
+    phone?: string | null
+  }
+  status: 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED' | 'CANCELLED'
+  wave: number | null
+  rank: number | null
+  distanceKm: number | null
+  pickupEtaMinutes: number | null
+  radiusKm: number | null
+  rejectionReason: string | null
+  offeredAt: string
+  expiresAt: string
+  viewedAt: string | null
+  acceptedAt: string | null
+  rejectedAt: string | null
+}
+
+export interface TripDispatchLog {
+  tripId: string
+  tripNumber: string
+  status: TripStatus
+  strategy: DispatchStrategy | null
+  waves: number
+  radiusKm: number | null
+  offers: TripDispatchOffer[]
+}
+
+// Cotización firmada de un tramo (la ida o la vuelta de un viaje de ida y vuelta)
+export interface FareQuoteLeg {
+  basePrice: number
+  distancePrice: number
+  timePrice: number
+  stopsPrice: number
+  totalPrice: number
+  currency: string
+  surgeMultiplier: number // Tarifa dinámica en el origen (1 = sin recargo)
+  lineItems: PriceLineItem[]
+  quoteId: string
+  quote: string // Token firmado que exige la creación del viaje
+  scheduledAt: string | null
+  expiresAt: string
+}
+
+// Zona donde opera el servicio: los viajes que salen de ella son del país
+export interface ServiceArea {
+  name: string
+  latitude: number
+  longitude: number
+  radiusKm: number
+}
+
+// Configuración operativa de un país (versionada aparte de las tarifas)
+export interface CountrySettings {
+  dispatch: {
+    strategy: DispatchStrategy
+    batchSize: number // Conductores por ola en BATCHED
+  }
+  serviceAreas: ServiceArea[]
+  geofence: GeofencePolicy
+  stellarAssets: StellarAssetOption[] // Assets Stellar aceptados para cobrar
+}
+
+export interface CountrySettingsVersion {
+  id: string
+  country: string
+  version: number
+  config: CountrySettings
+  notes: string | null
+  createdBy: string
+  createdAt: string
+}
+
+// País configurable y su versión vigente (null: rige la configuración por defecto)
+export interface CountrySettingsSummary {
+  country: string
+  liveVersion: number | null
+  updatedAt: string | null
+}
+
+export interface PricingTier {
+  maxKm: number | null // null: último tramo, sin límite
+  pricePerKm: number
+}
+
+export interface VehicleClassPricing {
+  baseFare: number
+  perKmMultiplier: number // Multiplicador del precio por distancia
+  minimumFare: number
+}
+
+export interface CancellationPolicy {
+  freeWindowMinutes: number // Minutos sin cargo tras la aceptación del conductor
+  scheduledFreeMinutes: number // Programados: sin cargo hasta estos minutos antes de la recogida
+  enRouteFee: number
+  arrivedFee: number
+  arrivalRadiusMeters: number
+  driverPenalty: number
+  noShowGraceMinutes: number // Espera mínima en el origen antes de marcar al pasajero como no presentado
+  noShowFee: number
+}
+
+// QUOTED: se cobra lo cotizado; ACTUAL: se recalcula con el recorrido real; CAPPED: se recalcula con tope
+export type FareAdjustmentMode = 'QUOTED' | 'ACTUAL' | 'CAPPED'
+
+export interface FareAdjustmentPolicy {
+  mode: FareAdjustmentMode
+  maxIncreasePercent: number
+  maxDecreasePercent: number
+  reviewThresholdPercent: number // Diferencia desde la que el viaje se marca para revisión
+}
+
+export type FareReviewStatus = 'PENDING' | 'RESOLVED'
+
+export interface GeofenceRule {
+  radiusMeters: number
+  requireGps: boolean // Sin GPS no se puede iniciar/completar
+  maxAccuracyMeters: number
+}
+
+// Zona con reglas de geocerca propias (p. ej. aeropuertos)
+export interface GeofenceZone {
+  name: string
+  latitude: number
+  longitude: number
+  radiusKm: number
+  start?: Partial<GeofenceRule>
+  completion?: Partial<GeofenceRule>
+}
+
+export interface GeofencePolicy {
+  start: GeofenceRule
+  completion: GeofenceRule
+  overrideRoles: UserRole[] // Roles que pueden autorizar iniciar o completar fuera de la geocerca
+  zones: GeofenceZone[]
+}
+
+// Asset Stellar con que se puede cobrar un viaje (XLM es el asset nativo, sin emisor)
+export interface StellarAssetOption {
+  code: string
+  issuer: string | null
+  peggedTo?: string // Stablecoins: moneda a la par con que se cotiza
+}
+
+export interface StellarAssetRef {
+  code: string // 'XLM' o código del asset
+  issuer: string | null
+}
+
+// Forma de pagar un cobro con otro asset de la cuenta (path payment strict-receive)
+export interface StellarPathOption {
+  sourceAsset: StellarAssetRef
+  sourceAmount: string // Costo estimado hoy
+  sendMax: string // Máximo a gastar, con el margen de deslizamiento
+  path: StellarAssetRef[]
+}
+
+export interface StellarPathOptions {
+  destinationAsset: StellarAssetRef
+  destinationAmount: string // Lo que recibe exactamente el conductor
+  slippagePercent: number
+  options: StellarPathOption[]
+}
+
+// Si la cuenta del conductor puede recibir el asset (UNKNOWN: no se pudo consultar la red)
+export type TrustlineStatus = 'OK' | 'ACCOUNT_NOT_FOUND' | 'NO_TRUSTLINE' | 'NOT_AUTHORIZED' | 'UNKNOWN'
+
+export interface DriverSettlementOptions {
+  stellarAddress: string | null
+  selected: { code: string; issuer: string | null }
+  assets: (StellarAssetOption & { trustline: TrustlineStatus | null })[] // trustline null: sin billetera conectada
+}
+
+export type GeofenceStage = 'START' | 'COMPLETION'
+
+// Geocerca de una etapa del viaje (origen al iniciar, destino al completar)
+export interface TripGeofence extends GeofenceRule {
+  stage: GeofenceStage
+  latitude: number
+  longitude: number
+  zone: string | null
+}
+
+export interface TripGeofences {
+  start: TripGeofence
+  completion: TripGeofence
+  overriddenStages: GeofenceStage[] // Etapas con una autorización de despacho pendiente de usar
+}
+
+export interface GeofenceOverride {
+  id: string
+  tripId: string
+  stage: GeofenceStage
+  reason: string
+  usedAt: string | null
+  driverLatitude: number | null
+  driverLongitude: number | null
+  distanceMeters: number | null
+  createdAt: string
+  grantedBy: { id: string; name: string }
+}
+
+export type SafetyAlertType = 'ROUTE_DEVIATION' | 'LONG_STOP' | 'GPS_LOST'
+export type SafetyAlertStatus = 'AWAITING_PASSENGER' | 'PASSENGER_OK' | 'ESCALATED' | 'RESOLVED'
+export type SafetyAlertResponse = 'OK' | 'HELP'
+
+// Alerta de seguridad de un viaje en curso (desvío, detención prolongada o pérdida de GPS)
+export interface TripSafetyAlert {
+  id: string
+  type: SafetyAlertType
+  status: SafetyAlertStatus
+  passengerResponse: SafetyAlertResponse | null
+  respondedAt: string | null
+  createdAt: string
+}
+
+// Vista de despacho y soporte: mediciones, instantánea del viaje y resolución
+export interface StaffSafetyAlert extends TripSafetyAlert {
+  tripId: string
+  latitude: number | null
+  longitude: number | null
+  details: Record<string, number | string | null>
+  escalatedAt: string | null
+  snapshot: { reason: 'NO_RESPONSE' | 'PASSENGER_HELP'; vehicle?: { make: string; model: string; color: string | null; licensePlate: string } | null } | null
+  resolvedAt: string | null
+  resolutionNote: string | null
+  resolvedBy: { id: string; name: string } | null
+  trip: {
+    id: string
+    tripNumber: string
+    status: TripStatus
+    originAddress: string
+    destinationAddress: string
+    passenger: { id: string; name: string; phone: string | null } | null
+    driver: { id: string; name: string; phone: string | null } | null
+  }
+}
+
+// Contacto al que se avisa cuando el usuario activa el SOS
+export interface EmergencyContact {
+  id: string
+  name: string
+  phone: string | null
+  email: string | null
+  relationship: string | null
+  createdAt: string
+}
+
+export type EmergencyContactInput = Pick<EmergencyContact, 'name' | 'phone' | 'email' | 'relationship'>
+
+export type SosIncidentStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED'
+
+// Resultado del aviso a un contacto de emergencia (LINK: enlace de WhatsApp para enviarlo desde el teléfono)
+export interface SosDelivery {
+  channel: 'SMS' | 'EMAIL' | 'WHATSAPP'
+  to: string
+  status: 'SENT' | 'FAILED' | 'NOT_CONFIGURED' | 'LINK'
+  link?: string
+  error?: string
+}
+
+export interface SosIncident {
+  id: string
+  tripId: string
+  reporterRole: 'PASSENGER' | 'DRIVER'
+  status: SosIncidentStatus
+  latitude: number | null
+  longitude: number | null
+  accuracy: number | null
+  message: string | null
+  snapshot: {
+    tripNumber: string
+    originAddress: string
+    destinationAddress: string
+    vehicle: { make: string; model: string; color: string | null; licensePlate: string } | null
+    counterpart: { id: string; name: string; phone: string | null; role: 'PASSENGER' | 'DRIVER' } | null
+  }
+  contactDeliveries: SosDelivery[] | null
+  acknowledgedAt: string | null
+  resolvedAt: string | null
+  resolutionNote: string | null
+  createdAt: string
+  trip: { id: string; tripNumber: string; status: TripStatus }
+  reporter: { id: string; name: string; phone: string | null }
+  handledBy: { id: string; name: string } | null
+}
+
+// Ajuste de la tarifa al recorrido real, calculado al completar el viaje
+export interface TripFareAdjustment {
+  mode: FareAdjustmentMode
+  planned: { distance: number; durationMinutes: number }
+  actual: { distance: number; durationMinutes: number }
+  quotedPrice: number
+  recalculatedPrice: number
+  finalPrice: number
+  distanceDiffPercent: number
+  priceDiffPercent: number
+  reviewReasons: string[]
+}
+
+// Precio de un viaje para un tipo de vehículo (null: cualquier vehículo)
+export interface VehiclePrice {
+  vehicleType: VehicleType | null
+  totalPrice: number
+  currency: string
+}
+
+// Tarifas de un país (solo se tipan los campos que se editan desde el panel; el resto se conserva)
+export interface PricingConfig {
+  currency: string
+  basePrice: number // Sin tipo de vehículo preferido
+  tiers: PricingTier[]
+  stopFee: number
+  perMinute: number
+  minimumFare: number
+  vehicleClasses: Partial<Record<VehicleType, VehicleClassPricing>> // Clases de vehículo ofrecidas en el país
+  cancellation: CancellationPolicy
+  fareAdjustment: FareAdjustmentPolicy
+  [key: string]: unknown
+}
+
+export type PricingVersionStatus = 'DRAFT' | 'PUBLISHED'
+
+export interface PricingVersion {
+  id: string
+  country: string
+  version: number
+  status: PricingVersionStatus
+  config: PricingConfig
+  notes: string | null
+  effectiveFrom: string | null
+  createdBy: string
+  publishedBy: string | null
+  publishedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PricingCountry {
+  country: string
+  currency: string
+  liveVersionId: string | null
+  liveVersion: number | null
+}
+
+export interface PriceBreakdown {
+  basePrice: number
+  distancePrice: number
+  timePrice: number
+  stopsPrice: number
+  totalPrice: number
+  currency: string
+  lineItems: PriceLineItem[]
+}
+
+export interface SurgeCell {
+  id: string // Celda de la grilla ("fila:columna")
+  country: string | null
+  latitude: number // Centro de la celda
+  longitude: number
+  demand: number
+  supply: number
+  computedMultiplier: number
+  overrideMultiplier: number | null
+  overrideUntil: string | null
+  overriddenBy: string | null
+  notifiedAt: string | null
+  computedAt: string
+  effectiveMultiplier: number
+  isOverridden: boolean
 }
 
 export interface Vehicle {
@@ -340,6 +905,8 @@ export interface Payment {
   status: PaymentStatus
   method: PaymentMethod
   transactionId?: string | null
+  sourceAccount?: string | null // Cuenta Stellar que envió el pago
+  ledgerClosedAt?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -103,6 +103,43 @@ export function generateArrivalMessage(trip: {
   return lines.join('\n')
 }
 
+/**
+ * Genera un mensaje para compartir el seguimiento en vivo de un viaje
+ */
+export function generateTripShareMessage(share: {
+  url: string
+  driverName?: string
+  vehicleInfo?: string
+}): string {
+  const lines = [
+    `📍 *Lumo - Sigue mi viaje en vivo*`,
+    '',
+  ]
+
+  if (share.driverName) {
+    lines.push(`👨‍✈️ *Conductor:* ${share.driverName}`)
+  }
+
+  if (share.vehicleInfo) {
+    lines.push(`🚙 *Vehículo:* ${share.vehicleInfo}`)
+  }
+
+  if (share.driverName || share.vehicleInfo) {
+    lines.push('')
+  }
+
+  lines.push(share.url)
+
+  return lines.join('\n')
+}
+
+/**
+ * Abre WhatsApp para compartir un mensaje eligiendo el contacto en la app
+ */
+export function openWhatsAppShare(message: string): void {
+  window.open(`https://wa.me/?text=${encodeURIComponent(message)}`, '_blank', 'noopener,noreferrer')
+}
+
 /**
  * Abre WhatsApp en una nueva ventana/pestaña
  */